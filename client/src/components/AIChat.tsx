@@ -5,8 +5,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Send, Trash2, Bot, User } from "lucide-react";
+import { Send, Trash2, Bot, User, Play } from "lucide-react";
+import PythonArtifacts from "@/components/PythonArtifacts";
 import type { File } from "@shared/schema";
+import type { ActionResponseOutput } from "@shared/actions";
+import type { PythonArtifact } from "@shared/artifacts";
 
 interface Message {
   role: 'user' | 'assistant';
@@ -19,6 +22,40 @@ interface AIChatProps {
   selectedFile: File | undefined;
 }
 
+// What a run_python action returns in `data`
+interface PythonRunOutput {
+  output: string;
+  error?: string;
+  artifacts: PythonArtifact[];
+}
+
+type PythonRunState = { pending: true } | { pending: false; response: ActionResponseOutput };
+
+// Code of a ```python block, without its language line
+function pythonBlockCode(block: string): string | null {
+  const match = block.match(/^(?:python|py)[ \t]*\n([\s\S]*)$/i);
+  return match ? match[1] : null;
+}
+
+function PythonRunCard({ state }: { state: PythonRunState }) {
+  if (state.pending) {
+    return <div className="text-xs text-muted-foreground">Ejecutando...</div>;
+  }
+  const { response } = state;
+  const result = response.data as PythonRunOutput | undefined;
+  return (
+    <div
+      className={`rounded border p-2 text-xs space-y-1 ${response.success ? 'border-border' : 'border-destructive/50'}`}
+      data-testid="python-run-result"
+    >
+      <div className="font-medium">{response.message}</div>
+      {result?.output && <pre className="whitespace-pre-wrap font-mono">{result.output}</pre>}
+      {result?.error && <pre className="whitespace-pre-wrap font-mono text-destructive">{result.error}</pre>}
+      {result?.artifacts && <PythonArtifacts artifacts={result.artifacts} />}
+    </div>
+  );
+}
+
 export default function AIChat({ projectId, selectedFile }: AIChatProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -29,6 +66,8 @@ export default function AIChat({ projectId, selectedFile }: AIChatProps) {
   ]);
   const [currentMessage, setCurrentMessage] = useState("");
   const [conversationId, setConversationId] = useState<string | null>(null);
+  // Results of running the chat's Python blocks, by message and block
+  const [pythonRuns, setPythonRuns] = useState<Record<string, PythonRunState>>({});
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -72,6 +111,27 @@ export default function AIChat({ projectId, selectedFile }: AIChatProps) {
     },
   });
 
+  const runPythonMutation = useMutation({
+    mutationFn: async ({ code }: { key: string; code: string }) => {
+      const response = await apiRequest("POST", "/api/ai/execute-action", {
+        action: { type: 'run_python', code, projectId },
+      });
+      return response.json() as Promise<ActionResponseOutput>;
+    },
+    onMutate: ({ key }) => {
+      setPythonRuns(prev => ({ ...prev, [key]: { pending: true } }));
+    },
+    onSuccess: (response, { key }) => {
+      setPythonRuns(prev => ({ ...prev, [key]: { pending: false, response } }));
+    },
+    onError: (error: Error, { key }) => {
+      setPythonRuns(prev => ({
+        ...prev,
+        [key]: { pending: false, response: { success: false, message: error.message, requiresConfirmation: false } },
+      }));
+    },
+  });
+
   const createConversationMutation = useMutation({
     mutationFn: async (messages: Message[]) => {
       if (!projectId) throw new Error("No project selected");
@@ -137,6 +197,7 @@ export default function AIChat({ projectId, selectedFile }: AIChatProps) {
       },
     ]);
     setConversationId(null);
+    setPythonRuns({});
   };
 
   const renderMessage = (message: Message, index: number) => {
@@ -164,15 +225,35 @@ export default function AIChat({ projectId, selectedFile }: AIChatProps) {
             {message.content.includes('```') ? (
               // Render code blocks
               <div className="space-y-2">
-                {message.content.split('```').map((part, i) => 
-                  i % 2 === 0 ? (
-                    <p key={i} className="text-muted-foreground whitespace-pre-wrap">{part}</p>
-                  ) : (
-                    <div key={i} className="bg-background rounded p-2 font-mono text-xs overflow-x-auto">
-                      <pre>{part}</pre>
+                {message.content.split('```').map((part, i) => {
+                  if (i % 2 === 0) {
+                    return <p key={i} className="text-muted-foreground whitespace-pre-wrap">{part}</p>;
+                  }
+                  const code = isUser ? null : pythonBlockCode(part);
+                  const runKey = `${index}-${i}`;
+                  const run = pythonRuns[runKey];
+                  return (
+                    <div key={i} className="space-y-1 text-left">
+                      <div className="bg-background rounded p-2 font-mono text-xs overflow-x-auto">
+                        <pre>{part}</pre>
+                      </div>
+                      {code && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 text-xs"
+                          onClick={() => runPythonMutation.mutate({ key: runKey, code })}
+                          disabled={run?.pending}
+                          data-testid={`button-run-python-${runKey}`}
+                        >
+                          <Play className="w-3 h-3 mr-1" />
+                          Ejecutar
+                        </Button>
+                      )}
+                      {run && <PythonRunCard state={run} />}
                     </div>
-                  )
-                )}
+                  );
+                })}
               </div>
             ) : (
               <p className="text-muted-foreground whitespace-pre-wrap">{message.content}</p>
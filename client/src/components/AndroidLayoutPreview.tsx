@@ -0,0 +1,383 @@
+import { useMemo, type CSSProperties, type ReactNode } from "react";
+import {
+  DEFAULT_COLOR_PRIMARY,
+  DEFAULT_TEXT_COLOR,
+  ResourceResolver,
+  parseGravity,
+  simpleTagName,
+  type AndroidResources,
+  type Gravity,
+  type LayoutNode,
+} from "@/lib/androidLayout";
+
+interface AndroidLayoutPreviewProps {
+  root: LayoutNode;
+  resources: AndroidResources;
+}
+
+// How a view group places its children: LinearLayout is a flex box, the
+// others overlay children in one grid cell (or one row per constraint chain)
+type Container = 'vertical' | 'horizontal' | 'frame' | 'constraint';
+
+interface Placement {
+  container: Container;
+  // Grid row for ConstraintLayout children
+  row?: number;
+}
+
+type Size = 'match' | 'wrap' | number;
+
+const FRAME_CONTAINERS = new Set([
+  'FrameLayout', 'RelativeLayout', 'ScrollView', 'NestedScrollView', 'HorizontalScrollView',
+  'CardView', 'MaterialCardView', 'CoordinatorLayout', 'merge',
+]);
+const SCROLL_CONTAINERS = new Set(['ScrollView', 'NestedScrollView', 'HorizontalScrollView']);
+
+const FLEX_ALIGNMENT = { start: 'flex-start', center: 'center', end: 'flex-end', stretch: 'stretch' } as const;
+const TEXT_ALIGNMENT = { start: 'left', center: 'center', end: 'right', stretch: 'left' } as const;
+
+function containerOf(node: LayoutNode, name: string): Container | undefined {
+  const orientation = node.attributes.orientation;
+  if (name === 'RadioGroup' || name === 'TableLayout' || name === 'AppBarLayout') {
+    return orientation === 'horizontal' ? 'horizontal' : 'vertical';
+  }
+  if (name.endsWith('LinearLayout') || name === 'LinearLayoutCompat' || name === 'TableRow') {
+    return orientation === 'vertical' ? 'vertical' : 'horizontal';
+  }
+  if (name === 'ConstraintLayout') return 'constraint';
+  if (FRAME_CONTAINERS.has(name) || name.endsWith('Layout') || node.children.length > 0) return 'frame';
+  return undefined;
+}
+
+function sizeOf(value: string | undefined, resolver: ResourceResolver): Size {
+  if (value === 'match_parent' || value === 'fill_parent') return 'match';
+  if (value === undefined || value === 'wrap_content') return 'wrap';
+  return resolver.dimension(value) ?? 'wrap';
+}
+
+// padding*/layout_margin* attributes as CSS box sides
+function boxSides(
+  attributes: Record<string, string>,
+  prefix: 'padding' | 'layout_margin',
+  resolver: ResourceResolver,
+): Partial<Record<'Top' | 'Right' | 'Bottom' | 'Left', number>> {
+  const get = (suffix: string) => resolver.dimension(attributes[`${prefix}${suffix}`]);
+  const all = get('');
+  const horizontal = get('Horizontal') ?? all;
+  const vertical = get('Vertical') ?? all;
+  const sides = {
+    Top: get('Top') ?? vertical,
+    Bottom: get('Bottom') ?? vertical,
+    Left: get('Start') ?? get('Left') ?? horizontal,
+    Right: get('End') ?? get('Right') ?? horizontal,
+  };
+  return Object.fromEntries(Object.entries(sides).filter(([, value]) => value !== undefined));
+}
+
+function prefixed(sides: ReturnType<typeof boxSides>, property: 'padding' | 'margin'): CSSProperties {
+  return Object.fromEntries(Object.entries(sides).map(([side, value]) => [`${property}${side}`, value]));
+}
+
+// RelativeLayout's parent alignment, read as a layout_gravity
+function relativeGravity(attributes: Record<string, string>): Gravity {
+  const flag = (name: string) => attributes[name] === 'true';
+  const gravity: Gravity = {};
+  if (flag('layout_centerInParent') || flag('layout_centerHorizontal')) gravity.horizontal = 'center';
+  if (flag('layout_centerInParent') || flag('layout_centerVertical')) gravity.vertical = 'center';
+  if (flag('layout_alignParentEnd') || flag('layout_alignParentRight')) gravity.horizontal = 'end';
+  if (flag('layout_alignParentBottom')) gravity.vertical = 'end';
+  return gravity;
+}
+
+function constraintGravity(attributes: Record<string, string>): Gravity {
+  const has = (...names: string[]) => names.some(name => attributes[`layout_constraint${name}`] !== undefined);
+  const start = has('Start_toStartOf', 'Start_toEndOf', 'Left_toLeftOf', 'Left_toRightOf');
+  const end = has('End_toEndOf', 'End_toStartOf', 'Right_toRightOf', 'Right_toLeftOf');
+  const top = has('Top_toTopOf', 'Top_toBottomOf');
+  const bottom = has('Bottom_toBottomOf', 'Bottom_toTopOf');
+  return {
+    horizontal: start && end ? 'center' : end ? 'end' : 'start',
+    vertical: top && bottom ? 'center' : bottom ? 'end' : 'start',
+  };
+}
+
+// One grid row per step of a `layout_constraintTop_toBottomOf` chain
+function constraintRows(children: LayoutNode[]): Map<LayoutNode, number> {
+  const byId = new Map<string, LayoutNode>();
+  for (const child of children) {
+    const id = child.attributes.id?.replace(/^@\+?id\//, '');
+    if (id) byId.set(id, child);
+  }
+  const rows = new Map<LayoutNode, number>();
+  const rowOf = (child: LayoutNode, seen: Set<LayoutNode>): number => {
+    const known = rows.get(child);
+    if (known !== undefined) return known;
+    const anchor = byId.get(child.attributes.layout_constraintTop_toBottomOf?.replace(/^@\+?id\//, '') ?? '');
+    const row = anchor && !seen.has(anchor) ? rowOf(anchor, new Set(seen).add(child)) + 1 : 1;
+    rows.set(child, row);
+    return row;
+  };
+  for (const child of children) rowOf(child, new Set());
+  return rows;
+}
+
+// Size and alignment of a child inside its parent
+function placementStyle(node: LayoutNode, placement: Placement, resolver: ResourceResolver, name: string): CSSProperties {
+  const attributes = node.attributes;
+  let width = sizeOf(attributes.layout_width, resolver);
+  let height = sizeOf(attributes.layout_height, resolver);
+  const style: CSSProperties = prefixed(boxSides(attributes, 'layout_margin', resolver), 'margin');
+
+  if (placement.container === 'vertical' || placement.container === 'horizontal') {
+    const vertical = placement.container === 'vertical';
+    const main = vertical ? height : width;
+    const cross = vertical ? width : height;
+    const weight = Number(attributes.layout_weight);
+    const gravity = parseGravity(attributes.layout_gravity);
+    const crossGravity = vertical ? gravity.horizontal : gravity.vertical;
+
+    if (weight > 0) style.flex = `${weight} 1 0px`;
+    else if (main === 'match') style.flex = '1 1 auto';
+    else style.flex = '0 0 auto';
+    if (typeof main === 'number' && !(weight > 0)) style[vertical ? 'height' : 'width'] = main;
+
+    if (cross === 'match') style.alignSelf = 'stretch';
+    else {
+      if (typeof cross === 'number') style[vertical ? 'width' : 'height'] = cross;
+      if (crossGravity) style.alignSelf = FLEX_ALIGNMENT[crossGravity];
+    }
+    return style;
+  }
+
+  let gravity: Gravity;
+  if (placement.container === 'constraint') {
+    gravity = constraintGravity(attributes);
+    // 0dp means "match constraints"
+    if (width === 0) width = 'match';
+    if (height === 0) height = 'match';
+    style.gridArea = `${placement.row ?? 1} / 1`;
+  } else {
+    gravity = { ...relativeGravity(attributes), ...parseGravity(attributes.layout_gravity) };
+    style.gridArea = '1 / 1';
+  }
+  if (typeof width === 'number') style.width = width;
+  if (typeof height === 'number') style.height = height;
+  style.justifySelf = width === 'match' ? 'stretch' : gravity.horizontal ?? 'start';
+  style.alignSelf = height === 'match' ? 'stretch' : gravity.vertical ?? 'start';
+  if (name === 'FloatingActionButton' && !attributes.layout_gravity && placement.container === 'frame') {
+    style.justifySelf = 'end';
+    style.alignSelf = 'end';
+  }
+  return style;
+}
+
+function textStyle(attributes: Record<string, string>, resolver: ResourceResolver, defaults: { color: string; align: Gravity }): CSSProperties {
+  const textStyles = (attributes.textStyle ?? '').split('|');
+  const gravity = { ...defaults.align, ...parseGravity(attributes.gravity) };
+  const singleLine = attributes.singleLine === 'true' || attributes.maxLines === '1' || attributes.lines === '1';
+  return {
+    display: 'flex',
+    alignItems: FLEX_ALIGNMENT[gravity.vertical ?? 'start'],
+    justifyContent: FLEX_ALIGNMENT[gravity.horizontal ?? 'start'],
+    textAlign: TEXT_ALIGNMENT[gravity.horizontal ?? 'start'],
+    fontSize: resolver.dimension(attributes.textSize) ?? 14,
+    color: resolver.color(attributes.textColor) ?? defaults.color,
+    fontWeight: textStyles.includes('bold') ? 700 : undefined,
+    fontStyle: textStyles.includes('italic') ? 'italic' : undefined,
+    whiteSpace: singleLine ? 'nowrap' : 'pre-wrap',
+    overflow: singleLine ? 'hidden' : undefined,
+    textOverflow: singleLine ? 'ellipsis' : undefined,
+    overflowWrap: 'anywhere',
+  };
+}
+
+function drawableName(value: string | undefined): string | undefined {
+  return value?.replace(/^@(\+?[\w.]+:)?/, '');
+}
+
+function renderChildren(node: LayoutNode, container: Container, resolver: ResourceResolver): ReactNode[] {
+  const rows = container === 'constraint' ? constraintRows(node.children) : undefined;
+  return node.children.map((child, index) => renderNode(child, { container, row: rows?.get(child) }, resolver, index));
+}
+
+function containerStyle(container: Container, node: LayoutNode): CSSProperties {
+  const gravity = parseGravity(node.attributes.gravity);
+  if (container === 'vertical' || container === 'horizontal') {
+    const vertical = container === 'vertical';
+    const main = vertical ? gravity.vertical : gravity.horizontal;
+    const cross = vertical ? gravity.horizontal : gravity.vertical;
+    return {
+      display: 'flex',
+      flexDirection: vertical ? 'column' : 'row',
+      justifyContent: FLEX_ALIGNMENT[main ?? 'start'],
+      alignItems: FLEX_ALIGNMENT[cross ?? 'start'],
+    };
+  }
+  const rowCount = container === 'constraint'
+    ? Math.max(1, ...Array.from(constraintRows(node.children).values()))
+    : 1;
+  return {
+    display: 'grid',
+    gridTemplateColumns: 'minmax(0, 1fr)',
+    // The last row takes the remaining height so bottom constraints reach the bottom
+    gridTemplateRows: rowCount > 1 ? `repeat(${rowCount - 1}, auto) minmax(0, 1fr)` : 'minmax(0, 1fr)',
+  };
+}
+
+function renderNode(node: LayoutNode, placement: Placement, resolver: ResourceResolver, key: number): ReactNode {
+  const attributes = node.attributes;
+  if (attributes.visibility === 'gone') return null;
+
+  const name = simpleTagName(node.tag);
+  const style: CSSProperties = {
+    boxSizing: 'border-box',
+    minWidth: 0,
+    position: 'relative',
+    ...placementStyle(node, placement, resolver, name),
+    ...prefixed(boxSides(attributes, 'padding', resolver), 'padding'),
+  };
+  const background = resolver.color(attributes.background);
+  if (background) style.backgroundColor = background;
+  if (attributes.visibility === 'invisible') style.visibility = 'hidden';
+  if (attributes.alpha !== undefined && !Number.isNaN(Number(attributes.alpha))) style.opacity = Number(attributes.alpha);
+  if (attributes.elevation || attributes.cardElevation) style.boxShadow = '0 1px 3px rgba(0, 0, 0, 0.3)';
+  if (name.endsWith('CardView')) style.borderRadius = resolver.dimension(attributes.cardCornerRadius) ?? 4;
+  const title = attributes.id ? `${name} ${attributes.id}` : name;
+  const text = resolver.text(attributes.text) ?? '';
+
+  if (name === 'include' || name === 'fragment' || name === 'FragmentContainerView') {
+    const target = attributes.layout ?? attributes.name ?? '';
+    return (
+      <div key={key} title={title} style={{ ...style, border: '1px dashed #9e9e9e', minHeight: 48, padding: 4, fontSize: 11, color: '#757575' }}>
+        {`<${name}> ${target}`}
+      </div>
+    );
+  }
+
+  const container = containerOf(node, name);
+  if (container) {
+    const isScroll = SCROLL_CONTAINERS.has(name);
+    const isToolbar = name === 'Toolbar' || name === 'MaterialToolbar';
+    return (
+      <div
+        key={key}
+        title={title}
+        style={{
+          ...style,
+          ...containerStyle(container, node),
+          overflow: isScroll ? 'auto' : 'hidden',
+          ...(isToolbar && !background ? { backgroundColor: DEFAULT_COLOR_PRIMARY, color: 'white', minHeight: 56 } : {}),
+        }}
+      >
+        {renderChildren(node, container, resolver)}
+      </div>
+    );
+  }
+
+  if (/EditText$/.test(name)) {
+    const hint = resolver.text(attributes.hint);
+    const masked = /Password/i.test(attributes.inputType ?? '') ? '•'.repeat(text.length) : text;
+    return (
+      <div
+        key={key}
+        title={title}
+        style={{
+          paddingTop: 8, paddingBottom: 8, paddingLeft: 4, paddingRight: 4, minHeight: 40,
+          ...style,
+          ...textStyle(attributes, resolver, { color: DEFAULT_TEXT_COLOR, align: { vertical: 'center' } }),
+          borderBottom: '1px solid rgba(0, 0, 0, 0.42)',
+        }}
+      >
+        {masked || <span style={{ color: resolver.color(attributes.textColorHint) ?? 'rgba(0, 0, 0, 0.38)' }}>{hint}</span>}
+      </div>
+    );
+  }
+
+  if (/(ImageView|ImageButton|FloatingActionButton)$/.test(name)) {
+    const fab = name === 'FloatingActionButton';
+    const size = fab ? 56 : 48;
+    return (
+      <div
+        key={key}
+        title={`${title} ${attributes.src ?? attributes.srcCompat ?? ''}`}
+        style={{
+          width: size,
+          height: size,
+          ...style,
+          backgroundColor: fab ? resolver.color(attributes.backgroundTint) ?? DEFAULT_COLOR_PRIMARY : background ?? '#e0e0e0',
+          borderRadius: fab ? '50%' : style.borderRadius,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          overflow: 'hidden',
+          fontSize: 10,
+          color: fab ? 'white' : '#757575',
+        }}
+      >
+        {fab ? '+' : drawableName(attributes.src ?? attributes.srcCompat) ?? 'imagen'}
+      </div>
+    );
+  }
+
+  if (/(CheckBox|RadioButton|Switch|SwitchCompat|SwitchMaterial)$/.test(name)) {
+    const checked = attributes.checked === 'true';
+    const marker = name.endsWith('RadioButton') ? (checked ? '◉' : '○') : name.includes('Switch') ? (checked ? '⬤━' : '━⬤') : (checked ? '☑' : '☐');
+    return (
+      <div key={key} title={title} style={{ minHeight: 32, ...style, ...textStyle(attributes, resolver, { color: DEFAULT_TEXT_COLOR, align: { vertical: 'center' } }), gap: 8 }}>
+        <span style={{ color: DEFAULT_COLOR_PRIMARY, fontSize: 18 }}>{marker}</span>
+        <span>{text}</span>
+      </div>
+    );
+  }
+
+  if (/Button$/.test(name)) {
+    const allCaps = attributes.textAllCaps !== 'false';
+    return (
+      <div
+        key={key}
+        title={title}
+        style={{
+          paddingTop: 8, paddingBottom: 8, paddingLeft: 16, paddingRight: 16, minHeight: 36, borderRadius: 4,
+          ...style,
+          ...textStyle(attributes, resolver, { color: 'white', align: { horizontal: 'center', vertical: 'center' } }),
+          backgroundColor: background ?? resolver.color(attributes.backgroundTint) ?? DEFAULT_COLOR_PRIMARY,
+          textTransform: allCaps ? 'uppercase' : undefined,
+          fontWeight: (attributes.textStyle ?? '').includes('bold') ? 700 : 500,
+          boxShadow: '0 1px 3px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        {text}
+      </div>
+    );
+  }
+
+  if (/TextView$/.test(name) || name === 'Chip' || attributes.text !== undefined) {
+    return (
+      <div key={key} title={title} style={{ ...style, ...textStyle(attributes, resolver, { color: DEFAULT_TEXT_COLOR, align: {} }) }}>
+        {text}
+      </div>
+    );
+  }
+
+  // Plain views are usually dividers or spacers; anything else is unknown
+  if (name === 'View' || name === 'Space') {
+    return <div key={key} title={title} style={style} />;
+  }
+  return (
+    <div key={key} title={title} style={{ minHeight: 48, ...style, border: '1px dashed #9e9e9e', padding: 4, fontSize: 11, color: '#757575' }}>
+      {name}
+    </div>
+  );
+}
+
+export default function AndroidLayoutPreview({ root, resources }: AndroidLayoutPreviewProps) {
+  const resolver = useMemo(() => new ResourceResolver(resources), [resources]);
+  return (
+    <div
+      style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 1fr)', gridTemplateRows: 'minmax(0, 1fr)', width: '100%', height: '100%', overflow: 'hidden' }}
+      data-testid="android-layout-preview"
+    >
+      {renderNode(root, { container: 'frame' }, resolver, 0)}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
+import { Download, RefreshCw } from "lucide-react";
+import type { Project } from "@shared/schema";
+
+type Severity = 'high' | 'medium' | 'low' | 'info';
+type Risk = 'high' | 'medium' | 'low' | 'unknown';
+
+interface ApkAuditReport {
+  generatedAt: string;
+  apk: {
+    packageName?: string;
+    versionName?: string;
+    versionCode?: string;
+    minSdkVersion?: string;
+    targetSdkVersion?: string;
+    size: number;
+    sha256: string;
+  };
+  flags: {
+    debuggable: boolean;
+    allowBackup: boolean;
+    usesCleartextTraffic: boolean;
+    cleartextSource: 'manifest' | 'network_security_config' | 'default';
+    networkSecurityConfig?: string;
+  };
+  permissions: Array<{ name: string; risk: Risk; protectionLevel: string; description?: string }>;
+  components: Array<{
+    type: string;
+    name: string;
+    exported: boolean;
+    explicit: boolean;
+    permission?: string;
+    actions: string[];
+    launcher: boolean;
+  }>;
+  urls: Array<{ value: string; sources: string[] }>;
+  secrets: Array<{ kind: string; value: string; sources: string[] }>;
+  certificates: Array<{
+    schemes: string[];
+    subject: string;
+    issuer: string;
+    serialNumber: string;
+    validFrom: string;
+    validTo: string;
+    sha256: string;
+    sha1: string;
+    signatureAlgorithm: string;
+    publicKey: string;
+    debug: boolean;
+    selfSigned: boolean;
+  }>;
+  findings: Array<{ severity: Severity; category: string; title: string; detail?: string }>;
+  truncated: string[];
+}
+
+interface ApkAuditDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SEVERITY_LABELS: Record<Severity | Risk, string> = {
+  high: 'Alto',
+  medium: 'Medio',
+  low: 'Bajo',
+  info: 'Info',
+  unknown: 'Desconocido',
+};
+
+const SEVERITY_CLASSES: Record<Severity | Risk, string> = {
+  high: 'bg-red-600 text-white hover:bg-red-600',
+  medium: 'bg-orange-500 text-white hover:bg-orange-500',
+  low: 'bg-yellow-400 text-black hover:bg-yellow-400',
+  info: 'bg-muted text-muted-foreground hover:bg-muted',
+  unknown: 'bg-muted text-muted-foreground hover:bg-muted',
+};
+
+const CLEARTEXT_SOURCES: Record<ApkAuditReport['flags']['cleartextSource'], string> = {
+  manifest: 'android:usesCleartextTraffic',
+  network_security_config: 'configuración de seguridad de red',
+  default: 'valor por defecto según targetSdkVersion',
+};
+
+function SeverityBadge({ level }: { level: Severity | Risk }) {
+  return <Badge className={SEVERITY_CLASSES[level]}>{SEVERITY_LABELS[level]}</Badge>;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function fetchReport(projectId: string): Promise<ApkAuditReport> {
+  const response = await fetch(`/api/projects/${projectId}/apk/audit`, { credentials: 'include' });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || response.statusText);
+  }
+  return response.json();
+}
+
+export default function ApkAuditDialog({ project, open, onOpenChange }: ApkAuditDialogProps) {
+  const [tab, setTab] = useState('findings');
+
+  const auditQuery = useQuery<ApkAuditReport>({
+    queryKey: ['/api/projects', project.id, 'apk', 'audit'],
+    queryFn: () => fetchReport(project.id),
+    enabled: open,
+  });
+
+  const report = auditQuery.data;
+  const counts = (report?.findings ?? []).reduce<Record<string, number>>((acc, finding) => {
+    acc[finding.severity] = (acc[finding.severity] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl" data-testid="dialog-apk-audit">
+        <DialogHeader>
+          <DialogTitle>Auditoría de seguridad del APK</DialogTitle>
+          <DialogDescription>
+            Permisos, componentes exportados, configuración de red, secretos incrustados y certificados de firma del APK subido.
+          </DialogDescription>
+        </DialogHeader>
+
+        {auditQuery.isLoading ? (
+          <div className="text-sm text-muted-foreground">Analizando el APK…</div>
+        ) : auditQuery.error ? (
+          <div className="text-sm text-destructive" data-testid="text-audit-error">
+            {(auditQuery.error as Error).message}
+          </div>
+        ) : report && (
+          <>
+            <div className="flex items-start justify-between space-x-2">
+              <div className="min-w-0 text-xs space-y-1">
+                <div className="text-sm font-mono truncate">{report.apk.packageName ?? 'Paquete desconocido'}</div>
+                <div className="text-muted-foreground">
+                  Versión {report.apk.versionName ?? '?'} ({report.apk.versionCode ?? '?'}) · SDK mínimo {report.apk.minSdkVersion ?? '?'} ·
+                  SDK objetivo {report.apk.targetSdkVersion ?? '?'} · {formatBytes(report.apk.size)}
+                </div>
+                <div className="font-mono text-muted-foreground truncate" title={report.apk.sha256}>SHA-256 {report.apk.sha256}</div>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {(['high', 'medium', 'low', 'info'] as Severity[]).map((severity) => (
+                    <Badge key={severity} className={SEVERITY_CLASSES[severity]} data-testid={`audit-count-${severity}`}>
+                      {SEVERITY_LABELS[severity]}: {counts[severity] ?? 0}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex space-x-2 shrink-0">
+                <Button variant="outline" size="sm" onClick={() => auditQuery.refetch()} disabled={auditQuery.isFetching}>
+                  <RefreshCw className="w-4 h-4" />
+                </Button>
+                <Button asChild size="sm" data-testid="button-download-audit">
+                  <a href={`/api/projects/${project.id}/apk/audit?download=1`} download>
+                    <Download className="w-4 h-4 mr-2" />
+                    Descargar JSON
+                  </a>
+                </Button>
+              </div>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab}>
+              <TabsList>
+                <TabsTrigger value="findings">Hallazgos ({report.findings.length})</TabsTrigger>
+                <TabsTrigger value="permissions">Permisos ({report.permissions.length})</TabsTrigger>
+                <TabsTrigger value="components">Componentes ({report.components.length})</TabsTrigger>
+                <TabsTrigger value="network">Red ({report.urls.length})</TabsTrigger>
+                <TabsTrigger value="secrets">Secretos ({report.secrets.length})</TabsTrigger>
+                <TabsTrigger value="signing">Firma</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="findings">
+                <ScrollArea className="h-96 border rounded">
+                  {report.findings.length === 0 && (
+                    <div className="p-2 text-sm text-muted-foreground">No se encontraron problemas.</div>
+                  )}
+                  {report.findings.map((finding, index) => (
+                    <div key={index} className="flex items-start space-x-2 px-2 py-1.5 border-b text-xs" data-testid={`audit-finding-${index}`}>
+                      <SeverityBadge level={finding.severity} />
+                      <div className="min-w-0">
+                        <div className="font-medium break-words">{finding.title}</div>
+                        {finding.detail && <div className="text-muted-foreground break-all">{finding.detail}</div>}
+                      </div>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="permissions">
+                <ScrollArea className="h-96 border rounded">
+                  {report.permissions.length === 0 && (
+                    <div className="p-2 text-sm text-muted-foreground">El APK no solicita permisos.</div>
+                  )}
+                  {report.permissions.map((permission) => (
+                    <div key={permission.name} className="flex items-center space-x-2 px-2 py-1 border-b text-xs">
+                      <SeverityBadge level={permission.risk} />
+                      <span className="font-mono truncate" title={permission.name}>{permission.name}</span>
+                      {permission.description && <span className="text-muted-foreground truncate">{permission.description}</span>}
+                    </div>
+                  ))}
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="components">
+                <ScrollArea className="h-96 border rounded">
+                  {report.components.map((component) => (
+                    <div key={`${component.type}:${component.name}`} className="px-2 py-1 border-b text-xs">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="outline">{component.type}</Badge>
+                        <span className="font-mono truncate" title={component.name}>{component.name}</span>
+                        {component.exported && (
+                          <Badge variant={component.permission || component.launcher ? 'secondary' : 'destructive'}>
+                            {component.explicit ? 'Exportado' : 'Exportado (por defecto)'}
+                          </Badge>
+                        )}
+                        {component.launcher && <Badge variant="secondary">Lanzador</Badge>}
+                      </div>
+                      {component.permission && <div className="text-muted-foreground">Permiso: {component.permission}</div>}
+                      {component.actions.length > 0 && (
+                        <div className="text-muted-foreground font-mono break-all">{component.actions.join(', ')}</div>
+                      )}
+                    </div>
+                  ))}
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="network" className="space-y-2">
+                <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div className="border rounded p-2">
+                    <div className="text-muted-foreground">android:debuggable</div>
+                    <div className={report.flags.debuggable ? 'text-destructive font-medium' : ''}>{report.flags.debuggable ? 'Sí' : 'No'}</div>
+                  </div>
+                  <div className="border rounded p-2">
+                    <div className="text-muted-foreground">android:allowBackup</div>
+                    <div>{report.flags.allowBackup ? 'Sí' : 'No'}</div>
+                  </div>
+                  <div className="border rounded p-2">
+                    <div className="text-muted-foreground">Tráfico HTTP sin cifrar</div>
+                    <div>
+                      {report.flags.usesCleartextTraffic ? 'Permitido' : 'Bloqueado'}
+                      <span className="text-muted-foreground"> · {CLEARTEXT_SOURCES[report.flags.cleartextSource]}</span>
+                    </div>
+                  </div>
+                </div>
+                {report.truncated.includes('urls') && (
+                  <div className="text-xs text-muted-foreground">Se muestran solo las primeras {report.urls.length} URLs.</div>
+                )}
+                <ScrollArea className="h-72 border rounded">
+                  {report.urls.length === 0 && (
+                    <div className="p-2 text-sm text-muted-foreground">No se encontraron URLs.</div>
+                  )}
+                  {report.urls.map((url) => (
+                    <div key={url.value} className="px-2 py-1 border-b text-xs">
+                      <div className={`font-mono break-all ${/^(http|ws|ftp):/i.test(url.value) ? 'text-orange-600' : ''}`}>{url.value}</div>
+                      <div className="text-muted-foreground">{url.sources.join(', ')}</div>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="secrets">
+                <ScrollArea className="h-96 border rounded">
+                  {report.secrets.length === 0 && (
+                    <div className="p-2 text-sm text-muted-foreground">No se encontraron claves ni tokens conocidos.</div>
+                  )}
+                  {report.secrets.map((secret, index) => (
+                    <div key={index} className="px-2 py-1 border-b text-xs">
+                      <div className="flex items-center space-x-2">
+                        <SeverityBadge level="high" />
+                        <span className="font-medium">{secret.kind}</span>
+                        <span className="font-mono break-all">{secret.value}</span>
+                      </div>
+                      <div className="text-muted-foreground">{secret.sources.join(', ')}</div>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="signing">
+                <ScrollArea className="h-96 border rounded">
+                  {report.certificates.length === 0 && (
+                    <div className="p-2 text-sm text-destructive">El APK no está firmado.</div>
+                  )}
+                  {report.certificates.map((certificate) => (
+                    <div key={certificate.sha256} className="px-2 py-2 border-b text-xs space-y-1">
+                      <div className="flex flex-wrap gap-1">
+                        {certificate.schemes.map((scheme) => <Badge key={scheme} variant="outline">{scheme}</Badge>)}
+                        {certificate.debug && <Badge variant="destructive">Depuración</Badge>}
+                        {certificate.selfSigned && <Badge variant="secondary">Autofirmado</Badge>}
+                      </div>
+                      <div><span className="text-muted-foreground">Sujeto:</span> {certificate.subject}</div>
+                      <div><span className="text-muted-foreground">Emisor:</span> {certificate.issuer}</div>
+                      <div>
+                        <span className="text-muted-foreground">Validez:</span>{' '}
+                        {new Date(certificate.validFrom).toLocaleDateString()} – {new Date(certificate.validTo).toLocaleDateString()}
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Algoritmo:</span> {certificate.signatureAlgorithm} · {certificate.publicKey}
+                      </div>
+                      <div className="font-mono break-all"><span className="text-muted-foreground font-sans">SHA-256:</span> {certificate.sha256}</div>
+                      <div className="font-mono break-all"><span className="text-muted-foreground font-sans">SHA-1:</span> {certificate.sha1}</div>
+                      <div className="font-mono break-all"><span className="text-muted-foreground font-sans">Serie:</span> {certificate.serialNumber}</div>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
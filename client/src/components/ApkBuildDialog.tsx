@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { io } from "socket.io-client";
+import { Download, Hammer, Check, Circle, X } from "lucide-react";
+import type { Project } from "@shared/schema";
+
+type ApkBuildStep = 'resources' | 'xml' | 'sign_v1' | 'package' | 'sign_v2' | 'done' | 'failed';
+
+interface ApkBuildProgress {
+  projectId: string;
+  step: ApkBuildStep;
+  message: string;
+}
+
+interface ApkBuildResult {
+  changedEntries: string[];
+  resources: { changed: string[]; skipped: string[] };
+  size: number;
+  sha256: string;
+  builtAt: string;
+  downloadUrl: string;
+}
+
+interface ApkEditSummary {
+  changes: Array<{ path: string; description: string }>;
+  skipped: Array<{ target: string; reason: string }>;
+}
+
+interface ApkBuildDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STEP_LABELS: Array<[ApkBuildStep, string]> = [
+  ['resources', 'Recursos'],
+  ['xml', 'XML binarios'],
+  ['sign_v1', 'Firma v1'],
+  ['package', 'Empaquetado y alineación'],
+  ['sign_v2', 'Firma v2'],
+];
+
+export default function ApkBuildDialog({ project, open, onOpenChange }: ApkBuildDialogProps) {
+  const [progress, setProgress] = useState<ApkBuildProgress[]>([]);
+  const { toast } = useToast();
+
+  // Progress arrives over the project's room while the build request is pending
+  useEffect(() => {
+    if (!open) return;
+    const socket = io();
+    socket.emit('join-project', project.id);
+    socket.on('apk-build-progress', (data: ApkBuildProgress) => {
+      if (data.projectId === project.id) setProgress((current) => [...current, data]);
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [open, project.id]);
+
+  const buildMutation = useMutation({
+    mutationFn: async (): Promise<ApkBuildResult> => {
+      const response = await fetch(`/api/projects/${project.id}/apk/build`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to build APK');
+      }
+      return response.json();
+    },
+    onMutate: () => {
+      setProgress([]);
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "APK generado",
+        description: result.changedEntries.length > 0
+          ? `Se recompilaron ${result.changedEntries.length} entradas y se firmó el APK.`
+          : "No había cambios; se volvió a firmar el APK original.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo generar el APK. ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const iconMutation = useMutation({
+    mutationFn: async (image: File): Promise<ApkEditSummary> => {
+      const formData = new FormData();
+      formData.append('image', image);
+      const response = await fetch(`/api/projects/${project.id}/apk/icon`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to change icon');
+      }
+      return response.json();
+    },
+    onSuccess: (summary) => {
+      toast({
+        title: "Icono actualizado",
+        description: `Se reemplazaron ${summary.changes.length} imágenes. Genera el APK para incluirlas.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo cambiar el icono. ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reached = new Set(progress.map((entry) => entry.step));
+  const failed = progress.find((entry) => entry.step === 'failed');
+  const current = buildMutation.isPending ? progress[progress.length - 1]?.step : undefined;
+  const result = buildMutation.data;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-apk-build">
+        <DialogHeader>
+          <DialogTitle>Generar APK firmado</DialogTitle>
+          <DialogDescription>
+            Recompila los recursos y el manifiesto modificados y firma el APK con la clave de depuración del proyecto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <label className="text-sm font-medium" htmlFor="apk-icon-input">Icono de la aplicación (PNG)</label>
+          <Input
+            id="apk-icon-input"
+            type="file"
+            accept="image/png"
+            disabled={iconMutation.isPending || buildMutation.isPending}
+            onChange={(event) => {
+              const image = event.target.files?.[0];
+              if (image) iconMutation.mutate(image);
+              event.target.value = '';
+            }}
+            data-testid="input-apk-icon"
+          />
+        </div>
+
+        <div className="space-y-2">
+          {STEP_LABELS.map(([step, label]) => {
+            const isCurrent = step === current;
+            const isDone = (reached.has(step) && !isCurrent) || reached.has('done');
+            return (
+              <div key={step} className="flex items-center space-x-2 text-sm" data-testid={`apk-build-step-${step}`}>
+                {isDone ? (
+                  <Check className="w-4 h-4 text-green-500" />
+                ) : isCurrent ? (
+                  <Circle className="w-4 h-4 text-primary animate-pulse" />
+                ) : (
+                  <Circle className="w-4 h-4 text-muted-foreground" />
+                )}
+                <span className={isDone || isCurrent ? '' : 'text-muted-foreground'}>{label}</span>
+              </div>
+            );
+          })}
+          {failed && (
+            <div className="flex items-center space-x-2 text-sm text-destructive" data-testid="apk-build-error">
+              <X className="w-4 h-4" />
+              <span>{failed.message}</span>
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className="space-y-1 text-xs text-muted-foreground" data-testid="apk-build-result">
+            <div>{(result.size / 1024).toFixed(1)} KB · SHA-256 <code>{result.sha256.slice(0, 16)}…</code></div>
+            {result.resources.skipped.length > 0 && (
+              <div>Valores no aplicados (no existen en resources.arsc): {result.resources.skipped.join(', ')}</div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          {result && (
+            <Button variant="outline" asChild data-testid="button-download-apk">
+              <a href={result.downloadUrl} download>
+                <Download className="w-4 h-4 mr-2" />
+                Descargar
+              </a>
+            </Button>
+          )}
+          <Button onClick={() => buildMutation.mutate()} disabled={buildMutation.isPending} data-testid="button-build-apk">
+            <Hammer className="w-4 h-4 mr-2" />
+            {buildMutation.isPending ? 'Generando…' : 'Generar'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { X, Columns, WandSparkles, Bug } from "lucide-react";
-import type { File } from "@shared/schema";
+import { X, Columns, WandSparkles, Bug, History } from "lucide-react";
+import HistoryPanel from "@/components/HistoryPanel";
+import NotebookEditor from "@/components/NotebookEditor";
+import type { File, RevisionAuthor } from "@shared/schema";
+import { isGeneratedSmaliPath } from "@shared/paths";
 
 interface CodeEditorProps {
   files: File[];
@@ -16,6 +19,10 @@ interface CodeEditorProps {
   onTabSelect: (fileId: string) => void;
   onTabClose: (fileId: string) => void;
   onFileSelect: (fileId: string) => void;
+  // Place the cursor on this line once the file is shown
+  revealLocation?: { fileId: string; line: number; column: number } | null;
+  onLocationRevealed?: () => void;
+  readOnly?: boolean;
 }
 
 export default function CodeEditor({ 
@@ -25,12 +32,22 @@ export default function CodeEditor({
   activeTab, 
   onTabSelect, 
   onTabClose,
-  onFileSelect 
+  onFileSelect,
+  revealLocation,
+  onLocationRevealed,
+  readOnly: readOnlyProject = false,
 }: CodeEditorProps) {
+  // Smali disassembled from the DEX is regenerated, never edited
+  const readOnly = readOnlyProject || (!!selectedFile && isGeneratedSmaliPath(selectedFile.path));
   const [code, setCode] = useState("");
+  // The file `code` was loaded from, so a reveal waits for the right content
+  const [loadedFileId, setLoadedFileId] = useState<string | null>(null);
   const [language, setLanguage] = useState("html");
   const [cursorPosition, setCursorPosition] = useState({ line: 1, column: 1 });
   const [errors, setErrors] = useState<string[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -39,14 +56,43 @@ export default function CodeEditor({
     if (selectedFile) {
       setCode(selectedFile.content);
       setLanguage(selectedFile.type);
+      setLoadedFileId(selectedFile.id);
     }
   }, [selectedFile]);
 
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!revealLocation || !textarea || loadedFileId !== revealLocation.fileId) return;
+    const lines = textarea.value.split('\n');
+    const line = Math.min(Math.max(revealLocation.line, 1), lines.length);
+    const column = Math.min(Math.max(revealLocation.column, 1), lines[line - 1].length + 1);
+    const offset = lines.slice(0, line - 1).reduce((total, text) => total + text.length + 1, 0) + column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    // leading-6: 24px per line, with a few lines of context above
+    textarea.scrollTop = Math.max(0, (line - 4) * 24);
+    setCursorPosition({ line, column });
+    onLocationRevealed?.();
+  }, [revealLocation, loadedFileId]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    };
+  }, []);
+
   const updateFileMutation = useMutation({
-    mutationFn: async ({ fileId, content }: { fileId: string; content: string }) => {
+    mutationFn: async ({ fileId, content, author = 'user', source = 'editor' }: {
+      fileId: string;
+      content: string;
+      author?: RevisionAuthor;
+      source?: string;
+    }) => {
       const response = await apiRequest("PUT", `/api/files/${fileId}`, {
         content,
         isModified: true,
+        author,
+        source,
       });
       return response.json();
     },
@@ -67,7 +113,7 @@ export default function CodeEditor({
     onSuccess: (data) => {
       setCode(data.code);
       if (selectedFile) {
-        updateFileMutation.mutate({ fileId: selectedFile.id, content: data.code });
+        updateFileMutation.mutate({ fileId: selectedFile.id, content: data.code, author: 'ai', source: 'ai_generate' });
       }
       toast({
         title: "Código generado",
@@ -95,7 +141,7 @@ export default function CodeEditor({
     onSuccess: (data) => {
       setCode(data.fixedCode);
       if (selectedFile) {
-        updateFileMutation.mutate({ fileId: selectedFile.id, content: data.fixedCode });
+        updateFileMutation.mutate({ fileId: selectedFile.id, content: data.fixedCode, author: 'ai', source: 'ai_fix' });
       }
       setErrors([]);
       toast({
@@ -113,14 +159,14 @@ export default function CodeEditor({
   });
 
   const handleCodeChange = (newCode: string) => {
+    if (readOnly) return;
     setCode(newCode);
     if (selectedFile) {
       // Debounce the update
-      const timeoutId = setTimeout(() => {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = setTimeout(() => {
         updateFileMutation.mutate({ fileId: selectedFile.id, content: newCode });
       }, 1000);
-      
-      return () => clearTimeout(timeoutId);
     }
   };
 
@@ -158,6 +204,8 @@ export default function CodeEditor({
         return <i className="fab fa-js text-yellow-500 mr-2"></i>;
       case 'py':
         return <i className="fab fa-python text-green-500 mr-2"></i>;
+      case 'ipynb':
+        return <i className="fas fa-book text-orange-400 mr-2"></i>;
       case 'java':
         return <i className="fab fa-java text-red-500 mr-2"></i>;
       case 'kt':
@@ -241,6 +289,27 @@ export default function CodeEditor({
     );
   }
 
+  if (selectedFile.type === 'ipynb') {
+    return (
+      <div className="flex-1 flex flex-col min-h-0" data-testid="code-editor">
+        {renderTabs()}
+        <div className="flex-1 flex overflow-hidden">
+          <NotebookEditor
+            projectId={selectedFile.projectId}
+            file={selectedFile}
+            readOnly={readOnly}
+            onSave={(fileId, content) => updateFileMutation.mutate({ fileId, content })}
+            isHistoryOpen={isHistoryOpen}
+            onToggleHistory={() => setIsHistoryOpen(!isHistoryOpen)}
+          />
+          {isHistoryOpen && (
+            <HistoryPanel file={selectedFile} readOnly={readOnly} onClose={() => setIsHistoryOpen(false)} />
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex-1 flex flex-col" data-testid="code-editor">
       {/* Editor Tabs */}
@@ -268,7 +337,7 @@ export default function CodeEditor({
             <Button 
               size="sm" 
               onClick={handleAIGenerate}
-              disabled={aiGenerateMutation.isPending}
+              disabled={readOnly || aiGenerateMutation.isPending}
               data-testid="button-ai-improve"
             >
               <WandSparkles className="w-3 h-3 mr-1" />
@@ -278,7 +347,7 @@ export default function CodeEditor({
               variant="secondary" 
               size="sm" 
               onClick={handleFixErrors}
-              disabled={aiFixErrorsMutation.isPending}
+              disabled={readOnly || aiFixErrorsMutation.isPending}
               data-testid="button-ai-fix"
             >
               <Bug className="w-3 h-3 mr-1" />
@@ -287,6 +356,17 @@ export default function CodeEditor({
           </div>
         </div>
         <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          {readOnly && <span data-testid="text-read-only">Solo lectura</span>}
+          <Button
+            variant={isHistoryOpen ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+            data-testid="button-history"
+          >
+            <History className="w-3 h-3 mr-1" />
+            Historial
+          </Button>
           <span data-testid="cursor-position">Línea {cursorPosition.line}, Columna {cursorPosition.column}</span>
           <span>UTF-8</span>
           <span>LF</span>
@@ -316,8 +396,10 @@ export default function CodeEditor({
           {/* Code Content */}
           <div className="flex-1 relative">
             <Textarea
+              ref={textareaRef}
               value={code}
               onChange={(e) => handleCodeChange(e.target.value)}
+              readOnly={readOnly}
               className="w-full h-full border-0 bg-transparent resize-none font-mono text-sm leading-6 p-4"
               placeholder="Escribe tu código aquí..."
               data-testid="code-textarea"
@@ -331,6 +413,10 @@ export default function CodeEditor({
               }}
             />
           </div>
+
+          {isHistoryOpen && (
+            <HistoryPanel file={selectedFile} readOnly={readOnly} onClose={() => setIsHistoryOpen(false)} />
+          )}
         </div>
       </div>
 
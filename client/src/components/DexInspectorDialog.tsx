@@ -0,0 +1,270 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { FileCode, Search } from "lucide-react";
+import type { File, Project } from "@shared/schema";
+
+interface DexClassSummary {
+  descriptor: string;
+  name: string;
+  dexFile: string;
+  accessFlags: string;
+  superclass: string | null;
+  fields: number;
+  methods: number;
+}
+
+interface DexClassDetail extends DexClassSummary {
+  interfaces: string[];
+  sourceFile: string | null;
+  smali: string;
+}
+
+interface DexStringSearch {
+  total: number;
+  matches: Array<{
+    dexFile: string;
+    index: number;
+    value: string;
+    usages: Array<{ descriptor: string; method: string }>;
+  }>;
+}
+
+interface DexInspectorDialogProps {
+  project: Project;
+  open: boolean;
+  readOnly?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFileSelect: (fileId: string) => void;
+}
+
+// Long class lists are filtered rather than rendered whole
+const MAX_LISTED_CLASSES = 200;
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || response.statusText);
+  }
+  return response.json();
+}
+
+export default function DexInspectorDialog({ project, open, readOnly = false, onOpenChange, onFileSelect }: DexInspectorDialogProps) {
+  const [tab, setTab] = useState('classes');
+  const [classFilter, setClassFilter] = useState('');
+  const [selectedClass, setSelectedClass] = useState<string | null>(null);
+  const [stringQuery, setStringQuery] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const classesQuery = useQuery<DexClassSummary[]>({
+    queryKey: ['/api/projects', project.id, 'dex', 'classes'],
+    queryFn: () => fetchJson(`/api/projects/${project.id}/dex/classes`),
+    enabled: open,
+  });
+
+  const detailQuery = useQuery<DexClassDetail>({
+    queryKey: ['/api/projects', project.id, 'dex', 'class', selectedClass],
+    queryFn: () => fetchJson(`/api/projects/${project.id}/dex/class?descriptor=${encodeURIComponent(selectedClass!)}`),
+    enabled: open && !!selectedClass,
+  });
+
+  const stringsQuery = useQuery<DexStringSearch>({
+    queryKey: ['/api/projects', project.id, 'dex', 'strings', submittedQuery],
+    queryFn: () => fetchJson(`/api/projects/${project.id}/dex/strings?q=${encodeURIComponent(submittedQuery)}`),
+    enabled: open && submittedQuery.length > 0,
+  });
+
+  const filteredClasses = useMemo(() => {
+    const needle = classFilter.trim().toLowerCase();
+    const classes = classesQuery.data ?? [];
+    return needle ? classes.filter((cls) => cls.name.toLowerCase().includes(needle)) : classes;
+  }, [classesQuery.data, classFilter]);
+
+  const openMutation = useMutation({
+    mutationFn: async (descriptor: string): Promise<File> => {
+      const response = await apiRequest('POST', `/api/projects/${project.id}/dex/open`, { descriptor });
+      return response.json();
+    },
+    onSuccess: (file) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', project.id, 'files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/files', file.id] });
+      onFileSelect(file.id);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo abrir el smali. ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const showClass = (descriptor: string) => {
+    setSelectedClass(descriptor);
+    setTab('classes');
+  };
+
+  const detail = detailQuery.data;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl" data-testid="dialog-dex-inspector">
+        <DialogHeader>
+          <DialogTitle>Inspector DEX</DialogTitle>
+          <DialogDescription>
+            Clases, métodos y cadenas de los archivos classes*.dex del APK, desensamblados a smali de solo lectura.
+          </DialogDescription>
+        </DialogHeader>
+
+        {classesQuery.error ? (
+          <div className="text-sm text-destructive" data-testid="text-dex-error">
+            {(classesQuery.error as Error).message}
+          </div>
+        ) : (
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList>
+              <TabsTrigger value="classes" data-testid="tab-dex-classes">Clases</TabsTrigger>
+              <TabsTrigger value="strings" data-testid="tab-dex-strings">Cadenas</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="classes" className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-3">
+              <div className="space-y-2">
+                <Input
+                  placeholder="Filtrar clases…"
+                  value={classFilter}
+                  onChange={(event) => setClassFilter(event.target.value)}
+                  data-testid="input-dex-class-filter"
+                />
+                <div className="text-xs text-muted-foreground">
+                  {classesQuery.isLoading
+                    ? 'Analizando DEX…'
+                    : `${filteredClasses.length} de ${classesQuery.data?.length ?? 0} clases`}
+                </div>
+                <ScrollArea className="h-96 border rounded">
+                  {filteredClasses.slice(0, MAX_LISTED_CLASSES).map((cls) => (
+                    <button
+                      key={cls.descriptor}
+                      className={`block w-full text-left px-2 py-1 text-xs font-mono truncate hover:bg-muted ${
+                        cls.descriptor === selectedClass ? 'bg-primary/10' : ''
+                      }`}
+                      title={cls.name}
+                      onClick={() => setSelectedClass(cls.descriptor)}
+                      data-testid={`dex-class-${cls.descriptor}`}
+                    >
+                      {cls.name}
+                    </button>
+                  ))}
+                  {filteredClasses.length > MAX_LISTED_CLASSES && (
+                    <div className="px-2 py-1 text-xs text-muted-foreground">
+                      Refina el filtro para ver las {filteredClasses.length - MAX_LISTED_CLASSES} restantes.
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+
+              <div className="space-y-2 min-w-0">
+                {!selectedClass ? (
+                  <div className="text-sm text-muted-foreground">Selecciona una clase para ver su smali.</div>
+                ) : detailQuery.isLoading ? (
+                  <div className="text-sm text-muted-foreground">Desensamblando…</div>
+                ) : detailQuery.error ? (
+                  <div className="text-sm text-destructive">{(detailQuery.error as Error).message}</div>
+                ) : detail && (
+                  <>
+                    <div className="flex items-center justify-between space-x-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-mono truncate" title={detail.name}>{detail.name}</div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          <Badge variant="outline">{detail.dexFile.slice(1)}</Badge>
+                          <Badge variant="outline">{detail.fields} campos</Badge>
+                          <Badge variant="outline">{detail.methods} métodos</Badge>
+                          {detail.sourceFile && <Badge variant="secondary">{detail.sourceFile}</Badge>}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        disabled={readOnly || openMutation.isPending}
+                        onClick={() => openMutation.mutate(detail.descriptor)}
+                        data-testid="button-open-smali"
+                      >
+                        <FileCode className="w-4 h-4 mr-2" />
+                        Abrir en el editor
+                      </Button>
+                    </div>
+                    <ScrollArea className="h-80 border rounded bg-muted/30">
+                      <pre className="p-2 text-xs font-mono whitespace-pre" data-testid="text-dex-smali">{detail.smali}</pre>
+                    </ScrollArea>
+                  </>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="strings" className="space-y-2">
+              <form
+                className="flex space-x-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  setSubmittedQuery(stringQuery.trim());
+                }}
+              >
+                <Input
+                  placeholder="Buscar en las cadenas (URLs, claves, mensajes…)"
+                  value={stringQuery}
+                  onChange={(event) => setStringQuery(event.target.value)}
+                  data-testid="input-dex-string-search"
+                />
+                <Button type="submit" disabled={!stringQuery.trim()} data-testid="button-dex-string-search">
+                  <Search className="w-4 h-4" />
+                </Button>
+              </form>
+              {stringsQuery.isLoading && <div className="text-sm text-muted-foreground">Buscando…</div>}
+              {stringsQuery.error && (
+                <div className="text-sm text-destructive">{(stringsQuery.error as Error).message}</div>
+              )}
+              {stringsQuery.data && (
+                <>
+                  <div className="text-xs text-muted-foreground">
+                    {stringsQuery.data.total > stringsQuery.data.matches.length
+                      ? `Mostrando ${stringsQuery.data.matches.length} de ${stringsQuery.data.total} coincidencias`
+                      : `${stringsQuery.data.total} coincidencias`}
+                  </div>
+                  <ScrollArea className="h-96 border rounded">
+                    {stringsQuery.data.matches.map((match) => (
+                      <div key={`${match.dexFile}:${match.index}`} className="px-2 py-1 border-b text-xs" data-testid={`dex-string-${match.index}`}>
+                        <div className="font-mono break-all">{JSON.stringify(match.value)}</div>
+                        {match.usages.length === 0 ? (
+                          <div className="text-muted-foreground">Sin usos con const-string</div>
+                        ) : (
+                          match.usages.map((usage) => (
+                            <button
+                              key={`${usage.descriptor}${usage.method}`}
+                              className="block text-left font-mono text-primary hover:underline truncate"
+                              onClick={() => showClass(usage.descriptor)}
+                            >
+                              {usage.descriptor}-&gt;{usage.method}
+                            </button>
+                          ))
+                        )}
+                      </div>
+                    ))}
+                  </ScrollArea>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,31 +1,187 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { FilePlus, FolderPlus, RefreshCw, Upload, Circle } from "lucide-react";
+import { FilePlus, FolderPlus, RefreshCw, Upload, Circle, Pencil, Trash2, Package, Binary, ShieldAlert } from "lucide-react";
+import { joinProjectPath, projectPathBasename, projectPathDirname } from "@shared/paths";
+import { createNotebook, serializeNotebook } from "@shared/notebook";
+import ApkBuildDialog from "@/components/ApkBuildDialog";
+import DexInspectorDialog from "@/components/DexInspectorDialog";
+import ApkAuditDialog from "@/components/ApkAuditDialog";
 import type { Project, File } from "@shared/schema";
 
 interface FileExplorerProps {
   project: Project | null;
   files: File[];
   selectedFileId: string | null;
+  readOnly?: boolean;
   onFileSelect: (fileId: string) => void;
 }
 
-export default function FileExplorer({ project, files, selectedFileId, onFileSelect }: FileExplorerProps) {
+interface TreeFolder {
+  path: string;
+  name: string;
+  folders: TreeFolder[];
+  files: File[];
+}
+
+// A tree entry being renamed, deleted or dragged
+type TreeItem =
+  | { kind: 'file'; path: string; fileId: string }
+  | { kind: 'folder'; path: string };
+
+// Nest files under their folders; `folderPaths` adds folders with no files
+function buildTree(files: File[], folderPaths: string[]): TreeFolder {
+  const root: TreeFolder = { path: '/', name: '', folders: [], files: [] };
+  const byPath = new Map<string, TreeFolder>([['/', root]]);
+
+  const ensureFolder = (folderPath: string): TreeFolder => {
+    const existing = byPath.get(folderPath);
+    if (existing) return existing;
+    const parent = ensureFolder(projectPathDirname(folderPath));
+    const folder: TreeFolder = { path: folderPath, name: projectPathBasename(folderPath), folders: [], files: [] };
+    parent.folders.push(folder);
+    byPath.set(folderPath, folder);
+    return folder;
+  };
+
+  folderPaths.forEach(ensureFolder);
+  files.forEach(file => ensureFolder(projectPathDirname(file.path)).files.push(file));
+
+  const sort = (folder: TreeFolder) => {
+    folder.folders.sort((a, b) => a.name.localeCompare(b.name));
+    folder.files.sort((a, b) => a.name.localeCompare(b.name));
+    folder.folders.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+// apiRequest errors look like `409: {"error":"..."}`; show only the message
+function describeError(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export default function FileExplorer({ project, files, selectedFileId, readOnly = false, onFileSelect }: FileExplorerProps) {
   const [newFileName, setNewFileName] = useState("");
   const [newFileType, setNewFileType] = useState("html");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+  const [isBuildDialogOpen, setIsBuildDialogOpen] = useState(false);
+  const [isDexDialogOpen, setIsDexDialogOpen] = useState(false);
+  const [isAuditDialogOpen, setIsAuditDialogOpen] = useState(false);
   const [expandedFolders, setExpandedFolders] = useState<string[]>(["/src"]);
+  // New files and folders are created inside the last folder clicked
+  const [targetFolder, setTargetFolder] = useState("/");
+  const [isFolderDialogOpen, setIsFolderDialogOpen] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [renaming, setRenaming] = useState<TreeItem | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deleting, setDeleting] = useState<TreeItem | null>(null);
+  const [dragged, setDragged] = useState<TreeItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: folderPaths = [] } = useQuery<string[]>({
+    queryKey: ['/api/projects', project?.id, 'folders'],
+    enabled: !!project,
+  });
+
+  const tree = useMemo(() => buildTree(files, folderPaths), [files, folderPaths]);
+
+  const invalidateTree = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', project?.id, 'files'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', project?.id, 'folders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: describeError(error),
+      variant: "destructive",
+    });
+  };
+
+  const createFolderMutation = useMutation({
+    mutationFn: async (path: string) => {
+      if (!project) throw new Error("No project selected");
+      const response = await apiRequest("POST", `/api/projects/${project.id}/folders`, { path });
+      return response.json();
+    },
+    onSuccess: (_data, path) => {
+      invalidateTree();
+      setIsFolderDialogOpen(false);
+      setNewFolderName("");
+      setExpandedFolders(prev => Array.from(new Set([...prev, projectPathDirname(path), path])));
+    },
+    onError: showError("No se pudo crear la carpeta"),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ item, to }: { item: TreeItem; to: string }) => {
+      if (!project) throw new Error("No project selected");
+      const response = item.kind === 'file'
+        ? await apiRequest("POST", `/api/files/${item.fileId}/move`, { path: to })
+        : await apiRequest("POST", `/api/projects/${project.id}/folders/move`, { from: item.path, to });
+      return response.json();
+    },
+    onSuccess: (_data, { item, to }) => {
+      invalidateTree();
+      setRenaming(null);
+      if (item.kind === 'folder') {
+        // Keep moved folders expanded under their new path
+        setExpandedFolders(prev => prev.map(path =>
+          path === item.path || path.startsWith(item.path + '/') ? to + path.slice(item.path.length) : path
+        ));
+      }
+    },
+    onError: showError("No se pudo mover"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (item: TreeItem) => {
+      if (!project) throw new Error("No project selected");
+      const response = item.kind === 'file'
+        ? await apiRequest("DELETE", `/api/files/${item.fileId}`)
+        : await apiRequest("DELETE", `/api/projects/${project.id}/folders?${new URLSearchParams({ path: item.path })}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTree();
+      setDeleting(null);
+    },
+    onError: showError("No se pudo eliminar"),
+  });
+
   const createFileMutation = useMutation({
     mutationFn: async (fileData: { name: string; type: string; path: string }) => {
       if (!project) throw new Error("No project selected");
@@ -40,7 +196,7 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/projects', project?.id, 'files'] });
+      invalidateTree();
       setIsCreateDialogOpen(false);
       setNewFileName("");
       toast({
@@ -70,23 +226,27 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
       });
       
       if (!response.ok) {
-        throw new Error('Failed to upload APK');
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to upload APK');
       }
       
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/projects', project?.id, 'files'] });
+    onSuccess: (data: { summary?: { packageName?: string; registeredFiles: number } }) => {
+      invalidateTree();
       setIsUploadDialogOpen(false);
+      const packageName = data.summary?.packageName;
       toast({
         title: "APK procesado",
-        description: "El archivo APK se ha descompilado correctamente.",
+        description: packageName
+          ? `${packageName} se ha descompilado: ${data.summary?.registeredFiles} archivos de texto importados.`
+          : "El archivo APK se ha descompilado correctamente.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "No se pudo procesar el archivo APK.",
+        description: `No se pudo procesar el archivo APK. ${error.message}`,
         variant: "destructive",
       });
     },
@@ -102,6 +262,8 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
         return '// Código JavaScript\nconsole.log("Hola mundo!");';
       case 'py':
         return '# Código Python\nprint("Hola mundo!")';
+      case 'ipynb':
+        return serializeNotebook(createNotebook());
       case 'java':
         return 'public class Main {\n    public static void main(String[] args) {\n        System.out.println("Hola mundo!");\n    }\n}';
       case 'kt':
@@ -125,6 +287,8 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
         return <i className="fab fa-js text-yellow-500 text-xs"></i>;
       case 'py':
         return <i className="fab fa-python text-green-500 text-xs"></i>;
+      case 'ipynb':
+        return <i className="fas fa-book text-orange-400 text-xs"></i>;
       case 'java':
         return <i className="fab fa-java text-red-500 text-xs"></i>;
       case 'kt':
@@ -138,17 +302,82 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
     }
   };
 
+  // Paths are validated client-side too so bad names fail before a request
+  const resolvePath = (folder: string, name: string): string | null => {
+    try {
+      return joinProjectPath(folder, name.trim());
+    } catch (error) {
+      toast({
+        title: "Nombre no válido",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
   const handleCreateFile = () => {
     if (!newFileName.trim()) return;
     
-    const path = `/src/${newFileName}`;
+    const path = resolvePath(targetFolder, newFileName);
+    if (!path) return;
     createFileMutation.mutate({
-      name: newFileName,
+      name: projectPathBasename(path),
       type: newFileType,
       path,
     });
   };
 
+  const handleCreateFolder = () => {
+    if (!newFolderName.trim()) return;
+
+    const path = resolvePath(targetFolder, newFolderName);
+    if (path) createFolderMutation.mutate(path);
+  };
+
+  const startRename = (item: TreeItem) => {
+    setRenaming(item);
+    setRenameValue(projectPathBasename(item.path));
+  };
+
+  const handleRename = () => {
+    if (!renaming || !renameValue.trim()) return;
+
+    const to = resolvePath(projectPathDirname(renaming.path), renameValue);
+    if (!to) return;
+    if (to === renaming.path) {
+      setRenaming(null);
+      return;
+    }
+    moveMutation.mutate({ item: renaming, to });
+  };
+
+  const canDropInto = (item: TreeItem, folderPath: string) => {
+    if (projectPathDirname(item.path) === folderPath) return false;
+    return item.kind === 'file' || (folderPath !== item.path && !folderPath.startsWith(item.path + '/'));
+  };
+
+  const handleDragOver = (event: React.DragEvent, folderPath: string) => {
+    if (!dragged || !canDropInto(dragged, folderPath)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(folderPath);
+  };
+
+  const handleDrop = (event: React.DragEvent, folderPath: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    if (!dragged || !canDropInto(dragged, folderPath)) return;
+
+    const to = resolvePath(folderPath, projectPathBasename(dragged.path));
+    if (to) {
+      moveMutation.mutate({ item: dragged, to });
+      setExpandedFolders(prev => prev.includes(folderPath) ? prev : [...prev, folderPath]);
+    }
+    setDragged(null);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.name.endsWith('.apk')) {
@@ -164,56 +393,114 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
     );
   };
 
-  const renderFileTree = () => {
-    const groupedFiles = files.reduce((acc, file) => {
-      const pathParts = file.path.split('/').filter(Boolean);
-      const folder = pathParts.length > 1 ? `/${pathParts[0]}` : '/';
-      
-      if (!acc[folder]) {
-        acc[folder] = [];
-      }
-      acc[folder].push(file);
-      return acc;
-    }, {} as Record<string, File[]>);
-
-    return Object.entries(groupedFiles).map(([folder, folderFiles]) => (
-      <div key={folder} className="space-y-1">
-        {folder !== '/' && (
-          <div 
-            className="flex items-center space-x-1 py-1 px-2 rounded hover:bg-secondary cursor-pointer text-sm"
-            onClick={() => toggleFolder(folder)}
-            data-testid={`folder-${folder.replace('/', '')}`}
+  const renderContextMenu = (item: TreeItem, children: React.ReactNode) => (
+    <ContextMenu>
+      <ContextMenuTrigger asChild disabled={readOnly}>
+        {children}
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuItem onClick={() => startRename(item)} data-testid={`menu-rename-${item.path}`}>
+          <Pencil className="w-3 h-3 mr-2" />
+          Renombrar
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          className="text-destructive"
+          onClick={() => setDeleting(item)}
+          data-testid={`menu-delete-${item.path}`}
+        >
+          <Trash2 className="w-3 h-3 mr-2" />
+          Eliminar
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+
+  const renderFile = (file: File) => {
+    const item: TreeItem = { kind: 'file', path: file.path, fileId: file.id };
+
+    return (
+      <div key={file.id}>
+        {renderContextMenu(item, (
+          <div
+            className={`flex items-center space-x-1 py-1 px-2 rounded cursor-pointer text-sm ${
+              selectedFileId === file.id ? 'bg-secondary' : 'hover:bg-secondary'
+            }`}
+            onClick={() => {
+              onFileSelect(file.id);
+              setTargetFolder(projectPathDirname(file.path));
+            }}
+            draggable={!readOnly}
+            onDragStart={() => setDragged(item)}
+            onDragEnd={() => {
+              setDragged(null);
+              setDropTarget(null);
+            }}
+            data-testid={`file-${file.name}`}
           >
-            <i className={`fas ${expandedFolders.includes(folder) ? 'fa-chevron-down' : 'fa-chevron-right'} text-xs text-muted-foreground`}></i>
-            <i className="fas fa-folder text-primary text-xs"></i>
-            <span>{folder.replace('/', '')}</span>
+            {getFileIcon(file.type)}
+            <span className="truncate">{file.name}</span>
+            {file.isModified && (
+              <Circle className="w-2 h-2 fill-accent text-accent ml-auto" data-testid={`modified-indicator-${file.name}`} />
+            )}
           </div>
-        )}
-        
-        {(folder === '/' || expandedFolders.includes(folder)) && (
-          <div className={folder !== '/' ? 'ml-4 space-y-1' : 'space-y-1'}>
-            {folderFiles.map((file) => (
-              <div
-                key={file.id}
-                className={`flex items-center space-x-1 py-1 px-2 rounded cursor-pointer text-sm ${
-                  selectedFileId === file.id ? 'bg-secondary' : 'hover:bg-secondary'
-                }`}
-                onClick={() => onFileSelect(file.id)}
-                data-testid={`file-${file.name}`}
-              >
-                {getFileIcon(file.type)}
-                <span>{file.name}</span>
-                {file.isModified && (
-                  <Circle className="w-2 h-2 fill-accent text-accent ml-auto" data-testid={`modified-indicator-${file.name}`} />
-                )}
-              </div>
-            ))}
+        ))}
+      </div>
+    );
+  };
+
+  const renderFolder = (folder: TreeFolder): React.ReactNode => {
+    const item: TreeItem = { kind: 'folder', path: folder.path };
+    const isExpanded = expandedFolders.includes(folder.path);
+
+    return (
+      <div key={folder.path} className="space-y-1">
+        {renderContextMenu(item, (
+          <div
+            className={`flex items-center space-x-1 py-1 px-2 rounded cursor-pointer text-sm ${
+              dropTarget === folder.path ? 'bg-primary/20 ring-1 ring-primary' : 'hover:bg-secondary'
+            } ${targetFolder === folder.path ? 'text-foreground' : ''}`}
+            onClick={() => {
+              toggleFolder(folder.path);
+              setTargetFolder(folder.path);
+            }}
+            draggable={!readOnly}
+            onDragStart={(event) => {
+              event.stopPropagation();
+              setDragged(item);
+            }}
+            onDragEnd={() => {
+              setDragged(null);
+              setDropTarget(null);
+            }}
+            onDragOver={(event) => handleDragOver(event, folder.path)}
+            onDragLeave={() => setDropTarget(current => current === folder.path ? null : current)}
+            onDrop={(event) => handleDrop(event, folder.path)}
+            data-testid={`folder-${folder.path.slice(1)}`}
+          >
+            <i className={`fas ${isExpanded ? 'fa-chevron-down' : 'fa-chevron-right'} text-xs text-muted-foreground`}></i>
+            <i className={`fas ${isExpanded ? 'fa-folder-open' : 'fa-folder'} text-primary text-xs`}></i>
+            <span className="truncate">{folder.name}</span>
+          </div>
+        ))}
+
+        {isExpanded && (
+          <div className="ml-4 space-y-1">
+            {folder.folders.map(renderFolder)}
+            {folder.files.map(renderFile)}
           </div>
         )}
       </div>
-    ));
+    );
   };
 
+  const renderFileTree = () => (
+    <div className="space-y-1">
+      {tree.folders.map(renderFolder)}
+      {tree.files.map(renderFile)}
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full" data-testid="file-explorer">
       {/* Header */}
@@ -223,7 +510,7 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
           <div className="flex space-x-1">
             <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
               <DialogTrigger asChild>
-                <Button variant="ghost" size="sm" className="p-1" data-testid="button-new-file">
+                <Button variant="ghost" size="sm" className="p-1" disabled={readOnly} data-testid="button-new-file">
                   <FilePlus className="w-3 h-3" />
                 </Button>
               </DialogTrigger>
@@ -232,6 +519,9 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
                   <DialogTitle>Crear nuevo archivo</DialogTitle>
                 </DialogHeader>
                 <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Se creará en <code>{targetFolder}</code>
+                  </p>
                   <Input
                     placeholder="Nombre del archivo"
                     value={newFileName}
@@ -247,6 +537,7 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
                       <SelectItem value="css">CSS</SelectItem>
                       <SelectItem value="js">JavaScript</SelectItem>
                       <SelectItem value="py">Python</SelectItem>
+                      <SelectItem value="ipynb">Notebook (ipynb)</SelectItem>
                       <SelectItem value="java">Java</SelectItem>
                       <SelectItem value="kt">Kotlin</SelectItem>
                       <SelectItem value="xml">XML</SelectItem>
@@ -260,13 +551,37 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
               </DialogContent>
             </Dialog>
             
-            <Button variant="ghost" size="sm" className="p-1" data-testid="button-new-folder">
-              <FolderPlus className="w-3 h-3" />
-            </Button>
+            <Dialog open={isFolderDialogOpen} onOpenChange={setIsFolderDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="p-1" disabled={readOnly} data-testid="button-new-folder">
+                  <FolderPlus className="w-3 h-3" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent data-testid="dialog-create-folder">
+                <DialogHeader>
+                  <DialogTitle>Crear nueva carpeta</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Se creará en <code>{targetFolder}</code>
+                  </p>
+                  <Input
+                    placeholder="Nombre de la carpeta"
+                    value={newFolderName}
+                    onChange={(e) => setNewFolderName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateFolder()}
+                    data-testid="input-folder-name"
+                  />
+                  <Button onClick={handleCreateFolder} disabled={createFolderMutation.isPending} data-testid="button-create-folder">
+                    Crear carpeta
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
             
             <Dialog open={isUploadDialogOpen} onOpenChange={setIsUploadDialogOpen}>
               <DialogTrigger asChild>
-                <Button variant="ghost" size="sm" className="p-1" data-testid="button-upload-apk">
+                <Button variant="ghost" size="sm" className="p-1" disabled={readOnly} data-testid="button-upload-apk">
                   <Upload className="w-3 h-3" />
                 </Button>
               </DialogTrigger>
@@ -288,7 +603,44 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
               </DialogContent>
             </Dialog>
             
-            <Button variant="ghost" size="sm" className="p-1" data-testid="button-refresh">
+            {project?.type === 'apk' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="p-1"
+                disabled={readOnly}
+                onClick={() => setIsBuildDialogOpen(true)}
+                data-testid="button-build-apk-dialog"
+              >
+                <Package className="w-3 h-3" />
+              </Button>
+            )}
+
+            {project?.type === 'apk' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="p-1"
+                onClick={() => setIsDexDialogOpen(true)}
+                data-testid="button-dex-inspector"
+              >
+                <Binary className="w-3 h-3" />
+              </Button>
+            )}
+
+            {project?.type === 'apk' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="p-1"
+                onClick={() => setIsAuditDialogOpen(true)}
+                data-testid="button-apk-audit"
+              >
+                <ShieldAlert className="w-3 h-3" />
+              </Button>
+            )}
+
+            <Button variant="ghost" size="sm" className="p-1" onClick={invalidateTree} data-testid="button-refresh">
               <RefreshCw className="w-3 h-3" />
             </Button>
           </div>
@@ -298,11 +650,79 @@ export default function FileExplorer({ project, files, selectedFileId, onFileSel
         </div>
       </div>
 
-      {/* File Tree */}
-      <div className="flex-1 overflow-y-auto p-2">
+      {project?.type === 'apk' && (
+        <ApkBuildDialog project={project} open={isBuildDialogOpen} onOpenChange={setIsBuildDialogOpen} />
+      )}
+      {project?.type === 'apk' && (
+        <DexInspectorDialog
+          project={project}
+          open={isDexDialogOpen}
+          readOnly={readOnly}
+          onOpenChange={setIsDexDialogOpen}
+          onFileSelect={onFileSelect}
+        />
+      )}
+      {project?.type === 'apk' && (
+        <ApkAuditDialog project={project} open={isAuditDialogOpen} onOpenChange={setIsAuditDialogOpen} />
+      )}
+
+      {/* File Tree; dropping on the empty area moves items to the project root */}
+      <div
+        className={`flex-1 overflow-y-auto p-2 ${dropTarget === '/' ? 'bg-primary/10' : ''}`}
+        onClick={(event) => {
+          if (event.target === event.currentTarget) setTargetFolder('/');
+        }}
+        onDragOver={(event) => handleDragOver(event, '/')}
+        onDragLeave={() => setDropTarget(current => current === '/' ? null : current)}
+        onDrop={(event) => handleDrop(event, '/')}
+      >
         {renderFileTree()}
       </div>
 
+      {/* Rename */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent data-testid="dialog-rename">
+          <DialogHeader>
+            <DialogTitle>Renombrar {renaming?.kind === 'folder' ? 'carpeta' : 'archivo'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              data-testid="input-rename"
+            />
+            <Button onClick={handleRename} disabled={moveMutation.isPending} data-testid="button-confirm-rename">
+              Renombrar
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent data-testid="dialog-delete-tree-item">
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar "{deleting && projectPathBasename(deleting.path)}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.kind === 'folder'
+                ? 'Se eliminarán la carpeta y todo su contenido. Esta acción no se puede deshacer.'
+                : 'Se eliminarán el archivo y su historial. Esta acción no se puede deshacer.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-tree-item"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* AI Assistant Panel */}
       <div className="border-t border-border p-3">
         <div className="flex items-center space-x-2 mb-2">
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { X, RotateCcw, Bot, User } from "lucide-react";
+import type { File, FileRevision } from "@shared/schema";
+
+interface HistoryPanelProps {
+  file: File;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  initial: 'Versión inicial',
+  editor: 'Edición',
+  restore: 'Restauración',
+  template: 'Plantilla',
+  duplicate: 'Copia del proyecto',
+  move: 'Movido o renombrado',
+  import: 'Importado desde ZIP',
+  disk_import: 'Sincronizado desde disco',
+  apk_import: 'Importado del APK',
+  dex_inspector: 'Desensamblado del DEX',
+  ai_generate: 'IA: Mejorar',
+  ai_fix: 'IA: Corregir',
+  create_project: 'Proyecto creado por IA',
+  add_file: 'Archivo creado por IA',
+  update_file: 'Actualizado por IA',
+  create_web_page: 'Página creada por IA',
+  modify_apk: 'APK modificado por IA',
+};
+
+export default function HistoryPanel({ file, readOnly = false, onClose }: HistoryPanelProps) {
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string>("current");
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [] } = useQuery<FileRevision[]>({
+    queryKey: ['/api/files', file.id, 'revisions'],
+  });
+
+  const { data: diffData, isFetching: isDiffLoading } = useQuery<{ diff: string }>({
+    queryKey: ['/api/files', file.id, 'revisions', 'diff', selectedRevisionId, compareTo],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: selectedRevisionId!, to: compareTo });
+      const response = await apiRequest("GET", `/api/files/${file.id}/revisions/diff?${params}`);
+      return response.json();
+    },
+    enabled: !!selectedRevisionId,
+    staleTime: 0,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const response = await apiRequest("POST", `/api/files/${file.id}/revisions/${revisionId}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', file.projectId, 'files'] });
+      setSelectedRevisionId(null);
+      toast({
+        title: "Versión restaurada",
+        description: `Se restauró una versión anterior de ${file.name}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo restaurar la versión.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getLineClass = (line: string) => {
+    if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground';
+    if (line.startsWith('@@')) return 'text-primary';
+    if (line.startsWith('+')) return 'bg-green-500/15 text-green-400';
+    if (line.startsWith('-')) return 'bg-red-500/15 text-red-400';
+    return 'text-muted-foreground';
+  };
+
+  const renderRevision = (revision: FileRevision) => {
+    const isSelected = selectedRevisionId === revision.id;
+    const isCompareTarget = compareTo === revision.id;
+
+    return (
+      <div
+        key={revision.id}
+        className={`p-2 rounded text-xs cursor-pointer border ${
+          isSelected ? 'bg-secondary border-primary' : isCompareTarget ? 'border-accent' : 'border-transparent hover:bg-secondary'
+        }`}
+        onClick={() => setSelectedRevisionId(revision.id)}
+        data-testid={`revision-${revision.id}`}
+      >
+        <div className="flex items-center space-x-2">
+          {revision.author === 'ai' ? (
+            <Bot className="w-3 h-3 text-accent" />
+          ) : (
+            <User className="w-3 h-3 text-primary" />
+          )}
+          <span className="font-medium flex-1 truncate">
+            {SOURCE_LABELS[revision.source ?? ''] ?? revision.source ?? 'Edición'}
+          </span>
+          <Badge variant={revision.author === 'ai' ? 'secondary' : 'outline'} className="text-[10px] px-1.5 py-0">
+            {revision.author === 'ai' ? 'IA' : 'Usuario'}
+          </Badge>
+        </div>
+        <div className="flex items-center justify-between mt-1 text-muted-foreground">
+          <span>
+            {revision.createdAt
+              ? formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true, locale: es })
+              : ''}
+          </span>
+          {selectedRevisionId && !isSelected && (
+            <button
+              className="underline hover:text-foreground"
+              onClick={(e) => {
+                e.stopPropagation();
+                setCompareTo(isCompareTarget ? 'current' : revision.id);
+              }}
+              data-testid={`compare-revision-${revision.id}`}
+            >
+              {isCompareTarget ? 'Comparar con actual' : 'Comparar con esta'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-80 border-l border-border bg-card flex flex-col" data-testid="history-panel">
+      <div className="px-3 py-2 border-b border-border flex items-center justify-between">
+        <h3 className="text-sm font-medium">Historial de {file.name}</h3>
+        <Button variant="ghost" size="sm" className="p-1" onClick={onClose} data-testid="button-close-history">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <ScrollArea className="h-48 border-b border-border">
+        <div className="p-2 space-y-1">
+          {revisions.map(renderRevision)}
+          {revisions.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-4">
+              Todavía no hay versiones guardadas
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+
+      <div className="flex-1 flex flex-col min-h-0">
+        {selectedRevisionId ? (
+          <>
+            <div className="px-3 py-2 flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">
+                {compareTo === 'current' ? 'Cambios hasta la versión actual' : 'Cambios entre versiones'}
+              </span>
+              <Button
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => restoreMutation.mutate(selectedRevisionId)}
+                disabled={readOnly || restoreMutation.isPending}
+                data-testid="button-restore-revision"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restaurar
+              </Button>
+            </div>
+            <ScrollArea className="flex-1">
+              <pre className="font-mono text-[11px] leading-4 px-3 pb-3" data-testid="revision-diff">
+                {isDiffLoading && <span className="text-muted-foreground">Calculando diferencias...</span>}
+                {!isDiffLoading && diffData?.diff === '' && (
+                  <span className="text-muted-foreground">Sin diferencias</span>
+                )}
+                {!isDiffLoading && diffData?.diff.split('\n').map((line, index) => (
+                  <div key={index} className={getLineClass(line)}>{line || ' '}</div>
+                ))}
+              </pre>
+            </ScrollArea>
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-xs text-muted-foreground p-4 text-center">
+            Selecciona una versión para ver sus diferencias
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+import { useState, useEffect, useRef, type KeyboardEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { io, Socket } from "socket.io-client";
+import {
+  Play, FastForward, Square, RotateCcw, Plus, ArrowUp, ArrowDown, Trash2, Eraser, Upload, Download, History,
+} from "lucide-react";
+import PythonArtifacts from "@/components/PythonArtifacts";
+import NotebookMarkdown from "@/components/NotebookMarkdown";
+import type { File } from "@shared/schema";
+import type { PythonArtifact, PythonArtifactType } from "@shared/artifacts";
+import {
+  appendOutput, createCell, parseNotebook, serializeNotebook,
+  type Notebook, type NotebookCell, type NotebookCellFinished, type NotebookCellOutput,
+  type NotebookCellType, type NotebookExecuteRequest, type NotebookOutput,
+} from "@shared/notebook";
+
+interface NotebookEditorProps {
+  projectId: string;
+  file: File;
+  readOnly: boolean;
+  // Store the serialized notebook; called at most once a second while editing
+  onSave: (fileId: string, content: string) => void;
+  isHistoryOpen: boolean;
+  onToggleHistory: () => void;
+}
+
+// Richest representation first, as Jupyter picks them
+const RICH_TYPES: PythonArtifactType[] = ['image/png', 'image/svg+xml', 'text/html', 'application/json'];
+
+const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+const CELL_TYPE_LABELS: Record<NotebookCellType, string> = {
+  code: 'Código',
+  markdown: 'Markdown',
+  raw: 'Texto',
+};
+
+function NotebookOutputView({ output, index }: { output: NotebookOutput; index: number }) {
+  switch (output.output_type) {
+    case 'stream':
+      return (
+        <pre className={`whitespace-pre-wrap break-words px-2 text-xs ${output.name === 'stderr' ? 'bg-destructive/10 text-destructive' : ''}`}>
+          {output.text}
+        </pre>
+      );
+    case 'error': {
+      // Jupyter's traceback entries have no trailing newline and carry colors
+      const traceback = output.traceback.map(line => (line.endsWith('\n') ? line : line + '\n')).join('');
+      return (
+        <pre className="whitespace-pre-wrap break-words bg-destructive/10 px-2 text-xs text-destructive">
+          {traceback.replace(ANSI_ESCAPE, '') || `${output.ename}: ${output.evalue}`}
+        </pre>
+      );
+    }
+    default: {
+      const mimeType = RICH_TYPES.find(type => output.data[type] !== undefined);
+      if (mimeType) {
+        const data = output.data[mimeType];
+        const artifact: PythonArtifact = {
+          name: `salida-${index + 1}.${mimeType.split('/')[1].replace('+xml', '')}`,
+          mimeType,
+          data: typeof data === 'string' ? data : JSON.stringify(data, null, 2),
+        };
+        return <PythonArtifacts artifacts={[artifact]} />;
+      }
+      if (typeof output.data['text/markdown'] === 'string') {
+        return <NotebookMarkdown source={output.data['text/markdown'] as string} />;
+      }
+      return <pre className="whitespace-pre-wrap break-words px-2 text-xs">{String(output.data['text/plain'] ?? '')}</pre>;
+    }
+  }
+}
+
+// Editing an .ipynb: code cells run in the project's notebook kernel, which
+// keeps its variables between cells; outputs are saved into the file
+export default function NotebookEditor({ projectId, file, readOnly, onSave, isHistoryOpen, onToggleHistory }: NotebookEditorProps) {
+  const [notebook, setNotebook] = useState<Notebook | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [selectedCellId, setSelectedCellId] = useState<string | null>(null);
+  // Markdown cells being edited; the rest are shown rendered
+  const [editingCells, setEditingCells] = useState<Set<string>>(new Set());
+  // Sent to the kernel and not finished yet
+  const [pendingCells, setPendingCells] = useState<Set<string>>(new Set());
+  const notebookRef = useRef<Notebook | null>(null);
+  const fileIdRef = useRef(file.id);
+  // The content last loaded or sent to the server; anything else that
+  // arrives for this file is an outside change (AI edit, history restore)
+  const savedContentRef = useRef<string | null>(null);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const flushSave = () => {
+    if (!saveTimeoutRef.current) return;
+    clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = null;
+    if (!notebookRef.current) return;
+    const content = serializeNotebook(notebookRef.current);
+    savedContentRef.current = content;
+    onSave(fileIdRef.current, content);
+  };
+
+  const load = (content: string) => {
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = null;
+    savedContentRef.current = content;
+    try {
+      const loaded = parseNotebook(content);
+      notebookRef.current = loaded;
+      setNotebook(loaded);
+      setParseError(null);
+      setEditingCells(new Set(loaded.cells.filter(cell => cell.cell_type !== 'code' && !cell.source).map(cell => cell.id)));
+    } catch (error) {
+      notebookRef.current = null;
+      setNotebook(null);
+      setParseError(error instanceof Error ? error.message : 'No se pudo leer el cuaderno');
+    }
+  };
+
+  useEffect(() => {
+    fileIdRef.current = file.id;
+    load(file.content);
+    setSelectedCellId(null);
+    return () => flushSave();
+  }, [file.id]);
+
+  useEffect(() => {
+    if (file.id === fileIdRef.current && file.content !== savedContentRef.current) load(file.content);
+  }, [file.content]);
+
+  const commit = (next: Notebook) => {
+    notebookRef.current = next;
+    setNotebook(next);
+    if (readOnly) return;
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(flushSave, 1000);
+  };
+
+  const updateCells = (update: (cells: NotebookCell[]) => NotebookCell[]) => {
+    if (notebookRef.current) commit({ ...notebookRef.current, cells: update(notebookRef.current.cells) });
+  };
+
+  const updateCell = (cellId: string, update: (cell: NotebookCell) => NotebookCell) => {
+    updateCells(cells => cells.map(cell => (cell.id === cellId ? update(cell) : cell)));
+  };
+
+  const removePending = (cellId: string) => {
+    setPendingCells(prev => {
+      const next = new Set(prev);
+      next.delete(cellId);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    const socket = io();
+    socketRef.current = socket;
+
+    socket.on('notebook-cell-output', (data: NotebookCellOutput) => {
+      if (data.projectId !== projectId || data.fileId !== fileIdRef.current) return;
+      updateCell(data.cellId, cell => ({ ...cell, outputs: appendOutput(cell.outputs ?? [], data.output) }));
+    });
+
+    socket.on('notebook-cell-finished', (data: NotebookCellFinished) => {
+      if (data.projectId !== projectId) return;
+      removePending(data.cellId);
+      if (data.fileId === fileIdRef.current && data.executionCount !== null) {
+        updateCell(data.cellId, cell => ({ ...cell, execution_count: data.executionCount }));
+      }
+    });
+
+    socket.on('notebook-kernel-restarted', (data: { projectId: string }) => {
+      if (data.projectId !== projectId) return;
+      setPendingCells(new Set());
+      toast({ title: "Kernel reiniciado", description: "Las variables de las celdas anteriores ya no existen." });
+    });
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+      setPendingCells(new Set());
+    };
+  }, [projectId]);
+
+  const runCell = (cell: NotebookCell) => {
+    if (cell.cell_type === 'markdown') {
+      setEditingCells(prev => {
+        const next = new Set(prev);
+        next.delete(cell.id);
+        return next;
+      });
+      return;
+    }
+    if (cell.cell_type !== 'code' || readOnly || !socketRef.current) return;
+    updateCell(cell.id, current => ({ ...current, outputs: [], execution_count: null }));
+    setPendingCells(prev => new Set(prev).add(cell.id));
+    const request: NotebookExecuteRequest = { projectId, fileId: file.id, cellId: cell.id, code: cell.source };
+    socketRef.current.emit('notebook-execute', request);
+  };
+
+  const runAll = () => {
+    for (const cell of notebookRef.current?.cells ?? []) runCell(cell);
+  };
+
+  const restartKernel = () => {
+    if (window.confirm("¿Reiniciar el kernel? Se perderán las variables definidas.")) {
+      socketRef.current?.emit('notebook-restart', { projectId });
+    }
+  };
+
+  const clearOutputs = () => {
+    updateCells(cells => cells.map(cell => (cell.cell_type === 'code' ? { ...cell, outputs: [], execution_count: null } : cell)));
+  };
+
+  // New cells go below the selected one, or at the end
+  const insertCell = (cellType: NotebookCellType, afterId = selectedCellId) => {
+    const cell = createCell(cellType);
+    updateCells(cells => {
+      const index = cells.findIndex(current => current.id === afterId);
+      return index === -1 ? [...cells, cell] : [...cells.slice(0, index + 1), cell, ...cells.slice(index + 1)];
+    });
+    if (cellType !== 'code') setEditingCells(prev => new Set(prev).add(cell.id));
+    setSelectedCellId(cell.id);
+    return cell;
+  };
+
+  const moveCell = (cellId: string, offset: number) => {
+    updateCells(cells => {
+      const index = cells.findIndex(cell => cell.id === cellId);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= cells.length) return cells;
+      const next = [...cells];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const deleteCell = (cellId: string) => {
+    updateCells(cells => cells.filter(cell => cell.id !== cellId));
+  };
+
+  const changeCellType = (cell: NotebookCell, cellType: NotebookCellType) => {
+    const changed = createCell(cellType, cell.source);
+    updateCell(cell.id, () => ({ ...changed, id: cell.id, metadata: cell.metadata }));
+    if (cellType !== 'code') setEditingCells(prev => new Set(prev).add(cell.id));
+  };
+
+  const handleCellKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>, cell: NotebookCell) => {
+    if (event.key === 'Enter' && (event.shiftKey || event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      runCell({ ...cell, source: event.currentTarget.value });
+      // Shift+Enter moves on to the next cell, as in Jupyter
+      if (event.shiftKey) {
+        const cells = notebookRef.current?.cells ?? [];
+        const next = cells[cells.findIndex(current => current.id === cell.id) + 1];
+        setSelectedCellId(next ? next.id : insertCell('code', cell.id).id);
+      }
+    } else if (event.key === 'Tab' && !event.shiftKey) {
+      event.preventDefault();
+      const textarea = event.currentTarget;
+      const { selectionStart, selectionEnd, value } = textarea;
+      updateCell(cell.id, current => ({ ...current, source: value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd) }));
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 4, selectionStart + 4));
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const imported = event.target.files?.[0];
+    event.target.value = '';
+    if (!imported) return;
+    try {
+      const loaded = parseNotebook(await imported.text());
+      commit(loaded);
+      setEditingCells(new Set());
+      toast({ title: "Cuaderno importado", description: `${imported.name} reemplazó el contenido de ${file.name}.` });
+    } catch (error) {
+      toast({
+        title: "No se pudo importar",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    if (!notebookRef.current) return;
+    const url = URL.createObjectURL(new Blob([serializeNotebook(notebookRef.current)], { type: 'application/x-ipynb+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name.toLowerCase().endsWith('.ipynb') ? file.name : `${file.name}.ipynb`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderCell = (cell: NotebookCell, index: number) => {
+    const selected = cell.id === selectedCellId;
+    const pending = pendingCells.has(cell.id);
+    const editing = cell.cell_type !== 'markdown' || editingCells.has(cell.id);
+    const lines = cell.source.split('\n').length;
+
+    return (
+      <div
+        key={cell.id}
+        className={`group flex rounded border ${selected ? 'border-primary/60' : 'border-transparent hover:border-border'}`}
+        onClick={() => setSelectedCellId(cell.id)}
+        data-testid={`notebook-cell-${index}`}
+      >
+        <div className="w-14 shrink-0 pt-2 pr-2 text-right font-mono text-xs text-muted-foreground select-none">
+          {cell.cell_type === 'code' && (pending ? '[*]:' : `[${cell.execution_count ?? ' '}]:`)}
+        </div>
+        <div className="flex-1 min-w-0 py-1 space-y-1">
+          {editing ? (
+            <textarea
+              value={cell.source}
+              rows={Math.max(1, lines)}
+              readOnly={readOnly}
+              spellCheck={false}
+              onChange={(e) => updateCell(cell.id, current => ({ ...current, source: e.target.value }))}
+              onKeyDown={(e) => handleCellKeyDown(e, cell)}
+              onFocus={() => setSelectedCellId(cell.id)}
+              placeholder={cell.cell_type === 'markdown' ? 'Escribe Markdown...' : ''}
+              className={`w-full resize-none rounded border border-border p-2 font-mono text-sm leading-5 focus:outline-none focus:ring-1 focus:ring-primary ${
+                cell.cell_type === 'code' ? 'bg-muted/50' : 'bg-background'
+              }`}
+              data-testid={`notebook-cell-source-${index}`}
+            />
+          ) : (
+            <div
+              className="px-2 py-1"
+              onDoubleClick={() => !readOnly && setEditingCells(prev => new Set(prev).add(cell.id))}
+              title={readOnly ? undefined : "Doble clic para editar"}
+            >
+              <NotebookMarkdown source={cell.source} attachments={cell.attachments} />
+            </div>
+          )}
+          {cell.outputs && cell.outputs.length > 0 && (
+            <div className="space-y-1" data-testid={`notebook-cell-outputs-${index}`}>
+              {cell.outputs.map((output, outputIndex) => (
+                <NotebookOutputView key={outputIndex} output={output} index={outputIndex} />
+              ))}
+            </div>
+          )}
+        </div>
+        {!readOnly && (
+          <div className={`flex shrink-0 flex-col items-center pl-1 ${selected ? 'visible' : 'invisible group-hover:visible'}`}>
+            {cell.cell_type !== 'raw' && (
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => runCell(cell)} title="Ejecutar celda (Shift+Enter)" data-testid={`button-run-cell-${index}`}>
+                <Play className="w-3 h-3" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => moveCell(cell.id, -1)} disabled={index === 0} title="Subir">
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => moveCell(cell.id, 1)} title="Bajar">
+              <ArrowDown className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => deleteCell(cell.id)} title="Eliminar celda" data-testid={`button-delete-cell-${index}`}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const selectedCell = notebook?.cells.find(cell => cell.id === selectedCellId);
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0" data-testid="notebook-editor">
+      {/* Notebook Toolbar */}
+      <div className="bg-muted px-4 py-2 border-b border-border flex items-center justify-between">
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => insertCell('code')} disabled={readOnly || !notebook} data-testid="button-add-code-cell">
+            <Plus className="w-3 h-3 mr-1" />
+            Código
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => insertCell('markdown')} disabled={readOnly || !notebook} data-testid="button-add-markdown-cell">
+            <Plus className="w-3 h-3 mr-1" />
+            Markdown
+          </Button>
+          <Select
+            value={selectedCell?.cell_type ?? ''}
+            onValueChange={(value) => selectedCell && changeCellType(selectedCell, value as NotebookCellType)}
+            disabled={readOnly || !selectedCell}
+          >
+            <SelectTrigger className="h-7 w-28 text-xs" data-testid="select-cell-type">
+              <SelectValue placeholder="Tipo de celda" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CELL_TYPE_LABELS) as NotebookCellType[]).map(cellType => (
+                <SelectItem key={cellType} value={cellType}>{CELL_TYPE_LABELS[cellType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="w-px h-5 bg-border mx-1" />
+          <Button size="sm" className="h-7 px-2 text-xs" onClick={runAll} disabled={readOnly || !notebook} data-testid="button-run-all-cells">
+            <FastForward className="w-3 h-3 mr-1" />
+            Ejecutar todo
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => socketRef.current?.emit('notebook-interrupt', { projectId })} disabled={readOnly || pendingCells.size === 0} title="Interrumpir" data-testid="button-interrupt-kernel">
+            <Square className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={restartKernel} disabled={readOnly} title="Reiniciar kernel" data-testid="button-restart-kernel">
+            <RotateCcw className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={clearOutputs} disabled={readOnly || !notebook} title="Limpiar salidas" data-testid="button-clear-outputs">
+            <Eraser className="w-3 h-3" />
+          </Button>
+        </div>
+        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          {readOnly && <span data-testid="text-read-only">Solo lectura</span>}
+          <span data-testid="text-kernel-status">{pendingCells.size > 0 ? 'Kernel ocupado' : 'Kernel inactivo'}</span>
+          <input ref={importInputRef} type="file" accept=".ipynb,application/x-ipynb+json,application/json" className="hidden" onChange={handleImport} />
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => importInputRef.current?.click()} disabled={readOnly} data-testid="button-import-notebook">
+            <Upload className="w-3 h-3 mr-1" />
+            Importar
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleExport} disabled={!notebook} data-testid="button-export-notebook">
+            <Download className="w-3 h-3 mr-1" />
+            Exportar
+          </Button>
+          <Button
+            variant={isHistoryOpen ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onToggleHistory}
+            data-testid="button-history"
+          >
+            <History className="w-3 h-3 mr-1" />
+            Historial
+          </Button>
+        </div>
+      </div>
+
+      {/* Cells */}
+      <div className="flex-1 overflow-auto bg-background p-4">
+        {parseError ? (
+          <div className="text-sm text-destructive" data-testid="text-notebook-error">
+            No se pudo abrir el cuaderno: {parseError}
+          </div>
+        ) : (
+          <div className="mx-auto max-w-5xl space-y-2">
+            {notebook?.cells.map(renderCell)}
+            {notebook && !readOnly && (
+              <div className="flex justify-center space-x-2 pt-2">
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => insertCell('code', notebook.cells[notebook.cells.length - 1]?.id ?? null)}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  Código
+                </Button>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => insertCell('markdown', notebook.cells[notebook.cells.length - 1]?.id ?? null)}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  Markdown
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { ReactNode } from "react";
+import type { MimeBundle } from "@shared/notebook";
+
+interface NotebookMarkdownProps {
+  source: string;
+  // Images pasted into the cell, referenced as attachment:name
+  attachments?: Record<string, MimeBundle>;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold',
+  'text-xl font-bold',
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-medium',
+];
+
+const INLINE = /(`[^`]+`|!\[[^\]]*\]\([^)\s]+\)|\[[^\]]+\]\([^)\s]+\)|\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/;
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+function attachmentUrl(url: string, attachments: NotebookMarkdownProps['attachments']): string | null {
+  const bundle = attachments?.[url.slice('attachment:'.length)];
+  if (!bundle) return null;
+  const [mimeType, data] = Object.entries(bundle).find(([type]) => type.startsWith('image/')) ?? [];
+  return mimeType && typeof data === 'string' ? `data:${mimeType};base64,${data}` : null;
+}
+
+function renderInline(text: string, attachments: NotebookMarkdownProps['attachments']): ReactNode[] {
+  return text.split(INLINE).map((part, index) => {
+    if (index % 2 === 0) return part;
+    if (part.startsWith('`')) {
+      return <code key={index} className="rounded bg-muted px-1 font-mono text-xs">{part.slice(1, -1)}</code>;
+    }
+    const link = part.match(/^(!?)\[([^\]]*)\]\(([^)\s]+)\)$/);
+    if (link) {
+      const [, image, label, url] = link;
+      if (image) {
+        const src = url.startsWith('attachment:') ? attachmentUrl(url, attachments) : SAFE_URL.test(url) ? url : null;
+        return src ? <img key={index} src={src} alt={label} className="inline max-w-full" /> : label;
+      }
+      return SAFE_URL.test(url)
+        ? <a key={index} href={url} target="_blank" rel="noreferrer" className="text-primary underline">{label}</a>
+        : label;
+    }
+    if (part.startsWith('**') || part.startsWith('__')) {
+      return <strong key={index}>{renderInline(part.slice(2, -2), attachments)}</strong>;
+    }
+    return <em key={index}>{renderInline(part.slice(1, -1), attachments)}</em>;
+  });
+}
+
+// The common subset of Markdown used in notebooks: headings, paragraphs,
+// lists, quotes, code blocks and inline formatting. Raw HTML is shown as text.
+export default function NotebookMarkdown({ source, attachments }: NotebookMarkdownProps) {
+  const blocks: ReactNode[] = [];
+  const lines = source.split('\n');
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push(<p key={blocks.length}>{renderInline(paragraph.join(' '), attachments)}</p>);
+    paragraph = [];
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const ordered = /^\s*\d+[.)]\s+/;
+    const unordered = /^\s*[-*+]\s+/;
+
+    if (line.trim() === '') {
+      endParagraph();
+    } else if (line.startsWith('```')) {
+      endParagraph();
+      const code: string[] = [];
+      while (++index < lines.length && !lines[index].startsWith('```')) code.push(lines[index]);
+      blocks.push(
+        <pre key={blocks.length} className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">{code.join('\n')}</pre>,
+      );
+    } else if (heading) {
+      endParagraph();
+      const level = heading[1].length;
+      const Tag = `h${level}` as 'h1';
+      blocks.push(<Tag key={blocks.length} className={HEADING_CLASSES[level - 1]}>{renderInline(heading[2], attachments)}</Tag>);
+    } else if (/^(\*{3,}|-{3,}|_{3,})\s*$/.test(line)) {
+      endParagraph();
+      blocks.push(<hr key={blocks.length} className="border-border" />);
+    } else if (ordered.test(line) || unordered.test(line)) {
+      endParagraph();
+      const pattern = ordered.test(line) ? ordered : unordered;
+      const items: string[] = [];
+      for (; index < lines.length && pattern.test(lines[index]); index++) items.push(lines[index].replace(pattern, ''));
+      index--;
+      const List = pattern === ordered ? 'ol' : 'ul';
+      blocks.push(
+        <List key={blocks.length} className={`pl-6 ${List === 'ol' ? 'list-decimal' : 'list-disc'}`}>
+          {items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, attachments)}</li>)}
+        </List>,
+      );
+    } else if (line.startsWith('>')) {
+      endParagraph();
+      const quote: string[] = [];
+      for (; index < lines.length && lines[index].startsWith('>'); index++) quote.push(lines[index].replace(/^>\s?/, ''));
+      index--;
+      blocks.push(
+        <blockquote key={blocks.length} className="border-l-2 border-border pl-3 text-muted-foreground">
+          {renderInline(quote.join(' '), attachments)}
+        </blockquote>,
+      );
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  endParagraph();
+
+  return <div className="space-y-2 text-sm leading-relaxed" data-testid="notebook-markdown">{blocks}</div>;
+}
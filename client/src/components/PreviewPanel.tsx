@@ -1,40 +1,144 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Smartphone, Tablet, Monitor, RefreshCw, ExternalLink } from "lucide-react";
+import AndroidLayoutPreview from "@/components/AndroidLayoutPreview";
+import { collectResources, isLayoutPath, parseLayout, pickLayoutFile, type LayoutNode } from "@/lib/androidLayout";
+import { previewUpdateFor, previewUrlFor } from "@/lib/livePreview";
+import { useQuery } from "@tanstack/react-query";
+import { io } from "socket.io-client";
+import { PREVIEW_COMMAND_SOURCE, PREVIEW_SANDBOX, isPreviewReloadingMessage, type PreviewCommand, type PreviewCommandBody } from "@shared/preview";
 import type { Project, File } from "@shared/schema";
 
 interface PreviewPanelProps {
   project: Project | null;
+  files: File[];
   selectedFile: File | undefined;
 }
 
-export default function PreviewPanel({ project, selectedFile }: PreviewPanelProps) {
+// Screen size in dp for each device view of the APK preview
+const ANDROID_SCREENS: Record<string, { width: number; height: number }> = {
+  mobile: { width: 360, height: 640 },
+  tablet: { width: 600, height: 960 },
+  desktop: { width: 411, height: 731 },
+};
+
+// Preview tokens last 12 hours; fetch a new one well before that
+const PREVIEW_TOKEN_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+// How long a reload waits for the page's bridge to answer before the
+// preview starts over from its entry page
+const RELOAD_ANSWER_TIMEOUT_MS = 1000;
+
+export default function PreviewPanel({ project, files, selectedFile }: PreviewPanelProps) {
   const [previewMode, setPreviewMode] = useState("web");
   const [deviceView, setDeviceView] = useState("desktop");
-  const [previewContent, setPreviewContent] = useState("");
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
   useEffect(() => {
-    if (selectedFile && selectedFile.type === 'html') {
-      setPreviewContent(selectedFile.content);
-    } else if (project?.type === 'web') {
-      // Try to find an index.html file
-      setPreviewContent('<html><body><h1>¡Hola Mundo!</h1><p>Esta es mi página web generada con IA</p><button onclick="alert(\'¡Hola desde JavaScript!\')">Hacer clic</button></body></html>');
-    }
-  }, [selectedFile, project]);
+    if (project?.type === 'apk') setPreviewMode('apk');
+  }, [project?.id, project?.type]);
 
-  const refreshPreview = () => {
-    if (iframeRef.current) {
-      iframeRef.current.src = iframeRef.current.src;
+  useEffect(() => {
+    if (selectedFile && isLayoutPath(selectedFile.path)) setPreviewMode('apk');
+  }, [selectedFile?.id]);
+
+  // The selected file is refetched on every save, the file list is not
+  const currentFiles = useMemo(
+    () => files.map(file => (file.id === selectedFile?.id ? selectedFile : file)),
+    [files, selectedFile],
+  );
+  const layoutFile = pickLayoutFile(currentFiles, selectedFile);
+  const resources = useMemo(() => collectResources(currentFiles), [currentFiles]);
+  const layout = useMemo((): { root?: LayoutNode; error?: string } => {
+    if (!layoutFile) return {};
+    try {
+      return { root: parseLayout(layoutFile.content) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
     }
+  }, [layoutFile?.content]);
+
+  const { data: previewGrant } = useQuery<{ token: string; expiresAt: number }>({
+    queryKey: ['/api/projects', project?.id, 'preview'],
+    enabled: !!project,
+    refetchInterval: PREVIEW_TOKEN_REFRESH_MS,
+  });
+
+  // The selected HTML page, or the project's entry (index.html) otherwise;
+  // the preview route resolves everything the page links to
+  const previewUrl = useMemo(() => {
+    if (!project || !previewGrant) return undefined;
+    return previewUrlFor(project.id, previewGrant.token, selectedFile && selectedFile.type === 'html' ? selectedFile.path : '/');
+  }, [project?.id, previewGrant?.token, selectedFile?.path, selectedFile?.type]);
+
+  // Scroll position to restore once a reload finishes
+  const pendingScrollRef = useRef<{ x: number; y: number } | null>(null);
+  const reloadTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // The page is sandboxed on an opaque origin: everything goes through the
+  // bridge injected into it, so the target origin cannot be narrowed
+  const sendToPreview = (command: PreviewCommandBody) => {
+    const message: PreviewCommand = { source: PREVIEW_COMMAND_SOURCE, ...command };
+    iframeRef.current?.contentWindow?.postMessage(message, '*');
+  };
+
+  const startOver = () => {
+    pendingScrollRef.current = null;
+    if (iframeRef.current && previewUrl) iframeRef.current.src = previewUrl;
+  };
+
+  // A page without the bridge (one that navigated off the project) never
+  // answers, so the preview goes back to the entry instead
+  const reloadPreview = () => {
+    clearTimeout(reloadTimeoutRef.current);
+    reloadTimeoutRef.current = setTimeout(startOver, RELOAD_ANSWER_TIMEOUT_MS);
+    sendToPreview({ type: 'reload' });
+  };
+
+  const restoreScroll = () => {
+    const scroll = pendingScrollRef.current;
+    pendingScrollRef.current = null;
+    if (scroll) sendToPreview({ type: 'scroll', ...scroll });
   };
 
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isPreviewReloadingMessage(event.data)) return;
+      clearTimeout(reloadTimeoutRef.current);
+      pendingScrollRef.current = { x: event.data.x, y: event.data.y };
+    };
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      clearTimeout(reloadTimeoutRef.current);
+    };
+  }, []);
+
+  // Saved files arrive over the project's room: stylesheets are swapped in
+  // place, pages and scripts reload the preview
+  useEffect(() => {
+    if (!project || previewMode !== 'web') return;
+    const socket = io();
+    socket.emit('join-project', project.id);
+    socket.on('file-updated', (file: File) => {
+      if (file.projectId !== project.id) return;
+      const update = previewUpdateFor(file.path);
+      if (update === 'css') {
+        sendToPreview({ type: 'stylesheet', path: file.path });
+      } else if (update === 'reload') {
+        reloadPreview();
+      }
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [project?.id, previewMode, previewUrl]);
+
+
   const openInNewWindow = () => {
-    const newWindow = window.open('', '_blank', 'width=800,height=600');
-    if (newWindow) {
-      newWindow.document.write(previewContent);
-      newWindow.document.close();
+    if (previewUrl) {
+      window.open(previewUrl, '_blank', 'width=800,height=600');
     }
   };
 
@@ -51,44 +155,55 @@ export default function PreviewPanel({ project, selectedFile }: PreviewPanelProp
 
   const renderWebPreview = () => (
     <div className={`bg-white ${getDeviceClass()}`}>
-      <iframe
-        ref={iframeRef}
-        srcDoc={previewContent}
-        className="w-full h-full border-0"
-        title="Web Preview"
-        data-testid="web-preview-iframe"
-      />
+      {previewUrl ? (
+        <iframe
+          ref={iframeRef}
+          src={previewUrl}
+          onLoad={restoreScroll}
+          sandbox={PREVIEW_SANDBOX}
+          data-preview-frame
+          className="w-full h-full border-0"
+          title="Web Preview"
+          data-testid="web-preview-iframe"
+        />
+      ) : (
+        <div className="flex items-center justify-center h-full text-sm text-gray-500">
+          Abre un proyecto para previsualizarlo
+        </div>
+      )}
     </div>
   );
 
-  const renderAPKPreview = () => (
-    <div className="h-full flex items-center justify-center bg-gray-100">
-      <div className="text-center text-gray-600">
-        <div className="w-32 h-56 bg-gray-800 rounded-lg mx-auto mb-4 relative">
-          <div className="w-28 h-52 bg-white rounded-md absolute top-2 left-2">
-            <div className="p-4">
-              <div className="text-center mb-4">
-                <div className="w-12 h-12 bg-blue-500 rounded-full mx-auto mb-2"></div>
-                <div className="text-xs font-medium">Mi App</div>
-              </div>
-              <div className="space-y-2">
-                <div className="h-2 bg-gray-200 rounded"></div>
-                <div className="h-2 bg-gray-200 rounded w-3/4"></div>
-                <div className="h-2 bg-gray-200 rounded w-1/2"></div>
-              </div>
-              <div className="mt-4">
-                <div className="h-6 bg-blue-500 rounded text-white text-xs flex items-center justify-center">
-                  Button
+  const renderAPKPreview = () => {
+    const screen = ANDROID_SCREENS[deviceView] ?? ANDROID_SCREENS.mobile;
+    if (!layoutFile) {
+      return (
+        <div className="text-center text-gray-600">
+          <p className="text-sm">Vista previa del APK</p>
+          <p className="text-xs text-gray-500 mt-1">Abre un archivo de res/layout/ para previsualizarlo</p>
+        </div>
+      );
+    }
+    return (
+      <div className="flex flex-col items-center">
+        <div className="bg-gray-800 rounded-[2rem] p-3 shadow-lg">
+          <div className="bg-white overflow-hidden rounded-md flex flex-col" style={{ width: screen.width, height: screen.height }}>
+            <div className="h-6 shrink-0 bg-gray-900" />
+            <div className="flex-1 min-h-0">
+              {layout.root ? (
+                <AndroidLayoutPreview root={layout.root} resources={resources} />
+              ) : (
+                <div className="p-4 text-xs text-red-600 whitespace-pre-wrap" data-testid="text-layout-error">
+                  {layout.error}
                 </div>
-              </div>
+              )}
             </div>
           </div>
         </div>
-        <p className="text-sm">Vista previa del APK</p>
-        <p className="text-xs text-gray-500 mt-1">Emulador simulado</p>
+        <p className="text-xs text-gray-500 mt-2" data-testid="text-layout-path">{layoutFile.path}</p>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="flex flex-col h-full border-l border-border" data-testid="preview-panel">
@@ -132,7 +247,7 @@ export default function PreviewPanel({ project, selectedFile }: PreviewPanelProp
           >
             <Monitor className="w-4 h-4" />
           </Button>
-          <Button variant="ghost" size="sm" onClick={refreshPreview} data-testid="button-refresh">
+          <Button variant="ghost" size="sm" onClick={reloadPreview} data-testid="button-refresh">
             <RefreshCw className="w-4 h-4" />
           </Button>
           <Button variant="ghost" size="sm" onClick={openInNewWindow} data-testid="button-open-external">
@@ -0,0 +1,69 @@
+import { Download } from "lucide-react";
+import type { PythonArtifact } from "@shared/artifacts";
+
+interface PythonArtifactsProps {
+  artifacts: PythonArtifact[];
+}
+
+function imageUrl(artifact: PythonArtifact): string {
+  return artifact.mimeType === 'image/png'
+    ? `data:image/png;base64,${artifact.data}`
+    : `data:image/svg+xml;charset=utf-8,${encodeURIComponent(artifact.data)}`;
+}
+
+// Figures and display() outputs of a Python run. HTML comes from user code,
+// so it is shown in a frame sandboxed away from the IDE and without scripts.
+export default function PythonArtifacts({ artifacts }: PythonArtifactsProps) {
+  if (artifacts.length === 0) return null;
+
+  return (
+    <div className="space-y-2 py-1" data-testid="python-artifacts">
+      {artifacts.map((artifact, index) => {
+        switch (artifact.mimeType) {
+          case 'image/png':
+          case 'image/svg+xml':
+            return (
+              <div key={artifact.name} className="relative inline-block group" data-testid={`artifact-${index}`}>
+                <img
+                  src={imageUrl(artifact)}
+                  alt={`Figura ${index + 1}`}
+                  className="max-w-full max-h-64 rounded border border-border bg-white"
+                />
+                <a
+                  href={imageUrl(artifact)}
+                  download={artifact.name}
+                  className="absolute top-1 right-1 hidden group-hover:flex items-center rounded bg-background/80 p-1 text-foreground"
+                  title="Descargar"
+                >
+                  <Download className="w-3 h-3" />
+                </a>
+              </div>
+            );
+          case 'text/html':
+            return (
+              <iframe
+                key={artifact.name}
+                sandbox=""
+                srcDoc={artifact.data}
+                title={`Salida HTML ${index + 1}`}
+                className="w-full h-48 rounded border border-border bg-white"
+                data-testid={`artifact-${index}`}
+              />
+            );
+          case 'application/json':
+            return (
+              <pre
+                key={artifact.name}
+                className="max-h-60 overflow-auto rounded bg-muted p-2 text-xs"
+                data-testid={`artifact-${index}`}
+              >
+                {artifact.data}
+              </pre>
+            );
+          default:
+            return null;
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UserPlus, Trash2 } from "lucide-react";
+import type { ProjectRole, ProjectWithRole, User } from "@shared/schema";
+
+interface ProjectMemberEntry {
+  user: Omit<User, "password">;
+  role: ProjectRole;
+}
+
+interface ShareDialogProps {
+  project: ProjectWithRole;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Propietario',
+  editor: 'Editor',
+  viewer: 'Lector',
+};
+
+export default function ShareDialog({ project, open, onOpenChange }: ShareDialogProps) {
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<'editor' | 'viewer'>("editor");
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isOwner = project.role === 'owner';
+  const membersKey = ['/api/projects', project.id, 'members'];
+
+  const { data: members = [] } = useQuery<ProjectMemberEntry[]>({
+    queryKey: membersKey,
+    enabled: open,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/members`, {
+        username: username.trim(),
+        role,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setUsername("");
+      toast({
+        title: "Colaborador agregado",
+        description: `${username.trim()} ahora tiene acceso al proyecto.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo agregar al colaborador. Verifica el nombre de usuario.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: ProjectRole }) => {
+      const response = await apiRequest("PATCH", `/api/projects/${project.id}/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("DELETE", `/api/projects/${project.id}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: (_data, userId) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      if (userId === user?.id) {
+        // Left the project
+        queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+        onOpenChange(false);
+      }
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-share">
+        <DialogHeader>
+          <DialogTitle>Compartir "{project.name}"</DialogTitle>
+          <DialogDescription>
+            Los editores pueden modificar archivos y usar las acciones de IA; los lectores solo pueden ver el proyecto.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="flex space-x-2">
+            <Input
+              placeholder="Nombre de usuario"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && username.trim()) inviteMutation.mutate();
+              }}
+              data-testid="input-invite-username"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as 'editor' | 'viewer')}>
+              <SelectTrigger className="w-28" data-testid="select-invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">Editor</SelectItem>
+                <SelectItem value="viewer">Lector</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => inviteMutation.mutate()}
+              disabled={!username.trim() || inviteMutation.isPending}
+              data-testid="button-invite"
+            >
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div key={member.user.id} className="flex items-center space-x-3 p-2 rounded hover:bg-secondary" data-testid={`member-${member.user.username}`}>
+              <Avatar className="w-7 h-7 bg-accent">
+                <AvatarFallback className="text-accent-foreground text-xs uppercase">
+                  {member.user.username.slice(0, 2)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="flex-1 text-sm">
+                {member.user.username}
+                {member.user.id === user?.id && <span className="text-muted-foreground"> (tú)</span>}
+              </span>
+              {isOwner && member.role !== 'owner' ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => changeRoleMutation.mutate({ userId: member.user.id, role: value as ProjectRole })}
+                >
+                  <SelectTrigger className="w-28 h-8" data-testid={`select-role-${member.user.username}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="editor">Editor</SelectItem>
+                    <SelectItem value="viewer">Lector</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+              )}
+              {member.role !== 'owner' && (isOwner || member.user.id === user?.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1"
+                  onClick={() => removeMutation.mutate(member.user.id)}
+                  data-testid={`button-remove-${member.user.username}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,16 +4,77 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Trash2, Columns } from "lucide-react";
+import { Trash2, Columns, Package } from "lucide-react";
 import { io, Socket } from "socket.io-client";
+import { isPreviewConsoleMessage, type PreviewConsoleMessage } from "@shared/preview";
+import { isPreviewWindow } from "@/lib/livePreview";
+import type { ProjectRunInfo, ProjectRunResult, RunOutput } from "@shared/run";
+import type { PythonArtifact } from "@shared/artifacts";
+import PythonArtifacts from "@/components/PythonArtifacts";
+import type { File } from "@shared/schema";
 
 interface TerminalLine {
   type: 'input' | 'output' | 'error';
   content: string;
   timestamp: Date;
+  // Streamed output still waiting for the rest of its line
+  open?: boolean;
+  // Figures and display() outputs, shown below the text
+  artifacts?: PythonArtifact[];
 }
 
-export default function Terminal() {
+interface ConsoleEntry extends Omit<PreviewConsoleMessage, 'source'> {
+  timestamp: Date;
+}
+
+interface TerminalProps {
+  projectId?: string;
+  files: File[];
+  onOpenLocation: (fileId: string, line: number, column?: number) => void;
+  // The project's entry file started or stopped running
+  onRunChange: (run: ProjectRunInfo | null) => void;
+}
+
+// Older preview messages are dropped past this many
+const MAX_CONSOLE_ENTRIES = 500;
+
+const CONSOLE_LEVEL_CLASSES: Record<PreviewConsoleMessage['level'], string> = {
+  log: 'text-foreground',
+  info: 'text-blue-500',
+  warn: 'text-yellow-600 bg-yellow-500/10',
+  error: 'text-destructive bg-destructive/10',
+  debug: 'text-muted-foreground',
+};
+
+const SESSION_END_MESSAGES: Record<string, string> = {
+  idle: 'Sesión de Python cerrada por inactividad. Escribe un comando para iniciar otra.',
+  exited: 'La sesión de Python terminó. Escribe un comando para iniciar otra.',
+  truncated: 'La sesión de Python escribió demasiada salida y se cerró. Escribe un comando para iniciar otra.',
+};
+
+// Streams arrive in arbitrary chunks; continue the last line until a newline ends it
+function appendChunk(lines: TerminalLine[], type: TerminalLine['type'], data: string): TerminalLine[] {
+  const last = lines[lines.length - 1];
+  let text = data;
+  let kept = lines;
+  if (last?.open && last.type === type) {
+    kept = lines.slice(0, -1);
+    text = last.content + data;
+  }
+  const open = !text.endsWith('\n');
+  return [...kept, { type, content: open ? text : text.slice(0, -1), open, timestamp: new Date() }];
+}
+
+function describeRunExit(result: ProjectRunResult): string {
+  if (result.stopped) return `■ Ejecución de ${result.entry} detenida`;
+  if (result.timedOut) return `■ ${result.entry} superó el límite de tiempo y se detuvo`;
+  if (result.truncated) return `■ ${result.entry} escribió demasiada salida y se detuvo`;
+  return `■ ${result.entry} terminó con código ${result.exitCode} (${(result.durationMs / 1000).toFixed(1)} s)`;
+}
+
+export default function Terminal({ projectId, files, onOpenLocation, onRunChange }: TerminalProps) {
+  const [activeTab, setActiveTab] = useState("python");
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
   const [currentCommand, setCurrentCommand] = useState("");
   const [terminalLines, setTerminalLines] = useState<TerminalLine[]>([
     {
@@ -37,13 +98,27 @@ export default function Terminal() {
   ]);
   
   const terminalRef = useRef<HTMLDivElement>(null);
+  const consoleRef = useRef<HTMLDivElement>(null);
   const socketRef = useRef<Socket | null>(null);
+  const sessionActiveRef = useRef(false);
+  // While the project's entry file runs, typed lines go to its stdin
+  const [activeRun, setActiveRun] = useState<ProjectRunInfo | null>(null);
+  const onRunChangeRef = useRef(onRunChange);
+  onRunChangeRef.current = onRunChange;
 
+  const updateRun = (run: ProjectRunInfo | null) => {
+    setActiveRun(run);
+    onRunChangeRef.current(run);
+  };
+
+  // One REPL per project; the server ends it when this socket disconnects
   useEffect(() => {
-    // Initialize socket connection for real-time terminal
-    socketRef.current = io();
-    
-    socketRef.current.on('python-output', (data: { type: 'output' | 'error', data: string }) => {
+    const socket = io();
+    socketRef.current = socket;
+    const sessionProjectId = projectId ?? null;
+
+    socket.on('python-output', (data: { projectId: string | null, type: 'output' | 'error', data: string }) => {
+      if (data.projectId !== sessionProjectId) return;
       setTerminalLines(prev => [...prev, {
         type: data.type,
         content: data.data,
@@ -51,14 +126,103 @@ export default function Terminal() {
       }]);
     });
 
-    // Start Python session
-    socketRef.current.emit('start-python-session');
+    socket.on('python-session-ended', (data: { projectId: string | null, reason: string }) => {
+      if (data.projectId !== sessionProjectId) return;
+      sessionActiveRef.current = false;
+      const message = SESSION_END_MESSAGES[data.reason];
+      if (message) {
+        setTerminalLines(prev => [...prev, { type: 'output', content: message, timestamp: new Date() }]);
+      }
+    });
 
-    return () => {
-      if (socketRef.current) {
-        socketRef.current.disconnect();
+    socket.emit('start-python-session', { projectId: sessionProjectId });
+    sessionActiveRef.current = true;
+
+    // Runs of the project's entry file are broadcast to the project room
+    socket.on('run-started', (run: ProjectRunInfo) => {
+      if (run.projectId !== projectId) return;
+      updateRun(run);
+      setActiveTab('python');
+      setTerminalLines(prev => [...prev, {
+        type: 'output',
+        content: `▶ Ejecutando ${run.entry} (${run.startedBy})`,
+        timestamp: new Date(),
+      }]);
+    });
+
+    socket.on('run-output', (output: RunOutput) => {
+      if (output.projectId !== projectId) return;
+      const type = output.stream === 'stderr' ? 'error' : output.stream === 'stdin' ? 'input' : 'output';
+      setTerminalLines(prev => appendChunk(prev, type, output.data));
+    });
+
+    // pip output of a dependency install, whoever started it
+    socket.on('python-install-output', (data: { projectId: string, stream: 'stdout' | 'stderr', data: string }) => {
+      if (data.projectId !== projectId) return;
+      setTerminalLines(prev => appendChunk(prev, data.stream === 'stderr' ? 'error' : 'output', data.data));
+    });
+
+    socket.on('python-install-finished', (data: { projectId: string, success: boolean, error?: string }) => {
+      if (data.projectId !== projectId) return;
+      setTerminalLines(prev => [...prev, {
+        type: data.success ? 'output' : 'error',
+        content: data.success
+          ? '■ Dependencias instaladas. La sesión de Python se reinicia con el entorno del proyecto.'
+          : `■ No se pudieron instalar las dependencias: ${data.error}`,
+        timestamp: new Date(),
+      }]);
+      // A REPL keeps the interpreter it started with
+      if (data.success) {
+        socket.emit('start-python-session', { projectId: sessionProjectId });
+        sessionActiveRef.current = true;
       }
+    });
+
+    socket.on('run-exited', (result: ProjectRunResult) => {
+      if (result.projectId !== projectId) return;
+      updateRun(null);
+      setTerminalLines(prev => [
+        ...prev,
+        ...(result.artifacts.length > 0
+          ? [{ type: 'output' as const, content: '', timestamp: new Date(), artifacts: result.artifacts }]
+          : []),
+        {
+          type: result.exitCode === 0 && !result.stopped ? 'output' : 'error',
+          content: describeRunExit(result),
+          timestamp: new Date(),
+        },
+      ]);
+    });
+
+    updateRun(null);
+    if (projectId) {
+      socket.emit('join-project', projectId);
+      // Pick up a run someone else started before this terminal opened
+      apiRequest("GET", `/api/projects/${projectId}/run`)
+        .then(response => response.json())
+        .then((data: { run: ProjectRunInfo | null }) => {
+          if (socketRef.current === socket && data.run) updateRun(data.run);
+        })
+        .catch(() => {
+          // Run state arrives with the next run-started event
+        });
+    }
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [projectId]);
+
+  // Console output of the web preview, posted by the bridge injected into its pages
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (!isPreviewWindow(event.source) || !isPreviewConsoleMessage(event.data)) return;
+      const { source, ...entry } = event.data;
+      setConsoleEntries(prev => [...prev.slice(-(MAX_CONSOLE_ENTRIES - 1)), { ...entry, timestamp: new Date() }]);
     };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
   }, []);
 
   useEffect(() => {
@@ -68,6 +232,12 @@ export default function Terminal() {
     }
   }, [terminalLines]);
 
+  useEffect(() => {
+    if (consoleRef.current) {
+      consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
+    }
+  }, [consoleEntries]);
+
   const executePythonMutation = useMutation({
     mutationFn: async (code: string) => {
       const response = await apiRequest("POST", "/api/execute-python", { code });
@@ -80,15 +250,42 @@ export default function Terminal() {
           type: result.success ? 'output' : 'error',
           content: result.output || result.error || '',
           timestamp: new Date(),
+          artifacts: result.artifacts,
         },
       ]);
     },
   });
 
+  const installMutation = useMutation({
+    mutationFn: async () => {
+      setActiveTab('python');
+      setTerminalLines(prev => [...prev, {
+        type: 'input',
+        content: '$ pip install -r requirements.txt',
+        timestamp: new Date(),
+      }]);
+      const response = await apiRequest("POST", `/api/projects/${projectId}/python/install`);
+      return response.json();
+    },
+    onError: (error: Error) => {
+      // Failed installs are reported to the whole room; this covers refusals
+      if (!/^(422|500):/.test(error.message)) {
+        setTerminalLines(prev => [...prev, { type: 'error', content: error.message, timestamp: new Date() }]);
+      }
+    },
+  });
+
   const handleCommand = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault();
-      
+
+      // Input for the running file, empty lines included; the server echoes it
+      if (activeRun && socketRef.current) {
+        socketRef.current.emit('run-input', { projectId: activeRun.projectId, data: `${currentCommand}\n` });
+        setCurrentCommand("");
+        return;
+      }
+
       if (!currentCommand.trim()) return;
 
       // Add command to terminal
@@ -100,7 +297,11 @@ export default function Terminal() {
 
       // Send command via socket for interactive session
       if (socketRef.current) {
-        socketRef.current.emit('python-command', currentCommand);
+        if (!sessionActiveRef.current) {
+          socketRef.current.emit('start-python-session', { projectId: projectId ?? null });
+          sessionActiveRef.current = true;
+        }
+        socketRef.current.emit('python-command', { projectId: projectId ?? null, command: currentCommand });
       } else {
         // Fallback to direct execution
         executePythonMutation.mutate(currentCommand);
@@ -111,6 +312,10 @@ export default function Terminal() {
   };
 
   const clearTerminal = () => {
+    if (activeTab === 'console') {
+      setConsoleEntries([]);
+      return;
+    }
     setTerminalLines([
       {
         type: 'output',
@@ -137,20 +342,66 @@ export default function Terminal() {
     return (
       <div key={index} className={`${getLineClass()} whitespace-pre-wrap`} data-testid={`terminal-line-${index}`}>
         {line.content}
+        {line.artifacts && <PythonArtifacts artifacts={line.artifacts} />}
       </div>
     );
   };
 
+  const renderConsoleEntry = (entry: ConsoleEntry, index: number) => {
+    const file = entry.file ? files.find(candidate => candidate.path === entry.file) : undefined;
+    const location = entry.file ? `${entry.file}${entry.line ? `:${entry.line}` : ''}` : null;
+    return (
+      <div
+        key={index}
+        className={`flex items-start space-x-2 px-2 py-0.5 border-b border-border/50 ${CONSOLE_LEVEL_CLASSES[entry.level] ?? ''}`}
+        data-testid={`console-entry-${index}`}
+      >
+        <span className="flex-1 whitespace-pre-wrap break-all">{entry.message}</span>
+        {location && (file && entry.line ? (
+          <button
+            className="shrink-0 text-xs text-primary hover:underline"
+            onClick={() => onOpenLocation(file.id, entry.line!, entry.column)}
+            data-testid={`console-location-${index}`}
+          >
+            {location}
+          </button>
+        ) : (
+          <span className="shrink-0 text-xs text-muted-foreground">{location}</span>
+        ))}
+      </div>
+    );
+  };
+
+  const consoleErrors = consoleEntries.filter(entry => entry.level === 'error').length;
+
   return (
     <div className="h-full flex flex-col" data-testid="terminal">
-      <Tabs defaultValue="python" className="h-full flex flex-col">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
         <div className="bg-muted px-4 py-2 border-b border-border flex items-center justify-between">
           <TabsList>
             <TabsTrigger value="python" data-testid="tab-python">Python</TabsTrigger>
             <TabsTrigger value="bash" data-testid="tab-bash">Bash</TabsTrigger>
             <TabsTrigger value="problems" data-testid="tab-problems">Problemas</TabsTrigger>
+            <TabsTrigger value="console" data-testid="tab-console">
+              Consola
+              {consoleErrors > 0 && (
+                <span className="ml-1 rounded-full bg-destructive px-1.5 text-[10px] text-destructive-foreground">{consoleErrors}</span>
+              )}
+            </TabsTrigger>
           </TabsList>
           <div className="flex items-center space-x-1">
+            {projectId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => installMutation.mutate()}
+                disabled={installMutation.isPending || !!activeRun}
+                title="Instalar dependencias (requirements.txt)"
+                data-testid="button-install-requirements"
+              >
+                <Package className="w-4 h-4" />
+              </Button>
+            )}
             <Button variant="ghost" size="sm" onClick={clearTerminal} data-testid="button-clear">
               <Trash2 className="w-4 h-4" />
             </Button>
@@ -168,13 +419,13 @@ export default function Terminal() {
           >
             {terminalLines.map(renderTerminalLine)}
             <div className="flex items-center">
-              <span className="text-accent mr-2">{'>>> '}</span>
+              <span className="text-accent mr-2">{activeRun ? '> ' : '>>> '}</span>
               <Input
                 value={currentCommand}
                 onChange={(e) => setCurrentCommand(e.target.value)}
                 onKeyDown={handleCommand}
                 className="border-0 bg-transparent p-0 font-mono focus:ring-0 focus:outline-none"
-                placeholder="Escribe un comando Python..."
+                placeholder={activeRun ? `Entrada para ${activeRun.entry}...` : "Escribe un comando Python..."}
                 data-testid="python-input"
               />
             </div>
@@ -219,6 +470,22 @@ export default function Terminal() {
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="console" className="flex-1 flex flex-col m-0">
+          <div
+            ref={consoleRef}
+            className="flex-1 bg-background font-mono text-sm overflow-auto"
+            data-testid="preview-console"
+          >
+            {consoleEntries.length === 0 ? (
+              <div className="text-muted-foreground p-4">
+                Aquí aparecerán los console.log y los errores de la vista previa web
+              </div>
+            ) : (
+              consoleEntries.map(renderConsoleEntry)
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,13 +1,39 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Play, Share } from "lucide-react";
-import type { Project } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Play, Square, Share, LogOut, ChevronDown, Check, LayoutGrid } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import ShareDialog from "@/components/ShareDialog";
+import type { ProjectWithRole } from "@shared/schema";
 
 interface TopNavigationProps {
-  project: Project | null;
+  project: ProjectWithRole | null;
+  // Entry file of the run in progress, if any
+  runningEntry: string | null;
+  canRun: boolean;
+  onRun: () => void;
+  onStop: () => void;
 }
 
-export default function TopNavigation({ project }: TopNavigationProps) {
+export default function TopNavigation({ project, runningEntry, canRun, onRun, onStop }: TopNavigationProps) {
+  const { user, logoutMutation } = useAuth();
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [, navigate] = useLocation();
+
+  const { data: projects = [] } = useQuery<ProjectWithRole[]>({
+    queryKey: ['/api/projects'],
+  });
+
   return (
     <header className="bg-card border-b border-border px-4 py-2 flex items-center justify-between" data-testid="top-navigation">
       <div className="flex items-center space-x-4">
@@ -15,6 +41,32 @@ export default function TopNavigation({ project }: TopNavigationProps) {
           <i className="fas fa-code text-primary text-xl"></i>
           <h1 className="text-lg font-semibold">WebCode AI Studio</h1>
         </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="max-w-56" data-testid="button-project-switcher">
+              <span className="truncate">{project?.name ?? 'Seleccionar proyecto'}</span>
+              <ChevronDown className="w-4 h-4 ml-1 shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            <DropdownMenuLabel>Proyectos</DropdownMenuLabel>
+            {projects.map((item) => (
+              <DropdownMenuItem
+                key={item.id}
+                onClick={() => navigate(`/project/${item.id}`)}
+                data-testid={`menu-project-${item.id}`}
+              >
+                <Check className={`w-4 h-4 mr-2 ${item.id === project?.id ? '' : 'invisible'}`} />
+                <span className="truncate">{item.name}</span>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => navigate("/")} data-testid="menu-all-projects">
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              Todos los proyectos
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <nav className="flex items-center space-x-1">
           <Button variant="ghost" size="sm" data-testid="menu-file">
             Archivo
@@ -35,19 +87,66 @@ export default function TopNavigation({ project }: TopNavigationProps) {
       </div>
       
       <div className="flex items-center space-x-2">
-        <Button className="bg-primary text-primary-foreground hover:bg-primary/90" size="sm" data-testid="button-run">
-          <Play className="w-4 h-4 mr-1" />
-          Ejecutar
-        </Button>
-        <Button variant="secondary" size="sm" data-testid="button-share">
+        {runningEntry ? (
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={onStop}
+            disabled={!canRun}
+            title={`Detener ${runningEntry}`}
+            data-testid="button-stop"
+          >
+            <Square className="w-4 h-4 mr-1" />
+            Detener
+          </Button>
+        ) : (
+          <Button
+            className="bg-primary text-primary-foreground hover:bg-primary/90"
+            size="sm"
+            onClick={onRun}
+            disabled={!canRun}
+            data-testid="button-run"
+          >
+            <Play className="w-4 h-4 mr-1" />
+            Ejecutar
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setIsShareOpen(true)}
+          disabled={!project}
+          data-testid="button-share"
+        >
           <Share className="w-4 h-4 mr-1" />
           Compartir
         </Button>
-        <Avatar className="w-8 h-8 bg-accent" data-testid="user-avatar">
-          <AvatarFallback className="text-accent-foreground text-xs">
-            <i className="fas fa-user"></i>
-          </AvatarFallback>
-        </Avatar>
+        {project && (
+          <ShareDialog project={project} open={isShareOpen} onOpenChange={setIsShareOpen} />
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="rounded-full focus:outline-none focus:ring-2 focus:ring-ring" data-testid="button-user-menu">
+              <Avatar className="w-8 h-8 bg-accent" data-testid="user-avatar">
+                <AvatarFallback className="text-accent-foreground text-xs uppercase">
+                  {user?.username.slice(0, 2) ?? <i className="fas fa-user"></i>}
+                </AvatarFallback>
+              </Avatar>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel data-testid="text-username">{user?.username}</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="menu-logout"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Cerrar sesión
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </header>
   );
@@ -0,0 +1,113 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@shared/schema";
+
+export type PublicUser = Omit<User, "password">;
+
+type Credentials = { username: string; password: string };
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// apiRequest errors look like `401: {"error":"..."}`; show only the message
+function describeError(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (user: PublicUser) => {
+    // Drop anything cached for a previous session
+    queryClient.clear();
+    queryClient.setQueryData(["/api/auth/me"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo iniciar sesión",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/auth/register", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo crear la cuenta",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,230 @@
+import type { File } from "@shared/schema";
+
+// Approximate model of Android layout XML for the APK preview: the layout is
+// parsed into a plain tree, and references are resolved against the default
+// res/values/ resources of the project. Nothing here tries to be exact; the
+// goal is a recognizable mock that follows the file as it is edited.
+
+const ANDROID_NAMESPACE = 'http://schemas.android.com/apk/res/android';
+const TOOLS_NAMESPACE = 'http://schemas.android.com/tools';
+const MAX_REFERENCE_DEPTH = 8;
+
+export const DEFAULT_COLOR_PRIMARY = 'rgba(98, 0, 238, 1)';
+export const DEFAULT_TEXT_COLOR = 'rgba(0, 0, 0, 0.87)';
+
+export class LayoutParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutParseError';
+  }
+}
+
+export interface LayoutNode {
+  tag: string;
+  // Keyed by local name (`layout_width`, `text`, ...); `tools:` values win
+  // over the real ones, as in the Android Studio preview
+  attributes: Record<string, string>;
+  children: LayoutNode[];
+}
+
+export interface AndroidResources {
+  strings: Map<string, string>;
+  colors: Map<string, string>;
+  dimens: Map<string, string>;
+}
+
+const LAYOUT_PATH = /^\/res\/layout(-[^/]+)?\/[^/]+\.xml$/;
+const DEFAULT_VALUES_PATH = /^\/res\/values\/[^/]+\.xml$/;
+
+export function isLayoutPath(path: string): boolean {
+  return LAYOUT_PATH.test(path);
+}
+
+// The layout to preview: the selected file when it is one, otherwise the
+// project's main layout
+export function pickLayoutFile(files: File[], selectedFile: File | undefined): File | undefined {
+  if (selectedFile && isLayoutPath(selectedFile.path)) return selectedFile;
+  const layouts = files.filter(file => isLayoutPath(file.path));
+  return layouts.find(file => file.path === '/res/layout/activity_main.xml')
+    ?? layouts.find(file => file.path.startsWith('/res/layout/'))
+    ?? layouts[0];
+}
+
+export function parseLayout(xml: string): LayoutNode {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new LayoutParseError(error.textContent?.trim().split('\n')[0] || 'XML inválido');
+  }
+  return toNode(document.documentElement);
+}
+
+function toNode(element: Element): LayoutNode {
+  const attributes: Record<string, string> = {};
+  const toolsAttributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.name === 'xmlns' || attribute.prefix === 'xmlns') continue;
+    if (attribute.namespaceURI === TOOLS_NAMESPACE) {
+      toolsAttributes[attribute.localName] = attribute.value;
+    } else if (attribute.namespaceURI === ANDROID_NAMESPACE || !(attribute.localName in attributes)) {
+      attributes[attribute.localName] = attribute.value;
+    }
+  }
+  return {
+    tag: element.tagName,
+    attributes: { ...attributes, ...toolsAttributes },
+    children: Array.from(element.children).map(toNode),
+  };
+}
+
+// strings, colors and dimens from res/values/*.xml; qualified directories
+// (values-es, values-night, ...) are left out of the preview
+export function collectResources(files: File[]): AndroidResources {
+  const resources: AndroidResources = { strings: new Map(), colors: new Map(), dimens: new Map() };
+  const parser = new DOMParser();
+  for (const file of files) {
+    if (!DEFAULT_VALUES_PATH.test(file.path)) continue;
+    const document = parser.parseFromString(file.content, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) continue;
+    for (const element of Array.from(document.documentElement.children)) {
+      const name = element.getAttribute('name');
+      if (!name) continue;
+      const type = element.tagName === 'item' ? element.getAttribute('type') : element.tagName;
+      const value = element.textContent ?? '';
+      if (type === 'string') resources.strings.set(name, unescapeAndroidString(value));
+      else if (type === 'color') resources.colors.set(name, value.trim());
+      else if (type === 'dimen') resources.dimens.set(name, value.trim());
+    }
+  }
+  return resources;
+}
+
+// aapt's string escapes: surrounding quotes keep whitespace, backslashes
+// escape quotes, `@`, `?` and control characters
+export function unescapeAndroidString(value: string): string {
+  let text = value.trim();
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    text = text.slice(1, -1);
+  } else {
+    text = text.replace(/\s+/g, ' ');
+  }
+  return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+    if (escape.length === 5) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    if (escape === 'n') return '\n';
+    if (escape === 't') return '\t';
+    return escape;
+  });
+}
+
+const FRAMEWORK_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  transparent: '#00000000',
+  darker_gray: '#aaaaaa',
+  background_light: '#ffffff',
+  background_dark: '#000000',
+  holo_blue_light: '#33b5e5',
+  holo_blue_dark: '#0099cc',
+  holo_green_light: '#99cc00',
+  holo_red_light: '#ff4444',
+  holo_orange_light: '#ffbb33',
+};
+
+// `@type/name`, `@android:type/name`, `?attr/name` and `?android:attr/name`
+const REFERENCE = /^([@?])(?:\+?([\w.]+):)?(?:(\w+)\/)?([\w.]+)$/;
+
+export class ResourceResolver {
+  constructor(private resources: AndroidResources) {}
+
+  // Unresolvable references are shown as written
+  text(value: string | undefined, depth = 0): string | undefined {
+    if (value === undefined || depth > MAX_REFERENCE_DEPTH) return value;
+    const reference = value.match(REFERENCE);
+    if (!reference) return value.startsWith('\\@') || value.startsWith('\\?') ? value.slice(1) : value;
+    const [, , pkg, type, name] = reference;
+    const resolved = type === 'string' && !pkg ? this.resources.strings.get(name) : undefined;
+    return resolved === undefined ? value : this.text(resolved, depth + 1);
+  }
+
+  // A CSS color, or undefined for values that are not colors (drawables, ...)
+  color(value: string | undefined, depth = 0): string | undefined {
+    if (value === undefined || depth > MAX_REFERENCE_DEPTH) return undefined;
+    const literal = parseColor(value);
+    if (literal) return literal;
+
+    const reference = value.match(REFERENCE);
+    if (!reference) return undefined;
+    const [, kind, pkg, type, name] = reference;
+    if (kind === '?') {
+      // Theme attributes fall back to the project color of the same name
+      const themed = this.resources.colors.get(name);
+      if (themed !== undefined) return this.color(themed, depth + 1);
+      return /primary|accent|secondary/i.test(name) ? DEFAULT_COLOR_PRIMARY : undefined;
+    }
+    if (type !== 'color') return undefined;
+    if (pkg === 'android') {
+      return FRAMEWORK_COLORS[name] ? parseColor(FRAMEWORK_COLORS[name]) : undefined;
+    }
+    const resolved = this.resources.colors.get(name);
+    return resolved === undefined ? undefined : this.color(resolved, depth + 1);
+  }
+
+  // Pixels at mdpi, where 1dp = 1px
+  dimension(value: string | undefined, depth = 0): number | undefined {
+    if (value === undefined || depth > MAX_REFERENCE_DEPTH) return undefined;
+    const literal = parseDimension(value);
+    if (literal !== undefined) return literal;
+    const reference = value.match(REFERENCE);
+    if (!reference || reference[3] !== 'dimen' || reference[2]) return undefined;
+    const resolved = this.resources.dimens.get(reference[4]);
+    return resolved === undefined ? undefined : this.dimension(resolved, depth + 1);
+  }
+}
+
+const DIMENSION = /^(-?\d+(?:\.\d+)?|-?\.\d+)(dp|dip|sp|px|pt|in|mm)$/;
+const UNIT_SCALE: Record<string, number> = { dp: 1, dip: 1, sp: 1, px: 1, pt: 160 / 72, in: 160, mm: 160 / 25.4 };
+
+export function parseDimension(value: string): number | undefined {
+  const match = value.trim().match(DIMENSION);
+  return match ? Number(match[1]) * UNIT_SCALE[match[2]] : undefined;
+}
+
+// #RGB, #ARGB, #RRGGBB and #AARRGGBB (alpha first, unlike CSS)
+export function parseColor(value: string): string | undefined {
+  const match = value.trim().match(/^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/);
+  if (!match) return undefined;
+  let digits = match[1];
+  if (digits.length <= 4) digits = digits.split('').map(digit => digit + digit).join('');
+  if (digits.length === 6) digits = `ff${digits}`;
+  const [alpha, red, green, blue] = [0, 2, 4, 6].map(index => parseInt(digits.slice(index, index + 2), 16));
+  return `rgba(${red}, ${green}, ${blue}, ${Number((alpha / 255).toFixed(3))})`;
+}
+
+export interface Gravity {
+  horizontal?: 'start' | 'center' | 'end' | 'stretch';
+  vertical?: 'start' | 'center' | 'end' | 'stretch';
+}
+
+export function parseGravity(value: string | undefined): Gravity {
+  const gravity: Gravity = {};
+  for (const flag of (value ?? '').split('|').map(part => part.trim())) {
+    switch (flag) {
+      case 'top': gravity.vertical = 'start'; break;
+      case 'bottom': gravity.vertical = 'end'; break;
+      case 'left': case 'start': gravity.horizontal = 'start'; break;
+      case 'right': case 'end': gravity.horizontal = 'end'; break;
+      case 'center_vertical': gravity.vertical = 'center'; break;
+      case 'center_horizontal': gravity.horizontal = 'center'; break;
+      case 'center': gravity.horizontal = 'center'; gravity.vertical = 'center'; break;
+      case 'fill_vertical': gravity.vertical = 'stretch'; break;
+      case 'fill_horizontal': gravity.horizontal = 'stretch'; break;
+      case 'fill': gravity.horizontal = 'stretch'; gravity.vertical = 'stretch'; break;
+    }
+  }
+  return gravity;
+}
+
+// `com.google.android.material.button.MaterialButton` -> `MaterialButton`
+export function simpleTagName(tag: string): string {
+  return tag.slice(tag.lastIndexOf('.') + 1);
+}
@@ -0,0 +1,27 @@
+// How the web preview reacts when a project file is saved: stylesheets are
+// swapped in place, pages and scripts need a full reload, anything else
+// (Python, Markdown, ...) cannot change what the page shows.
+
+export type PreviewUpdate = 'css' | 'reload' | 'none';
+
+const RELOAD_EXTENSIONS = new Set(['html', 'htm', 'js', 'mjs', 'json', 'svg']);
+
+export function previewUpdateFor(path: string): PreviewUpdate {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  if (extension === 'css') return 'css';
+  return RELOAD_EXTENSIONS.has(extension) ? 'reload' : 'none';
+}
+
+// The URL the preview route serves a project file under, for a preview
+// token issued by /api/projects/:projectId/preview
+export function previewUrlFor(projectId: string, token: string, path: string): string {
+  return `/preview/${projectId}/${token}${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// Preview pages post from an opaque origin ("null"), so their messages are
+// told apart by the window that sent them
+export function isPreviewWindow(source: MessageEventSource | null): boolean {
+  if (!source) return false;
+  return Array.from(document.querySelectorAll<HTMLIFrameElement>('iframe[data-preview-frame]'))
+    .some(frame => frame.contentWindow === source);
+}
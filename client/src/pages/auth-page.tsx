@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [mode, setMode] = useState<"login" | "register">("login");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+
+    const credentials = { username: username.trim(), password };
+    if (mode === "login") {
+      loginMutation.mutate(credentials);
+    } else {
+      registerMutation.mutate(credentials);
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Usuario</Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Contraseña</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid={`input-${mode}-password`}
+        />
+        {mode === "register" && (
+          <p className="text-xs text-muted-foreground">Mínimo 8 caracteres</p>
+        )}
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending} data-testid={`button-${mode}`}>
+        {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {mode === "login" ? "Iniciar sesión" : "Crear cuenta"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background text-foreground p-4" data-testid="auth-page">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-2">
+            <i className="fas fa-code text-primary text-xl"></i>
+            <CardTitle className="text-lg">WebCode AI Studio</CardTitle>
+          </div>
+          <CardDescription>Inicia sesión para acceder a tus proyectos</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "login" | "register")}>
+            <TabsList className="grid grid-cols-2 w-full mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Entrar</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Registrarse</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">{renderForm()}</TabsContent>
+            <TabsContent value="register">{renderForm()}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
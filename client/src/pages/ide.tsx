@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { useParams } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import TopNavigation from "@/components/TopNavigation";
 import FileExplorer from "@/components/FileExplorer";
 import CodeEditor from "@/components/CodeEditor";
@@ -9,30 +9,66 @@ import Terminal from "@/components/Terminal";
 import AIChat from "@/components/AIChat";
 import { Separator } from "@/components/ui/separator";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser } from "@/hooks/use-auth";
+import type { File, ProjectWithRole } from "@shared/schema";
+import { defaultRunEntry, type ProjectRunInfo } from "@shared/run";
 
 export default function IDE() {
-  const { id } = useParams<{ id?: string }>();
+  const { id: currentProjectId } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
   const [openTabs, setOpenTabs] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<string | null>(null);
+  // Line to jump to once the editor shows the file, e.g. from the preview console
+  const [revealLocation, setRevealLocation] = useState<{ fileId: string; line: number; column: number } | null>(null);
+  // Run of the project's entry file, as reported to the terminal
+  const [activeRun, setActiveRun] = useState<ProjectRunInfo | null>(null);
+  const { toast } = useToast();
   
-  const { data: projects } = useQuery({
-    queryKey: ['/api/projects'],
+  const { data: project, isError: projectNotFound } = useQuery<ProjectWithRole>({
+    queryKey: ['/api/projects', currentProjectId],
+    enabled: !!currentProjectId,
+    retry: false,
   });
   
-  const currentProject = projects?.[0] || null;
-  const currentProjectId = id || currentProject?.id;
+  const currentProject = project || null;
 
-  const { data: files } = useQuery({
+  const { data: files } = useQuery<File[]>({
     queryKey: ['/api/projects', currentProjectId, 'files'],
-    enabled: !!currentProjectId,
+    enabled: !!currentProject,
   });
 
-  const { data: selectedFile } = useQuery({
+  const { data: selectedFile } = useQuery<File>({
     queryKey: ['/api/files', selectedFileId],
     enabled: !!selectedFileId,
   });
 
+  // Switching projects starts from a clean editor and remembers the choice
+  useEffect(() => {
+    setSelectedFileId(null);
+    setOpenTabs([]);
+    setActiveTab(null);
+
+    if (!currentProjectId) return;
+    apiRequest("POST", `/api/projects/${currentProjectId}/open`)
+      .then(() => {
+        queryClient.setQueryData<PublicUser | null>(['/api/auth/me'], (user) =>
+          user ? { ...user, lastProjectId: currentProjectId } : user,
+        );
+      })
+      .catch(() => {
+        // Access is checked again by the project query
+      });
+  }, [currentProjectId]);
+
+  useEffect(() => {
+    if (projectNotFound) {
+      navigate("/", { replace: true });
+    }
+  }, [projectNotFound, navigate]);
+
   useEffect(() => {
     if (files && files.length > 0 && !selectedFileId) {
       const firstFile = files[0];
@@ -50,6 +86,43 @@ export default function IDE() {
     }
   };
 
+  const handleOpenLocation = (fileId: string, line: number, column = 1) => {
+    handleFileSelect(fileId);
+    setRevealLocation({ fileId, line, column });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (entry: string) => {
+      const response = await apiRequest("POST", `/api/projects/${currentProjectId}/run`, { entry });
+      return response.json() as Promise<ProjectRunInfo>;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo ejecutar el archivo. ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/projects/${currentProjectId}/run/stop`);
+    },
+  });
+
+  const handleRun = () => {
+    const entry = defaultRunEntry((files || []).map(file => file.path), selectedFile?.path);
+    if (!entry) {
+      toast({
+        title: "Nada que ejecutar",
+        description: "El proyecto no tiene ningún archivo Python.",
+      });
+      return;
+    }
+    runMutation.mutate(entry);
+  };
+
   const handleCloseTab = (fileId: string) => {
     const newTabs = openTabs.filter(id => id !== fileId);
     setOpenTabs(newTabs);
@@ -64,7 +137,13 @@ export default function IDE() {
 
   return (
     <div className="h-screen flex flex-col overflow-hidden bg-background text-foreground" data-testid="ide-container">
-      <TopNavigation project={currentProject} />
+      <TopNavigation
+        project={currentProject}
+        runningEntry={activeRun?.entry ?? null}
+        canRun={!!currentProject && currentProject.role !== 'viewer' && !runMutation.isPending}
+        onRun={handleRun}
+        onStop={() => stopMutation.mutate()}
+      />
       
       <div className="flex-1 flex overflow-hidden">
         <ResizablePanelGroup direction="horizontal" className="flex-1">
@@ -75,6 +154,7 @@ export default function IDE() {
                 project={currentProject}
                 files={files || []}
                 selectedFileId={selectedFileId}
+                readOnly={currentProject?.role === 'viewer'}
                 onFileSelect={handleFileSelect}
                 data-testid="file-explorer"
               />
@@ -94,6 +174,9 @@ export default function IDE() {
                 onTabSelect={setActiveTab}
                 onTabClose={handleCloseTab}
                 onFileSelect={handleFileSelect}
+                revealLocation={revealLocation}
+                onLocationRevealed={() => setRevealLocation(null)}
+                readOnly={currentProject?.role === 'viewer'}
                 data-testid="code-editor"
               />
             </div>
@@ -105,6 +188,7 @@ export default function IDE() {
           <ResizablePanel defaultSize={25}>
             <PreviewPanel
               project={currentProject}
+              files={files || []}
               selectedFile={selectedFile}
               data-testid="preview-panel"
             />
@@ -117,7 +201,13 @@ export default function IDE() {
       <div className="h-48 bg-card">
         <ResizablePanelGroup direction="horizontal">
           <ResizablePanel defaultSize={70}>
-            <Terminal data-testid="terminal" />
+            <Terminal
+              projectId={currentProjectId}
+              files={files || []}
+              onOpenLocation={handleOpenLocation}
+              onRunChange={setActiveRun}
+              data-testid="terminal"
+            />
           </ResizablePanel>
           
           <ResizableHandle />
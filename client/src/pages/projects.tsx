@@ -0,0 +1,503 @@
+import { useMemo, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Plus, Search, MoreVertical, Pencil, Copy, Trash2, Globe, Smartphone, Code, LogOut, History, Download, Upload } from "lucide-react";
+import type { ProjectTemplate, ProjectWithRole } from "@shared/schema";
+
+type ProjectType = 'web' | 'apk' | 'python';
+
+const TEMPLATES_BY_TYPE: Record<ProjectType, Array<{ value: ProjectTemplate; label: string }>> = {
+  web: [
+    { value: 'basic_website', label: 'Sitio web básico' },
+    { value: 'react_app', label: 'Aplicación React' },
+    { value: 'blank', label: 'En blanco' },
+  ],
+  apk: [
+    { value: 'android_app', label: 'Aplicación Android' },
+    { value: 'blank', label: 'En blanco (subir APK)' },
+  ],
+  python: [
+    { value: 'python_script', label: 'Script de Python' },
+    { value: 'blank', label: 'En blanco' },
+  ],
+};
+
+const TYPE_LABELS: Record<ProjectType, string> = {
+  web: 'Web',
+  apk: 'APK',
+  python: 'Python',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Propietario',
+  editor: 'Editor',
+  viewer: 'Lector',
+};
+
+function ProjectTypeIcon({ type }: { type: string }) {
+  switch (type) {
+    case 'apk':
+      return <Smartphone className="w-4 h-4 text-green-500" />;
+    case 'python':
+      return <Code className="w-4 h-4 text-yellow-500" />;
+    default:
+      return <Globe className="w-4 h-4 text-primary" />;
+  }
+}
+
+export default function Projects() {
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<ProjectType>("web");
+  const [newTemplate, setNewTemplate] = useState<ProjectTemplate>("basic_website");
+  const [renaming, setRenaming] = useState<ProjectWithRole | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deleting, setDeleting] = useState<ProjectWithRole | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: projects = [], isLoading } = useQuery<ProjectWithRole[]>({
+    queryKey: ['/api/projects'],
+  });
+
+  const lastProject = projects.find(project => project.id === user?.lastProjectId);
+
+  const filteredProjects = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return projects
+      .filter(project =>
+        !term ||
+        project.name.toLowerCase().includes(term) ||
+        project.description?.toLowerCase().includes(term),
+      )
+      .sort((a, b) => new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime());
+  }, [projects, search]);
+
+  const invalidateProjects = () => queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/projects", {
+        name: newName.trim(),
+        type: newType,
+        template: newTemplate,
+      });
+      return response.json() as Promise<ProjectWithRole>;
+    },
+    onSuccess: (project) => {
+      invalidateProjects();
+      setIsCreateOpen(false);
+      setNewName("");
+      navigate(`/project/${project.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo crear el proyecto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const response = await apiRequest("PUT", `/api/projects/${id}`, { name });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProjects();
+      setRenaming(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo renombrar el proyecto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/projects/${id}/duplicate`);
+      return response.json() as Promise<ProjectWithRole>;
+    },
+    onSuccess: (project) => {
+      invalidateProjects();
+      toast({
+        title: "Proyecto duplicado",
+        description: `Se creó "${project.name}".`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo duplicar el proyecto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/projects/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProjects();
+      setDeleting(null);
+      toast({
+        title: "Proyecto eliminado",
+        description: "El proyecto y sus archivos se han eliminado.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo eliminar el proyecto.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (archive: File) => {
+      const formData = new FormData();
+      formData.append('archive', archive);
+
+      const response = await fetch('/api/projects/import', {
+        method: 'POST',
+        body: formData,
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error ?? 'Failed to import project');
+      }
+      return body as { project: ProjectWithRole; imported: number; skipped: string[] };
+    },
+    onSuccess: ({ project, imported, skipped }) => {
+      invalidateProjects();
+      toast({
+        title: "Proyecto importado",
+        description: skipped.length > 0
+          ? `Se importaron ${imported} archivos; se omitieron ${skipped.length} (rutas no válidas).`
+          : `Se importaron ${imported} archivos.`,
+      });
+      navigate(`/project/${project.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo importar el ZIP",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = event.target.files?.[0];
+    if (archive) {
+      importMutation.mutate(archive);
+    }
+    event.target.value = "";
+  };
+
+  const handleTypeChange = (type: ProjectType) => {
+    setNewType(type);
+    setNewTemplate(TEMPLATES_BY_TYPE[type][0].value);
+  };
+
+  const renderProjectCard = (project: ProjectWithRole) => (
+    <Card
+      key={project.id}
+      className="cursor-pointer hover:border-primary transition-colors"
+      onClick={() => navigate(`/project/${project.id}`)}
+      data-testid={`card-project-${project.id}`}
+    >
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <ProjectTypeIcon type={project.type} />
+            <CardTitle className="text-base truncate">{project.name}</CardTitle>
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button variant="ghost" size="sm" className="p-1 h-7 w-7" data-testid={`button-project-menu-${project.id}`}>
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuItem
+                disabled={project.role === 'viewer'}
+                onClick={() => {
+                  setRenaming(project);
+                  setRenameValue(project.name);
+                }}
+                data-testid={`menu-rename-${project.id}`}
+              >
+                <Pencil className="w-4 h-4 mr-2" />
+                Renombrar
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => duplicateMutation.mutate(project.id)}
+                data-testid={`menu-duplicate-${project.id}`}
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Duplicar
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild data-testid={`menu-export-${project.id}`}>
+                <a href={`/api/projects/${project.id}/export.zip`} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  Exportar ZIP
+                </a>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-destructive"
+                disabled={project.role !== 'owner'}
+                onClick={() => setDeleting(project)}
+                data-testid={`menu-delete-${project.id}`}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Eliminar
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <CardDescription className="line-clamp-2 min-h-[2.5rem]">
+          {project.description || 'Sin descripción'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center justify-between text-xs text-muted-foreground">
+        <div className="flex items-center space-x-2">
+          <Badge variant="secondary">{TYPE_LABELS[project.type as ProjectType] ?? project.type}</Badge>
+          {project.role !== 'owner' && <Badge variant="outline">{ROLE_LABELS[project.role]}</Badge>}
+        </div>
+        <span>
+          {project.updatedAt
+            ? formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true, locale: es })
+            : ''}
+        </span>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background text-foreground" data-testid="projects-page">
+      <header className="bg-card border-b border-border px-6 py-3 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <i className="fas fa-code text-primary text-xl"></i>
+          <h1 className="text-lg font-semibold">WebCode AI Studio</h1>
+        </div>
+        <div className="flex items-center space-x-3 text-sm">
+          <span className="text-muted-foreground" data-testid="text-username">{user?.username}</span>
+          <Button variant="ghost" size="sm" onClick={() => logoutMutation.mutate()} data-testid="button-logout">
+            <LogOut className="w-4 h-4 mr-1" />
+            Salir
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold">Mis proyectos</h2>
+          <div className="flex items-center space-x-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleImportFile}
+              data-testid="input-import-zip"
+            />
+            <Button
+              variant="secondary"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-project"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              {importMutation.isPending ? 'Importando...' : 'Importar ZIP'}
+            </Button>
+            <Button onClick={() => setIsCreateOpen(true)} data-testid="button-new-project">
+              <Plus className="w-4 h-4 mr-1" />
+              Nuevo proyecto
+            </Button>
+          </div>
+        </div>
+
+        {lastProject && (
+          <div
+            className="flex items-center space-x-3 p-3 rounded-lg border border-border bg-card cursor-pointer hover:border-primary"
+            onClick={() => navigate(`/project/${lastProject.id}`)}
+            data-testid="button-continue-last-project"
+          >
+            <History className="w-4 h-4 text-accent" />
+            <span className="text-sm">
+              Continuar donde lo dejaste: <span className="font-medium">{lastProject.name}</span>
+            </span>
+          </div>
+        )}
+
+        <div className="relative max-w-sm">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Buscar proyectos..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+            data-testid="input-search-projects"
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Cargando proyectos...</p>
+        ) : filteredProjects.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {filteredProjects.map(renderProjectCard)}
+          </div>
+        ) : (
+          <div className="text-center text-muted-foreground py-16">
+            <i className="fas fa-folder-open text-4xl mb-4"></i>
+            <p>{search ? 'Ningún proyecto coincide con la búsqueda' : 'Todavía no tienes proyectos'}</p>
+          </div>
+        )}
+      </main>
+
+      {/* Create project */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent data-testid="dialog-create-project">
+          <DialogHeader>
+            <DialogTitle>Nuevo proyecto</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="project-name">Nombre</Label>
+              <Input
+                id="project-name"
+                placeholder="mi-proyecto"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                data-testid="input-project-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={newType} onValueChange={(value) => handleTypeChange(value as ProjectType)}>
+                <SelectTrigger data-testid="select-project-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="web">Web</SelectItem>
+                  <SelectItem value="apk">APK / Android</SelectItem>
+                  <SelectItem value="python">Python</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Plantilla</Label>
+              <Select value={newTemplate} onValueChange={(value) => setNewTemplate(value as ProjectTemplate)}>
+                <SelectTrigger data-testid="select-project-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATES_BY_TYPE[newType].map(template => (
+                    <SelectItem key={template.value} value={template.value}>{template.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!newName.trim() || createMutation.isPending}
+              data-testid="button-create-project"
+            >
+              Crear proyecto
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rename project */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent data-testid="dialog-rename-project">
+          <DialogHeader>
+            <DialogTitle>Renombrar proyecto</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            data-testid="input-rename-project"
+          />
+          <DialogFooter>
+            <Button
+              onClick={() => renaming && renameMutation.mutate({ id: renaming.id, name: renameValue.trim() })}
+              disabled={!renameValue.trim() || renameMutation.isPending}
+              data-testid="button-confirm-rename"
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete project */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent data-testid="dialog-delete-project">
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Se eliminarán el proyecto, todos sus archivos y su historial. Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
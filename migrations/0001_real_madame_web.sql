@@ -0,0 +1,13 @@
+CREATE TABLE "file_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" varchar NOT NULL,
+	"project_id" varchar NOT NULL,
+	"path" text NOT NULL,
+	"content" text NOT NULL,
+	"author" text NOT NULL,
+	"source" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "file_revisions" ADD CONSTRAINT "file_revisions_file_id_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "file_revisions" ADD CONSTRAINT "file_revisions_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "project_members" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "project_members_project_user_unique" UNIQUE("project_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "owner_id" varchar;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "last_project_id" varchar;
\ No newline at end of file
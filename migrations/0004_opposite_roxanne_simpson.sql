@@ -0,0 +1,9 @@
+CREATE TABLE "folders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"path" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "folders_project_path_unique" UNIQUE("project_id","path")
+);
+--> statement-breakpoint
+ALTER TABLE "folders" ADD CONSTRAINT "folders_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
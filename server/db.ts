@@ -0,0 +1,29 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import ws from "ws";
+import path from "path";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDatabase>;
+
+function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// The database is optional: without DATABASE_URL the server falls back to
+// the in-memory storage, so nothing here may throw at import time.
+export const db: Database | null = process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : null;
+
+export async function runMigrations(): Promise<void> {
+  if (!db) return;
+
+  await migrate(db, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { runMigrations } from "./db";
+import { projectSync } from "./services/projectSync";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await runMigrations();
+  await projectSync.syncAll();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
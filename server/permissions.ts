@@ -0,0 +1,81 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { Project, ProjectRole } from "@shared/schema";
+import type { ChatActionType } from "@shared/actions";
+import { storage } from "./storage";
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasRole(role: ProjectRole | null | undefined, required: ProjectRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export async function getProjectRole(project: Project | string, userId: string): Promise<ProjectRole | null> {
+  const resolved = typeof project === 'string' ? await storage.getProject(project) : project;
+  if (!resolved) return null;
+  if (resolved.ownerId === userId) return 'owner';
+
+  const member = await storage.getProjectMember(resolved.id, userId);
+  return member?.role ?? null;
+}
+
+// Resolves the project a request targets and rejects it unless the session
+// user holds at least `required` on it. Projects the user cannot see at all
+// answer 404 so their existence is not leaked.
+export function requireProjectRole(
+  required: ProjectRole,
+  resolveProjectId: (req: Request) => Promise<string | undefined> | string | undefined,
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = await resolveProjectId(req);
+      const project = projectId ? await storage.getProject(projectId) : undefined;
+      const role = project ? await getProjectRole(project, req.user!.id) : null;
+
+      if (!project || !role) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (!hasRole(role, required)) {
+        return res.status(403).json({ error: "Insufficient permissions for this project" });
+      }
+
+      res.locals.project = project;
+      res.locals.projectRole = role;
+      next();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to check project permissions" });
+    }
+  };
+}
+
+// Common resolvers for the route shapes used in routes.ts
+export const projectFromParam = (param: string) => (req: Request) => req.params[param];
+
+export const projectFromFileParam = (param: string) => async (req: Request) => {
+  const file = await storage.getFile(req.params[param]);
+  return file?.projectId;
+};
+
+// The project an AI action touches: `null` for actions that are not bound to
+// an existing project (create_project and pure code actions), `undefined` when
+// the action points at a file that does not exist
+export async function getActionProjectId(action: ChatActionType): Promise<string | null | undefined> {
+  switch (action.type) {
+    case 'add_file':
+    case 'create_web_page':
+    case 'modify_apk':
+      return action.projectId;
+    case 'update_file':
+    case 'delete_file': {
+      const file = await storage.getFile(action.fileId);
+      return file?.projectId;
+    }
+    case 'run_python':
+      return action.projectId ?? null;
+    default:
+      return null;
+  }
+}
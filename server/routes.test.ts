@@ -0,0 +1,484 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { io as connect, type Socket } from "socket.io-client";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { readZip } from "./services/zip";
+import { decodePng, readPngSize } from "./services/png";
+import { appEntries, buildApk, buildResourceTable, RESOURCE_TYPES, solidPng } from "./services/testing/apkFixtures";
+
+// Project files land in <cwd>/projects, so serve from a scratch directory
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "routes-"));
+process.chdir(scratch);
+const { registerRoutes } = await import("./routes");
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+async function register(username: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: "secreto123" }),
+  });
+  return response.headers.getSetCookie().map(value => value.split(";")[0]).join("; ");
+}
+
+async function api(method: string, url: string, body?: unknown, as = cookie) {
+  const response = await fetch(baseUrl + url, {
+    method,
+    headers: { "Content-Type": "application/json", cookie: as },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function upload(url: string, field: string, name: string, content: Buffer) {
+  const form = new FormData();
+  form.append(field, new Blob([content]), name);
+  const response = await fetch(baseUrl + url, { method: "POST", headers: { cookie }, body: form });
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  cookie = await register("ana");
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+describe("POST /api/projects/:projectId/files", () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    const { body } = await api("POST", "/api/projects", { name: "rutas", type: "web" });
+    projectId = body.id;
+  });
+
+  it("creates files under their canonical path", async () => {
+    const { status, body } = await api("POST", `/api/projects/${projectId}/files`, {
+      path: "src\\app.js", name: "app.js", content: "", type: "js",
+    });
+    expect(status).toBe(200);
+    expect(body.path).toBe("/src/app.js");
+    expect(fs.existsSync(path.join(scratch, "projects", projectId, "src", "app.js"))).toBe(true);
+  });
+
+  it.each([
+    ["../../server/index.ts", "traversal"],
+    ["a/../../x", "traversal"],
+    ["C:\\x", "absolute"],
+    ["//srv/x", "absolute"],
+    ["a\0b", "nul_byte"],
+    ["a\x1bb", "control_character"],
+    ["con.txt", "reserved_name"],
+    ["notes.", "reserved_name"],
+    ["notes ", "reserved_name"],
+  ])("answers 400 for %j with reason %s", async (filePath, reason) => {
+    const { status, body } = await api("POST", `/api/projects/${projectId}/files`, {
+      path: filePath, name: "x", content: "", type: "txt",
+    });
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ reason, error: expect.any(String) });
+  });
+
+  it("writes nothing outside the project directory", () => {
+    expect(fs.readdirSync(scratch)).toEqual(["projects"]);
+  });
+});
+
+describe("moves onto files kept only on disk", () => {
+  let projectId: string;
+  let fileId: string;
+  const onDisk = (...parts: string[]) => path.join(scratch, "projects", projectId, ...parts);
+
+  beforeAll(async () => {
+    const { body: project } = await api("POST", "/api/projects", { name: "mover", type: "web" });
+    projectId = project.id;
+    ({ body: { id: fileId } } = await api("POST", `/api/projects/${projectId}/files`, {
+      path: "/src/app.js", name: "app.js", content: "app", type: "js",
+    }));
+    fs.mkdirSync(onDisk("img"), { recursive: true });
+    fs.writeFileSync(onDisk("img", "logo.png"), "png");
+  });
+
+  it.each([
+    ["a file onto a binary", () => api("POST", `/api/files/${fileId}/move`, { path: "/img/logo.png" })],
+    ["a file below a binary", () => api("POST", `/api/files/${fileId}/move`, { path: "/img/logo.png/app.js" })],
+    ["a folder onto a directory", () => api("POST", `/api/projects/${projectId}/folders/move`, { from: "/src", to: "/img" })],
+  ])("answers 409 for %s", async (_name, move) => {
+    const { status, body } = await move();
+    expect(status).toBe(409);
+    expect(body.error).toEqual(expect.any(String));
+    expect(fs.readFileSync(onDisk("img", "logo.png"), "utf8")).toBe("png");
+    expect(fs.readFileSync(onDisk("src", "app.js"), "utf8")).toBe("app");
+  });
+
+  it("still moves onto free paths", async () => {
+    const { status, body } = await api("POST", `/api/files/${fileId}/move`, { path: "/img/app.js" });
+    expect(status).toBe(200);
+    expect(body.path).toBe("/img/app.js");
+    expect(fs.readFileSync(onDisk("img", "logo.png"), "utf8")).toBe("png");
+  });
+});
+
+describe("GET /preview/:projectId/:token/*", () => {
+  let projectId: string;
+  let token: string;
+
+  beforeAll(async () => {
+    const { body: project } = await api("POST", "/api/projects", { name: "web", type: "web" });
+    projectId = project.id;
+    await api("POST", `/api/projects/${projectId}/files`, {
+      path: "/index.html", name: "index.html", content: "<html><head></head><body>hola</body></html>", type: "html",
+    });
+    ({ body: { token } } = await api("GET", `/api/projects/${projectId}/preview`));
+  });
+
+  it("serves pages sandboxed, with the bridge injected", async () => {
+    const response = await fetch(`${baseUrl}/preview/${projectId}/${token}/index.html`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-security-policy")).toMatch(/^sandbox allow-scripts/);
+    expect(response.headers.get("content-security-policy")).not.toContain("allow-same-origin");
+    expect(response.headers.get("referrer-policy")).toBe("no-referrer");
+    expect(await response.text()).toContain("preview-command");
+  });
+
+  it("needs no session cookie, only the token", async () => {
+    const response = await fetch(`${baseUrl}/preview/${projectId}/${token}/`);
+    expect(response.status).toBe(200);
+  });
+
+  it("serves binary files kept only on disk", async () => {
+    fs.mkdirSync(path.join(scratch, "projects", projectId, "img"), { recursive: true });
+    fs.writeFileSync(path.join(scratch, "projects", projectId, "img", "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0]));
+    const response = await fetch(`${baseUrl}/preview/${projectId}/${token}/img/logo.png`);
+    expect(response.status).toBe(200);
+  });
+
+  it.each([
+    "/.keystore/debug.pem",
+    "/original.apk",
+    "/.build/app-signed.apk",
+    "/.venv/pyvenv.cfg",
+    "/img/.secret",
+  ])("answers 404 for the hidden disk file %s", async (filePath) => {
+    fs.mkdirSync(path.join(scratch, "projects", projectId, path.dirname(filePath)), { recursive: true });
+    fs.writeFileSync(path.join(scratch, "projects", projectId, filePath), "secreto");
+    const response = await fetch(`${baseUrl}/preview/${projectId}/${token}${filePath}`);
+    expect(response.status).toBe(404);
+  });
+
+  it.each([
+    ["a missing token", () => `/preview/${projectId}/index.html`],
+    ["a forged token", () => `/preview/${projectId}/${token.replace(/.$/, c => (c === "A" ? "B" : "A"))}/index.html`],
+    ["another project's token", () => `/preview/sample-web-project/${token}/index.html`],
+  ])("answers 404 for %s", async (_name, url) => {
+    const response = await fetch(baseUrl + url(), { headers: { cookie } });
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("project sockets after a membership change", () => {
+  let projectId: string;
+  let fileId: string;
+  let memberCookie: string;
+  let memberId: string;
+  let member: Socket;
+
+  // Resolves with the next event of that name, or null when none arrives
+  function next(socket: Socket, event: string, timeoutMs = 500): Promise<any> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        socket.off(event, listener);
+        resolve(null);
+      }, timeoutMs);
+      const listener = (data: unknown) => {
+        clearTimeout(timer);
+        resolve(data);
+      };
+      socket.once(event, listener);
+    });
+  }
+
+  beforeAll(async () => {
+    memberCookie = await register("luis");
+    ({ body: { id: memberId } } = await api("GET", "/api/auth/me", undefined, memberCookie));
+    const { body: project } = await api("POST", "/api/projects", { name: "equipo", type: "web" });
+    projectId = project.id;
+    ({ body: { id: fileId } } = await api("POST", `/api/projects/${projectId}/files`, {
+      path: "/notes.txt", name: "notes.txt", content: "v1", type: "txt",
+    }));
+    await api("POST", `/api/projects/${projectId}/members`, { username: "luis", role: "editor" });
+
+    member = connect(baseUrl, { extraHeaders: { cookie: memberCookie }, transports: ["websocket"] });
+    await new Promise(resolve => member.once("connect", resolve));
+    member.emit("join-project", projectId);
+    await new Promise(resolve => setTimeout(resolve, 100));
+  });
+
+  afterAll(() => {
+    member.disconnect();
+  });
+
+  it("stops relaying edits from a member demoted to viewer", async () => {
+    const relayed = next(member, "project-error");
+    member.emit("code-change", { projectId, fileId, content: "editor" });
+    expect(await relayed).toBeNull();
+
+    await api("PATCH", `/api/projects/${projectId}/members/${memberId}`, { role: "viewer" });
+    const refused = next(member, "project-error");
+    member.emit("code-change", { projectId, fileId, content: "viewer" });
+    expect(await refused).toMatchObject({ projectId, error: "Insufficient permissions for this project" });
+  });
+
+  it("keeps sending file updates to a viewer", async () => {
+    const update = next(member, "file-updated");
+    await api("PUT", `/api/files/${fileId}`, { content: "v2" });
+    expect(await update).toMatchObject({ id: fileId, content: "v2" });
+  });
+
+  it("takes a removed member out of the project room", async () => {
+    const removed = next(member, "project-error");
+    await api("DELETE", `/api/projects/${projectId}/members/${memberId}`);
+    expect(await removed).toMatchObject({ projectId, error: "Project not found" });
+
+    const update = next(member, "file-updated");
+    await api("PUT", `/api/files/${fileId}`, { content: "v3" });
+    expect(await update).toBeNull();
+  });
+});
+
+describe("DELETE /api/projects/:id", () => {
+  it("ends the project's Python terminal sessions", async () => {
+    const { body: project } = await api("POST", "/api/projects", { name: "borrar", type: "python" });
+    const socket = connect(baseUrl, { extraHeaders: { cookie }, transports: ["websocket"] });
+    try {
+      await new Promise(resolve => socket.once("connect", resolve));
+      const printed = new Promise<void>(resolve => socket.on("python-output", ({ data }) => {
+        if (data.includes("lista")) resolve();
+      }));
+      socket.emit("start-python-session", { projectId: project.id });
+      socket.emit("python-command", { projectId: project.id, command: "print('lista')" });
+      await printed;
+
+      const ended = new Promise(resolve => socket.once("python-session-ended", resolve));
+      expect((await api("DELETE", `/api/projects/${project.id}`)).status).toBe(200);
+      expect(await ended).toEqual({ projectId: project.id, reason: "stopped" });
+    } finally {
+      socket.disconnect();
+    }
+  });
+});
+
+describe("POST /api/projects/:id/duplicate", () => {
+  it("copies binary files kept only on disk, but not the signing key", async () => {
+    const { body: project } = await api("POST", "/api/projects", { name: "app", type: "apk" });
+    const source = (...parts: string[]) => path.join(scratch, "projects", project.id, ...parts);
+    fs.mkdirSync(source("res", "drawable"), { recursive: true });
+    fs.mkdirSync(source(".keystore"), { recursive: true });
+    fs.writeFileSync(source("res", "drawable", "icon.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2]));
+    fs.writeFileSync(source("classes.dex"), Buffer.from("dex\n035\0"));
+    fs.writeFileSync(source("original.apk"), Buffer.from("PK\x03\x04"));
+    fs.writeFileSync(source(".keystore", "debug.pem"), "secreto");
+
+    const { status, body: copy } = await api("POST", `/api/projects/${project.id}/duplicate`, {});
+    expect(status).toBe(200);
+    const copied = (...parts: string[]) => path.join(scratch, "projects", copy.id, ...parts);
+    expect(fs.readFileSync(copied("res", "drawable", "icon.png"))).toEqual(fs.readFileSync(source("res", "drawable", "icon.png")));
+    expect(fs.readFileSync(copied("classes.dex"))).toEqual(fs.readFileSync(source("classes.dex")));
+    expect(fs.readFileSync(copied("original.apk"))).toEqual(fs.readFileSync(source("original.apk")));
+    expect(fs.existsSync(copied(".keystore"))).toBe(false);
+  });
+});
+
+describe("ZIP export and import", () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d, 0x49, 0x48, 0x44, 0x52]);
+
+  it("round-trips binary files kept only on disk", async () => {
+    const { body: project } = await api("POST", "/api/projects", { name: "fotos", type: "web" });
+    await api("POST", `/api/projects/${project.id}/files`, {
+      path: "/index.html", name: "index.html", content: "<img src=\"img/logo.png\">", type: "html",
+    });
+    fs.mkdirSync(path.join(scratch, "projects", project.id, "img"), { recursive: true });
+    fs.writeFileSync(path.join(scratch, "projects", project.id, "img", "logo.png"), png);
+
+    const exported = await fetch(`${baseUrl}/api/projects/${project.id}/export.zip`, { headers: { cookie } });
+    expect(exported.status).toBe(200);
+
+    const form = new FormData();
+    form.append("archive", new Blob([await exported.arrayBuffer()]), "fotos.zip");
+    const response = await fetch(`${baseUrl}/api/projects/import`, { method: "POST", headers: { cookie }, body: form });
+    const result = await response.json();
+    expect(response.status).toBe(200);
+    expect(result).toMatchObject({ imported: 2, skipped: [] });
+
+    const { body: files } = await api("GET", `/api/projects/${result.project.id}/files`);
+    expect(files.map((file: { path: string }) => file.path)).toEqual(["/index.html"]);
+    expect(fs.readFileSync(path.join(scratch, "projects", result.project.id, "img", "logo.png"))).toEqual(png);
+  });
+
+  it("answers 400, not 413, for corrupt compressed data", async () => {
+    const { body: project } = await api("POST", "/api/projects", { name: "roto", type: "web" });
+    await api("POST", `/api/projects/${project.id}/files`, {
+      path: "/notas.txt", name: "notas.txt", content: "hola ".repeat(200), type: "txt",
+    });
+    const exported = await fetch(`${baseUrl}/api/projects/${project.id}/export.zip`, { headers: { cookie } });
+    const archive = Buffer.from(await exported.arrayBuffer());
+    const dataStart = 30 + archive.readUInt16LE(26) + archive.readUInt16LE(28);
+    archive.fill(0xff, dataStart, dataStart + 4);
+
+    const form = new FormData();
+    form.append("archive", new Blob([archive]), "roto.zip");
+    const response = await fetch(`${baseUrl}/api/projects/import`, { method: "POST", headers: { cookie }, body: form });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Could not inflate notas.txt" });
+  });
+});
+
+describe("APK endpoints with corrupt inputs", () => {
+  let projectId: string;
+  const projectFile = (name: string, content: Buffer) =>
+    fs.writeFileSync(path.join(scratch, "projects", projectId, name), content);
+
+  beforeAll(async () => {
+    const { body } = await api("POST", "/api/projects", { name: "apk-roto", type: "apk" });
+    projectId = body.id;
+  });
+
+  it("answers 422 for a resource table with an offset out of range", async () => {
+    const table = buildResourceTable(RESOURCE_TYPES);
+    projectFile("resources.arsc", table);
+    expect((await api("GET", `/api/projects/${projectId}/apk/resources`)).status).toBe(200);
+
+    // Key string pool offset of the package, which follows the global string pool
+    table.writeUInt32LE(0x7fffff00, 12 + table.readUInt32LE(16) + 276);
+    projectFile("resources.arsc", table);
+    const { status, body } = await api("GET", `/api/projects/${projectId}/apk/resources`);
+    expect(status).toBe(422);
+    expect(body.error).toMatch(/^Invalid resource table: Truncated string pool/);
+  });
+
+  it("builds and signs a valid APK", async () => {
+    projectFile("original.apk", await buildApk());
+    const { status, body } = await api("POST", `/api/projects/${projectId}/apk/build`);
+    expect(status).toBe(200);
+    expect(body.changedEntries).toEqual([]);
+
+    const response = await fetch(baseUrl + body.downloadUrl, { headers: { cookie } });
+    expect(response.status).toBe(200);
+    const signed = Buffer.from(await response.arrayBuffer());
+    expect(signed.length).toBe(body.size);
+    expect(readZip(signed).map(entry => entry.name)).toEqual([
+      ...Object.keys(appEntries()),
+      "META-INF/MANIFEST.MF",
+      "META-INF/CERT.SF",
+      "META-INF/CERT.RSA",
+    ]);
+  });
+
+  it("answers 422 when the APK's resource table is corrupt", async () => {
+    const table = buildResourceTable(RESOURCE_TYPES);
+    projectFile("original.apk", await buildApk({ ...appEntries(), "resources.arsc": table.subarray(0, table.length - 40) }));
+    const { status, body } = await api("POST", `/api/projects/${projectId}/apk/build`);
+    expect(status).toBe(422);
+    expect(body.error).toMatch(/^Build failed: /);
+  });
+
+  it("answers 422 when auditing an APK with a corrupt manifest", async () => {
+    projectFile("original.apk", await buildApk());
+    expect((await api("GET", `/api/projects/${projectId}/apk/audit`)).status).toBe(200);
+
+    const manifest = appEntries()["AndroidManifest.xml"];
+    projectFile("original.apk", await buildApk({ ...appEntries(), "AndroidManifest.xml": manifest.subarray(0, manifest.length - 100) }));
+    const { status, body } = await api("GET", `/api/projects/${projectId}/apk/audit`);
+    expect(status).toBe(422);
+    expect(body.error).toMatch(/^Invalid APK: /);
+  });
+});
+
+describe("POST /api/projects/:projectId/apk/icon", () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    const { body } = await api("POST", "/api/projects", { name: "apk-icono", type: "web" });
+    projectId = body.id;
+    expect((await upload(`/api/projects/${projectId}/upload-apk`, "apk", "app.apk", await buildApk())).status).toBe(200);
+  });
+
+  it("replaces the launcher icon at every density and builds it into the APK", async () => {
+    const { status, body } = await upload(`/api/projects/${projectId}/apk/icon`, "image", "icono.png", solidPng(200, [255, 0, 0]));
+    expect(status).toBe(200);
+    expect(body.changes).toEqual([
+      { path: "/res/mipmap-hdpi-v4/ic_launcher.png", description: "Icono 72x72 (hdpi)" },
+      { path: "/res/mipmap-xxhdpi-v4/ic_launcher.png", description: "Icono 144x144 (xxhdpi)" },
+    ]);
+    const icon = fs.readFileSync(path.join(scratch, "projects", projectId, "res", "mipmap-xxhdpi-v4", "ic_launcher.png"));
+    expect(readPngSize(icon)).toEqual({ width: 144, height: 144 });
+    expect(Array.from(decodePng(icon).pixels.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+
+    const { body: build } = await api("POST", `/api/projects/${projectId}/apk/build`);
+    expect(build.changedEntries).toEqual(["res/mipmap-hdpi-v4/ic_launcher.png", "res/mipmap-xxhdpi-v4/ic_launcher.png"]);
+  });
+
+  it.each([
+    ["an image that isn't a PNG", Buffer.from("GIF89a")],
+    ["a PNG with a short header", Buffer.concat([solidPng(1, [0, 0, 0]).subarray(0, 8), Buffer.from([0, 0, 0, 4, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 0])])],
+  ])("answers 422 for %s", async (_name, image) => {
+    const { status, body } = await upload(`/api/projects/${projectId}/apk/icon`, "image", "icono.png", image);
+    expect(status).toBe(422);
+    expect(body.error).toMatch(/^La imagen no es un PNG válido: /);
+  });
+});
+
+describe("DEX inspector endpoints", () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    const { body } = await api("POST", "/api/projects", { name: "apk-dex", type: "web" });
+    projectId = body.id;
+    expect((await upload(`/api/projects/${projectId}/upload-apk`, "apk", "app.apk", await buildApk())).status).toBe(200);
+  });
+
+  it("lists classes, disassembles them and searches their strings", async () => {
+    const { status, body: classes } = await api("GET", `/api/projects/${projectId}/dex/classes`);
+    expect(status).toBe(200);
+    expect(classes).toEqual([{
+      descriptor: "Lcom/example/app/MainActivity;",
+      name: "com.example.app.MainActivity",
+      dexFile: "/classes.dex",
+      accessFlags: "public",
+      superclass: "Landroid/app/Activity;",
+      fields: 1,
+      methods: 2,
+    }]);
+
+    const { body: detail } = await api("GET", `/api/projects/${projectId}/dex/class?descriptor=${encodeURIComponent(classes[0].descriptor)}`);
+    expect(detail.smali).toContain('    const-string v1, "Hola desde smali"');
+
+    const { body: search } = await api("GET", `/api/projects/${projectId}/dex/strings?q=hola`);
+    expect(search.total).toBe(1);
+    expect(search.matches[0]).toMatchObject({ value: "Hola desde smali", usages: [{ descriptor: "Lcom/example/app/MainActivity;" }] });
+  });
+
+  it("answers 422 for a corrupt classes.dex", async () => {
+    const dex = fs.readFileSync(path.join(scratch, "projects", projectId, "classes.dex"));
+    fs.writeFileSync(path.join(scratch, "projects", projectId, "classes.dex"), dex.subarray(0, 0x100));
+    const { status, body } = await api("GET", `/api/projects/${projectId}/dex/classes`);
+    expect(status).toBe(422);
+    expect(body.error).toMatch(/^Invalid DEX file: classes\.dex: /);
+  });
+});
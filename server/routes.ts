@@ -1,13 +1,38 @@
-import type { Express } from "express";
-import { createServer, type Server } from "http";
+import type { Express, Request, RequestHandler, Response } from "express";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "http";
 import { storage } from "./storage";
-import { insertProjectSchema, insertFileSchema, insertAIConversationSchema } from "@shared/schema";
+import { setupAuth, toPublicUser } from "./auth";
+import { requireProjectRole, projectFromParam, projectFromFileParam, getProjectRole, hasRole } from "./permissions";
+import { InvalidPathError, isGeneratedSmaliPath } from "@shared/paths";
+import { insertProjectSchema, insertFileSchema, insertAIConversationSchema, projectTemplates, projectTypes } from "@shared/schema";
+import { z } from "zod";
 import { fileSystemService } from "./services/fileSystem";
 import { pythonExecutor } from "./services/pythonExecutor";
+import { pythonSessions, PythonSessionLimitError } from "./services/pythonSessions";
+import { pythonKernels } from "./services/pythonKernels";
+import { pythonEnvironments, PythonEnvironmentBusyError, PythonEnvironmentError } from "./services/pythonEnvironments";
+import { projectRunner, ProjectRunBusyError, RunEntryError, RunEntryNotFoundError } from "./services/projectRunner";
 import { summarizeArticle, analyzeSentiment, generateCode, fixCodeErrors, optimizeCode, chatWithAI, chatWithAIStream } from "./services/gemini";
 import { actionProcessor } from "./services/actionProcessor";
+import { fileHistory } from "./services/fileHistory";
+import { projectService } from "./services/projectService";
+import { projectSync } from "./services/projectSync";
+import { projectTree, TreeConflictError, TreeNotFoundError } from "./services/projectTree";
+import { ZipError } from "./services/zip";
+import { apkService, ApkBuildError, ApkNotDecompiledError } from "./services/apkService";
+import { apkEditor, ApkEditError } from "./services/apkEditor";
+import { ArscError } from "./services/arsc";
+import { AxmlError } from "./services/axml";
+import { apkAudit } from "./services/apkAudit";
+import { DexError } from "./services/dex";
+import { dexInspector } from "./services/dexInspector";
+import { webPreview } from "./services/webPreview";
+import { previewAccess } from "./services/previewAccess";
 import { ActionResponse, QuickActions } from "@shared/actions";
+import { PREVIEW_SANDBOX } from "@shared/preview";
+import type { NotebookCellStatus, NotebookExecuteRequest, NotebookOutput } from "@shared/notebook";
 import multer from "multer";
+import path from "path";
 import { Server as SocketIOServer } from "socket.io";
 
 // Configure multer for file uploads
@@ -16,41 +41,223 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
 });
 
+// Socket.IO middleware only needs to run for the initial HTTP handshake
+function onlyForHandshake(middleware: RequestHandler) {
+  return (req: IncomingMessage & { _query?: Record<string, string> }, res: ServerResponse, next: (err?: unknown) => void) => {
+    const isHandshake = req._query?.sid === undefined;
+    if (isHandshake) {
+      middleware(req as Request, res as any, next);
+    } else {
+      next();
+    }
+  };
+}
+
+// Conversations are appended to only by editors of the project they belong to
+async function canWriteConversation(projectId: string | null | undefined, userId: string): Promise<boolean> {
+  if (!projectId) return false;
+  return hasRole(await getProjectRole(projectId, userId), 'editor');
+}
+
+// Terminal text for a refused Python session or kernel
+function pythonLimitMessage(error: PythonSessionLimitError): string {
+  return error.scope === 'user'
+    ? 'Tienes demasiadas sesiones de Python abiertas; cierra alguna terminal o notebook e inténtalo de nuevo'
+    : 'Hay demasiadas sesiones de Python abiertas; inténtalo más tarde';
+}
+
+// Map path and tree errors to their HTTP status; anything else is a 500
+function sendTreeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof InvalidPathError) {
+    return res.status(400).json({ error: error.message, reason: error.reason });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request data" });
+  }
+  if (error instanceof TreeConflictError) {
+    return res.status(409).json({ error: error.message });
+  }
+  if (error instanceof TreeNotFoundError) {
+    return res.status(404).json({ error: error.message });
+  }
+  return res.status(500).json({ error: fallback });
+}
+
+function sendDexError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ApkNotDecompiledError) {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof DexError) {
+    return res.status(422).json({ error: `Invalid DEX file: ${error.message}` });
+  }
+  return sendTreeError(res, error, fallback);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
-  const io = new SocketIOServer(httpServer, {
-    cors: {
-      origin: "*",
-      methods: ["GET", "POST"]
+  const authMiddleware = setupAuth(app);
+  const io = new SocketIOServer(httpServer);
+
+  // Share the HTTP session with Socket.IO and reject anonymous handshakes
+  for (const middleware of authMiddleware) {
+    io.engine.use(onlyForHandshake(middleware));
+  }
+  io.engine.use(onlyForHandshake((req, res, next) => {
+    if (req.user) {
+      next();
+    } else {
+      res.writeHead(401);
+      res.end();
     }
-  });
+  }));
+
+  // Sockets check the role when they join a project. After a membership
+  // change the user's sockets leave the room once they lost access, so they
+  // stop receiving file contents, and their Python ends once they cannot edit.
+  const applyMembershipChange = async (projectId: string, userId: string) => {
+    const role = await getProjectRole(projectId, userId);
+    const sockets = (await io.fetchSockets()).filter(socket => socket.data.userId === userId);
+    if (!hasRole(role, 'editor')) {
+      pythonKernels.stop(userId, projectId);
+      for (const socket of sockets) pythonSessions.stop(socket.id, projectId);
+    }
+    if (!role) {
+      for (const socket of sockets.filter(socket => socket.rooms.has(projectId))) {
+        socket.leave(projectId);
+        socket.emit('project-error', { projectId, error: 'Project not found' });
+      }
+    }
+  };
 
   // Socket.io for real-time features
   io.on('connection', (socket) => {
-    console.log('Client connected:', socket.id);
+    const user = (socket.request as Request).user!;
+    socket.data.userId = user.id;
+    console.log('Client connected:', socket.id, user.username);
 
-    socket.on('join-project', (projectId: string) => {
-      socket.join(projectId);
+    socket.on('join-project', async (projectId: string) => {
+      try {
+        const role = await getProjectRole(projectId, user.id);
+        if (!role) {
+          socket.emit('project-error', { projectId, error: 'Project not found' });
+          return;
+        }
+        socket.join(projectId);
+      } catch (error) {
+        socket.emit('project-error', { projectId, error: 'Failed to join project' });
+      }
     });
 
-    socket.on('code-change', (data: { projectId: string, fileId: string, content: string }) => {
-      socket.to(data.projectId).emit('code-updated', data);
+    socket.on('leave-project', (projectId: string) => {
+      socket.leave(projectId);
     });
 
-    socket.on('start-python-session', () => {
-      pythonExecutor.startInteractiveSession();
-      
-      pythonExecutor.on('output', (output: string) => {
-        socket.emit('python-output', { type: 'output', data: output });
-      });
+    // Roles are read again for every edit, so a member demoted or removed
+    // while connected stops relaying at once
+    socket.on('code-change', async (data: { projectId: string, fileId: string, content: string }) => {
+      try {
+        if (!hasRole(await getProjectRole(data.projectId, user.id), 'editor')) {
+          socket.emit('project-error', { projectId: data.projectId, error: 'Insufficient permissions for this project' });
+          return;
+        }
+        socket.to(data.projectId).emit('code-updated', data);
+      } catch (error) {
+        socket.emit('project-error', { projectId: data?.projectId, error: 'Failed to relay changes' });
+      }
+    });
 
-      pythonExecutor.on('error', (error: string) => {
-        socket.emit('python-output', { type: 'error', data: error });
-      });
+    // Python REPL: one sandboxed process per socket and project, ended on
+    // disconnect. Without a project it gets a scratch directory of its own.
+    const pythonProjectId = (projectId: unknown) => (typeof projectId === 'string' && projectId ? projectId : null);
+    // Commands sent right after a start wait for its permission check
+    const pythonStarts = new Map<string | null, Promise<void>>();
+
+    const startPythonSession = async (projectId: string | null) => {
+      try {
+        if (projectId && !hasRole(await getProjectRole(projectId, user.id), 'editor')) {
+          socket.emit('python-output', { projectId, type: 'error', data: 'No tienes permiso para ejecutar Python en este proyecto\n' });
+          return;
+        }
+        const python = projectId ? await pythonEnvironments.interpreterFor(projectId) : null;
+        // The socket may have gone while permissions were checked
+        if (socket.disconnected) return;
+        pythonSessions.start(socket.id, user.id, projectId, {
+          onOutput: (type, output) => socket.emit('python-output', { projectId, type, data: output }),
+          onEnd: (reason) => socket.emit('python-session-ended', { projectId, reason }),
+        }, python ?? undefined);
+      } catch (error) {
+        const message = error instanceof PythonSessionLimitError
+          ? pythonLimitMessage(error)
+          : 'No se pudo iniciar la sesión de Python';
+        socket.emit('python-output', { projectId, type: 'error', data: `${message}\n` });
+      }
+    };
+
+    socket.on('start-python-session', (data?: { projectId?: string }) => {
+      const projectId = pythonProjectId(data?.projectId);
+      pythonStarts.set(projectId, startPythonSession(projectId));
     });
 
-    socket.on('python-command', (command: string) => {
-      pythonExecutor.sendCommand(command);
+    socket.on('python-command', async (data: { projectId?: string; command: string }) => {
+      const projectId = pythonProjectId(data?.projectId);
+      if (typeof data?.command !== 'string') return;
+      await pythonStarts.get(projectId);
+      if (!pythonSessions.send(socket.id, projectId, data.command)) {
+        socket.emit('python-output', { projectId, type: 'error', data: 'No hay una sesión de Python activa\n' });
+      }
+    });
+
+    socket.on('stop-python-session', (data?: { projectId?: string }) => {
+      pythonSessions.stop(socket.id, pythonProjectId(data?.projectId));
+    });
+
+    // Notebook cells run in the user's kernel for the project; only the
+    // socket that sent a cell gets its output
+    socket.on('notebook-execute', async (data: NotebookExecuteRequest) => {
+      if (typeof data?.projectId !== 'string' || typeof data.code !== 'string') return;
+      const { projectId, fileId, cellId } = data;
+      const sendOutput = (output: NotebookOutput) => socket.emit('notebook-cell-output', { projectId, fileId, cellId, output });
+      const finish = (status: NotebookCellStatus, executionCount: number | null) => {
+        socket.emit('notebook-cell-finished', { projectId, fileId, cellId, status, executionCount });
+      };
+      const fail = (message: string) => {
+        sendOutput({ output_type: 'error', ename: 'KernelError', evalue: message, traceback: [] });
+        finish('error', null);
+      };
+      try {
+        if (!hasRole(await getProjectRole(projectId, user.id), 'editor')) {
+          return fail('No tienes permiso para ejecutar Python en este proyecto');
+        }
+        const result = await pythonKernels.execute(user.id, projectId, data.code, { onOutput: sendOutput });
+        finish(result.status, result.executionCount);
+      } catch (error) {
+        fail(error instanceof PythonSessionLimitError
+          ? pythonLimitMessage(error)
+          : 'No se pudo iniciar el kernel de Python');
+      }
+    });
+
+    socket.on('notebook-interrupt', (data: { projectId: string }) => {
+      if (typeof data?.projectId === 'string') pythonKernels.interrupt(user.id, data.projectId);
+    });
+
+    socket.on('notebook-restart', (data: { projectId: string }) => {
+      if (typeof data?.projectId !== 'string') return;
+      pythonKernels.restart(user.id, data.projectId);
+      socket.emit('notebook-kernel-restarted', { projectId: data.projectId });
+    });
+
+    // Terminal input for the project's running entry file
+    socket.on('run-input', async (data: { projectId: string; data: string }) => {
+      if (typeof data?.data !== 'string' || typeof data.projectId !== 'string') return;
+      try {
+        if (!hasRole(await getProjectRole(data.projectId, user.id), 'editor')) return;
+        if (projectRunner.write(data.projectId, data.data)) {
+          io.to(data.projectId).emit('run-output', { projectId: data.projectId, stream: 'stdin', data: data.data });
+        }
+      } catch (error) {
+        // Input is dropped like it is for a run that already ended
+      }
     });
 
     // AI Streaming Chat
@@ -66,6 +273,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let previousMessages: Array<{role: 'user' | 'assistant', content: string}> = [];
         if (conversationId) {
           const conversation = await storage.getConversation(conversationId);
+          if (!(await canWriteConversation(conversation?.projectId, user.id))) {
+            socket.emit('ai-chat-error', { error: 'Conversation not found' });
+            return;
+          }
           if (conversation && conversation.messages) {
             previousMessages = conversation.messages;
           }
@@ -107,6 +318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     socket.on('disconnect', () => {
+      pythonSessions.stopAll(socket.id);
       console.log('Client disconnected:', socket.id);
     });
   });
@@ -114,39 +326,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Projects API
   app.get("/api/projects", async (req, res) => {
     try {
-      const projects = await storage.getProjects();
-      res.json(projects);
+      const userId = req.user!.id;
+      const projects = await storage.getProjectsForUser(userId);
+      const withRoles = await Promise.all(
+        projects.map(async (project) => ({ ...project, role: await getProjectRole(project, userId) })),
+      );
+      res.json(withRoles);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch projects" });
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/projects/:id", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
+    res.json({ ...res.locals.project, role: res.locals.projectRole });
+  });
+
+  app.post("/api/projects", async (req, res) => {
+    try {
+      const { template, ...body } = req.body;
+      const projectData = insertProjectSchema.parse({ ...body, ownerId: req.user!.id });
+      const projectTemplate = z.enum(projectTemplates).default('blank').parse(template);
+      const project = await projectService.createProject(projectData, req.user!.id, projectTemplate);
+      res.json({ ...project, role: 'owner' });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid project data" });
+    }
+  });
+
+  app.post("/api/projects/:id/duplicate", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ error: "Project not found" });
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim() : undefined;
+      const project = await projectService.duplicateProject(res.locals.project, req.user!.id, name);
+      res.json({ ...project, role: 'owner' });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to duplicate project" });
+    }
+  });
+
+  // ZIP export / import
+  app.get("/api/projects/:id/export.zip", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
+    try {
+      const project = res.locals.project;
+      const filename = project.name.replace(/[^\w.-]+/g, '_') || 'proyecto';
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+      await projectService.exportProject(project, res);
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        res.status(500).json({ error: "Failed to export project" });
       }
-      res.json(project);
+    }
+  });
+
+  app.post("/api/projects/import", upload.single('archive'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No ZIP file provided" });
+      }
+      const { name, type } = z.object({
+        name: z.string().trim().min(1).optional(),
+        type: z.enum(projectTypes).optional(),
+      }).parse(req.body);
+
+      const result = await projectService.importProject(
+        req.file.buffer,
+        { name: name ?? req.file.originalname.replace(/\.zip$/i, ''), type },
+        req.user!.id,
+      );
+      res.json({ ...result, project: { ...result.project, role: 'owner' } });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch project" });
+      if (error instanceof ZipError) {
+        return res.status(error.tooLarge ? 413 : 400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import options" });
+      }
+      res.status(500).json({ error: "Failed to import project" });
     }
   });
 
-  app.post("/api/projects", async (req, res) => {
+  // Remember the project the user last opened in the IDE
+  app.post("/api/projects/:id/open", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
     try {
-      const projectData = insertProjectSchema.parse(req.body);
-      const project = await storage.createProject(projectData);
-      await fileSystemService.createProject(project.id);
-      res.json(project);
+      await storage.updateUser(req.user!.id, { lastProjectId: req.params.id });
+      res.json({ success: true });
     } catch (error) {
-      res.status(400).json({ error: "Invalid project data" });
+      res.status(500).json({ error: "Failed to record last project" });
     }
   });
 
-  app.put("/api/projects/:id", async (req, res) => {
+  app.put("/api/projects/:id", requireProjectRole('editor', projectFromParam('id')), async (req, res) => {
     try {
-      const project = await storage.updateProject(req.params.id, req.body);
+      // Ownership only changes through the members API
+      const { ownerId: _ownerId, id: _id, ...updates } = req.body;
+      const project = await storage.updateProject(req.params.id, updates);
       if (!project) {
         return res.status(404).json({ error: "Project not found" });
       }
@@ -156,12 +432,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.delete("/api/projects/:id", requireProjectRole('owner', projectFromParam('id')), async (req, res) => {
     try {
       const success = await storage.deleteProject(req.params.id);
       if (!success) {
         return res.status(404).json({ error: "Project not found" });
       }
+      projectRunner.stop(req.params.id);
+      pythonKernels.stopProject(req.params.id);
+      pythonSessions.stopProject(req.params.id);
       await fileSystemService.deleteProject(req.params.id);
       res.json({ success: true });
     } catch (error) {
@@ -169,8 +448,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Project members
+  app.get("/api/projects/:id/members", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
+    try {
+      const project = res.locals.project;
+      const members = await storage.getProjectMembers(project.id);
+      const owner = project.ownerId ? await storage.getUser(project.ownerId) : undefined;
+      const entries = await Promise.all(members.map(async (member) => {
+        const memberUser = await storage.getUser(member.userId);
+        return memberUser ? { user: toPublicUser(memberUser), role: member.role } : null;
+      }));
+      res.json([
+        ...(owner ? [{ user: toPublicUser(owner), role: 'owner' as const }] : []),
+        ...entries.filter(Boolean),
+      ]);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch members" });
+    }
+  });
+
+  const memberRoleSchema = z.enum(['editor', 'viewer']);
+
+  app.post("/api/projects/:id/members", requireProjectRole('owner', projectFromParam('id')), async (req, res) => {
+    try {
+      const { username, role } = z.object({ username: z.string().trim().min(1), role: memberRoleSchema }).parse(req.body);
+      const invitee = await storage.getUserByUsername(username);
+      if (!invitee) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (await getProjectRole(res.locals.project, invitee.id)) {
+        return res.status(409).json({ error: "User is already a member of this project" });
+      }
+      await storage.addProjectMember({ projectId: req.params.id, userId: invitee.id, role });
+      res.status(201).json({ user: toPublicUser(invitee), role });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid member data" });
+    }
+  });
+
+  app.patch("/api/projects/:id/members/:userId", requireProjectRole('owner', projectFromParam('id')), async (req, res) => {
+    try {
+      const role = memberRoleSchema.parse(req.body.role);
+      const member = await storage.updateProjectMember(req.params.id, req.params.userId, role);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      await applyMembershipChange(req.params.id, req.params.userId);
+      res.json(member);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid member data" });
+    }
+  });
+
+  // Owners remove anyone; members may remove themselves (leave the project)
+  app.delete("/api/projects/:id/members/:userId", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
+    try {
+      if (res.locals.projectRole !== 'owner' && req.params.userId !== req.user!.id) {
+        return res.status(403).json({ error: "Insufficient permissions for this project" });
+      }
+      const removed = await storage.removeProjectMember(req.params.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      await applyMembershipChange(req.params.id, req.params.userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove member" });
+    }
+  });
+
+  // Storage <-> disk reconciliation
+  app.get("/api/projects/:id/sync", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
+    try {
+      const drift = await projectSync.checkProject(req.params.id);
+      res.json(drift);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to check project sync" });
+    }
+  });
+
+  app.post("/api/projects/:id/sync", requireProjectRole('editor', projectFromParam('id')), async (req, res) => {
+    try {
+      const { direction, prune } = z.object({
+        direction: z.enum(['to_disk', 'from_disk']),
+        prune: z.boolean().optional(),
+      }).parse(req.body);
+
+      if (direction === 'to_disk') {
+        const result = await projectSync.rebuildDisk(req.params.id, { prune });
+        return res.json(result);
+      }
+
+      const result = await projectSync.importFromDisk(req.params.id, { prune });
+      for (const file of [...result.created, ...result.updated]) {
+        io.to(req.params.id).emit('file-updated', file);
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sync request" });
+      }
+      res.status(500).json({ error: "Failed to sync project" });
+    }
+  });
+
+  // Folders
+  app.get("/api/projects/:id/folders", requireProjectRole('viewer', projectFromParam('id')), async (req, res) => {
+    try {
+      const folders = await projectTree.listFolders(req.params.id);
+      res.json(folders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch folders" });
+    }
+  });
+
+  app.post("/api/projects/:id/folders", requireProjectRole('editor', projectFromParam('id')), async (req, res) => {
+    try {
+      const { path } = z.object({ path: z.string() }).parse(req.body);
+      const folder = await projectTree.createFolder(req.params.id, path);
+      io.to(req.params.id).emit('tree-updated', { projectId: req.params.id });
+      res.json(folder);
+    } catch (error) {
+      sendTreeError(res, error, "Failed to create folder");
+    }
+  });
+
+  app.post("/api/projects/:id/folders/move", requireProjectRole('editor', projectFromParam('id')), async (req, res) => {
+    try {
+      const { from, to } = z.object({ from: z.string(), to: z.string() }).parse(req.body);
+      const result = await projectTree.moveFolder(req.params.id, from, to);
+      io.to(req.params.id).emit('tree-updated', { projectId: req.params.id });
+      res.json(result);
+    } catch (error) {
+      sendTreeError(res, error, "Failed to move folder");
+    }
+  });
+
+  app.delete("/api/projects/:id/folders", requireProjectRole('editor', projectFromParam('id')), async (req, res) => {
+    try {
+      const { path } = z.object({ path: z.string() }).parse(req.query);
+      const result = await projectTree.deleteFolder(req.params.id, path);
+      io.to(req.params.id).emit('tree-updated', { projectId: req.params.id });
+      res.json({ success: true, deletedFiles: result.deletedFiles.length });
+    } catch (error) {
+      sendTreeError(res, error, "Failed to delete folder");
+    }
+  });
+
   // Files API
-  app.get("/api/projects/:projectId/files", async (req, res) => {
+  app.get("/api/projects/:projectId/files", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
     try {
       const files = await storage.getFilesByProject(req.params.projectId);
       res.json(files);
@@ -179,7 +605,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/files/:id", async (req, res) => {
+  app.get("/api/files/:id", requireProjectRole('viewer', projectFromFileParam('id')), async (req, res) => {
     try {
       const file = await storage.getFile(req.params.id);
       if (!file) {
@@ -191,7 +617,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects/:projectId/files", async (req, res) => {
+  app.post("/api/projects/:projectId/files", requireProjectRole('editor', projectFromParam('projectId')), async (req, res) => {
     try {
       const fileData = insertFileSchema.parse({
         ...req.body,
@@ -199,30 +625,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       const file = await storage.createFile(fileData);
       await fileSystemService.createFile(file.projectId, file.path, file.content);
+      await fileHistory.recordCreated(file, 'user', 'editor');
       res.json(file);
     } catch (error) {
+      if (error instanceof InvalidPathError) {
+        return res.status(400).json({ error: error.message, reason: error.reason });
+      }
       res.status(400).json({ error: "Invalid file data" });
     }
   });
 
-  app.put("/api/files/:id", async (req, res) => {
+  app.put("/api/files/:id", requireProjectRole('editor', projectFromFileParam('id')), async (req, res) => {
     try {
-      const file = await storage.updateFile(req.params.id, req.body);
+      // `author`/`source` describe who produced this save, for the revision history
+      const { author, source, projectId: _projectId, path, ...updates } = req.body;
+      const revisionAuthor = author === 'ai' ? 'ai' : 'user';
+      const revisionSource = typeof source === 'string' ? source : 'editor';
+
+      let previous = await storage.getFile(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      if (updates.content !== undefined && isGeneratedSmaliPath(previous.path)) {
+        return res.status(403).json({ error: "Smali generated from the DEX is read-only" });
+      }
+      if (typeof path === 'string') {
+        previous = await projectTree.moveFile(previous, path, revisionAuthor, revisionSource);
+      }
+      const file = await storage.updateFile(req.params.id, updates);
       if (!file) {
         return res.status(404).json({ error: "File not found" });
       }
       await fileSystemService.updateFile(file.projectId, file.path, file.content);
+      await fileHistory.recordChange(previous, file, revisionAuthor, revisionSource);
       
       // Emit file update to connected clients
       io.to(file.projectId).emit('file-updated', file);
       
       res.json(file);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update file" });
+      sendTreeError(res, error, "Failed to update file");
+    }
+  });
+
+  // Move or rename a file
+  app.post("/api/files/:id/move", requireProjectRole('editor', projectFromFileParam('id')), async (req, res) => {
+    try {
+      const { path } = z.object({ path: z.string() }).parse(req.body);
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      const moved = await projectTree.moveFile(file, path);
+      io.to(moved.projectId).emit('tree-updated', { projectId: moved.projectId });
+      res.json(moved);
+    } catch (error) {
+      sendTreeError(res, error, "Failed to move file");
     }
   });
 
-  app.delete("/api/files/:id", async (req, res) => {
+  app.delete("/api/files/:id", requireProjectRole('editor', projectFromFileParam('id')), async (req, res) => {
     try {
       const file = await storage.getFile(req.params.id);
       if (!file) {
@@ -237,20 +699,267 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // File revision history
+  app.get("/api/files/:id/revisions", requireProjectRole('viewer', projectFromFileParam('id')), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      const revisions = await fileHistory.listRevisions(file.id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+  });
+
+  app.get("/api/files/:id/revisions/diff", requireProjectRole('viewer', projectFromFileParam('id')), async (req, res) => {
+    try {
+      const { from, to = 'current' } = req.query;
+      if (typeof from !== 'string' || typeof to !== 'string') {
+        return res.status(400).json({ error: "Query parameters 'from' and 'to' are required" });
+      }
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      const diff = await fileHistory.diff(file, from, to);
+      if (diff === undefined) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json({ diff });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to compute diff" });
+    }
+  });
+
+  app.post("/api/files/:id/revisions/:revisionId/restore", requireProjectRole('editor', projectFromFileParam('id')), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      if (isGeneratedSmaliPath(file.path)) {
+        return res.status(403).json({ error: "Smali generated from the DEX is read-only" });
+      }
+      const restored = await fileHistory.restore(file, req.params.revisionId);
+      if (!restored) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      await fileSystemService.updateFile(restored.projectId, restored.path, restored.content);
+      io.to(restored.projectId).emit('file-updated', restored);
+      res.json(restored);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore revision" });
+    }
+  });
+
+  // Web preview: project files served under one URL per project, so relative
+  // links between pages, styles and scripts resolve as on a static host. The
+  // URL carries a preview token because the pages run sandboxed, without the
+  // session cookie (see previewAccess).
+  app.get("/api/projects/:projectId/preview", requireProjectRole('viewer', projectFromParam('projectId')), (req, res) => {
+    res.json(previewAccess.issue(req.params.projectId, req.user!.id));
+  });
+
+  app.get("/preview/:projectId/:token", (req, res, next) => {
+    if (req.path.endsWith('/')) return next();
+    res.redirect(`/preview/${encodeURIComponent(req.params.projectId)}/${encodeURIComponent(req.params.token)}/`);
+  });
+
+  app.get("/preview/:projectId/:token/*", async (req, res) => {
+    try {
+      const { projectId, token } = req.params;
+      const userId = previewAccess.verify(projectId, token);
+      if (!userId || !hasRole(await getProjectRole(projectId, userId), 'viewer')) {
+        return res.status(404).type('text/plain').send('Not found');
+      }
+      // Opaque origin: project scripts get neither the IDE's cookies nor its
+      // API, whether the page is framed or opened in a window of its own
+      res.setHeader('Content-Security-Policy', `sandbox ${PREVIEW_SANDBOX}`);
+      res.setHeader('Referrer-Policy', 'no-referrer');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+
+      const result = await webPreview.resolve(projectId, (req.params as Record<string, string>)[0] ?? '');
+      if (!result) {
+        return res.status(404).type('text/plain').send('Not found');
+      }
+      if ('redirect' in result) {
+        return res.redirect(result.redirect);
+      }
+      res.setHeader('Cache-Control', 'no-store');
+      res.type(path.posix.extname(result.path) || 'text/plain').send(result.content);
+    } catch (error) {
+      if (error instanceof InvalidPathError) {
+        return res.status(400).type('text/plain').send(error.message);
+      }
+      res.status(500).type('text/plain').send('Failed to load preview');
+    }
+  });
+
   // APK Upload and Processing
-  app.post("/api/projects/:projectId/upload-apk", upload.single('apk'), async (req, res) => {
+  app.get("/api/projects/:projectId/apk/resources", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      const overview = await apkService.describeResources(req.params.projectId);
+      res.json(overview);
+    } catch (error) {
+      if (error instanceof ApkNotDecompiledError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof ArscError) {
+        return res.status(422).json({ error: `Invalid resource table: ${error.message}` });
+      }
+      res.status(500).json({ error: "Failed to read APK resources" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/apk/build", requireProjectRole('editor', projectFromParam('projectId')), async (req, res) => {
+    const projectId = req.params.projectId;
+    if (apkService.isBuilding(projectId)) {
+      return res.status(409).json({ error: "A build is already running for this project" });
+    }
+    try {
+      const result = await apkService.build(projectId, (progress) => {
+        io.to(projectId).emit('apk-build-progress', { projectId, ...progress });
+      });
+      res.json({ ...result, downloadUrl: `/api/projects/${projectId}/apk/download` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      io.to(projectId).emit('apk-build-progress', { projectId, step: 'failed', message });
+      if (error instanceof ApkNotDecompiledError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof ApkBuildError || error instanceof ArscError || error instanceof ZipError) {
+        return res.status(422).json({ error: `Build failed: ${message}` });
+      }
+      console.error('Error building APK:', error);
+      res.status(500).json({ error: "Failed to build APK" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/apk/download", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      const apk = await apkService.getBuild(req.params.projectId);
+      if (!apk) {
+        return res.status(404).json({ error: "No build available; build the APK first" });
+      }
+      const filename = res.locals.project.name.replace(/[^\w.-]+/g, '_') || 'app';
+      res.setHeader('Content-Type', 'application/vnd.android.package-archive');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}-signed.apk"`);
+      res.send(apk);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to download APK" });
+    }
+  });
+
+  // Replace the launcher icons from an uploaded PNG
+  app.post("/api/projects/:projectId/apk/icon", requireProjectRole('editor', projectFromParam('projectId')), upload.single('image'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No image file provided" });
+      }
+      const summary = await apkEditor.changeIcon(req.params.projectId, req.file.buffer);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof ApkNotDecompiledError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof ApkEditError || error instanceof ArscError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error changing APK icon:', error);
+      res.status(500).json({ error: "Failed to change APK icon" });
+    }
+  });
+
+  // Security review of the uploaded APK; `?download=1` serves it as a JSON attachment
+  app.get("/api/projects/:projectId/apk/audit", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      const report = await apkAudit.audit(req.params.projectId);
+      if (req.query.download) {
+        const filename = res.locals.project.name.replace(/[^\w.-]+/g, '_') || 'app';
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}-audit.json"`);
+        return res.type('application/json').send(JSON.stringify(report, null, 2));
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ApkNotDecompiledError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof ZipError || error instanceof AxmlError || error instanceof ArscError || error instanceof DexError) {
+        return res.status(422).json({ error: `Invalid APK: ${error.message}` });
+      }
+      console.error('Error auditing APK:', error);
+      res.status(500).json({ error: "Failed to audit APK" });
+    }
+  });
+
+  // DEX inspector: classes, per-class smali and the string pools
+  app.get("/api/projects/:projectId/dex/classes", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      res.json(await dexInspector.listClasses(req.params.projectId));
+    } catch (error) {
+      sendDexError(res, error, "Failed to read DEX classes");
+    }
+  });
+
+  app.get("/api/projects/:projectId/dex/class", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      const descriptor = typeof req.query.descriptor === 'string' ? req.query.descriptor : '';
+      const detail = await dexInspector.getClass(req.params.projectId, descriptor);
+      if (!detail) {
+        return res.status(404).json({ error: "Class not found" });
+      }
+      res.json(detail);
+    } catch (error) {
+      sendDexError(res, error, "Failed to disassemble class");
+    }
+  });
+
+  app.get("/api/projects/:projectId/dex/strings", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      if (!query) {
+        return res.status(400).json({ error: "Search query is required" });
+      }
+      const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+      res.json(await dexInspector.searchStrings(req.params.projectId, query, limit));
+    } catch (error) {
+      sendDexError(res, error, "Failed to search DEX strings");
+    }
+  });
+
+  // Materialize a class's smali as a read-only project file
+  app.post("/api/projects/:projectId/dex/open", requireProjectRole('editor', projectFromParam('projectId')), async (req, res) => {
+    try {
+      const { descriptor } = z.object({ descriptor: z.string().min(1) }).parse(req.body);
+      const file = await dexInspector.openSmali(req.params.projectId, descriptor);
+      if (!file) {
+        return res.status(404).json({ error: "Class not found" });
+      }
+      io.to(req.params.projectId).emit('file-updated', file);
+      res.json(file);
+    } catch (error) {
+      sendDexError(res, error, "Failed to open smali");
+    }
+  });
+
+  app.post("/api/projects/:projectId/upload-apk", requireProjectRole('editor', projectFromParam('projectId')), upload.single('apk'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No APK file provided" });
       }
 
-      await fileSystemService.processAPK(req.params.projectId, req.file.buffer);
+      const summary = await apkService.decompile(req.params.projectId, req.file.buffer);
       
       // Update project type to APK
       await storage.updateProject(req.params.projectId, { type: 'apk' });
       
-      res.json({ success: true, message: "APK processed successfully" });
+      res.json({ success: true, message: "APK processed successfully", summary });
     } catch (error) {
+      if (error instanceof ZipError) {
+        return res.status(error.tooLarge ? 413 : 400).json({ error: `Invalid APK: ${error.message}` });
+      }
       res.status(500).json({ error: "Failed to process APK" });
     }
   });
@@ -259,6 +968,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/execute-python", async (req, res) => {
     try {
       const { code } = req.body;
+      if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ error: "Python code is required" });
+      }
       const result = await pythonExecutor.executeCode(code);
       res.json(result);
     } catch (error) {
@@ -266,6 +978,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The project's virtual environment; pip's output is sent to the project room
+  app.get("/api/projects/:projectId/python/environment", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
+    try {
+      res.json(await pythonEnvironments.status(req.params.projectId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to read the Python environment" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/python/install", requireProjectRole('editor', projectFromParam('projectId')), async (req, res) => {
+    const projectId = req.params.projectId;
+    if (projectRunner.current(projectId)) {
+      return res.status(409).json({ error: "Stop the running file before installing dependencies" });
+    }
+    try {
+      const status = await pythonEnvironments.install(projectId, (stream, data) => {
+        io.to(projectId).emit('python-install-output', { projectId, stream, data });
+      });
+      io.to(projectId).emit('python-install-finished', { projectId, success: true });
+      res.json(status);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof PythonEnvironmentBusyError) {
+        return res.status(409).json({ error: message });
+      }
+      io.to(projectId).emit('python-install-finished', { projectId, success: false, error: message });
+      if (error instanceof PythonEnvironmentError) {
+        return res.status(422).json({ error: `Install failed: ${message}` });
+      }
+      console.error('Error installing Python dependencies:', error);
+      res.status(500).json({ error: "Failed to install Python dependencies" });
+    }
+  });
+
+  // Runs of a project's entry file; output and exit are sent to the project room
+  app.get("/api/projects/:projectId/run", requireProjectRole('viewer', projectFromParam('projectId')), (req, res) => {
+    res.json({ run: projectRunner.current(req.params.projectId) });
+  });
+
+  app.post("/api/projects/:projectId/run", requireProjectRole('editor', projectFromParam('projectId')), async (req, res) => {
+    const projectId = req.params.projectId;
+    const { entry } = req.body ?? {};
+    if (typeof entry !== 'string' || !entry) {
+      return res.status(400).json({ error: "Entry file is required" });
+    }
+    try {
+      const run = await projectRunner.start(projectId, entry, req.user!.username, {
+        onOutput: (stream, data) => io.to(projectId).emit('run-output', { projectId, stream, data }),
+        onExit: (result) => io.to(projectId).emit('run-exited', result),
+      });
+      io.to(projectId).emit('run-started', run);
+      res.status(202).json(run);
+    } catch (error) {
+      if (error instanceof ProjectRunBusyError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof InvalidPathError || error instanceof RunEntryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof RunEntryNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Error starting run:', error);
+      res.status(500).json({ error: "Failed to start run" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/run/stop", requireProjectRole('editor', projectFromParam('projectId')), (req, res) => {
+    if (!projectRunner.stop(req.params.projectId)) {
+      return res.status(404).json({ error: "No run in progress" });
+    }
+    res.json({ success: true });
+  });
+
   // AI Integration
   app.post("/api/ai/generate-code", async (req, res) => {
     try {
@@ -311,7 +1097,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Conversations
-  app.get("/api/projects/:projectId/conversations", async (req, res) => {
+  app.get("/api/projects/:projectId/conversations", requireProjectRole('viewer', projectFromParam('projectId')), async (req, res) => {
     try {
       const conversations = await storage.getConversationsByProject(req.params.projectId);
       res.json(conversations);
@@ -320,7 +1106,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects/:projectId/conversations", async (req, res) => {
+  app.post("/api/projects/:projectId/conversations", requireProjectRole('editor', projectFromParam('projectId')), async (req, res) => {
     try {
       const conversationData = insertAIConversationSchema.parse({
         ...req.body,
@@ -341,6 +1127,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let previousMessages: Array<{role: 'user' | 'assistant', content: string}> = [];
       if (conversationId) {
         const conversation = await storage.getConversation(conversationId);
+        if (!(await canWriteConversation(conversation?.projectId, req.user!.id))) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
         if (conversation && conversation.messages) {
           previousMessages = conversation.messages;
         }
@@ -388,8 +1177,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/ai/execute-action", async (req, res) => {
     try {
-      const { action, userId } = req.body;
-      const result = await actionProcessor.executeAction(action, userId);
+      const { action } = req.body;
+      const result = await actionProcessor.executeAction(action, req.user!.id);
       // Parse the result to apply defaults before sending
       const normalizedResult = ActionResponse.parse(result);
       res.json(normalizedResult);
@@ -402,7 +1191,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/ai/confirm-action", async (req, res) => {
     try {
       const { actionId, confirmed } = req.body;
-      const result = await actionProcessor.confirmAction(actionId, confirmed);
+      const result = await actionProcessor.confirmAction(actionId, confirmed, req.user!.id);
       // Parse the result to apply defaults before sending  
       const normalizedResult = ActionResponse.parse(result);
       res.json(normalizedResult);
@@ -1,11 +1,41 @@
 import { z } from "zod";
-import { ChatAction, ChatActionType, ActionResponseType, CreateProjectAction, AddFileAction, UpdateFileAction, DeleteFileAction, CreateWebPageAction, ModifyApkAction, RunPythonAction, GenerateCodeSnippetAction } from "@shared/actions";
+import { ChatAction, ChatActionType, ActionResponseType, CreateProjectAction, AddFileAction, UpdateFileAction, DeleteFileAction, CreateWebPageAction, ModifyApkAction, RunPythonAction, GenerateCodeSnippetAction, ChangeIconParameters, ModifyStringsParameters, ChangeThemeParameters, AddFeatureParameters } from "@shared/actions";
 import { storage } from "../storage";
 import { fileSystemService } from "./fileSystem";
 import { pythonExecutor } from "./pythonExecutor";
+import { pythonEnvironments } from "./pythonEnvironments";
+import { fileHistory } from "./fileHistory";
+import { projectSync } from "./projectSync";
+import { projectTree } from "./projectTree";
+import { apkEditor, type ApkEditSummary } from "./apkEditor";
+import { getActionProjectId, getProjectRole, hasRole } from "../permissions";
 import { generateCode, generateProjectStructure, chatWithAI } from "./gemini";
+import { InvalidPathError, isGeneratedSmaliPath, joinProjectPath, normalizeProjectPath } from "@shared/paths";
+import { parseNotebook, serializeNotebook } from "@shared/notebook";
 import { randomUUID } from "crypto";
 
+const APK_OPERATION_LABELS: Record<z.infer<typeof ModifyApkAction>['action'], string> = {
+  change_icon: 'cambiar el icono',
+  modify_strings: 'modificar los textos',
+  change_theme: 'cambiar el tema',
+  add_feature: 'agregar permisos o actividades',
+};
+
+// Parse modify_apk parameters, with a readable message when they don't fit
+function parseApkParameters<T extends z.ZodTypeAny>(schema: T, operation: string, parameters: unknown): z.infer<T> {
+  const result = schema.safeParse(parameters);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'parameters'}: ${issue.message}`);
+    throw new Error(`Parámetros no válidos para ${operation}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+// A PNG sent inline, as base64 or a data: URL
+function decodeImageData(image: string): Buffer {
+  return Buffer.from(image.replace(/^data:[^,]*;base64,/, ''), 'base64');
+}
+
 export class ActionProcessor {
   private pendingConfirmations: Map<string, { action: ChatActionType; userId?: string }> = new Map();
 
@@ -20,11 +50,15 @@ export class ActionProcessor {
 
 Available actions:
 - create_project: Create new projects (web, apk, python)
-- add_file: Add new files to projects 
+- add_file: Add new files to projects. Jupyter notebooks use "fileType": "ipynb" with nbformat 4 JSON as content (empty content creates a blank notebook)
 - update_file: Modify existing files
 - create_web_page: Create specific types of web pages (landing, contact, about, etc.)
-- modify_apk: Modify APK files (change icon, strings, features, theme)
-- run_python: Execute Python code
+- modify_apk: Modify a decompiled APK project. "action" is one of:
+  - change_icon, parameters {"imagePath": "/icon.png"} (a PNG in the project)
+  - modify_strings, parameters {"strings": {"name": "text"}, "locale": "es"} or {"locales": {"es": {"name": "text"}}}
+  - change_theme, parameters {"colorPrimary": "#RRGGBB", "colorPrimaryDark": "#RRGGBB", "colorAccent": "#RRGGBB", "parent": "Theme.AppCompat.Light"} (all optional)
+  - add_feature, parameters {"permissions": ["CAMERA"], "activities": ["SettingsActivity"]}
+- run_python: Execute Python code, with "projectId": "current" to use the project's installed packages. matplotlib figures are captured automatically; "from display import display" shows HTML tables and JSON
 - generate_code_snippet: Generate code in any language
 
 Context: ${context ? JSON.stringify(context) : 'No context provided'}
@@ -53,6 +87,9 @@ Response: [{"type": "create_project", "name": "mi-sitio", "projectType": "web",
 User: "Agrega una página de contacto"
 Response: [{"type": "create_web_page", "projectId": "current", "pageName": "contacto", "pageType": "contact"}]
 
+User: "Cambia el nombre de mi app a Mi Tienda"
+Response: [{"type": "modify_apk", "projectId": "current", "action": "modify_strings", "parameters": {"strings": {"app_name": "Mi Tienda"}}}]
+
 User: "Genera código React para mostrar productos"
 Response: [{"type": "generate_code_snippet", "language": "javascript", "description": "Componente React para mostrar productos"}]
 
@@ -117,39 +154,33 @@ Be specific and use the exact schema types. If projectId is needed and not provi
   }
 
   // Execute a single action
-  async executeAction(action: ChatActionType, userId?: string): Promise<ActionResponseType> {
+  async executeAction(action: ChatActionType, userId?: string, options: { confirmed?: boolean } = {}): Promise<ActionResponseType> {
     try {
-      switch (action.type) {
-        case 'create_project':
-          return await this.createProject(action);
-        
-        case 'add_file':
-          return await this.addFile(action);
-        
-        case 'update_file':
-          return await this.updateFile(action);
-        
-        case 'delete_file':
-          return await this.deleteFile(action);
-        
-        case 'create_web_page':
-          return await this.createWebPage(action);
-        
-        case 'modify_apk':
-          return await this.modifyApk(action);
-        
-        case 'run_python':
-          return await this.runPython(action);
-        
-        case 'generate_code_snippet':
-          return await this.generateCodeSnippet(action);
-        
-        default:
+      // Actions that change an existing project need at least editor rights on it
+      const projectId = await getActionProjectId(action);
+      if (projectId !== null) {
+        const role = projectId && userId ? await getProjectRole(projectId, userId) : null;
+        if (!hasRole(role, 'editor')) {
           return {
             success: false,
-            message: `Tipo de acción no soportado: ${(action as any).type}`
+            message: "No tienes permiso para modificar este proyecto."
           };
+        }
       }
+
+      const result = await this.dispatch(action, userId, options.confirmed ?? false);
+
+      // Keep the on-disk tree in step with whatever the action changed
+      const touchedProjectId = projectId ?? result.data?.project?.id;
+      if (result.success && touchedProjectId) {
+        try {
+          await projectSync.rebuildDisk(touchedProjectId);
+        } catch (syncError) {
+          console.error('Error syncing project after action:', syncError);
+        }
+      }
+
+      return result;
     } catch (error) {
       console.error('Error executing action:', error);
       return {
@@ -159,8 +190,42 @@ Be specific and use the exact schema types. If projectId is needed and not provi
     }
   }
 
+  private async dispatch(action: ChatActionType, userId: string | undefined, confirmed: boolean): Promise<ActionResponseType> {
+    switch (action.type) {
+      case 'create_project':
+        return await this.createProject(action, userId);
+      
+      case 'add_file':
+        return await this.addFile(action);
+      
+      case 'update_file':
+        return await this.updateFile(action);
+      
+      case 'delete_file':
+        return await this.deleteFile(action);
+      
+      case 'create_web_page':
+        return await this.createWebPage(action);
+      
+      case 'modify_apk':
+        return await this.modifyApk(action, userId, confirmed);
+      
+      case 'run_python':
+        return await this.runPython(action);
+      
+      case 'generate_code_snippet':
+        return await this.generateCodeSnippet(action);
+      
+      default:
+        return {
+          success: false,
+          message: `Tipo de acción no soportado: ${(action as any).type}`
+        };
+    }
+  }
+
   // Create a new project
-  private async createProject(action: z.infer<typeof CreateProjectAction>): Promise<ActionResponseType> {
+  private async createProject(action: z.infer<typeof CreateProjectAction>, userId?: string): Promise<ActionResponseType> {
     try {
       // Generate project structure using AI
       const projectStructure = await generateProjectStructure(action.projectType, action.description || action.name);
@@ -170,32 +235,49 @@ Be specific and use the exact schema types. If projectId is needed and not provi
         name: action.name,
         type: action.projectType,
         description: action.description || `Proyecto ${action.projectType} creado con IA`,
+        ownerId: userId ?? null,
         files: {}
       });
       
       // Create project in file system
-      await fileSystemService.createProject(project.id, project.name);
+      await fileSystemService.createProject(project.id);
 
-      // Create files from structure
+      // Create files from structure, skipping any path the model made up that
+      // would land outside the project
       const createdFiles = [];
+      const skippedPaths: string[] = [];
       for (const fileData of projectStructure.files) {
+        let filePath: string;
+        try {
+          filePath = normalizeProjectPath(fileData.path);
+        } catch (error) {
+          if (!(error instanceof InvalidPathError)) throw error;
+          skippedPaths.push(fileData.path);
+          continue;
+        }
+
         const file = await storage.createFile({
           projectId: project.id,
           name: fileData.name,
-          path: fileData.path,
+          path: filePath,
           content: fileData.content,
           type: fileData.type,
           isModified: false
         });
         
         // Create file in file system
-        await fileSystemService.createFile(project.id, fileData.path, fileData.content);
+        await fileSystemService.createFile(project.id, file.path, file.content);
+        await fileHistory.recordCreated(file, 'ai', action.type);
         createdFiles.push(file);
       }
 
+      const skippedNote = skippedPaths.length > 0
+        ? ` Se omitieron ${skippedPaths.length} archivos con rutas no válidas: ${skippedPaths.join(', ')}.`
+        : '';
+
       return {
         success: true,
-        message: `Proyecto "${action.name}" creado exitosamente con ${createdFiles.length} archivos.`,
+        message: `Proyecto "${action.name}" creado exitosamente con ${createdFiles.length} archivos.${skippedNote}`,
         data: { project, files: createdFiles }
       };
     } catch (error) {
@@ -209,17 +291,20 @@ Be specific and use the exact schema types. If projectId is needed and not provi
   // Add a file to a project
   private async addFile(action: z.infer<typeof AddFileAction>): Promise<ActionResponseType> {
     try {
+      // Notebooks are stored as Jupyter writes them; malformed ones are refused
+      const content = action.fileType === 'ipynb' ? serializeNotebook(parseNotebook(action.content)) : action.content;
       const file = await storage.createFile({
         projectId: action.projectId,
         name: action.name,
-        path: action.path,
-        content: action.content,
+        path: normalizeProjectPath(action.path),
+        content,
         type: action.fileType,
         isModified: false
       });
 
       // Create file in file system
-      await fileSystemService.createFile(action.projectId, action.path, action.content);
+      await fileSystemService.createFile(action.projectId, file.path, file.content);
+      await fileHistory.recordCreated(file, 'ai', action.type);
 
       return {
         success: true,
@@ -239,10 +324,26 @@ Be specific and use the exact schema types. If projectId is needed and not provi
     try {
       const updates: Partial<any> = {};
       if (action.content !== undefined) updates.content = action.content;
-      if (action.path !== undefined) updates.path = action.path;
       if (action.name !== undefined) updates.name = action.name;
       updates.isModified = true;
 
+      let previous = await storage.getFile(action.fileId);
+      if (!previous) {
+        return {
+          success: false,
+          message: "Archivo no encontrado."
+        };
+      }
+      if (action.content !== undefined && isGeneratedSmaliPath(previous.path)) {
+        return {
+          success: false,
+          message: `"${previous.name}" es smali generado desde el DEX y es de solo lectura.`
+        };
+      }
+      // Moves go through the tree service so the disk file follows
+      if (action.path !== undefined) {
+        previous = await projectTree.moveFile(previous, action.path, 'ai', action.type);
+      }
       const file = await storage.updateFile(action.fileId, updates);
       if (!file) {
         return {
@@ -250,11 +351,8 @@ Be specific and use the exact schema types. If projectId is needed and not provi
           message: "Archivo no encontrado."
         };
       }
-
-      // Update file in file system if content changed
-      if (action.content !== undefined) {
-        await fileSystemService.updateFile(file.projectId, file.path, action.content);
-      }
+      await fileHistory.recordChange(previous, file, 'ai', action.type);
+      await fileSystemService.updateFile(file.projectId, file.path, file.content);
 
       return {
         success: true,
@@ -288,10 +386,9 @@ Be specific and use the exact schema types. If projectId is needed and not provi
         };
       }
 
-      // Delete file from file system (if implemented)
+      // Delete file from file system
       try {
-        // Note: fileSystemService.deleteFile may not be implemented yet
-        // await fileSystemService.deleteFile(file.projectId, file.path);
+        await fileSystemService.deleteFile(file.projectId, file.path);
       } catch (fsError) {
         console.warn('Could not delete file from filesystem:', fsError);
       }
@@ -327,11 +424,13 @@ Be specific and use the exact schema types. If projectId is needed and not provi
         const file = await storage.createFile({
           projectId: action.projectId,
           name: `${action.pageName}-${fileData.name}`,
-          path: `/pages/${action.pageName}/${fileData.name}`,
+          path: joinProjectPath('pages', action.pageName, fileData.name),
           content: fileData.content,
           type: fileData.type,
           isModified: false
         });
+        await fileSystemService.createFile(action.projectId, file.path, file.content);
+        await fileHistory.recordCreated(file, 'ai', action.type);
         createdFiles.push(file);
       }
 
@@ -348,34 +447,72 @@ Be specific and use the exact schema types. If projectId is needed and not provi
     }
   }
 
-  // Modify APK (placeholder implementation)
-  private async modifyApk(action: z.infer<typeof ModifyApkAction>): Promise<ActionResponseType> {
-    try {
-      // This is a complex operation that would require APK decompilation/recompilation
-      // For now, return a confirmation requirement
+  // Modify a decompiled APK project. Asks for confirmation first; the
+  // changes reach the APK on the next build.
+  private async modifyApk(action: z.infer<typeof ModifyApkAction>, userId: string | undefined, confirmed: boolean): Promise<ActionResponseType> {
+    const operation = APK_OPERATION_LABELS[action.action];
+    if (!confirmed) {
       const actionId = randomUUID();
-      this.pendingConfirmations.set(actionId, { action });
-
+      this.pendingConfirmations.set(actionId, { action, userId });
       return {
         success: false,
-        message: "La modificación de APK es una operación compleja.",
+        message: `Se va a ${operation} en el APK.`,
         requiresConfirmation: true,
-        confirmationMessage: `¿Estás seguro de que quieres ${action.action} en tu APK? Esta operación puede afectar la funcionalidad de la aplicación.`,
+        confirmationMessage: `¿Estás seguro de que quieres ${operation} en tu APK? Esta operación puede afectar la funcionalidad de la aplicación.`,
         actionId
       };
+    }
+
+    try {
+      const summary = await this.runApkOperation(action);
+      const skippedNote = summary.skipped.length > 0
+        ? ` No se aplicaron: ${summary.skipped.map(item => `${item.target} (${item.reason})`).join(', ')}.`
+        : '';
+      if (summary.changes.length === 0) {
+        return {
+          success: false,
+          message: `No se realizó ningún cambio al ${operation}.${skippedNote}`,
+          data: summary
+        };
+      }
+
+      return {
+        success: true,
+        message: `Listo: se modificaron ${summary.changes.length} archivos (${summary.changes.map(change => change.path).join(', ')}). Genera el APK para incluir los cambios.${skippedNote}`,
+        data: summary
+      };
     } catch (error) {
       return {
         success: false,
-        message: `Error modificando APK: ${error instanceof Error ? error.message : 'Error desconocido'}`
+        message: `Error al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`
       };
     }
   }
 
+  private async runApkOperation(action: z.infer<typeof ModifyApkAction>): Promise<ApkEditSummary> {
+    switch (action.action) {
+      case 'change_icon': {
+        const parameters = parseApkParameters(ChangeIconParameters, action.action, action.parameters);
+        const image = parameters.image
+          ? decodeImageData(parameters.image)
+          : await fileSystemService.readFileBuffer(action.projectId, normalizeProjectPath(parameters.imagePath!));
+        return await apkEditor.changeIcon(action.projectId, image);
+      }
+      case 'modify_strings':
+        return await apkEditor.modifyStrings(action.projectId, parseApkParameters(ModifyStringsParameters, action.action, action.parameters));
+      case 'change_theme':
+        return await apkEditor.changeTheme(action.projectId, parseApkParameters(ChangeThemeParameters, action.action, action.parameters));
+      case 'add_feature':
+        return await apkEditor.addFeature(action.projectId, parseApkParameters(AddFeatureParameters, action.action, action.parameters));
+    }
+  }
+
   // Run Python code
   private async runPython(action: z.infer<typeof RunPythonAction>): Promise<ActionResponseType> {
     try {
-      const result = await pythonExecutor.executeCode(action.code);
-      
+      const python = action.projectId ? await pythonEnvironments.interpreterFor(action.projectId) : null;
+      const result = await pythonExecutor.executeCode(action.code, { python: python ?? undefined });
+
       return {
         success: result.success,
         message: result.success ? "Código Python ejecutado exitosamente." : "Error ejecutando código Python.",
@@ -408,9 +545,10 @@ Be specific and use the exact schema types. If projectId is needed and not provi
   }
 
   // Confirm a pending action
-  async confirmAction(actionId: string, confirmed: boolean): Promise<ActionResponseType> {
+  async confirmAction(actionId: string, confirmed: boolean, userId?: string): Promise<ActionResponseType> {
     const pending = this.pendingConfirmations.get(actionId);
-    if (!pending) {
+    // Only the user who requested the action may confirm it
+    if (!pending || pending.userId !== userId) {
       return {
         success: false,
         message: "Acción no encontrada o ya procesada."
@@ -427,7 +565,7 @@ Be specific and use the exact schema types. If projectId is needed and not provi
     }
 
     // Execute the confirmed action
-    return await this.executeAction(pending.action, pending.userId);
+    return await this.executeAction(pending.action, pending.userId, { confirmed: true });
   }
 }
 
@@ -0,0 +1,700 @@
+import { X509Certificate, createHash } from "crypto";
+import * as der from "./der";
+import { apkService, APK_LIMITS } from "./apkService";
+import { isBinaryBuffer } from "./fileSystem";
+import { readZip, type ZipEntry } from "./zip";
+import { ANDROID_NS, formatAttributeValue, isBinaryXml, parseAxml, readManifestInfo, type AxmlElement } from "./axml";
+import { parseArsc, referenceResolver, type ResourceTable } from "./arsc";
+import { parseDex, DexError } from "./dex";
+
+// Static security review of an uploaded APK: manifest flags, permissions,
+// exported components, URLs and secrets in the string pools and assets, and
+// the signing certificates. Everything is read from the APK as uploaded.
+
+export type AuditSeverity = 'high' | 'medium' | 'low' | 'info';
+export type PermissionRisk = 'high' | 'medium' | 'low' | 'unknown';
+export type ComponentType = 'activity' | 'activity-alias' | 'service' | 'receiver' | 'provider';
+
+export interface AuditFinding {
+  severity: AuditSeverity;
+  category: 'manifest' | 'permissions' | 'components' | 'network' | 'secrets' | 'signing';
+  title: string;
+  detail?: string;
+}
+
+export interface AuditPermission {
+  name: string;
+  risk: PermissionRisk;
+  protectionLevel: 'dangerous' | 'special' | 'normal' | 'unknown';
+  description?: string;
+}
+
+export interface AuditComponent {
+  type: ComponentType;
+  name: string;
+  exported: boolean;
+  // False when `exported` comes from the platform default
+  explicit: boolean;
+  permission?: string;
+  actions: string[];
+  launcher: boolean;
+}
+
+export interface AuditCertificate {
+  schemes: Array<'v1' | 'v2' | 'v3'>;
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  sha256: string;
+  sha1: string;
+  signatureAlgorithm: string;
+  publicKey: string;
+  debug: boolean;
+  selfSigned: boolean;
+}
+
+export interface AuditMatch {
+  value: string;
+  // Where the value was found: a DEX file, resources.arsc or an asset path
+  sources: string[];
+}
+
+export interface AuditSecret extends AuditMatch {
+  kind: string;
+}
+
+export interface ApkAuditReport {
+  generatedAt: string;
+  apk: {
+    packageName?: string;
+    versionName?: string;
+    versionCode?: string;
+    minSdkVersion?: string;
+    targetSdkVersion?: string;
+    size: number;
+    sha256: string;
+  };
+  flags: {
+    debuggable: boolean;
+    allowBackup: boolean;
+    usesCleartextTraffic: boolean;
+    // Where the cleartext decision comes from
+    cleartextSource: 'manifest' | 'network_security_config' | 'default';
+    networkSecurityConfig?: string;
+  };
+  permissions: AuditPermission[];
+  components: AuditComponent[];
+  urls: AuditMatch[];
+  secrets: AuditSecret[];
+  certificates: AuditCertificate[];
+  findings: AuditFinding[];
+  // Set when a list was cut at its limit
+  truncated: string[];
+}
+
+const MAX_URLS = 1000;
+const MAX_SECRETS = 200;
+const MAX_SCANNED_ASSET_BYTES = 2 * 1024 * 1024;
+
+// Runtime ("dangerous") permissions, with what they give access to
+const DANGEROUS_PERMISSIONS: Record<string, string> = {
+  READ_CALENDAR: 'Leer el calendario',
+  WRITE_CALENDAR: 'Modificar el calendario',
+  CAMERA: 'Usar la cámara',
+  READ_CONTACTS: 'Leer los contactos',
+  WRITE_CONTACTS: 'Modificar los contactos',
+  GET_ACCOUNTS: 'Listar las cuentas del dispositivo',
+  ACCESS_FINE_LOCATION: 'Ubicación precisa',
+  ACCESS_COARSE_LOCATION: 'Ubicación aproximada',
+  ACCESS_BACKGROUND_LOCATION: 'Ubicación en segundo plano',
+  ACCESS_MEDIA_LOCATION: 'Ubicación guardada en fotos y vídeos',
+  RECORD_AUDIO: 'Grabar audio',
+  READ_PHONE_STATE: 'Estado e identidad del teléfono',
+  READ_PHONE_NUMBERS: 'Números de teléfono del dispositivo',
+  CALL_PHONE: 'Hacer llamadas',
+  ANSWER_PHONE_CALLS: 'Contestar llamadas',
+  READ_CALL_LOG: 'Leer el registro de llamadas',
+  WRITE_CALL_LOG: 'Modificar el registro de llamadas',
+  ADD_VOICEMAIL: 'Añadir mensajes de voz',
+  USE_SIP: 'Llamadas SIP',
+  PROCESS_OUTGOING_CALLS: 'Interceptar llamadas salientes',
+  BODY_SENSORS: 'Sensores corporales',
+  BODY_SENSORS_BACKGROUND: 'Sensores corporales en segundo plano',
+  ACTIVITY_RECOGNITION: 'Actividad física',
+  SEND_SMS: 'Enviar SMS',
+  RECEIVE_SMS: 'Recibir SMS',
+  READ_SMS: 'Leer SMS',
+  RECEIVE_WAP_PUSH: 'Recibir mensajes WAP push',
+  RECEIVE_MMS: 'Recibir MMS',
+  READ_EXTERNAL_STORAGE: 'Leer el almacenamiento compartido',
+  WRITE_EXTERNAL_STORAGE: 'Escribir en el almacenamiento compartido',
+  READ_MEDIA_IMAGES: 'Leer imágenes',
+  READ_MEDIA_VIDEO: 'Leer vídeos',
+  READ_MEDIA_AUDIO: 'Leer audio',
+  POST_NOTIFICATIONS: 'Mostrar notificaciones',
+  NEARBY_WIFI_DEVICES: 'Dispositivos Wi-Fi cercanos',
+  BLUETOOTH_SCAN: 'Buscar dispositivos Bluetooth',
+  BLUETOOTH_CONNECT: 'Conectar con dispositivos Bluetooth',
+  BLUETOOTH_ADVERTISE: 'Anunciarse por Bluetooth',
+  UWB_RANGING: 'Posición relativa por banda ultraancha',
+};
+
+// Special and signature-level permissions that grant broad control when granted
+const SPECIAL_PERMISSIONS: Record<string, string> = {
+  SYSTEM_ALERT_WINDOW: 'Dibujar sobre otras aplicaciones',
+  WRITE_SETTINGS: 'Modificar los ajustes del sistema',
+  REQUEST_INSTALL_PACKAGES: 'Instalar otras aplicaciones',
+  INSTALL_PACKAGES: 'Instalar aplicaciones sin confirmación',
+  DELETE_PACKAGES: 'Desinstalar aplicaciones',
+  BIND_ACCESSIBILITY_SERVICE: 'Servicio de accesibilidad (lee y controla la pantalla)',
+  BIND_DEVICE_ADMIN: 'Administrador del dispositivo',
+  BIND_NOTIFICATION_LISTENER_SERVICE: 'Leer todas las notificaciones',
+  PACKAGE_USAGE_STATS: 'Estadísticas de uso de otras aplicaciones',
+  MANAGE_EXTERNAL_STORAGE: 'Acceso a todos los archivos',
+  QUERY_ALL_PACKAGES: 'Listar todas las aplicaciones instaladas',
+  READ_LOGS: 'Leer los registros del sistema',
+  SCHEDULE_EXACT_ALARM: 'Alarmas exactas',
+  CHANGE_COMPONENT_ENABLED_STATE: 'Activar o desactivar componentes',
+  BIND_VPN_SERVICE: 'Servicio VPN',
+};
+
+const NORMAL_PERMISSIONS = new Set([
+  'INTERNET', 'ACCESS_NETWORK_STATE', 'ACCESS_WIFI_STATE', 'CHANGE_WIFI_STATE', 'CHANGE_NETWORK_STATE',
+  'VIBRATE', 'WAKE_LOCK', 'RECEIVE_BOOT_COMPLETED', 'FOREGROUND_SERVICE', 'BLUETOOTH', 'BLUETOOTH_ADMIN',
+  'NFC', 'SET_WALLPAPER', 'USE_BIOMETRIC', 'USE_FINGERPRINT', 'REQUEST_IGNORE_BATTERY_OPTIMIZATIONS',
+  'ACCESS_NOTIFICATION_POLICY', 'MODIFY_AUDIO_SETTINGS', 'READ_SYNC_SETTINGS', 'WRITE_SYNC_SETTINGS',
+  'EXPAND_STATUS_BAR', 'KILL_BACKGROUND_PROCESSES', 'SET_ALARM', 'USE_FULL_SCREEN_INTENT', 'TRANSMIT_IR',
+  'GET_PACKAGE_SIZE', 'DISABLE_KEYGUARD', 'REORDER_TASKS', 'REQUEST_DELETE_PACKAGES', 'USE_EXACT_ALARM',
+]);
+
+const SECRET_PATTERNS: Array<{ kind: string; pattern: RegExp }> = [
+  { kind: 'Clave de acceso de AWS', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'Clave de API de Google', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'Clave secreta de Stripe', pattern: /\b[sr]k_live_[0-9A-Za-z]{24,}\b/g },
+  { kind: 'Token de Slack', pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}\b/g },
+  { kind: 'Token de GitHub', pattern: /\bgh[pousr]_[0-9A-Za-z]{36}\b/g },
+  { kind: 'Clave de API de SendGrid', pattern: /\bSG\.[0-9A-Za-z_-]{22}\.[0-9A-Za-z_-]{43}\b/g },
+  { kind: 'JSON Web Token', pattern: /\beyJ[0-9A-Za-z_-]{10,}\.eyJ[0-9A-Za-z_-]{10,}\.[0-9A-Za-z_-]{10,}/g },
+  { kind: 'Clave privada', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |ENCRYPTED )?PRIVATE KEY-----/g },
+  { kind: 'Credenciales en una URL', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/"']+:[^\s@/"']+@[^\s"']+/gi },
+];
+
+const URL_PATTERN = /\b(?:https?|wss?|ftp):\/\/[^\s"'<>\\`{}|^]+/gi;
+// XML namespaces and schema ids that look like URLs but are never fetched
+const NAMESPACE_HOSTS = /^https?:\/\/(?:schemas\.android\.com|www\.w3\.org|ns\.adobe\.com|xmlpull\.org|xml\.org|purl\.org|schemas\.xmlsoap\.org|apache\.org\/xml)(?:\/|$)/i;
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.4': 'MD5withRSA',
+  '1.2.840.113549.1.1.5': 'SHA1withRSA',
+  '1.2.840.113549.1.1.11': 'SHA256withRSA',
+  '1.2.840.113549.1.1.12': 'SHA384withRSA',
+  '1.2.840.113549.1.1.13': 'SHA512withRSA',
+  '1.2.840.10040.4.3': 'SHA1withDSA',
+  '2.16.840.1.101.3.4.3.2': 'SHA256withDSA',
+  '1.2.840.10045.4.1': 'SHA1withECDSA',
+  '1.2.840.10045.4.3.2': 'SHA256withECDSA',
+  '1.2.840.10045.4.3.3': 'SHA384withECDSA',
+  '1.2.840.10045.4.3.4': 'SHA512withECDSA',
+};
+
+const APK_SIGNATURE_SCHEME_V2_ID = 0x7109871a;
+const APK_SIGNATURE_SCHEME_V3_ID = 0xf05368c0;
+const SIGNING_BLOCK_MAGIC = 'APK Sig Block 42';
+
+export class ApkAudit {
+  async audit(projectId: string): Promise<ApkAuditReport> {
+    const apk = await apkService.readOriginal(projectId);
+    const entries = readZip(apk, APK_LIMITS);
+    const byName = new Map(entries.map(entry => [entry.name, entry]));
+
+    const report: ApkAuditReport = {
+      generatedAt: new Date().toISOString(),
+      apk: { size: apk.length, sha256: createHash('sha256').update(apk).digest('hex') },
+      flags: { debuggable: false, allowBackup: true, usesCleartextTraffic: true, cleartextSource: 'default' },
+      permissions: [],
+      components: [],
+      urls: [],
+      secrets: [],
+      certificates: [],
+      findings: [],
+      truncated: [],
+    };
+
+    let table: ResourceTable | undefined;
+    const arsc = byName.get('resources.arsc');
+    if (arsc) {
+      try {
+        table = parseArsc(arsc.data);
+      } catch (error) {
+        report.findings.push({ severity: 'info', category: 'manifest', title: 'No se pudo leer resources.arsc', detail: String(error) });
+      }
+    }
+
+    const manifest = byName.get('AndroidManifest.xml');
+    if (manifest && isBinaryXml(manifest.data)) {
+      this.auditManifest(parseAxml(manifest.data), report, table, byName);
+    } else {
+      report.findings.push({ severity: 'medium', category: 'manifest', title: 'El APK no tiene un AndroidManifest.xml binario válido' });
+    }
+
+    this.scanStrings(entries, table, report);
+    this.auditSigning(apk, entries, report);
+
+    const order: AuditSeverity[] = ['high', 'medium', 'low', 'info'];
+    report.findings.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+    return report;
+  }
+
+  private auditManifest(
+    document: ReturnType<typeof parseAxml>,
+    report: ApkAuditReport,
+    table: ResourceTable | undefined,
+    entries: Map<string, ZipEntry>,
+  ) {
+    const info = readManifestInfo(document);
+    Object.assign(report.apk, info);
+    const targetSdk = Number(info.targetSdkVersion ?? info.minSdkVersion ?? 1);
+    const packageName = info.packageName ?? '';
+    const application = childElements(document.root, 'application')[0];
+
+    // Permissions
+    const declaredPermissions = new Map(childElements(document.root, 'permission').map(element => [
+      attribute(element, 'name') ?? '',
+      attribute(element, 'protectionLevel') ?? 'normal',
+    ]));
+    const requested = new Set<string>();
+    for (const tag of ['uses-permission', 'uses-permission-sdk-23', 'uses-permission-sdk-m']) {
+      for (const element of childElements(document.root, tag)) {
+        const name = attribute(element, 'name');
+        if (name) requested.add(name);
+      }
+    }
+    report.permissions = Array.from(requested).sort().map(name => classifyPermission(name, declaredPermissions));
+
+    const dangerous = report.permissions.filter(permission => permission.protectionLevel === 'dangerous');
+    if (dangerous.length > 0) {
+      report.findings.push({
+        severity: 'info',
+        category: 'permissions',
+        title: `Permisos peligrosos solicitados (${dangerous.length})`,
+        detail: dangerous.map(permission => shortPermission(permission.name)).join(', '),
+      });
+    }
+    for (const permission of report.permissions.filter(candidate => candidate.protectionLevel === 'special')) {
+      report.findings.push({
+        severity: 'medium',
+        category: 'permissions',
+        title: `Permiso especial ${shortPermission(permission.name)}`,
+        detail: permission.description,
+      });
+    }
+
+    if (!application) return;
+
+    // Application flags
+    const debuggable = attribute(application, 'debuggable');
+    report.flags.debuggable = debuggable === 'true';
+    if (report.flags.debuggable) {
+      report.findings.push({
+        severity: 'high',
+        category: 'manifest',
+        title: 'La aplicación es depurable (android:debuggable="true")',
+        detail: 'Cualquiera con acceso ADB puede adjuntar un depurador y ejecutar código con la identidad de la app.',
+      });
+    }
+
+    const allowBackup = attribute(application, 'allowBackup');
+    report.flags.allowBackup = allowBackup !== 'false';
+    if (report.flags.allowBackup) {
+      report.findings.push({
+        severity: allowBackup === 'true' ? 'medium' : 'low',
+        category: 'manifest',
+        title: allowBackup === 'true'
+          ? 'Copias de seguridad permitidas (android:allowBackup="true")'
+          : 'Copias de seguridad permitidas por defecto (falta android:allowBackup)',
+        detail: 'Los datos privados de la app pueden extraerse con adb backup o copias en la nube.',
+      });
+    }
+
+    const cleartext = attribute(application, 'usesCleartextTraffic');
+    report.flags.usesCleartextTraffic = cleartext !== undefined ? cleartext === 'true' : targetSdk < 28;
+    report.flags.cleartextSource = cleartext !== undefined ? 'manifest' : 'default';
+    const networkConfig = attribute(application, 'networkSecurityConfig', table);
+    if (networkConfig) {
+      report.flags.networkSecurityConfig = networkConfig;
+      const permitted = readCleartextConfig(resourcePath(application, 'networkSecurityConfig', table), entries);
+      if (permitted !== undefined) {
+        report.flags.usesCleartextTraffic = permitted;
+        report.flags.cleartextSource = 'network_security_config';
+      }
+    }
+    if (report.flags.usesCleartextTraffic) {
+      report.findings.push({
+        severity: 'medium',
+        category: 'network',
+        title: 'Se permite tráfico HTTP sin cifrar',
+        detail: report.flags.cleartextSource === 'default'
+          ? `targetSdkVersion ${info.targetSdkVersion ?? '?'} < 28 permite HTTP por defecto.`
+          : `Declarado en ${report.flags.cleartextSource === 'manifest' ? 'android:usesCleartextTraffic' : networkConfig}.`,
+      });
+    }
+
+    // Components
+    const applicationPermission = attribute(application, 'permission');
+    const types: ComponentType[] = ['activity', 'activity-alias', 'service', 'receiver', 'provider'];
+    for (const type of types) {
+      for (const element of childElements(application, type)) {
+        report.components.push(describeComponent(element, type, packageName, targetSdk, applicationPermission));
+      }
+    }
+    for (const component of report.components) {
+      if (!component.exported || component.permission || component.launcher) continue;
+      report.findings.push({
+        severity: component.type === 'provider' ? 'high' : component.type === 'activity' || component.type === 'activity-alias' ? 'low' : 'medium',
+        category: 'components',
+        title: `${COMPONENT_LABELS[component.type]} sin permiso: ${component.name}`,
+        detail: component.actions.length > 0
+          ? `Acciones: ${component.actions.join(', ')}`
+          : component.explicit ? 'android:exported="true"' : undefined,
+      });
+    }
+  }
+
+  // URLs and secrets in the DEX string pools, resources.arsc and text assets
+  private scanStrings(entries: ZipEntry[], table: ResourceTable | undefined, report: ApkAuditReport) {
+    const urls = new Map<string, Set<string>>();
+    const secrets = new Map<string, { kind: string; sources: Set<string> }>();
+
+    const scan = (text: string, source: string) => {
+      for (const match of Array.from(text.matchAll(URL_PATTERN))) {
+        const url = match[0].replace(/[.,;:)\]]+$/, '');
+        if (NAMESPACE_HOSTS.test(url)) continue;
+        if (!urls.has(url) && urls.size >= MAX_URLS) continue;
+        (urls.get(url) ?? urls.set(url, new Set()).get(url)!).add(source);
+      }
+      for (const { kind, pattern } of SECRET_PATTERNS) {
+        for (const match of Array.from(text.matchAll(pattern))) {
+          if (!secrets.has(match[0]) && secrets.size >= MAX_SECRETS) continue;
+          const secret = secrets.get(match[0]) ?? secrets.set(match[0], { kind, sources: new Set() }).get(match[0])!;
+          secret.sources.add(source);
+        }
+      }
+    };
+
+    for (const entry of entries) {
+      if (/^classes\d*\.dex$/.test(entry.name)) {
+        try {
+          for (const value of parseDex(entry.data).strings) scan(value, entry.name);
+        } catch (error) {
+          if (!(error instanceof DexError)) throw error;
+          report.findings.push({ severity: 'info', category: 'secrets', title: `No se pudo analizar ${entry.name}`, detail: error.message });
+        }
+      } else if (/^(assets|res\/raw)\//.test(entry.name) && !entry.isDirectory
+        && entry.data.length <= MAX_SCANNED_ASSET_BYTES && !isBinaryBuffer(entry.data)) {
+        scan(entry.data.toString('utf8'), entry.name);
+      }
+    }
+    if (table) {
+      for (const value of table.strings) scan(value, 'resources.arsc');
+    }
+
+    report.urls = Array.from(urls, ([value, sources]) => ({ value, sources: Array.from(sources) }))
+      .sort((a, b) => a.value.localeCompare(b.value));
+    report.secrets = Array.from(secrets, ([value, { kind, sources }]) => ({ kind, value: maskSecret(value), sources: Array.from(sources) }));
+    if (urls.size >= MAX_URLS) report.truncated.push('urls');
+    if (secrets.size >= MAX_SECRETS) report.truncated.push('secrets');
+
+    for (const secret of report.secrets) {
+      report.findings.push({
+        severity: 'high',
+        category: 'secrets',
+        title: `Secreto incrustado: ${secret.kind}`,
+        detail: `${secret.value} en ${secret.sources.join(', ')}`,
+      });
+    }
+    const insecure = report.urls.filter(url => /^(http|ws|ftp):/i.test(url.value));
+    if (insecure.length > 0) {
+      report.findings.push({
+        severity: 'low',
+        category: 'network',
+        title: `URLs sin cifrar (${insecure.length})`,
+        detail: insecure.slice(0, 5).map(url => url.value).join(', ') + (insecure.length > 5 ? '…' : ''),
+      });
+    }
+  }
+
+  private auditSigning(apk: Buffer, entries: ZipEntry[], report: ApkAuditReport) {
+    const certificates = new Map<string, AuditCertificate>();
+    const add = (certificate: Buffer, scheme: 'v1' | 'v2' | 'v3') => {
+      try {
+        const described = describeCertificate(certificate);
+        const existing = certificates.get(described.sha256);
+        if (existing) {
+          if (!existing.schemes.includes(scheme)) existing.schemes.push(scheme);
+        } else {
+          certificates.set(described.sha256, { ...described, schemes: [scheme] });
+        }
+      } catch (error) {
+        report.findings.push({ severity: 'info', category: 'signing', title: `Certificado ${scheme} ilegible`, detail: String(error) });
+      }
+    };
+
+    for (const entry of entries) {
+      if (!/^META-INF\/[^/]+\.(RSA|DSA|EC)$/i.test(entry.name)) continue;
+      try {
+        for (const certificate of pkcs7Certificates(entry.data)) add(certificate, 'v1');
+      } catch (error) {
+        report.findings.push({ severity: 'info', category: 'signing', title: `No se pudo leer ${entry.name}`, detail: String(error) });
+      }
+    }
+    for (const [scheme, certificate] of signingBlockCertificates(apk)) add(certificate, scheme);
+    report.certificates = Array.from(certificates.values());
+
+    if (report.certificates.length === 0) {
+      report.findings.push({ severity: 'high', category: 'signing', title: 'El APK no está firmado' });
+      return;
+    }
+    const now = Date.now();
+    for (const certificate of report.certificates) {
+      if (certificate.debug) {
+        report.findings.push({
+          severity: 'medium',
+          category: 'signing',
+          title: 'Firmado con un certificado de depuración',
+          detail: certificate.subject,
+        });
+      }
+      if (Date.parse(certificate.validTo) < now) {
+        report.findings.push({ severity: 'low', category: 'signing', title: 'El certificado de firma ha caducado', detail: certificate.validTo });
+      }
+      if (/^(MD5|SHA1)with/.test(certificate.signatureAlgorithm)) {
+        report.findings.push({
+          severity: 'medium',
+          category: 'signing',
+          title: `Certificado con algoritmo débil (${certificate.signatureAlgorithm})`,
+        });
+      }
+    }
+    if (!report.certificates.some(certificate => certificate.schemes.some(scheme => scheme !== 'v1'))) {
+      report.findings.push({
+        severity: 'low',
+        category: 'signing',
+        title: 'Solo firma v1 (JAR)',
+        detail: 'Sin los esquemas v2/v3 el APK queda expuesto a vulnerabilidades como Janus en Android 5–8.',
+      });
+    }
+  }
+}
+
+const COMPONENT_LABELS: Record<ComponentType, string> = {
+  activity: 'Actividad exportada',
+  'activity-alias': 'Alias de actividad exportado',
+  service: 'Servicio exportado',
+  receiver: 'Receptor exportado',
+  provider: 'Proveedor de contenido exportado',
+};
+
+function childElements(element: AxmlElement, name: string): AxmlElement[] {
+  return element.children.filter((child): child is AxmlElement => 'name' in child && child.name === name);
+}
+
+function attribute(element: AxmlElement, name: string, table?: ResourceTable): string | undefined {
+  const found = element.attributes.find(candidate => candidate.name === name && (candidate.namespace === ANDROID_NS || candidate.namespace === null));
+  if (!found) return undefined;
+  return formatAttributeValue(found, table ? { resolveReference: referenceResolver(table) } : {});
+}
+
+// Entry path of a file resource an attribute points to, e.g. res/xml/network_security_config.xml
+function resourcePath(element: AxmlElement, name: string, table: ResourceTable | undefined): string | undefined {
+  const found = element.attributes.find(candidate => candidate.name === name);
+  if (!found || !table) return undefined;
+  for (const pkg of table.packages) {
+    for (const type of pkg.types) {
+      for (const config of type.configs) {
+        const entry = config.entries.find(candidate => candidate.id === found.data);
+        if (entry?.value?.type === 0x03) return table.strings[entry.value.data];
+      }
+    }
+  }
+  return undefined;
+}
+
+// Whether a network security config permits cleartext for any domain;
+// undefined when it does not say (or cannot be read)
+function readCleartextConfig(path: string | undefined, entries: Map<string, ZipEntry>): boolean | undefined {
+  const entry = path ? entries.get(path) : undefined;
+  if (!entry || !isBinaryXml(entry.data)) return undefined;
+  const document = parseAxml(entry.data);
+  let permitted: boolean | undefined;
+  const visit = (element: AxmlElement) => {
+    const value = element.attributes.find(candidate => candidate.name === 'cleartextTrafficPermitted');
+    if (value && formatAttributeValue(value) === 'true') permitted = true;
+    else if (value && element.name === 'base-config' && permitted === undefined) permitted = false;
+    element.children.forEach(child => 'name' in child && visit(child));
+  };
+  visit(document.root);
+  return permitted;
+}
+
+function shortPermission(name: string): string {
+  return name.replace(/^android\.permission\./, '');
+}
+
+function classifyPermission(name: string, declared: Map<string, string>): AuditPermission {
+  const short = shortPermission(name);
+  if (name.startsWith('android.permission.')) {
+    if (DANGEROUS_PERMISSIONS[short]) {
+      return { name, risk: 'high', protectionLevel: 'dangerous', description: DANGEROUS_PERMISSIONS[short] };
+    }
+    if (SPECIAL_PERMISSIONS[short]) {
+      return { name, risk: 'high', protectionLevel: 'special', description: SPECIAL_PERMISSIONS[short] };
+    }
+    if (NORMAL_PERMISSIONS.has(short)) return { name, risk: 'low', protectionLevel: 'normal' };
+    return { name, risk: 'medium', protectionLevel: 'unknown' };
+  }
+  // Permissions the app defines itself carry their declared protection level
+  const level = declared.get(name);
+  if (level !== undefined) {
+    return {
+      name,
+      risk: /dangerous/.test(level) ? 'high' : 'low',
+      protectionLevel: /dangerous/.test(level) ? 'dangerous' : 'normal',
+      description: `Definido por la app (${level})`,
+    };
+  }
+  return { name, risk: 'unknown', protectionLevel: 'unknown' };
+}
+
+function describeComponent(
+  element: AxmlElement,
+  type: ComponentType,
+  packageName: string,
+  targetSdk: number,
+  applicationPermission: string | undefined,
+): AuditComponent {
+  const rawName = attribute(element, 'name') ?? attribute(element, 'targetActivity') ?? '';
+  const name = rawName.startsWith('.') ? `${packageName}${rawName}` : rawName.includes('.') ? rawName : `${packageName}.${rawName}`;
+  const filters = childElements(element, 'intent-filter');
+  const actions = filters.flatMap(filter => childElements(filter, 'action').map(action => attribute(action, 'name') ?? ''));
+  const categories = filters.flatMap(filter => childElements(filter, 'category').map(category => attribute(category, 'name') ?? ''));
+  const launcher = actions.includes('android.intent.action.MAIN') && categories.includes('android.intent.category.LAUNCHER');
+
+  // Without android:exported, components with intent filters are exported,
+  // and providers are exported below API 17
+  const exported = attribute(element, 'exported');
+  const defaultExported = type === 'provider' ? targetSdk < 17 : filters.length > 0;
+
+  let permission = attribute(element, 'permission');
+  if (!permission && type === 'provider') {
+    const read = attribute(element, 'readPermission');
+    const write = attribute(element, 'writePermission');
+    if (read && write) permission = read === write ? read : `${read} / ${write}`;
+  }
+  if (!permission && (type === 'activity' || type === 'activity-alias')) permission = applicationPermission;
+
+  return {
+    type,
+    name,
+    exported: exported === undefined ? defaultExported : exported !== 'false',
+    explicit: exported !== undefined,
+    permission,
+    actions: actions.filter(Boolean),
+    launcher,
+  };
+}
+
+function maskSecret(value: string): string {
+  if (value.startsWith('-----BEGIN')) return value;
+  return value.length <= 12 ? `${value.slice(0, 2)}…` : `${value.slice(0, 6)}…${value.slice(-4)}`;
+}
+
+function describeCertificate(raw: Buffer): Omit<AuditCertificate, 'schemes'> {
+  const certificate = new X509Certificate(raw);
+  const fields = der.children(der.decode(raw));
+  const algorithm = der.readObjectIdentifier(der.children(fields[1])[0]);
+  const key = certificate.publicKey;
+  const details = key.asymmetricKeyDetails;
+  const keySize = details?.modulusLength ? ` ${details.modulusLength} bits` : details?.namedCurve ? ` ${details.namedCurve}` : '';
+  const subject = certificate.subject.split('\n').join(', ');
+  return {
+    subject,
+    issuer: certificate.issuer.split('\n').join(', '),
+    serialNumber: certificate.serialNumber,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+    sha256: createHash('sha256').update(raw).digest('hex'),
+    sha1: createHash('sha1').update(raw).digest('hex'),
+    signatureAlgorithm: SIGNATURE_ALGORITHMS[algorithm] ?? algorithm,
+    publicKey: `${(key.asymmetricKeyType ?? 'unknown').toUpperCase()}${keySize}`,
+    debug: /CN=Android Debug/i.test(subject),
+    selfSigned: certificate.subject === certificate.issuer,
+  };
+}
+
+// Certificates of a PKCS#7 SignedData (META-INF/*.RSA and friends)
+function pkcs7Certificates(signature: Buffer): Buffer[] {
+  const contentInfo = der.children(der.decode(signature));
+  const signedData = der.children(der.children(contentInfo[1])[0]);
+  const certificates = signedData.find(node => node.tag === 0xa0);
+  return certificates ? der.children(certificates).map(node => node.raw) : [];
+}
+
+// Certificates of the v2/v3 signers in the APK Signing Block, which sits
+// right before the central directory
+function signingBlockCertificates(apk: Buffer): Array<['v2' | 'v3', Buffer]> {
+  const result: Array<['v2' | 'v3', Buffer]> = [];
+  let eocd = -1;
+  for (let offset = apk.length - 22; offset >= Math.max(0, apk.length - 65557); offset--) {
+    if (apk.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) return result;
+  const centralDirectory = apk.readUInt32LE(eocd + 16);
+  if (centralDirectory < 32 || apk.toString('latin1', centralDirectory - 16, centralDirectory) !== SIGNING_BLOCK_MAGIC) {
+    return result;
+  }
+
+  const blockSize = Number(apk.readBigUInt64LE(centralDirectory - 24));
+  // The size is repeated at the start of the block, before the id-value pairs
+  const start = centralDirectory - blockSize;
+  const end = centralDirectory - 24;
+  if (start < 8 || start > end) return result;
+
+  const lengthPrefixed = (buffer: Buffer): Buffer[] => {
+    const items: Buffer[] = [];
+    for (let offset = 0; offset + 4 <= buffer.length;) {
+      const length = buffer.readUInt32LE(offset);
+      items.push(buffer.subarray(offset + 4, offset + 4 + length));
+      offset += 4 + length;
+    }
+    return items;
+  };
+
+  for (let offset = start; offset + 12 <= end;) {
+    const length = Number(apk.readBigUInt64LE(offset));
+    const id = apk.readUInt32LE(offset + 8);
+    const value = apk.subarray(offset + 12, offset + 8 + length);
+    offset += 8 + length;
+    const scheme = id === APK_SIGNATURE_SCHEME_V2_ID ? 'v2' : id === APK_SIGNATURE_SCHEME_V3_ID ? 'v3' : undefined;
+    if (!scheme) continue;
+    try {
+      // signers -> signer -> signed data -> [digests, certificates, ...]
+      for (const signer of lengthPrefixed(lengthPrefixed(value)[0] ?? Buffer.alloc(0))) {
+        const signedData = lengthPrefixed(signer)[0] ?? Buffer.alloc(0);
+        const certificates = signedData.length >= 4
+          ? lengthPrefixed(signedData.subarray(4 + signedData.readUInt32LE(0)))[0]
+          : undefined;
+        for (const certificate of lengthPrefixed(certificates ?? Buffer.alloc(0))) result.push([scheme, certificate]);
+      }
+    } catch (error) {
+      if (!(error instanceof RangeError)) throw error;
+    }
+  }
+  return result;
+}
+
+export const apkAudit = new ApkAudit();
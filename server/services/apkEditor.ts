@@ -0,0 +1,505 @@
+import { z } from "zod";
+import type { File } from "@shared/schema";
+import { AddFeatureParameters, ChangeThemeParameters, ModifyStringsParameters } from "@shared/actions";
+import { InvalidPathError, normalizeProjectPath } from "@shared/paths";
+import { storage } from "../storage";
+import { fileSystemService } from "./fileSystem";
+import { fileHistory } from "./fileHistory";
+import { createUnifiedDiff } from "./diff";
+import { apkService } from "./apkService";
+import { ValueType, escapeXml, unescapeXml } from "./axml";
+import { escapeResourceString, parseColor, resourceNames, type ResourceTable } from "./arsc";
+import { PngError, decodePng, encodePng, readPngSize, resizeImage, type RgbaImage } from "./png";
+
+// The modify_apk operations on a decompiled project. Text edits go through
+// storage with a revision and reach the APK on the next build; launcher
+// icons are binary and are replaced on disk.
+
+export class ApkEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApkEditError';
+  }
+}
+
+export interface ApkChange {
+  path: string;
+  description: string;
+  // Unified diff, for text files
+  diff?: string;
+}
+
+export interface ApkEditSummary {
+  changes: ApkChange[];
+  skipped: Array<{ target: string; reason: string }>;
+}
+
+interface ActivityDeclaration {
+  name: string;
+  exported?: boolean;
+  label?: string;
+}
+
+type IconLayer = 'icon' | 'round' | 'foreground';
+
+const MANIFEST_PATH = '/AndroidManifest.xml';
+const REVISION_SOURCE = 'modify_apk';
+const THEME_COLORS = ['colorPrimary', 'colorPrimaryDark', 'colorAccent'] as const;
+
+// Launcher icons are 48dp; adaptive icon layers are 108dp, of which the
+// middle 72dp is always visible
+const LAUNCHER_ICON_DP = 48;
+const ADAPTIVE_LAYER_DP = 108;
+const ADAPTIVE_SAFE_ZONE = 72 / 108;
+const DENSITY_DPI: Record<string, number> = {
+  ldpi: 120,
+  mdpi: 160,
+  tvdpi: 213,
+  hdpi: 240,
+  xhdpi: 320,
+  xxhdpi: 480,
+  xxxhdpi: 640,
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "es", "pt-BR", "pt_BR" or "pt-rBR" -> the values directory qualifier
+function localeQualifier(locale: string): string {
+  const trimmed = locale.trim();
+  if (trimmed === '' || trimmed === 'default') return '';
+  const match = /^([a-z]{2,3})(?:[-_]r?([a-z]{2}|\d{3}))?$/i.exec(trimmed);
+  if (!match) return trimmed;
+  return match[2] ? `${match[1].toLowerCase()}-r${match[2].toUpperCase()}` : match[1].toLowerCase();
+}
+
+function valuesDirectory(qualifier: string): string {
+  return `values${qualifier ? `-${qualifier}` : ''}`;
+}
+
+// `<tag name="…">text</tag>` (or self-closing) with the opening tag in group 1
+// and the text in group 2
+function valuesElementPattern(tag: string, name: string): RegExp {
+  return new RegExp(
+    `(<${tag}\\b[^>]*?\\bname="${escapeRegExp(escapeXml(name))}"[^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}\\s*>)`,
+  );
+}
+
+function replaceElementText(content: string, tag: string, name: string, text: string): string | undefined {
+  const pattern = valuesElementPattern(tag, name);
+  if (!pattern.test(content)) return undefined;
+  return content.replace(pattern, (_match, open: string) => `${open.replace(/\s+$/, '')}>${text}</${tag}>`);
+}
+
+function attributeValue(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${escapeRegExp(name)}="([^"]*)"`).exec(tag);
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+function setAttribute(tag: string, name: string, value: string): string {
+  const pattern = new RegExp(`(\\s${escapeRegExp(name)}=")[^"]*(")`);
+  if (pattern.test(tag)) return tag.replace(pattern, (_match, before: string, after: string) => `${before}${escapeXml(value)}${after}`);
+  return tag.replace(/(\s*\/?>)$/, ` ${name}="${escapeXml(value)}"$1`);
+}
+
+function applicationTag(manifest: string): string {
+  const match = /<application\b[^>]*>/.exec(manifest);
+  if (!match) throw new ApkEditError('AndroidManifest.xml no tiene un elemento <application>');
+  return match[0];
+}
+
+// "CAMERA" -> "android.permission.CAMERA"
+function permissionName(permission: string): string {
+  const trimmed = permission.trim();
+  return trimmed.includes('.') ? trimmed : `android.permission.${trimmed.toUpperCase()}`;
+}
+
+// Fully qualified class name of a manifest component
+function qualifyClassName(name: string, packageName: string): string {
+  if (name.startsWith('.')) return packageName + name;
+  return name.includes('.') ? name : `${packageName}.${name}`;
+}
+
+// Files behind `@type/name` in every configuration of the table
+function resourceFiles(table: ResourceTable, reference: string): Array<{ path: string; density?: string }> {
+  const match = /^@([\w-]+)\/(.+)$/.exec(reference);
+  const type = match && table.packages[0]?.types.find(candidate => candidate.name === match[1]);
+  if (!match || !type) return [];
+
+  const files: Array<{ path: string; density?: string }> = [];
+  for (const config of type.configs) {
+    const entry = config.entries.find(candidate => candidate.key === match[2]);
+    if (entry?.value?.type !== ValueType.STRING) continue;
+    try {
+      files.push({ path: normalizeProjectPath(table.strings[entry.value.data] ?? ''), density: config.density });
+    } catch (error) {
+      if (!(error instanceof InvalidPathError)) throw error;
+    }
+  }
+  return files;
+}
+
+// Fit `source` into a `width` x `height` canvas, keeping its aspect ratio.
+// Adaptive icon foregrounds only use the safe zone; round icons are masked
+// to a circle.
+function composeIcon(source: RgbaImage, width: number, height: number, layer: IconLayer): RgbaImage {
+  const area = layer === 'foreground' ? ADAPTIVE_SAFE_ZONE : 1;
+  const scale = Math.min((width * area) / source.width, (height * area) / source.height);
+  const fitted = resizeImage(
+    source,
+    Math.max(1, Math.round(source.width * scale)),
+    Math.max(1, Math.round(source.height * scale)),
+  );
+
+  const pixels = Buffer.alloc(width * height * 4);
+  const left = Math.floor((width - fitted.width) / 2);
+  const top = Math.floor((height - fitted.height) / 2);
+  for (let y = 0; y < fitted.height; y++) {
+    fitted.pixels.copy(pixels, ((top + y) * width + left) * 4, y * fitted.width * 4, (y + 1) * fitted.width * 4);
+  }
+
+  if (layer === 'round') {
+    const radius = Math.min(width, height) / 2;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const distance = Math.hypot(x + 0.5 - width / 2, y + 0.5 - height / 2);
+        const coverage = Math.min(1, Math.max(0, radius - distance + 0.5));
+        const alpha = (y * width + x) * 4 + 3;
+        pixels[alpha] = Math.round(pixels[alpha] * coverage);
+      }
+    }
+  }
+  return { width, height, pixels };
+}
+
+export class ApkEditor {
+  // Replace the launcher icon (and round icon) at every density. Adaptive
+  // icons get their foreground layer replaced.
+  async changeIcon(projectId: string, image: Buffer): Promise<ApkEditSummary> {
+    let source: RgbaImage;
+    try {
+      source = decodePng(image);
+    } catch (error) {
+      if (error instanceof PngError) throw new ApkEditError(`La imagen no es un PNG válido: ${error.message}`);
+      throw error;
+    }
+
+    const table = await apkService.loadResourceTable(projectId);
+    const application = applicationTag((await this.getTextFile(projectId, MANIFEST_PATH)).content);
+    const layers: Array<{ reference: string; layer: IconLayer }> = [];
+    const icon = attributeValue(application, 'android:icon');
+    const roundIcon = attributeValue(application, 'android:roundIcon');
+    if (icon) layers.push({ reference: icon, layer: 'icon' });
+    if (roundIcon) layers.push({ reference: roundIcon, layer: 'round' });
+    if (layers.length === 0) {
+      throw new ApkEditError('AndroidManifest.xml no declara un icono (android:icon)');
+    }
+
+    const summary: ApkEditSummary = { changes: [], skipped: [] };
+    const handled = new Set<string>();
+    // Adaptive icons add their foreground to the list as they are found
+    for (let i = 0; i < layers.length; i++) {
+      const { reference, layer } = layers[i];
+      for (const file of resourceFiles(table, reference)) {
+        if (handled.has(file.path)) continue;
+        handled.add(file.path);
+
+        if (file.path.endsWith('.xml')) {
+          const foreground = layer === 'foreground' ? undefined : await this.adaptiveForeground(projectId, file.path);
+          if (foreground) {
+            layers.push({ reference: foreground, layer: 'foreground' });
+          } else {
+            summary.skipped.push({
+              target: file.path,
+              reason: layer === 'foreground' ? 'el primer plano es un vector, no una imagen' : 'icono XML sin capa de primer plano',
+            });
+          }
+          continue;
+        }
+        if (!/\.(png|webp)$/.test(file.path) || file.path.endsWith('.9.png')) {
+          summary.skipped.push({ target: file.path, reason: 'formato de imagen no compatible' });
+          continue;
+        }
+
+        const { width, height } = await this.iconSize(projectId, file, layer);
+        await fileSystemService.writeBinaryFile(projectId, file.path, encodePng(composeIcon(source, width, height, layer)));
+        // Android picks the decoder from the content, so PNG data in a .webp entry is fine
+        summary.changes.push({
+          path: file.path,
+          description: `${layer === 'foreground' ? 'Primer plano del icono adaptativo' : layer === 'round' ? 'Icono redondo' : 'Icono'} ${width}x${height}${file.density ? ` (${file.density})` : ''}`,
+        });
+      }
+    }
+
+    if (summary.changes.length === 0) {
+      throw new ApkEditError('No se encontró ningún icono en formato de imagen que reemplazar');
+    }
+    return summary;
+  }
+
+  // Change string resources, per locale. Only strings the APK already has can
+  // change, since the compiled table can't gain new entries.
+  async modifyStrings(projectId: string, parameters: z.infer<typeof ModifyStringsParameters>): Promise<ApkEditSummary> {
+    const byQualifier = new Map<string, Record<string, string>>();
+    const addStrings = (locale: string, strings: Record<string, string>) => {
+      const qualifier = localeQualifier(locale);
+      byQualifier.set(qualifier, { ...byQualifier.get(qualifier), ...strings });
+    };
+    if (parameters.strings) addStrings(parameters.locale ?? '', parameters.strings);
+    for (const [locale, strings] of Object.entries(parameters.locales ?? {})) addStrings(locale, strings);
+
+    const files = await this.projectFiles(projectId);
+    const summary: ApkEditSummary = { changes: [], skipped: [] };
+    for (const [qualifier, strings] of Array.from(byQualifier)) {
+      const directory = valuesDirectory(qualifier);
+      const file = files.get(`/res/${directory}/strings.xml`);
+      if (!file) {
+        summary.skipped.push({
+          target: `/res/${directory}/strings.xml`,
+          reason: qualifier ? `el APK no tiene textos para "${qualifier}"` : 'el APK no tiene textos',
+        });
+        continue;
+      }
+
+      let content = file.content;
+      const changed: string[] = [];
+      for (const [name, value] of Object.entries(strings)) {
+        const updated = replaceElementText(content, 'string', name, escapeResourceString(value));
+        if (updated === undefined) {
+          summary.skipped.push({
+            target: `${directory}/string/${name}`,
+            reason: 'no existe en el APK; solo se pueden cambiar textos existentes',
+          });
+          continue;
+        }
+        if (updated !== content) changed.push(name);
+        content = updated;
+      }
+      if (changed.length > 0) {
+        summary.changes.push(await this.updateTextFile(file, content, `Textos modificados: ${changed.join(', ')}`));
+      }
+    }
+    return summary;
+  }
+
+  // Recolor the app theme and/or change its parent. Colors the theme takes
+  // from @color resources are changed in colors.xml; literal ones in the
+  // style itself.
+  async changeTheme(projectId: string, parameters: z.infer<typeof ChangeThemeParameters>): Promise<ApkEditSummary> {
+    const colors: Array<[string, string]> = [];
+    for (const name of THEME_COLORS) {
+      const value = parameters[name]?.trim();
+      if (value === undefined) continue;
+      if (!parseColor(value)) {
+        throw new ApkEditError(`Color no válido para ${name}: ${value} (usa #RRGGBB o #AARRGGBB)`);
+      }
+      colors.push([name, value]);
+    }
+    if (colors.length === 0 && !parameters.parent) {
+      throw new ApkEditError('Indica al menos un color o un tema padre');
+    }
+
+    const files = await this.projectFiles(projectId);
+    const manifest = files.get(MANIFEST_PATH);
+    if (!manifest) throw new ApkEditError(`${MANIFEST_PATH} no existe en el proyecto; sube primero un APK`);
+    const theme = attributeValue(applicationTag(manifest.content), 'android:theme');
+    const themeName = theme ? /^@style\/(.+)$/.exec(theme)?.[1] : undefined;
+    if (!themeName) {
+      throw new ApkEditError('La aplicación no declara un tema propio (android:theme="@style/…") en AndroidManifest.xml');
+    }
+
+    const summary: ApkEditSummary = { changes: [], skipped: [] };
+    const edited = new Map<string, { file: File; content: string; notes: string[] }>();
+    const edit = (file: File, content: string, note: string) => {
+      const entry = edited.get(file.path) ?? { file, content: file.content, notes: [] };
+      entry.content = content;
+      entry.notes.push(note);
+      edited.set(file.path, entry);
+    };
+    const current = (file: File) => edited.get(file.path)?.content ?? file.content;
+    const styleFiles = Array.from(files.values()).filter(file => /^\/res\/values(-[^/]+)?\/styles\.xml$/.test(file.path));
+    const colorFiles = Array.from(files.values()).filter(file => /^\/res\/values(-[^/]+)?\/colors\.xml$/.test(file.path));
+    const themePattern = new RegExp(
+      `<style\\b[^>]*?\\bname="${escapeRegExp(escapeXml(themeName))}"[^>]*?(?:\\/>|>[\\s\\S]*?<\\/style\\s*>)`,
+    );
+    const themeFiles = styleFiles.filter(file => themePattern.test(file.content));
+    if (themeFiles.length === 0) {
+      throw new ApkEditError(`No se encontró el estilo ${themeName} en res/values*/styles.xml`);
+    }
+
+    if (parameters.parent) {
+      const parentName = parameters.parent.trim().replace(/^@?(style\/)?/, '');
+      const styles = new Set(Array.from(resourceNames(await apkService.loadResourceTable(projectId)).values()));
+      if (!styles.has(`style/${parentName}`)) {
+        throw new ApkEditError(`El estilo ${parentName} no está incluido en el APK; el tema padre debe ser uno de sus estilos`);
+      }
+      for (const file of themeFiles) {
+        const content = current(file).replace(themePattern, block =>
+          block.replace(/^<style\b[^>]*>/, open => setAttribute(open, 'parent', `@style/${parentName}`)));
+        if (content !== current(file)) edit(file, content, `Tema padre: @style/${parentName}`);
+      }
+    }
+
+    for (const [name, value] of colors) {
+      const colorNames = new Set<string>();
+      let found = false;
+      for (const file of themeFiles) {
+        for (const itemName of [name, `android:${name}`]) {
+          const block = themePattern.exec(current(file))![0];
+          const item = valuesElementPattern('item', itemName).exec(block);
+          if (!item) continue;
+          found = true;
+          const text = unescapeXml(item[2] ?? '').trim();
+          const reference = /^@color\/(.+)$/.exec(text);
+          if (reference) {
+            colorNames.add(reference[1]);
+          } else if (parseColor(text)) {
+            const updated = replaceElementText(block, 'item', itemName, value)!;
+            if (updated !== block) edit(file, current(file).replace(block, () => updated), `${itemName}: ${value}`);
+          } else {
+            summary.skipped.push({ target: `${file.path}#${itemName}`, reason: `usa ${text}, que no es un color directo` });
+          }
+        }
+      }
+      // Older templates name the color after the attribute and let the parent theme pick it up
+      if (!found) colorNames.add(name);
+
+      let changed = found && colorNames.size === 0;
+      for (const colorName of Array.from(colorNames)) {
+        for (const file of colorFiles) {
+          const updated = replaceElementText(current(file), 'color', colorName, value);
+          if (updated === undefined) continue;
+          changed = true;
+          if (updated !== current(file)) edit(file, updated, `@color/${colorName}: ${value}`);
+        }
+      }
+      if (!changed) {
+        summary.skipped.push({
+          target: name,
+          reason: found ? 'el color que usa el tema no está en colors.xml' : `el tema ${themeName} no define ${name} (lo hereda de su tema padre)`,
+        });
+      }
+    }
+
+    for (const { file, content, notes } of Array.from(edited.values())) {
+      summary.changes.push(await this.updateTextFile(file, content, notes.join('; ')));
+    }
+    return summary;
+  }
+
+  // Declare permissions and activities in the manifest
+  async addFeature(projectId: string, parameters: z.infer<typeof AddFeatureParameters>): Promise<ApkEditSummary> {
+    const manifest = await this.getTextFile(projectId, MANIFEST_PATH);
+    let content = manifest.content;
+    applicationTag(content);
+    const packageName = /<manifest\b[^>]*?\spackage="([^"]*)"/.exec(content)?.[1] ?? '';
+    const indent = /^([ \t]*)<application\b/m.exec(content)?.[1] ?? '    ';
+    const summary: ApkEditSummary = { changes: [], skipped: [] };
+    const notes: string[] = [];
+
+    const declaredPermissions = new Set(
+      Array.from(content.matchAll(/<uses-permission\b[^>]*?\sandroid:name="([^"]*)"/g), match => unescapeXml(match[1])),
+    );
+    const permissionLines: string[] = [];
+    for (const permission of (parameters.permissions ?? []).map(permissionName)) {
+      if (declaredPermissions.has(permission)) {
+        summary.skipped.push({ target: permission, reason: 'ya estaba declarado' });
+        continue;
+      }
+      declaredPermissions.add(permission);
+      permissionLines.push(`${indent}<uses-permission android:name="${escapeXml(permission)}" />\n`);
+      notes.push(`permiso ${permission}`);
+    }
+    if (permissionLines.length > 0) {
+      const application = /^[ \t]*<application\b/m.exec(content)!;
+      content = content.slice(0, application.index) + permissionLines.join('') + content.slice(application.index);
+    }
+
+    const declaredActivities = new Set(
+      Array.from(content.matchAll(/<activity(?:-alias)?\b[^>]*?\sandroid:name="([^"]*)"/g), match =>
+        qualifyClassName(unescapeXml(match[1]), packageName)),
+    );
+    const activityLines: string[] = [];
+    for (const declaration of parameters.activities ?? []) {
+      const activity: ActivityDeclaration = typeof declaration === 'string' ? { name: declaration } : declaration;
+      const name = activity.name.trim().includes('.') ? activity.name.trim() : `.${activity.name.trim()}`;
+      const qualified = qualifyClassName(name, packageName);
+      if (declaredActivities.has(qualified)) {
+        summary.skipped.push({ target: qualified, reason: 'ya estaba declarada' });
+        continue;
+      }
+      declaredActivities.add(qualified);
+      const label = activity.label ? ` android:label="${escapeXml(activity.label)}"` : '';
+      activityLines.push(
+        `${indent}    <activity android:name="${escapeXml(name)}" android:exported="${activity.exported ?? false}"${label} />\n`,
+      );
+      notes.push(`actividad ${qualified}`);
+    }
+    if (activityLines.length > 0) {
+      const closing = /^[ \t]*<\/application>/m.exec(content);
+      if (closing) {
+        content = content.slice(0, closing.index) + activityLines.join('') + content.slice(closing.index);
+      } else {
+        content = content.replace(/<application\b[^>]*?\s*\/>/, open =>
+          `${open.replace(/\s*\/>$/, '>')}\n${activityLines.join('')}${indent}</application>`);
+      }
+    }
+
+    if (notes.length > 0) {
+      summary.changes.push(await this.updateTextFile(manifest, content, `Agregado: ${notes.join(', ')}`));
+    }
+    return summary;
+  }
+
+  // The drawable an adaptive icon uses as its foreground, if it is a plain reference
+  private async adaptiveForeground(projectId: string, filePath: string): Promise<string | undefined> {
+    let text: string;
+    try {
+      text = await fileSystemService.readFile(projectId, filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+    if (!/<adaptive-icon\b/.test(text)) return undefined;
+    const foreground = /<foreground\b[^>]*?\sandroid:drawable="([^"]*)"/.exec(text);
+    return foreground ? unescapeXml(foreground[1]) : undefined;
+  }
+
+  // Keep the size of the icon being replaced; fall back to the density's standard size
+  private async iconSize(projectId: string, file: { path: string; density?: string }, layer: IconLayer): Promise<{ width: number; height: number }> {
+    try {
+      const size = readPngSize(await fileSystemService.readFileBuffer(projectId, file.path));
+      if (size) return size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    const dpi = DENSITY_DPI[file.density ?? 'mdpi'] ?? DENSITY_DPI.mdpi;
+    const side = Math.round(((layer === 'foreground' ? ADAPTIVE_LAYER_DP : LAUNCHER_ICON_DP) * dpi) / DENSITY_DPI.mdpi);
+    return { width: side, height: side };
+  }
+
+  private async projectFiles(projectId: string): Promise<Map<string, File>> {
+    return new Map((await storage.getFilesByProject(projectId)).map(file => [file.path, file]));
+  }
+
+  private async getTextFile(projectId: string, filePath: string): Promise<File> {
+    const file = (await this.projectFiles(projectId)).get(filePath);
+    if (!file) throw new ApkEditError(`${filePath} no existe en el proyecto; sube primero un APK`);
+    return file;
+  }
+
+  private async updateTextFile(previous: File, content: string, description: string): Promise<ApkChange> {
+    const file = await storage.updateFile(previous.id, { content, isModified: true });
+    if (!file) throw new ApkEditError(`${previous.path} ya no existe`);
+    await fileHistory.recordChange(previous, file, 'ai', REVISION_SOURCE);
+    await fileSystemService.updateFile(file.projectId, file.path, file.content);
+    return {
+      path: file.path,
+      description,
+      diff: createUnifiedDiff(previous.content, file.content, { fromLabel: `a${file.path}`, toLabel: `b${file.path}` }),
+    };
+  }
+}
+
+export const apkEditor = new ApkEditor();
@@ -0,0 +1,508 @@
+import { createHash } from "crypto";
+import { Writable } from "stream";
+import type { File } from "@shared/schema";
+import { InvalidPathError, inferFileType, normalizeProjectPath, projectPathBasename } from "@shared/paths";
+import { storage } from "../storage";
+import { fileSystemService, isBinaryBuffer, MAX_TEXT_FILE_BYTES } from "./fileSystem";
+import { fileHistory } from "./fileHistory";
+import { apkSigner } from "./apkSigner";
+import { readZip, ZipWriter, type ZipEntry, type ZipLimits } from "./zip";
+import { formatAxml, isBinaryXml, parseAxml, readManifestInfo, type AxmlFormatOptions } from "./axml";
+import { encodeAxml, type AxmlEncodeOptions } from "./axmlEncoder";
+import {
+  applyValueEdits,
+  listConfigurations,
+  parseArsc,
+  referenceResolver,
+  renderValuesFiles,
+  resourceNames,
+  type ResourceEditResult,
+  type ResourceTable,
+} from "./arsc";
+
+// APKs are larger and more numerous in entries than project archives
+export const APK_LIMITS: ZipLimits = {
+  maxEntries: 20000,
+  maxEntryBytes: 64 * 1024 * 1024,
+  maxTotalBytes: 256 * 1024 * 1024,
+  maxCompressionRatio: 1000,
+};
+
+export const ORIGINAL_APK_PATH = '/original.apk';
+export const RESOURCE_TABLE_PATH = '/resources.arsc';
+export const BUILD_OUTPUT_PATH = '/.build/signed.apk';
+
+// Signature files of the original signer, replaced on every build
+const SIGNATURE_ENTRY = /^META-INF\/(MANIFEST\.MF|[^/]+\.(SF|RSA|DSA|EC))$/i;
+
+export class ApkNotDecompiledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApkNotDecompiledError';
+  }
+}
+
+// An edited file could not be compiled back into the APK
+export class ApkBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApkBuildError';
+  }
+}
+
+export type ApkBuildStep = 'resources' | 'xml' | 'sign_v1' | 'package' | 'sign_v2' | 'done' | 'failed';
+
+export interface ApkBuildProgress {
+  step: ApkBuildStep;
+  message: string;
+}
+
+export interface ApkBuildResult {
+  // Archive entries that differ from the uploaded APK
+  changedEntries: string[];
+  resources: Pick<ResourceEditResult, 'changed' | 'skipped'>;
+  size: number;
+  sha256: string;
+  builtAt: string;
+}
+
+export interface ApkSummary {
+  packageName?: string;
+  versionName?: string;
+  versionCode?: string;
+  minSdkVersion?: string;
+  targetSdkVersion?: string;
+  dexFiles: Array<{ path: string; size: number }>;
+  nativeLibraries: Record<string, string[]>;
+  assets: string[];
+  resources?: {
+    packageName: string;
+    types: string[];
+    locales: string[];
+    densities: string[];
+    // res/values*/ files generated from the resource table
+    valuesFiles: number;
+  };
+  // Text files registered in storage (and so shown in the explorer)
+  registeredFiles: number;
+  // Entries decoded from binary XML
+  decodedXml: number;
+  // Entries that could not be decoded and were kept as-is
+  undecodable: string[];
+}
+
+export interface ResourceOverview {
+  packages: Array<{
+    id: number;
+    name: string;
+    types: Array<{ name: string; configs: Array<{ qualifier: string; entries: number }> }>;
+  }>;
+  locales: string[];
+  densities: string[];
+  changed: ResourceEditResult['changed'];
+  skipped: ResourceEditResult['skipped'];
+}
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function renderSummary(summary: ApkSummary): string {
+  const lines = [
+    `# ${summary.packageName ?? 'APK'}`,
+    '',
+    `- Versión: ${summary.versionName ?? '?'} (${summary.versionCode ?? '?'})`,
+    `- SDK mínimo: ${summary.minSdkVersion ?? '?'} · SDK objetivo: ${summary.targetSdkVersion ?? '?'}`,
+    '',
+    '## Código (DEX)',
+    ...(summary.dexFiles.length > 0
+      ? summary.dexFiles.map(dex => `- ${dex.path} (${formatBytes(dex.size)})`)
+      : ['- Ninguno']),
+    '',
+    '## Librerías nativas',
+    ...(Object.keys(summary.nativeLibraries).length > 0
+      ? Object.entries(summary.nativeLibraries).map(([abi, libraries]) => `- ${abi}: ${libraries.join(', ')}`)
+      : ['- Ninguna']),
+    '',
+    '## Assets',
+    ...(summary.assets.length > 0 ? summary.assets.map(asset => `- ${asset}`) : ['- Ninguno']),
+  ];
+  if (summary.resources) {
+    lines.push(
+      '',
+      '## Recursos (resources.arsc)',
+      `- Paquete: ${summary.resources.packageName}`,
+      `- Tipos: ${summary.resources.types.join(', ') || '-'}`,
+      `- Idiomas: ${summary.resources.locales.join(', ') || 'solo el predeterminado'}`,
+      `- Densidades: ${summary.resources.densities.join(', ') || '-'}`,
+      '',
+      'Los textos, colores y dimensiones se pueden editar en `res/values*/`; ' +
+        'los cambios se aplican a resources.arsc al reconstruir el APK.',
+    );
+  }
+  if (summary.undecodable.length > 0) {
+    lines.push('', '## Archivos no decodificados', ...summary.undecodable.map(entry => `- ${entry}`));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export class ApkService {
+  private building = new Set<string>();
+
+  // Unpack an uploaded APK into a project: every entry goes to disk (binary
+  // XML decoded to text), text files are registered in storage, and the
+  // untouched upload is kept as original.apk for rebuilding later
+  async decompile(projectId: string, apk: Buffer): Promise<ApkSummary> {
+    const entries = readZip(apk, APK_LIMITS);
+    const summary: ApkSummary = {
+      dexFiles: [],
+      nativeLibraries: {},
+      assets: [],
+      registeredFiles: 0,
+      decodedXml: 0,
+      undecodable: [],
+    };
+
+    await fileSystemService.createProject(projectId);
+    await fileSystemService.writeBinaryFile(projectId, ORIGINAL_APK_PATH, apk);
+
+    const existing = new Map((await storage.getFilesByProject(projectId)).map(file => [file.path, file]));
+    const textFiles: Array<{ path: string; content: string }> = [];
+
+    // The resource table lets decoded XML show `@string/app_name` instead of raw ids
+    const table = this.readResourceTable(entries, summary);
+    const formatOptions: AxmlFormatOptions = table ? { resolveReference: referenceResolver(table) } : {};
+
+    for (const entry of entries) {
+      if (entry.isDirectory) continue;
+      let entryPath: string;
+      try {
+        entryPath = normalizeProjectPath(entry.name);
+      } catch (error) {
+        if (!(error instanceof InvalidPathError)) throw error;
+        continue;
+      }
+
+      this.catalog(entry, entryPath, summary);
+      const content = this.decodeEntry(entry, entryPath, summary, formatOptions);
+      if (typeof content === 'string') {
+        await fileSystemService.createFile(projectId, entryPath, content);
+        if (Buffer.byteLength(content) <= MAX_TEXT_FILE_BYTES && !entryPath.startsWith('/META-INF/')) {
+          textFiles.push({ path: entryPath, content });
+        }
+      } else {
+        await fileSystemService.writeBinaryFile(projectId, entryPath, content);
+      }
+    }
+
+    if (table) {
+      for (const valuesFile of renderValuesFiles(table)) {
+        await fileSystemService.createFile(projectId, valuesFile.path, valuesFile.content);
+        textFiles.push(valuesFile);
+        summary.resources!.valuesFiles++;
+      }
+    }
+
+    const info = renderSummary(summary);
+    await fileSystemService.createFile(projectId, '/APK_INFO.md', info);
+    textFiles.push({ path: '/APK_INFO.md', content: info });
+    for (const textFile of textFiles) {
+      await this.registerFile(projectId, textFile.path, textFile.content, existing.get(textFile.path));
+    }
+    summary.registeredFiles = textFiles.length;
+
+    return summary;
+  }
+
+  // Apply the project's res/values*/ edits to the decompiled resources.arsc.
+  // The table on disk is never overwritten, so compiling is repeatable.
+  async compileResources(projectId: string): Promise<ResourceEditResult> {
+    return this.applyProjectEdits(projectId, await this.loadResourceTable(projectId));
+  }
+
+  // Packages, types and configurations of the table, plus the edits a build would apply
+  async describeResources(projectId: string): Promise<ResourceOverview> {
+    const table = await this.loadResourceTable(projectId);
+    const { changed, skipped } = await this.applyProjectEdits(projectId, table);
+    return {
+      packages: table.packages.map(pkg => ({
+        id: pkg.id,
+        name: pkg.name,
+        types: pkg.types.map(type => ({
+          name: type.name,
+          configs: type.configs.map(config => ({ qualifier: config.qualifier, entries: config.entries.length })),
+        })),
+      })),
+      ...listConfigurations(table),
+      changed,
+      skipped,
+    };
+  }
+
+  // The decompiled table as uploaded, before any project edits
+  async loadResourceTable(projectId: string): Promise<ResourceTable> {
+    try {
+      return parseArsc(await fileSystemService.readFileBuffer(projectId, RESOURCE_TABLE_PATH));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ApkNotDecompiledError('Project has no decompiled resources.arsc');
+      }
+      throw error;
+    }
+  }
+
+  isBuilding(projectId: string): boolean {
+    return this.building.has(projectId);
+  }
+
+  // Repackage the uploaded APK with the project's edits and sign it with the
+  // project's debug key (schemes v1 and v2). Unchanged entries keep their
+  // original bytes.
+  async build(projectId: string, onProgress: (progress: ApkBuildProgress) => void = () => {}): Promise<ApkBuildResult> {
+    if (this.building.has(projectId)) {
+      throw new ApkBuildError('A build is already running for this project');
+    }
+    this.building.add(projectId);
+    try {
+      const original = await this.readOriginal(projectId);
+      const entries = readZip(original, APK_LIMITS);
+
+      onProgress({ step: 'resources', message: 'Aplicando cambios a resources.arsc' });
+      const tableEntry = entries.find(entry => entry.name === 'resources.arsc');
+      const table = tableEntry ? parseArsc(tableEntry.data) : undefined;
+      const resources = table
+        ? await this.applyProjectEdits(projectId, table)
+        : { buffer: Buffer.alloc(0), changed: [], skipped: [] };
+
+      onProgress({ step: 'xml', message: 'Compilando el manifiesto y los XML modificados' });
+      const encodeOptions: AxmlEncodeOptions = table
+        ? {
+            format: { resolveReference: referenceResolver(table) },
+            resourceIds: new Map(Array.from(resourceNames(table), ([id, name]) => [name, id])),
+          }
+        : {};
+      const projectFiles = new Map((await storage.getFilesByProject(projectId)).map(file => [file.path, file]));
+      const files: Array<{ name: string; data: Buffer; compressed: boolean }> = [];
+      const changedEntries: string[] = [];
+      for (const entry of entries) {
+        if (entry.isDirectory || SIGNATURE_ENTRY.test(entry.name)) continue;
+        const data = entry === tableEntry
+          ? resources.buffer
+          : await this.rebuildEntry(projectId, entry, projectFiles, encodeOptions);
+        if (!data.equals(entry.data)) changedEntries.push(entry.name);
+        files.push({ name: entry.name, data, compressed: entry.compressed });
+      }
+
+      onProgress({ step: 'sign_v1', message: 'Firmando (esquema v1)' });
+      const key = await apkSigner.getDebugKey(projectId);
+      const signatureFiles = apkSigner.signV1(files, key);
+
+      onProgress({ step: 'package', message: 'Empaquetando y alineando' });
+      const unsigned = await this.writeArchive([
+        ...files,
+        ...signatureFiles.map(file => ({ ...file, compressed: true })),
+      ]);
+
+      onProgress({ step: 'sign_v2', message: 'Firmando (esquema v2)' });
+      const signed = apkSigner.signV2(unsigned, key);
+      await fileSystemService.writeBinaryFile(projectId, BUILD_OUTPUT_PATH, signed);
+
+      const result: ApkBuildResult = {
+        changedEntries,
+        resources: { changed: resources.changed, skipped: resources.skipped },
+        size: signed.length,
+        sha256: createHash('sha256').update(signed).digest('hex'),
+        builtAt: new Date().toISOString(),
+      };
+      onProgress({ step: 'done', message: 'APK firmado listo para descargar' });
+      return result;
+    } finally {
+      this.building.delete(projectId);
+    }
+  }
+
+  // The last signed build, if there is one
+  async getBuild(projectId: string): Promise<Buffer | undefined> {
+    try {
+      return await fileSystemService.readFileBuffer(projectId, BUILD_OUTPUT_PATH);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  // The APK as uploaded
+  async readOriginal(projectId: string): Promise<Buffer> {
+    try {
+      return await fileSystemService.readFileBuffer(projectId, ORIGINAL_APK_PATH);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ApkNotDecompiledError('Project has no uploaded APK');
+      }
+      throw error;
+    }
+  }
+
+  // The bytes an APK entry should have now: the original unless the project's
+  // copy was edited, with edited binary XML compiled back
+  private async rebuildEntry(
+    projectId: string,
+    entry: ZipEntry,
+    projectFiles: Map<string, File>,
+    encodeOptions: AxmlEncodeOptions,
+  ): Promise<Buffer> {
+    let entryPath: string;
+    try {
+      entryPath = normalizeProjectPath(entry.name);
+    } catch (error) {
+      if (!(error instanceof InvalidPathError)) throw error;
+      return entry.data;
+    }
+
+    const current = await this.readProjectCopy(projectId, entryPath, projectFiles);
+    if (!current || current.equals(entry.data)) return entry.data;
+
+    if (isBinaryXml(entry.data) && !isBinaryXml(current)) {
+      let document;
+      try {
+        document = parseAxml(entry.data);
+      } catch {
+        // Never decoded, so the text can't be an edit of it
+        return entry.data;
+      }
+      const text = current.toString('utf8');
+      if (text === formatAxml(document, encodeOptions.format)) return entry.data;
+      try {
+        return encodeAxml(text, { ...encodeOptions, original: document });
+      } catch (error) {
+        throw new ApkBuildError(`${entry.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Text that was not valid UTF-8 never round-trips exactly; only a real edit counts
+    if (!isBinaryBuffer(entry.data) && current.toString('utf8') === entry.data.toString('utf8')) {
+      return entry.data;
+    }
+    return current;
+  }
+
+  // Storage holds the edited text files; everything else lives on disk
+  private async readProjectCopy(projectId: string, entryPath: string, projectFiles: Map<string, File>): Promise<Buffer | undefined> {
+    const file = projectFiles.get(entryPath);
+    if (file) return Buffer.from(file.content, 'utf8');
+    try {
+      return await fileSystemService.readFileBuffer(projectId, entryPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  // Stored entries are aligned like zipalign -p: 4 bytes, or a page for
+  // native libraries so they can be mapped straight from the APK.
+  // resources.arsc must stay uncompressed on Android 11+.
+  private async writeArchive(files: Array<{ name: string; data: Buffer; compressed: boolean }>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    const output = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+    const finished = new Promise(resolve => output.on('finish', resolve));
+
+    const writer = new ZipWriter(output);
+    const modified = new Date(1981, 0, 1);
+    for (const file of files) {
+      const stored = !file.compressed || file.name === 'resources.arsc';
+      await writer.addFile(file.name, file.data, modified, {
+        compress: !stored,
+        alignment: stored ? (file.name.endsWith('.so') ? 4096 : 4) : undefined,
+      });
+    }
+    await writer.finish();
+    output.end();
+    await finished;
+    return Buffer.concat(chunks);
+  }
+
+  private async applyProjectEdits(projectId: string, table: ResourceTable): Promise<ResourceEditResult> {
+    const valuesFiles = (await storage.getFilesByProject(projectId))
+      .filter(file => file.path.startsWith('/res/values'))
+      .map(file => ({ path: file.path, content: file.content }));
+    return applyValueEdits(table, valuesFiles);
+  }
+
+  private readResourceTable(entries: ZipEntry[], summary: ApkSummary): ResourceTable | undefined {
+    const entry = entries.find(candidate => candidate.name === 'resources.arsc');
+    if (!entry) return undefined;
+    try {
+      const table = parseArsc(entry.data);
+      const { locales, densities } = listConfigurations(table);
+      summary.resources = {
+        packageName: table.packages[0]?.name ?? '',
+        types: Array.from(new Set(table.packages.flatMap(pkg => pkg.types.map(type => type.name)))),
+        locales,
+        densities,
+        valuesFiles: 0,
+      };
+      return table;
+    } catch (error) {
+      console.warn('Could not parse resources.arsc:', error);
+      summary.undecodable.push(RESOURCE_TABLE_PATH);
+      return undefined;
+    }
+  }
+
+  private catalog(entry: ZipEntry, entryPath: string, summary: ApkSummary) {
+    const segments = entryPath.split('/').filter(Boolean);
+    if (segments.length === 1 && /^classes\d*\.dex$/.test(segments[0])) {
+      summary.dexFiles.push({ path: entryPath, size: entry.data.length });
+    } else if (segments[0] === 'lib' && segments.length === 3) {
+      (summary.nativeLibraries[segments[1]] ??= []).push(segments[2]);
+    } else if (segments[0] === 'assets') {
+      summary.assets.push(entryPath);
+    }
+  }
+
+  // Text for anything readable, the raw bytes otherwise
+  private decodeEntry(entry: ZipEntry, entryPath: string, summary: ApkSummary, options: AxmlFormatOptions): string | Buffer {
+    if (entryPath.endsWith('.xml') && isBinaryXml(entry.data)) {
+      try {
+        const document = parseAxml(entry.data);
+        if (entryPath === '/AndroidManifest.xml') {
+          Object.assign(summary, readManifestInfo(document));
+        }
+        summary.decodedXml++;
+        return formatAxml(document, options);
+      } catch (error) {
+        console.warn(`Could not decode ${entryPath}:`, error);
+        summary.undecodable.push(entryPath);
+        return entry.data;
+      }
+    }
+    return isBinaryBuffer(entry.data) ? entry.data : entry.data.toString('utf8');
+  }
+
+  private async registerFile(projectId: string, filePath: string, content: string, previous?: File) {
+    if (previous) {
+      const updated = await storage.updateFile(previous.id, { content, isModified: false });
+      if (updated) await fileHistory.recordChange(previous, updated, 'user', 'apk_import');
+      return;
+    }
+
+    const file = await storage.createFile({
+      projectId,
+      path: filePath,
+      name: projectPathBasename(filePath),
+      content,
+      type: inferFileType(filePath),
+      isModified: false,
+    });
+    await fileHistory.recordCreated(file, 'user', 'apk_import');
+  }
+}
+
+export const apkService = new ApkService();
@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createHash, createPublicKey, verify, X509Certificate } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as der from "./der";
+import { readZip } from "./zip";
+import type { SigningKey } from "./apkSigner";
+import { appEntries, buildApk } from "./testing/apkFixtures";
+
+// Debug keys are kept in <cwd>/projects/<id>, so run in a scratch directory
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "apk-signer-"));
+process.chdir(scratch);
+const { apkSigner } = await import("./apkSigner");
+
+const files = Object.entries(appEntries()).map(([name, data]) => ({ name, data }));
+let key: SigningKey;
+
+beforeAll(async () => {
+  key = await apkSigner.getDebugKey("p1");
+});
+
+afterAll(() => {
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+const sha256 = (...parts: Buffer[]) => parts.reduce((hash, part) => hash.update(part), createHash("sha256")).digest();
+
+// JAR manifest sections as name -> attributes, continuation lines joined
+function manifestSections(data: Buffer): Array<{ text: string; attributes: Map<string, string> }> {
+  return data.toString("latin1").split("\r\n\r\n").filter(Boolean).map(section => {
+    const text = `${section}\r\n\r\n`;
+    const lines = section.replace(/\r\n /g, "").split("\r\n");
+    return { text, attributes: new Map(lines.map(line => line.split(": ", 2) as [string, string])) };
+  });
+}
+
+// A sequence of uint32-length-prefixed values, as in the v2 signing block
+function lengthPrefixedItems(buffer: Buffer): Buffer[] {
+  const items: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length;) {
+    const length = buffer.readUInt32LE(offset);
+    items.push(buffer.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return items;
+}
+
+// The APK Signature Scheme v2 block, read the way Android's verifier does
+function readV2Signature(apk: Buffer) {
+  const eocd = apk.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const centralDirectory = apk.readUInt32LE(eocd + 16);
+  expect(apk.toString("latin1", centralDirectory - 16, centralDirectory)).toBe("APK Sig Block 42");
+  const size = Number(apk.readBigUInt64LE(centralDirectory - 24));
+  const blockStart = centralDirectory - size - 8;
+  expect(Number(apk.readBigUInt64LE(blockStart))).toBe(size);
+
+  const pairs = new Map<number, Buffer>();
+  for (let offset = blockStart + 8; offset < centralDirectory - 24;) {
+    const length = Number(apk.readBigUInt64LE(offset));
+    pairs.set(apk.readUInt32LE(offset + 8), apk.subarray(offset + 12, offset + 8 + length));
+    offset += 8 + length;
+  }
+  const [signer] = lengthPrefixedItems(lengthPrefixedItems(pairs.get(0x7109871a)!)[0]);
+  const [signedData, signatures, publicKey] = lengthPrefixedItems(signer);
+  const [digests, certificates] = lengthPrefixedItems(signedData);
+  const [digest] = lengthPrefixedItems(digests).map(item => ({ algorithm: item.readUInt32LE(0), value: lengthPrefixedItems(item.subarray(4))[0] }));
+  const [signature] = lengthPrefixedItems(signatures).map(item => ({ algorithm: item.readUInt32LE(0), value: lengthPrefixedItems(item.subarray(4))[0] }));
+
+  // Digest of the entries, the central directory and the EOCD, with the
+  // EOCD pointing at the signing block as it did before signing
+  const unsignedEocd = Buffer.from(apk.subarray(eocd));
+  unsignedEocd.writeUInt32LE(blockStart, 16);
+  const chunkDigests = [apk.subarray(0, blockStart), apk.subarray(centralDirectory, eocd), unsignedEocd].flatMap(section => {
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < section.length; offset += 1024 * 1024) {
+      const chunk = section.subarray(offset, offset + 1024 * 1024);
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(chunk.length);
+      chunks.push(sha256(Buffer.from([0xa5]), length, chunk));
+    }
+    return chunks;
+  });
+  const count = Buffer.alloc(4);
+  count.writeUInt32LE(chunkDigests.length);
+
+  return {
+    signedData,
+    signature,
+    publicKey,
+    digest,
+    certificates: lengthPrefixedItems(certificates),
+    contentDigest: sha256(Buffer.from([0x5a]), count, ...chunkDigests),
+  };
+}
+
+describe("ApkSigner", () => {
+  it("creates a self-signed debug certificate for the key and keeps it", async () => {
+    const certificate = new X509Certificate(key.certificate);
+    expect(certificate.verify(certificate.publicKey)).toBe(true);
+    expect(certificate.checkPrivateKey(key.privateKey)).toBe(true);
+    expect(certificate.subject).toContain("CN=Android Debug");
+    expect(new Date(certificate.validTo).getUTCFullYear()).toBeGreaterThanOrEqual(new Date().getUTCFullYear() + 29);
+
+    const again = await apkSigner.getDebugKey("p1");
+    expect(again.certificate.equals(key.certificate)).toBe(true);
+  });
+
+  it("signs every file with scheme v1", () => {
+    const signatureFiles = new Map(apkSigner.signV1(files, key).map(file => [file.name, file.data]));
+    const manifest = signatureFiles.get("META-INF/MANIFEST.MF")!;
+    const signatureFile = signatureFiles.get("META-INF/CERT.SF")!;
+
+    const [, ...entries] = manifestSections(manifest);
+    expect(entries.map(entry => entry.attributes.get("Name"))).toEqual(files.map(file => file.name));
+    for (const [index, entry] of entries.entries()) {
+      expect(entry.attributes.get("SHA-256-Digest")).toBe(sha256(files[index].data).toString("base64"));
+    }
+
+    const [main, ...signed] = manifestSections(signatureFile);
+    expect(main.attributes.get("SHA-256-Digest-Manifest")).toBe(sha256(manifest).toString("base64"));
+    expect(main.attributes.get("X-Android-APK-Signed")).toBe("2");
+    for (const [index, section] of signed.entries()) {
+      expect(section.attributes.get("SHA-256-Digest")).toBe(sha256(Buffer.from(entries[index].text, "latin1")).toString("base64"));
+    }
+
+    // ContentInfo -> SignedData: [version, digestAlgorithms, contentInfo, [0] certificates, signerInfos]
+    const signedData = der.children(der.children(der.children(der.decode(signatureFiles.get("META-INF/CERT.RSA")!))[1])[0]);
+    expect(der.children(signedData[3])[0].raw.equals(key.certificate)).toBe(true);
+    const signerInfo = der.children(der.children(signedData[4])[0]);
+    const signature = signerInfo[signerInfo.length - 1].content;
+    const publicKey = new X509Certificate(key.certificate).publicKey;
+    expect(verify("sha256", signatureFile, publicKey, signature)).toBe(true);
+    expect(verify("sha256", Buffer.concat([signatureFile, Buffer.from("x")]), publicKey, signature)).toBe(false);
+  });
+
+  it("signs the archive with scheme v2", async () => {
+    const apk = await buildApk(Object.fromEntries([...files, ...apkSigner.signV1(files, key)].map(file => [file.name, file.data])));
+    const signed = apkSigner.signV2(apk, key);
+    const block = readV2Signature(signed);
+
+    const certificate = new X509Certificate(key.certificate);
+    expect(block.certificates).toEqual([key.certificate]);
+    expect(block.publicKey.equals(certificate.publicKey.export({ format: "der", type: "spki" }))).toBe(true);
+    // RSASSA-PKCS1-v1_5 with SHA-256
+    expect(block.signature.algorithm).toBe(0x0103);
+    expect(block.digest.algorithm).toBe(0x0103);
+    const publicKey = createPublicKey({ key: block.publicKey, format: "der", type: "spki" });
+    expect(verify("sha256", block.signedData, publicKey, block.signature.value)).toBe(true);
+    expect(block.digest.value.equals(block.contentDigest)).toBe(true);
+
+    // The entries are untouched and still readable
+    expect(readZip(signed).map(entry => entry.name)).toEqual(readZip(apk).map(entry => entry.name));
+  });
+
+  it("detects changed entries through the v2 digest", async () => {
+    const signed = apkSigner.signV2(await buildApk(), key);
+    const tampered = Buffer.from(signed);
+    // A byte of the first entry's data
+    const dataStart = 30 + tampered.readUInt16LE(26) + tampered.readUInt16LE(28);
+    tampered[dataStart] ^= 0x20;
+    const block = readV2Signature(tampered);
+    expect(block.digest.value.equals(block.contentDigest)).toBe(false);
+  });
+});
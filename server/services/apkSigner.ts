@@ -0,0 +1,239 @@
+import { createHash, createPrivateKey, createPublicKey, generateKeyPair, randomBytes, sign, type KeyObject } from "crypto";
+import { promisify } from "util";
+import { fileSystemService } from "./fileSystem";
+import * as der from "./der";
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+// Per-project debug key, kept next to the project files but outside storage
+export const KEYSTORE_PATH = '/.keystore/debug.pem';
+
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_SHA256_WITH_RSA = '1.2.840.113549.1.1.11';
+const OID_PKCS7_DATA = '1.2.840.113549.1.7.1';
+const OID_PKCS7_SIGNED_DATA = '1.2.840.113549.1.7.2';
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_ORGANIZATION = '2.5.4.10';
+const OID_COUNTRY = '2.5.4.6';
+
+const APK_SIGNATURE_SCHEME_V2_ID = 0x7109871a;
+const RSA_PKCS1_SHA256 = 0x0103;
+const APK_SIG_BLOCK_MAGIC = Buffer.from('APK Sig Block 42', 'latin1');
+const CHUNK_SIZE = 1024 * 1024;
+const CREATED_BY = '1.0 (Android)';
+
+export interface SigningKey {
+  privateKey: KeyObject;
+  // DER X.509 certificate
+  certificate: Buffer;
+}
+
+export interface SignedFile {
+  name: string;
+  data: Buffer;
+}
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+}
+
+function toPem(label: string, data: Buffer): string {
+  const lines = data.toString('base64').match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+function fromPem(label: string, pem: string): Buffer | undefined {
+  const match = new RegExp(`-----BEGIN ${label}-----([\\s\\S]+?)-----END ${label}-----`).exec(pem);
+  return match ? Buffer.from(match[1].replace(/\s+/g, ''), 'base64') : undefined;
+}
+
+function distinguishedName(): Buffer {
+  const attribute = (oid: string, value: Buffer) => der.set(der.sequence(der.objectIdentifier(oid), value));
+  return der.sequence(
+    attribute(OID_COUNTRY, der.printableString('US')),
+    attribute(OID_ORGANIZATION, der.utf8String('Android')),
+    attribute(OID_COMMON_NAME, der.utf8String('Android Debug')),
+  );
+}
+
+// Issuer name and serial number, which PKCS#7 uses to point at the certificate
+function issuerAndSerial(certificate: Buffer): Buffer {
+  const tbs = der.children(der.children(der.decode(certificate))[0]);
+  // tbs: [0] version, serialNumber, signature, issuer, ...
+  return der.sequence(tbs[3].raw, tbs[1].raw);
+}
+
+function lengthPrefixed(...parts: Buffer[]): Buffer {
+  const content = Buffer.concat(parts);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(content.length, 0);
+  return Buffer.concat([length, content]);
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value, 0);
+  return buffer;
+}
+
+function uint64(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value), 0);
+  return buffer;
+}
+
+// JAR manifest lines are at most 72 bytes; longer ones continue after a space
+function manifestLine(text: string): string {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length <= 72) return `${text}\r\n`;
+  const pieces = [bytes.subarray(0, 72)];
+  for (let offset = 72; offset < bytes.length; offset += 71) {
+    pieces.push(Buffer.concat([Buffer.from(' '), bytes.subarray(offset, offset + 71)]));
+  }
+  return pieces.map(piece => piece.toString('latin1')).join('\r\n') + '\r\n';
+}
+
+export class ApkSigner {
+  // The project's debug key, generated on first use
+  async getDebugKey(projectId: string): Promise<SigningKey> {
+    try {
+      const pem = (await fileSystemService.readFileBuffer(projectId, KEYSTORE_PATH)).toString('latin1');
+      const keyDer = fromPem('PRIVATE KEY', pem);
+      const certificate = fromPem('CERTIFICATE', pem);
+      if (keyDer && certificate) {
+        return { privateKey: createPrivateKey({ key: keyDer, format: 'der', type: 'pkcs8' }), certificate };
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const key = await this.createDebugKey();
+    const pem = toPem('PRIVATE KEY', key.privateKey.export({ format: 'der', type: 'pkcs8' }))
+      + toPem('CERTIFICATE', key.certificate);
+    await fileSystemService.writeBinaryFile(projectId, KEYSTORE_PATH, Buffer.from(pem, 'latin1'));
+    return key;
+  }
+
+  // RSA 2048 key with a self-signed certificate valid for 30 years, like the
+  // SDK's debug.keystore
+  private async createDebugKey(): Promise<SigningKey> {
+    const { privateKey, publicKey } = await generateKeyPairAsync('rsa', { modulusLength: 2048 });
+    const notBefore = new Date();
+    const notAfter = new Date(notBefore);
+    notAfter.setUTCFullYear(notAfter.getUTCFullYear() + 30);
+
+    const name = distinguishedName();
+    const tbs = der.sequence(
+      der.contextTag(0, der.integer(2)),
+      der.integer(randomBytes(16)),
+      der.algorithmIdentifier(OID_SHA256_WITH_RSA),
+      name,
+      der.sequence(der.time(notBefore), der.time(notAfter)),
+      name,
+      publicKey.export({ format: 'der', type: 'spki' }),
+    );
+    const signature = sign('sha256', tbs, privateKey);
+    const certificate = der.sequence(tbs, der.algorithmIdentifier(OID_SHA256_WITH_RSA), der.bitString(signature));
+    return { privateKey, certificate };
+  }
+
+  // JAR signing (scheme v1): MANIFEST.MF, CERT.SF and CERT.RSA for `files`.
+  // Uses SHA-256 digests, which Android accepts from API 18.
+  signV1(files: SignedFile[], key: SigningKey): SignedFile[] {
+    let manifest = manifestLine('Manifest-Version: 1.0') + manifestLine(`Created-By: ${CREATED_BY}`) + '\r\n';
+    const sections: Array<{ name: string; section: string }> = [];
+    for (const file of files) {
+      const section = manifestLine(`Name: ${file.name}`)
+        + manifestLine(`SHA-256-Digest: ${sha256(file.data).toString('base64')}`)
+        + '\r\n';
+      sections.push({ name: file.name, section });
+      manifest += section;
+    }
+    const manifestBytes = Buffer.from(manifest, 'latin1');
+
+    let signatureFile = manifestLine('Signature-Version: 1.0')
+      + manifestLine(`Created-By: ${CREATED_BY}`)
+      + manifestLine(`SHA-256-Digest-Manifest: ${sha256(manifestBytes).toString('base64')}`)
+      // Tells v2-aware verifiers that stripping the v2 signature is an attack
+      + manifestLine('X-Android-APK-Signed: 2')
+      + '\r\n';
+    for (const { name, section } of sections) {
+      signatureFile += manifestLine(`Name: ${name}`)
+        + manifestLine(`SHA-256-Digest: ${sha256(Buffer.from(section, 'latin1')).toString('base64')}`)
+        + '\r\n';
+    }
+    const signatureBytes = Buffer.from(signatureFile, 'latin1');
+
+    const signerInfo = der.sequence(
+      der.integer(1),
+      issuerAndSerial(key.certificate),
+      der.algorithmIdentifier(OID_SHA256),
+      der.algorithmIdentifier(OID_RSA_ENCRYPTION),
+      der.octetString(sign('sha256', signatureBytes, key.privateKey)),
+    );
+    const signedData = der.sequence(
+      der.integer(1),
+      der.set(der.algorithmIdentifier(OID_SHA256)),
+      der.sequence(der.objectIdentifier(OID_PKCS7_DATA)),
+      der.contextTag(0, key.certificate),
+      der.set(signerInfo),
+    );
+    const pkcs7 = der.sequence(der.objectIdentifier(OID_PKCS7_SIGNED_DATA), der.contextTag(0, signedData));
+
+    return [
+      { name: 'META-INF/MANIFEST.MF', data: manifestBytes },
+      { name: 'META-INF/CERT.SF', data: signatureBytes },
+      { name: 'META-INF/CERT.RSA', data: pkcs7 },
+    ];
+  }
+
+  // APK Signature Scheme v2: insert a signing block between the entries and
+  // the central directory of a finished archive
+  signV2(apk: Buffer, key: SigningKey): Buffer {
+    const eocdOffset = apk.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (eocdOffset < 0) throw new Error('Archive has no end of central directory');
+    const centralDirectoryOffset = apk.readUInt32LE(eocdOffset + 16);
+
+    const sections = [
+      apk.subarray(0, centralDirectoryOffset),
+      apk.subarray(centralDirectoryOffset, eocdOffset),
+      apk.subarray(eocdOffset),
+    ];
+    const chunkDigests: Buffer[] = [];
+    for (const section of sections) {
+      for (let offset = 0; offset < section.length; offset += CHUNK_SIZE) {
+        const chunk = section.subarray(offset, offset + CHUNK_SIZE);
+        chunkDigests.push(sha256(Buffer.from([0xa5]), uint32(chunk.length), chunk));
+      }
+    }
+    const contentDigest = sha256(Buffer.from([0x5a]), uint32(chunkDigests.length), ...chunkDigests);
+
+    const signedData = Buffer.concat([
+      lengthPrefixed(lengthPrefixed(uint32(RSA_PKCS1_SHA256), lengthPrefixed(contentDigest))),
+      lengthPrefixed(lengthPrefixed(key.certificate)),
+      // No additional attributes
+      lengthPrefixed(),
+    ]);
+    const signature = sign('sha256', signedData, key.privateKey);
+    const publicKey = createPublicKey(key.privateKey).export({ format: 'der', type: 'spki' });
+    const signer = Buffer.concat([
+      lengthPrefixed(signedData),
+      lengthPrefixed(lengthPrefixed(uint32(RSA_PKCS1_SHA256), lengthPrefixed(signature))),
+      lengthPrefixed(publicKey),
+    ]);
+    const value = lengthPrefixed(lengthPrefixed(signer));
+
+    const pair = Buffer.concat([uint64(4 + value.length), uint32(APK_SIGNATURE_SCHEME_V2_ID), value]);
+    const blockSize = pair.length + 8 + APK_SIG_BLOCK_MAGIC.length;
+    const block = Buffer.concat([uint64(blockSize), pair, uint64(blockSize), APK_SIG_BLOCK_MAGIC]);
+
+    const eocd = Buffer.from(sections[2]);
+    eocd.writeUInt32LE(centralDirectoryOffset + block.length, 16);
+    return Buffer.concat([sections[0], block, sections[1], eocd]);
+  }
+}
+
+export const apkSigner = new ApkSigner();
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { applyValueEdits, ArscError, listConfigurations, parseArsc, renderValuesFiles, resourceNames } from "./arsc";
+import { buildResourceTable, corruptions, RESOURCE_TYPES } from "./testing/apkFixtures";
+
+const table = buildResourceTable(RESOURCE_TYPES);
+
+const valuesFile = (files: ReturnType<typeof renderValuesFiles>, path: string) =>
+  files.find(file => file.path === path)?.content;
+
+describe("parseArsc", () => {
+  it("reads packages, configurations and values", () => {
+    const parsed = parseArsc(table);
+    expect(parsed.packages.map(pkg => [pkg.id, pkg.name])).toEqual([[0x7f, "com.example.app"]]);
+    expect(resourceNames(parsed).get(0x7f010001)).toBe("string/greeting");
+    expect(listConfigurations(parsed)).toEqual({ locales: ["es"], densities: ["hdpi", "xxhdpi"] });
+    const files = renderValuesFiles(parsed);
+    expect(files.map(file => file.path)).toEqual([
+      "/res/values/strings.xml",
+      "/res/values-es/strings.xml",
+      "/res/values/colors.xml",
+      "/res/values/styles.xml",
+    ]);
+    expect(valuesFile(files, "/res/values-es/strings.xml")).toContain('<string name="greeting">Hola</string>');
+    expect(valuesFile(files, "/res/values/styles.xml")).toContain('<item name="android:colorPrimary">@color/accent</item>');
+  });
+});
+
+describe("applyValueEdits", () => {
+  const edit = (path: string, from: string, to: string) => {
+    const content = valuesFile(renderValuesFiles(parseArsc(table)), path)!;
+    expect(content).toContain(from);
+    return { path, content: content.replace(from, to) };
+  };
+
+  it("serializes string, color and style edits that parse back", () => {
+    const result = applyValueEdits(parseArsc(table), [
+      edit("/res/values/strings.xml", ">Ejemplo<", ">Mi aplicación<"),
+      edit("/res/values-es/strings.xml", ">Hola<", ">¡Hola, mundo!<"),
+      edit("/res/values/colors.xml", "#ff3366cc", "#ff00ff00"),
+      edit("/res/values/styles.xml", "@color/accent", "#ff112233"),
+    ]);
+    expect(result.skipped).toEqual([]);
+    expect(result.changed).toEqual([
+      "values/string/app_name",
+      "values-es/string/greeting",
+      "values/color/accent",
+      "values/style/AppTheme/android:colorPrimary",
+    ]);
+
+    const files = renderValuesFiles(parseArsc(result.buffer));
+    expect(valuesFile(files, "/res/values/strings.xml")).toContain('<string name="app_name">Mi aplicación</string>');
+    expect(valuesFile(files, "/res/values/strings.xml")).toContain('<string name="greeting">Hello</string>');
+    expect(valuesFile(files, "/res/values-es/strings.xml")).toContain('<string name="greeting">¡Hola, mundo!</string>');
+    expect(valuesFile(files, "/res/values/colors.xml")).toContain('<color name="accent">#ff00ff00</color>');
+    expect(valuesFile(files, "/res/values/styles.xml")).toContain('<item name="android:colorPrimary">#ff112233</item>');
+  });
+
+  it("keeps the table byte for byte without edits", () => {
+    const parsed = parseArsc(table);
+    const result = applyValueEdits(parsed, renderValuesFiles(parsed));
+    expect(result.changed).toEqual([]);
+    expect(result.buffer.equals(table)).toBe(true);
+  });
+
+  it("skips resources the table does not have", () => {
+    const result = applyValueEdits(parseArsc(table), [
+      { path: "/res/values/strings.xml", content: '<resources><string name="farewell">Adiós</string></resources>' },
+    ]);
+    expect(result.changed).toEqual([]);
+    expect(result.skipped).toEqual([
+      { resource: "values/string/farewell", reason: "new resources cannot be added to a compiled table" },
+    ]);
+  });
+});
+
+describe("corrupt resource tables", () => {
+  it.each([
+    ["a truncated header", table.subarray(0, 10)],
+    ["a table cut short", table.subarray(0, 400)],
+  ])("refuses %s", (_name, input) => {
+    expect(() => parseArsc(input)).toThrow(ArscError);
+  });
+
+  it("refuses an entry past the end of its type chunk", () => {
+    const damaged = Buffer.from(table);
+    // The first entry offset follows the type chunk's 84-byte header
+    damaged.writeUInt32LE(0x10000, firstTypeChunk(damaged) + 84);
+    expect(() => parseArsc(damaged)).toThrow(ArscError);
+    expect(() => parseArsc(damaged)).toThrow(/Truncated entry/);
+  });
+
+  it("throws only ArscError for corrupt tables", () => {
+    const edit = { path: "/res/values/strings.xml", content: '<resources><string name="app_name">Nuevo nombre</string></resources>' };
+    for (const input of corruptions(table, 1000)) {
+      try {
+        const parsed = parseArsc(input);
+        renderValuesFiles(parsed);
+        applyValueEdits(parsed, [edit]);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ArscError);
+      }
+    }
+  });
+});
+
+// Offset of the first RES_TABLE_TYPE chunk
+function firstTypeChunk(buffer: Buffer): number {
+  for (let offset = 0; offset + 4 <= buffer.length; offset += 4) {
+    if (buffer.readUInt16LE(offset) === 0x0201 && buffer.readUInt16LE(offset + 2) === 84) return offset;
+  }
+  throw new Error("No type chunk");
+}
@@ -0,0 +1,844 @@
+import { ANDROID_ATTRIBUTE_NAMES, AxmlError, ChunkType, ValueType, encodePoolString, escapeXml, formatAttributeValue, readStringPool, unescapeXml } from "./axml";
+
+// Parser and editor for resources.arsc, the compiled resource table inside an
+// APK. Edits never restructure the table: changed values are patched in place
+// and new strings are appended to the global string pool, so offsets in the
+// package chunks stay valid.
+
+export class ArscError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArscError';
+  }
+}
+
+const NO_ENTRY = 0xffffffff;
+const SORTED_FLAG = 1 << 0;
+const UTF8_FLAG = 1 << 8;
+const TYPE_FLAG_SPARSE = 0x01;
+const TYPE_FLAG_OFFSET16 = 0x02;
+const ENTRY_FLAG_COMPLEX = 0x0001;
+const ENTRY_FLAG_COMPACT = 0x0008;
+const STRING_POOL_HEADER_SIZE = 28;
+
+export interface ResValue {
+  type: number;
+  data: number;
+}
+
+export interface ResEntry {
+  // Full resource id, 0xPPTTEEEE
+  id: number;
+  key: string;
+  // Simple entries carry one value; bags (styles, arrays, plurals) carry items
+  value?: ResValue;
+  bag?: ResBag;
+  // Table offset of the 8 bytes whose type byte (+3) and data word (+4) hold `value`
+  valueOffset?: number;
+}
+
+export interface ResBag {
+  parent: number;
+  // Table offset of the parent id
+  parentOffset: number;
+  // `valueOffset` has the same layout as ResEntry.valueOffset
+  items: Array<{ name: number; value: ResValue; valueOffset: number }>;
+}
+
+export interface ResConfig {
+  // Directory suffix as in `values-<qualifier>`; empty for the default configuration
+  qualifier: string;
+  locale?: string;
+  density?: string;
+  entries: ResEntry[];
+}
+
+export interface ResType {
+  id: number;
+  name: string;
+  configs: ResConfig[];
+}
+
+export interface ResPackage {
+  id: number;
+  name: string;
+  types: ResType[];
+}
+
+interface StringPoolLayout {
+  offset: number;
+  size: number;
+  flags: number;
+  stringCount: number;
+  styleCount: number;
+  stringsStart: number;
+  stylesStart: number;
+}
+
+export interface ResourceTable {
+  buffer: Buffer;
+  // Global string pool, which holds every string value
+  strings: string[];
+  packages: ResPackage[];
+  stringPool: StringPoolLayout;
+}
+
+export interface ValuesFile {
+  path: string;
+  content: string;
+}
+
+export interface ResourceEditResult {
+  buffer: Buffer;
+  // `type/name` per edited configuration, e.g. "values-es/string/app_name"
+  changed: string[];
+  skipped: Array<{ resource: string; reason: string }>;
+}
+
+// Value resources surfaced as editable files, keyed by resource type
+const EDITABLE_TYPES: Record<string, string> = {
+  string: 'strings.xml',
+  color: 'colors.xml',
+  dimen: 'dimens.xml',
+  style: 'styles.xml',
+};
+
+const DENSITIES: Record<number, string> = {
+  120: 'ldpi',
+  160: 'mdpi',
+  213: 'tvdpi',
+  240: 'hdpi',
+  320: 'xhdpi',
+  480: 'xxhdpi',
+  640: 'xxxhdpi',
+  0xfffe: 'anydpi',
+  0xffff: 'nodpi',
+};
+
+const SCREEN_SIZES = ['', 'small', 'normal', 'large', 'xlarge'];
+const ORIENTATIONS = ['', 'port', 'land', 'square'];
+const UI_MODE_TYPES = ['', '', 'desk', 'car', 'television', 'appliance', 'watch', 'vrheadset'];
+const DIMENSION_UNITS: Record<string, number> = { px: 0, dp: 1, dip: 1, sp: 2, pt: 3, in: 4, mm: 5 };
+
+// Throw unless `length` bytes at `offset` lie before `end`
+function checkRange(offset: number, length: number, end: number, what: string) {
+  if (offset < 0 || length < 0 || offset + length > end) {
+    throw new ArscError(`Truncated ${what} at offset ${offset}`);
+  }
+}
+
+// String pools are shared with binary XML; their errors are table errors here
+function readPool(buffer: Buffer, offset: number): string[] {
+  try {
+    return readStringPool(buffer, offset).strings;
+  } catch (error) {
+    if (error instanceof AxmlError) throw new ArscError(error.message);
+    throw error;
+  }
+}
+
+export function isResourceTable(buffer: Buffer): boolean {
+  return buffer.length >= 12 && buffer.readUInt16LE(0) === ChunkType.TABLE && buffer.readUInt16LE(2) === 12;
+}
+
+export function parseArsc(buffer: Buffer): ResourceTable {
+  if (!isResourceTable(buffer)) {
+    throw new ArscError('Not a resource table');
+  }
+
+  const tableSize = Math.min(buffer.readUInt32LE(4), buffer.length);
+  let strings: string[] | undefined;
+  let stringPool: StringPoolLayout | undefined;
+  const packages: ResPackage[] = [];
+
+  let offset = buffer.readUInt16LE(2);
+  while (offset + 8 <= tableSize) {
+    const type = buffer.readUInt16LE(offset);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (size < 8 || offset + size > tableSize) {
+      throw new ArscError(`Corrupt chunk at offset ${offset}`);
+    }
+
+    if (type === ChunkType.STRING_POOL && !stringPool) {
+      strings = readPool(buffer, offset);
+      stringPool = {
+        offset,
+        size,
+        flags: buffer.readUInt32LE(offset + 16),
+        stringCount: buffer.readUInt32LE(offset + 8),
+        styleCount: buffer.readUInt32LE(offset + 12),
+        stringsStart: buffer.readUInt32LE(offset + 20),
+        stylesStart: buffer.readUInt32LE(offset + 24),
+      };
+      // Edits copy the offsets, string data and style data separately
+      const { stringCount, styleCount, stringsStart, stylesStart } = stringPool;
+      checkRange(offset + buffer.readUInt16LE(offset + 2), (stringCount + styleCount) * 4, offset + size, 'string pool offsets');
+      if (styleCount > 0) checkRange(offset + stringsStart, stylesStart - stringsStart, offset + size, 'string pool styles');
+    } else if (type === ChunkType.TABLE_PACKAGE) {
+      packages.push(readPackage(buffer, offset, size));
+    }
+    offset += size;
+  }
+
+  if (!strings || !stringPool) {
+    throw new ArscError('Resource table has no string pool');
+  }
+  return { buffer, strings, packages, stringPool };
+}
+
+function readPackage(buffer: Buffer, start: number, size: number): ResPackage {
+  const headerSize = buffer.readUInt16LE(start + 2);
+  checkRange(start, Math.max(headerSize, 284), start + size, 'package header');
+  const id = buffer.readUInt32LE(start + 8);
+  const name = buffer.toString('utf16le', start + 12, start + 12 + 256).replace(/\0[\s\S]*$/, '');
+  const typeNames = readPool(buffer, start + buffer.readUInt32LE(start + 268));
+  const keys = readPool(buffer, start + buffer.readUInt32LE(start + 276));
+  const typeIdOffset = headerSize >= 288 ? buffer.readUInt32LE(start + 284) : 0;
+  const types = new Map<number, ResType>();
+
+  let offset = start + headerSize;
+  while (offset + 8 <= start + size) {
+    const chunkType = buffer.readUInt16LE(offset);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkSize < 8 || offset + chunkSize > start + size) {
+      throw new ArscError(`Corrupt chunk at offset ${offset}`);
+    }
+
+    if (chunkType === ChunkType.TABLE_TYPE) {
+      const typeId = buffer[offset + 8];
+      let resType = types.get(typeId);
+      if (!resType) {
+        resType = { id: typeId, name: typeNames[typeId - 1 - typeIdOffset] ?? `type${typeId}`, configs: [] };
+        types.set(typeId, resType);
+      }
+      readTypeChunk(buffer, offset, chunkSize, id, resType, keys);
+    }
+    offset += chunkSize;
+  }
+
+  return { id, name, types: Array.from(types.values()) };
+}
+
+function readTypeChunk(buffer: Buffer, offset: number, size: number, packageId: number, resType: ResType, keys: string[]) {
+  const end = offset + size;
+  checkRange(offset, 24, end, 'type chunk');
+  checkRange(offset + 20, buffer.readUInt32LE(offset + 20), end, 'configuration');
+  const headerSize = buffer.readUInt16LE(offset + 2);
+  const flags = buffer[offset + 9];
+  const entryCount = buffer.readUInt32LE(offset + 12);
+  const entriesStart = offset + buffer.readUInt32LE(offset + 16);
+  const described = describeConfig(buffer, offset + 20);
+
+  // Configurations that differ only in qualifiers we don't render share a ResConfig
+  let config = resType.configs.find(candidate => candidate.qualifier === described.qualifier);
+  if (!config) {
+    config = { ...described, entries: [] };
+    resType.configs.push(config);
+  }
+  const seen = new Set(config.entries.map(entry => entry.id));
+
+  const stride = flags & TYPE_FLAG_OFFSET16 && !(flags & TYPE_FLAG_SPARSE) ? 2 : 4;
+  checkRange(offset + headerSize, entryCount * stride, end, 'entry offsets');
+  for (let i = 0; i < entryCount; i++) {
+    const slot = offset + headerSize + i * stride;
+    let index = i;
+    let entryOffset: number;
+    if (flags & TYPE_FLAG_SPARSE) {
+      index = buffer.readUInt16LE(slot);
+      entryOffset = buffer.readUInt16LE(slot + 2) * 4;
+    } else if (flags & TYPE_FLAG_OFFSET16) {
+      const value = buffer.readUInt16LE(slot);
+      if (value === 0xffff) continue;
+      entryOffset = value * 4;
+    } else {
+      entryOffset = buffer.readUInt32LE(slot);
+      if (entryOffset === NO_ENTRY) continue;
+    }
+
+    const id = ((packageId << 24) | (resType.id << 16) | index) >>> 0;
+    if (seen.has(id)) continue;
+    config.entries.push(readEntry(buffer, entriesStart + entryOffset, end, id, keys));
+  }
+}
+
+// The entry and its values lie before `end`, the end of its type chunk
+function readEntry(buffer: Buffer, position: number, end: number, id: number, keys: string[]): ResEntry {
+  checkRange(position, 8, end, 'entry');
+  const entrySize = buffer.readUInt16LE(position);
+  const flags = buffer.readUInt16LE(position + 2);
+
+  if (flags & ENTRY_FLAG_COMPACT) {
+    // Compact entries keep the key in the size field and the value type in
+    // the high byte of the flags
+    return {
+      id,
+      key: keys[entrySize] ?? '',
+      value: { type: flags >>> 8, data: buffer.readUInt32LE(position + 4) },
+      valueOffset: position,
+    };
+  }
+
+  const key = keys[buffer.readUInt32LE(position + 4)] ?? '';
+  if (flags & ENTRY_FLAG_COMPLEX) {
+    checkRange(position, 16, end, 'entry');
+    const parent = buffer.readUInt32LE(position + 8);
+    const count = buffer.readUInt32LE(position + 12);
+    checkRange(position + entrySize, count * 12, end, 'bag');
+    const items: ResBag['items'] = [];
+    for (let i = 0; i < count; i++) {
+      const item = position + entrySize + i * 12;
+      items.push({
+        name: buffer.readUInt32LE(item),
+        value: { type: buffer[item + 7], data: buffer.readUInt32LE(item + 8) },
+        valueOffset: item + 4,
+      });
+    }
+    return { id, key, bag: { parent, parentOffset: position + 8, items } };
+  }
+
+  const valueOffset = position + entrySize;
+  checkRange(valueOffset, 8, end, 'value');
+  return {
+    id,
+    key,
+    value: { type: buffer[valueOffset + 3], data: buffer.readUInt32LE(valueOffset + 4) },
+    valueOffset,
+  };
+}
+
+function unpackLocaleCode(first: number, second: number, base: number): string {
+  if (first === 0) return '';
+  if (!(first & 0x80)) return String.fromCharCode(first, second);
+  // Three-letter codes are packed into 5-bit fields
+  return String.fromCharCode(
+    (second & 0x1f) + base,
+    (((second & 0xe0) >> 5) | ((first & 0x03) << 3)) + base,
+    ((first & 0x7c) >> 2) + base,
+  );
+}
+
+// Render a ResTable_config as a resource directory qualifier. Input-device
+// qualifiers (keyboard, navigation, touchscreen) are rarely used in APKs and
+// are not rendered.
+function describeConfig(buffer: Buffer, offset: number): Omit<ResConfig, 'entries'> {
+  const size = buffer.readUInt32LE(offset);
+  const u8 = (field: number) => (field < size ? buffer[offset + field] : 0);
+  const u16 = (field: number) => (field + 1 < size ? buffer.readUInt16LE(offset + field) : 0);
+  const text = (field: number, length: number) =>
+    field + length <= size ? buffer.toString('latin1', offset + field, offset + field + length).replace(/\0+$/, '') : '';
+  const parts: string[] = [];
+
+  const mcc = u16(4);
+  const mnc = u16(6);
+  if (mcc) parts.push(`mcc${mcc}`);
+  if (mnc) parts.push(`mnc${mnc === 0xffff ? 0 : mnc}`);
+
+  const language = unpackLocaleCode(u8(8), u8(9), 'a'.charCodeAt(0));
+  const region = unpackLocaleCode(u8(10), u8(11), '0'.charCodeAt(0));
+  const script = text(36, 4);
+  let locale: string | undefined;
+  if (language) {
+    if (script || language.length === 3) {
+      locale = ['b', language, script, region].filter(Boolean).join('+');
+    } else {
+      locale = region ? `${language}-r${region}` : language;
+    }
+    parts.push(locale);
+  }
+
+  const screenLayout = u8(28);
+  const layoutDirection = screenLayout & 0xc0;
+  if (layoutDirection === 0x40) parts.push('ldltr');
+  if (layoutDirection === 0x80) parts.push('ldrtl');
+  if (u16(30)) parts.push(`sw${u16(30)}dp`);
+  if (u16(32)) parts.push(`w${u16(32)}dp`);
+  if (u16(34)) parts.push(`h${u16(34)}dp`);
+  if (SCREEN_SIZES[screenLayout & 0x0f]) parts.push(SCREEN_SIZES[screenLayout & 0x0f]);
+
+  if (ORIENTATIONS[u8(12)]) parts.push(ORIENTATIONS[u8(12)]);
+  const uiMode = u8(29);
+  if (UI_MODE_TYPES[uiMode & 0x0f]) parts.push(UI_MODE_TYPES[uiMode & 0x0f]);
+  if ((uiMode & 0x30) === 0x10) parts.push('notnight');
+  if ((uiMode & 0x30) === 0x20) parts.push('night');
+
+  const density = u16(14) ? DENSITIES[u16(14)] ?? `${u16(14)}dpi` : undefined;
+  if (density) parts.push(density);
+  if (u16(24)) parts.push(`v${u16(24)}`);
+
+  return { qualifier: parts.join('-'), locale, density };
+}
+
+// Resource id -> `type/name` for every entry of the table
+export function resourceNames(table: ResourceTable): Map<number, string> {
+  const names = new Map<number, string>();
+  for (const pkg of table.packages) {
+    for (const type of pkg.types) {
+      for (const config of type.configs) {
+        for (const entry of config.entries) {
+          if (!names.has(entry.id)) names.set(entry.id, `${type.name}/${entry.key}`);
+        }
+      }
+    }
+  }
+  return names;
+}
+
+// A `resolveReference` hook for the AXML formatter
+export function referenceResolver(table: ResourceTable): (id: number) => string | undefined {
+  const names = resourceNames(table);
+  return id => {
+    const name = names.get(id);
+    return name ? `@${name}` : undefined;
+  };
+}
+
+// Locales and densities the table has configurations for
+export function listConfigurations(table: ResourceTable): { locales: string[]; densities: string[] } {
+  const locales = new Set<string>();
+  const densities = new Set<string>();
+  for (const pkg of table.packages) {
+    for (const type of pkg.types) {
+      for (const config of type.configs) {
+        if (config.locale) locales.add(config.locale);
+        if (config.density) densities.add(config.density);
+      }
+    }
+  }
+  return { locales: Array.from(locales).sort(), densities: Array.from(densities).sort() };
+}
+
+// Android's backslash escapes on top of XML escaping, so any string survives
+// a round trip through a values file
+export function escapeResourceString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/^([@?])/, '\\$1');
+  return escapeXml(escaped).replace(/&quot;/g, '"');
+}
+
+function unescapeResourceString(value: string): string {
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+    if (escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    switch (escape) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      default: return escape;
+    }
+  });
+}
+
+function formatValue(table: ResourceTable, value: ResValue, resolve: (id: number) => string | undefined): string {
+  if (value.type === ValueType.STRING) {
+    return escapeResourceString(table.strings[value.data] ?? '');
+  }
+  return escapeXml(formatAttributeValue(
+    { namespace: null, name: '', rawValue: null, type: value.type, data: value.data },
+    { resolveReference: resolve },
+  ));
+}
+
+// The app package: the first one, which aapt always writes for the APK itself
+function appPackage(table: ResourceTable): ResPackage | undefined {
+  return table.packages[0];
+}
+
+function formatId(id: number): string {
+  return `0x${id.toString(16).padStart(8, '0')}`;
+}
+
+// Name of a style item's attribute: `colorPrimary` for the app's own
+// attributes, `android:colorPrimary` for known framework ones
+function styleItemName(id: number, names: Map<number, string>): string {
+  const name = names.get(id);
+  if (name?.startsWith('attr/')) return name.slice('attr/'.length);
+  if (ANDROID_ATTRIBUTE_NAMES[id]) return `android:${ANDROID_ATTRIBUTE_NAMES[id]}`;
+  return formatId(id);
+}
+
+function formatStyleParent(parent: number, resolve: (id: number) => string | undefined): string | undefined {
+  if (parent === 0) return undefined;
+  return resolve(parent) ?? `@${formatId(parent)}`;
+}
+
+function renderStyle(table: ResourceTable, entry: ResEntry, names: Map<number, string>, resolve: (id: number) => string | undefined): string[] {
+  const bag = entry.bag!;
+  const parent = formatStyleParent(bag.parent, resolve);
+  const open = `    <style name="${escapeXml(entry.key)}"${parent ? ` parent="${escapeXml(parent)}"` : ''}`;
+  if (bag.items.length === 0) return [`${open} />`];
+  return [
+    `${open}>`,
+    ...bag.items.map(item =>
+      `        <item name="${escapeXml(styleItemName(item.name, names))}">${formatValue(table, item.value, resolve)}</item>`),
+    '    </style>',
+  ];
+}
+
+// strings.xml, colors.xml, dimens.xml and styles.xml for every
+// configuration, in the layout apktool uses (res/values-<qualifier>/…)
+export function renderValuesFiles(table: ResourceTable): ValuesFile[] {
+  const pkg = appPackage(table);
+  if (!pkg) return [];
+  const names = resourceNames(table);
+  const resolve = referenceResolver(table);
+  const files: ValuesFile[] = [];
+
+  for (const type of pkg.types) {
+    const fileName = EDITABLE_TYPES[type.name];
+    if (!fileName) continue;
+
+    for (const config of type.configs) {
+      const lines = type.name === 'style'
+        ? config.entries
+            .filter(entry => entry.bag)
+            .flatMap(entry => renderStyle(table, entry, names, resolve))
+        : config.entries
+            .filter(entry => entry.value)
+            .map(entry => `    <${type.name} name="${escapeXml(entry.key)}">${formatValue(table, entry.value!, resolve)}</${type.name}>`);
+      if (lines.length === 0) continue;
+
+      files.push({
+        path: `/res/values${config.qualifier ? `-${config.qualifier}` : ''}/${fileName}`,
+        content: ['<?xml version="1.0" encoding="utf-8"?>', '<resources>', ...lines, '</resources>', ''].join('\n'),
+      });
+    }
+  }
+  return files;
+}
+
+function parseValuesXml(content: string): Array<{ type: string; name: string; text: string }> {
+  const items: Array<{ type: string; name: string; text: string }> = [];
+  const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+  const pattern = /<(string|color|dimen)\b[^>]*?\bname="([^"]*)"[^>]*?(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+  for (const match of Array.from(withoutComments.matchAll(pattern))) {
+    items.push({ type: match[1], name: unescapeXml(match[2]), text: match[3] ?? '' });
+  }
+  return items;
+}
+
+interface StyleDefinition {
+  name: string;
+  parent?: string;
+  items: Array<{ name: string; text: string }>;
+}
+
+function parseStylesXml(content: string): StyleDefinition[] {
+  const styles: StyleDefinition[] = [];
+  const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+  const stylePattern = /<style\b([^>]*?)(?:\/>|>([\s\S]*?)<\/style\s*>)/g;
+  const itemPattern = /<item\b[^>]*?\bname="([^"]*)"[^>]*?(?:\/>|>([\s\S]*?)<\/item\s*>)/g;
+  for (const match of Array.from(withoutComments.matchAll(stylePattern))) {
+    const name = /\bname="([^"]*)"/.exec(match[1]);
+    if (!name) continue;
+    const parent = /\bparent="([^"]*)"/.exec(match[1]);
+    styles.push({
+      name: unescapeXml(name[1]),
+      parent: parent ? unescapeXml(parent[1]) : undefined,
+      items: Array.from((match[2] ?? '').matchAll(itemPattern), item => ({ name: unescapeXml(item[1]), text: item[2] ?? '' })),
+    });
+  }
+  return styles;
+}
+
+function expandNibbles(value: string): number {
+  return parseInt(value.split('').map(digit => digit + digit).join(''), 16);
+}
+
+export function parseColor(text: string): ResValue | undefined {
+  const match = /^#([0-9a-f]+)$/i.exec(text);
+  if (!match) return undefined;
+  const digits = match[1];
+  switch (digits.length) {
+    case 3: return { type: ValueType.INT_COLOR_RGB4, data: (0xff000000 | expandNibbles(digits)) >>> 0 };
+    case 4: return { type: ValueType.INT_COLOR_ARGB4, data: expandNibbles(digits) >>> 0 };
+    case 6: return { type: ValueType.INT_COLOR_RGB8, data: (0xff000000 | parseInt(digits, 16)) >>> 0 };
+    case 8: return { type: ValueType.INT_COLOR_ARGB8, data: parseInt(digits, 16) >>> 0 };
+    default: return undefined;
+  }
+}
+
+// Encode a number with a unit as a complex value, picking the radix that
+// keeps the most precision (same scheme as aapt)
+export function parseDimension(text: string): ResValue | undefined {
+  const match = /^(-?\d+(?:\.\d+)?)(px|dp|dip|sp|pt|in|mm)$/.exec(text);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const bits = Math.round(Math.abs(value) * 2 ** 23);
+
+  let radix: number;
+  let mantissa: number;
+  if (bits % 2 ** 23 === 0) {
+    radix = 0;
+    mantissa = bits / 2 ** 23;
+  } else if (bits < 2 ** 23) {
+    radix = 3;
+    mantissa = bits;
+  } else if (bits < 2 ** 31) {
+    radix = 2;
+    mantissa = Math.floor(bits / 2 ** 8);
+  } else if (bits < 2 ** 39) {
+    radix = 1;
+    mantissa = Math.floor(bits / 2 ** 16);
+  } else {
+    radix = 0;
+    mantissa = Math.floor(bits / 2 ** 23);
+  }
+  if (mantissa > 0x7fffff) return undefined;
+  if (value < 0) mantissa = -mantissa & 0xffffff;
+
+  return { type: ValueType.DIMENSION, data: ((mantissa << 8) | (radix << 4) | DIMENSION_UNITS[match[2]]) >>> 0 };
+}
+
+type EncodedValue = ResValue | { string: string };
+
+// `@type/name`, `?attr/name` or either form with a literal id
+function resolveReference(text: string, ids: Map<string, number>): number | undefined {
+  const literal = /^[@?](0x[0-9a-f]{1,8})$/i.exec(text);
+  if (literal) return parseInt(literal[1], 16);
+  if (text === '@null') return 0;
+  const name = text.slice(1).replace(/^\+/, '');
+  return ids.get(text.startsWith('?') && !name.includes('/') ? `attr/${name}` : name);
+}
+
+function encodeValue(type: string, rawText: string, ids: Map<string, number>): EncodedValue | string {
+  const text = unescapeXml(rawText);
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('@') || (type === 'item' && trimmed.startsWith('?'))) {
+    const id = resolveReference(trimmed, ids);
+    if (id === undefined) return `unknown resource ${trimmed}`;
+    return { type: trimmed.startsWith('?') ? ValueType.ATTRIBUTE : ValueType.REFERENCE, data: id };
+  }
+
+  switch (type) {
+    case 'string':
+      return { string: unescapeResourceString(text) };
+    case 'color':
+      return parseColor(trimmed) ?? `invalid color ${trimmed}`;
+    case 'dimen':
+      return parseDimension(trimmed) ?? `invalid dimension ${trimmed}`;
+    case 'item':
+      // Style items have no declared format; take the most specific reading
+      if (trimmed === 'true' || trimmed === 'false') {
+        return { type: ValueType.INT_BOOLEAN, data: trimmed === 'true' ? 0xffffffff : 0 };
+      }
+      if (/^-?\d+$/.test(trimmed)) return { type: ValueType.INT_DEC, data: parseInt(trimmed, 10) >>> 0 };
+      if (/^-?\d*\.\d+$/.test(trimmed)) {
+        const float = Buffer.alloc(4);
+        float.writeFloatLE(parseFloat(trimmed), 0);
+        return { type: ValueType.FLOAT, data: float.readUInt32LE(0) };
+      }
+      return parseColor(trimmed) ?? parseDimension(trimmed) ?? { string: unescapeResourceString(text) };
+    default:
+      return `unsupported type ${type}`;
+  }
+}
+
+// Copy of the global string pool chunk with `appended` added after the
+// existing strings; existing string and style data is kept byte for byte
+function appendToStringPool(table: ResourceTable, appended: string[]): Buffer {
+  const { buffer } = table;
+  const pool = table.stringPool;
+  const headerSize = buffer.readUInt16LE(pool.offset + 2);
+  const utf8 = (pool.flags & UTF8_FLAG) !== 0;
+
+  const stringOffsets = buffer.subarray(pool.offset + headerSize, pool.offset + headerSize + pool.stringCount * 4);
+  const styleOffsets = buffer.subarray(
+    pool.offset + headerSize + pool.stringCount * 4,
+    pool.offset + headerSize + (pool.stringCount + pool.styleCount) * 4,
+  );
+  const stringDataEnd = pool.styleCount > 0 ? pool.stylesStart : pool.size;
+  const stringData = buffer.subarray(pool.offset + pool.stringsStart, pool.offset + stringDataEnd);
+  const styleData = pool.styleCount > 0 ? buffer.subarray(pool.offset + pool.stylesStart, pool.offset + pool.size) : Buffer.alloc(0);
+
+  const newOffsets = Buffer.alloc(appended.length * 4);
+  const newStrings: Buffer[] = [];
+  let position = stringData.length;
+  appended.forEach((value, i) => {
+    const encoded = encodePoolString(value, utf8);
+    newOffsets.writeUInt32LE(position, i * 4);
+    newStrings.push(encoded);
+    position += encoded.length;
+  });
+  const padding = Buffer.alloc((4 - (position % 4)) % 4);
+
+  const stringsStart = STRING_POOL_HEADER_SIZE + (pool.stringCount + appended.length + pool.styleCount) * 4;
+  const stringsLength = position + padding.length;
+  const size = stringsStart + stringsLength + styleData.length;
+
+  const header = Buffer.alloc(STRING_POOL_HEADER_SIZE);
+  header.writeUInt16LE(ChunkType.STRING_POOL, 0);
+  header.writeUInt16LE(STRING_POOL_HEADER_SIZE, 2);
+  header.writeUInt32LE(size, 4);
+  header.writeUInt32LE(pool.stringCount + appended.length, 8);
+  header.writeUInt32LE(pool.styleCount, 12);
+  header.writeUInt32LE((pool.flags & ~SORTED_FLAG) >>> 0, 16);
+  header.writeUInt32LE(stringsStart, 20);
+  header.writeUInt32LE(pool.styleCount > 0 ? stringsStart + stringsLength : 0, 24);
+
+  return Buffer.concat([header, stringOffsets, newOffsets, styleOffsets, stringData, ...newStrings, padding, styleData]);
+}
+
+type Patch = { offset: number; value: EncodedValue } | { offset: number; word: number };
+
+// Queue patches for a styles.xml: parents and the values of existing items
+// can change, but items can't be added to or removed from a compiled bag
+function collectStyleEdits(
+  table: ResourceTable,
+  file: ValuesFile,
+  qualifier: string,
+  lookup: { entries: Map<string, ResEntry>; ids: Map<string, number>; names: Map<number, string> },
+  patches: Patch[],
+  result: ResourceEditResult,
+) {
+  const directory = `values${qualifier ? `-${qualifier}` : ''}`;
+  const resolve = referenceResolver(table);
+
+  for (const style of parseStylesXml(file.content)) {
+    const resource = `${directory}/style/${style.name}`;
+    const bag = lookup.entries.get(`${qualifier}/style/${style.name}`)?.bag;
+    if (!bag) {
+      result.skipped.push({ resource, reason: 'new resources cannot be added to a compiled table' });
+      continue;
+    }
+
+    if (style.parent !== formatStyleParent(bag.parent, resolve)) {
+      const parent = style.parent ? resolveReference(style.parent.trim(), lookup.ids) : 0;
+      if (parent === undefined) {
+        result.skipped.push({ resource, reason: `unknown parent ${style.parent}` });
+      } else if (parent !== bag.parent) {
+        patches.push({ offset: bag.parentOffset, word: parent });
+        result.changed.push(resource);
+      }
+    }
+
+    const items = new Map(bag.items.map(item => [styleItemName(item.name, lookup.names), item]));
+    for (const { name, text } of style.items) {
+      const itemResource = `${resource}/${name}`;
+      const item = items.get(name);
+      if (!item) {
+        result.skipped.push({ resource: itemResource, reason: 'items cannot be added to a compiled style' });
+        continue;
+      }
+      // Compare the text first so values written in another form (hex vs decimal) stay put
+      if (text === formatValue(table, item.value, resolve)) continue;
+
+      const encoded = encodeValue('item', text, lookup.ids);
+      if (typeof encoded === 'string') {
+        result.skipped.push({ resource: itemResource, reason: encoded });
+        continue;
+      }
+      patches.push({ offset: item.valueOffset, value: encoded });
+      result.changed.push(itemResource);
+    }
+  }
+}
+
+// Apply edited values files to the table. Only existing simple entries and
+// existing style items can change; new names are reported as skipped.
+export function applyValueEdits(table: ResourceTable, files: ValuesFile[]): ResourceEditResult {
+  const result: ResourceEditResult = { buffer: table.buffer, changed: [], skipped: [] };
+  const pkg = appPackage(table);
+  if (!pkg) return result;
+
+  const names = resourceNames(table);
+  const entries = new Map<string, ResEntry>();
+  const ids = new Map<string, number>();
+  for (const type of pkg.types) {
+    for (const config of type.configs) {
+      for (const entry of config.entries) {
+        entries.set(`${config.qualifier}/${type.name}/${entry.key}`, entry);
+        ids.set(`${type.name}/${entry.key}`, entry.id);
+      }
+    }
+  }
+
+  const patches: Patch[] = [];
+  for (const file of files) {
+    const match = /^\/res\/values(?:-([^/]+))?\/(strings|colors|dimens|styles)\.xml$/.exec(file.path);
+    if (!match) continue;
+    const qualifier = match[1] ?? '';
+    if (match[2] === 'styles') {
+      collectStyleEdits(table, file, qualifier, { entries, ids, names }, patches, result);
+      continue;
+    }
+    const directory = `values${qualifier ? `-${qualifier}` : ''}`;
+
+    for (const item of parseValuesXml(file.content)) {
+      const resource = `${directory}/${item.type}/${item.name}`;
+      const entry = entries.get(`${qualifier}/${item.type}/${item.name}`);
+      if (!entry) {
+        result.skipped.push({ resource, reason: 'new resources cannot be added to a compiled table' });
+        continue;
+      }
+      if (!entry.value || entry.valueOffset === undefined) {
+        result.skipped.push({ resource, reason: 'only simple values can be edited' });
+        continue;
+      }
+
+      const encoded = encodeValue(item.type, item.text, ids);
+      if (typeof encoded === 'string') {
+        result.skipped.push({ resource, reason: encoded });
+        continue;
+      }
+
+      const unchanged = 'string' in encoded
+        ? entry.value.type === ValueType.STRING && table.strings[entry.value.data] === encoded.string
+        : entry.value.type === encoded.type && entry.value.data === encoded.data;
+      if (unchanged) continue;
+
+      patches.push({ offset: entry.valueOffset, value: encoded });
+      result.changed.push(resource);
+    }
+  }
+  if (patches.length === 0) return result;
+
+  // Styled strings (the first styleCount) carry markup spans, so only plain
+  // ones are reused
+  const stringIndex = new Map<string, number>();
+  table.strings.forEach((value, index) => {
+    if (index >= table.stringPool.styleCount && !stringIndex.has(value)) stringIndex.set(value, index);
+  });
+  const appended: string[] = [];
+  const output = Buffer.from(table.buffer);
+
+  for (const patch of patches) {
+    if ('word' in patch) {
+      output.writeUInt32LE(patch.word, patch.offset);
+      continue;
+    }
+    let value: ResValue;
+    if ('string' in patch.value) {
+      let index = stringIndex.get(patch.value.string);
+      if (index === undefined) {
+        index = table.strings.length + appended.length;
+        appended.push(patch.value.string);
+        stringIndex.set(patch.value.string, index);
+      }
+      value = { type: ValueType.STRING, data: index };
+    } else {
+      value = patch.value;
+    }
+    output[patch.offset + 3] = value.type;
+    output.writeUInt32LE(value.data, patch.offset + 4);
+  }
+
+  if (appended.length === 0) {
+    result.buffer = output;
+    return result;
+  }
+
+  const pool = table.stringPool;
+  const newPool = appendToStringPool(table, appended);
+  const rebuilt = Buffer.concat([
+    output.subarray(0, pool.offset),
+    newPool,
+    output.subarray(pool.offset + pool.size),
+  ]);
+  rebuilt.writeUInt32LE(table.buffer.readUInt32LE(4) + newPool.length - pool.size, 4);
+  result.buffer = rebuilt;
+  return result;
+}
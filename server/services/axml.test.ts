@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { AxmlError, decodeAxml, isBinaryXml, parseAxml, readManifestInfo, readStringPool, writeStringPool } from "./axml";
+import { encodeAxml } from "./axmlEncoder";
+import { corruptions, MANIFEST_SOURCE } from "./testing/apkFixtures";
+
+const manifest = encodeAxml(MANIFEST_SOURCE);
+
+describe("readStringPool", () => {
+  it.each([["UTF-8", true], ["UTF-16", false]])("reads back a %s pool", (_name, utf8) => {
+    const strings = ["", "app_name", "ñandú", "😀", "x".repeat(300)];
+    expect(readStringPool(writeStringPool(strings, utf8), 0)).toEqual({ strings, utf8 });
+  });
+
+  it("refuses strings that run past the pool", () => {
+    const pool = writeStringPool(["hola"], true);
+    // UTF-8 byte length of the first string
+    pool[28 + 4 + 1] = 100;
+    expect(() => readStringPool(pool, 0)).toThrow(AxmlError);
+  });
+});
+
+describe("parseAxml", () => {
+  it("reads a compiled manifest", () => {
+    expect(isBinaryXml(manifest)).toBe(true);
+    const document = parseAxml(manifest);
+    expect(readManifestInfo(document)).toEqual({
+      packageName: "com.example.app",
+      versionName: "1.2",
+      versionCode: "3",
+      minSdkVersion: "21",
+      targetSdkVersion: "34",
+    });
+    const activity = decodeAxml(manifest).split("\n").findIndex(line => line.includes("<activity"));
+    expect(decodeAxml(manifest).split("\n").slice(activity, activity + 3)).toEqual([
+      "        <activity",
+      '            android:name=".MainActivity"',
+      '            android:exported="true">',
+    ]);
+  });
+
+  it("prints references through the resolver", () => {
+    const decoded = decodeAxml(manifest, { resolveReference: id => (id === 0x7f010000 ? "@string/app_name" : undefined) });
+    expect(decoded).toContain('android:label="@string/app_name"');
+    expect(decodeAxml(manifest)).toContain('android:label="@0x7f010000"');
+  });
+
+  it.each([
+    ["text", Buffer.from("<manifest />")],
+    ["a truncated header", manifest.subarray(0, 6)],
+    ["a document cut short", manifest.subarray(0, 200)],
+  ])("refuses %s", (_name, input) => {
+    expect(() => parseAxml(input)).toThrow(AxmlError);
+  });
+
+  it("throws only AxmlError for corrupt documents", () => {
+    for (const input of corruptions(manifest, 1000)) {
+      try {
+        decodeAxml(input);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AxmlError);
+      }
+    }
+  });
+});
@@ -0,0 +1,568 @@
+// Decoder for Android's binary XML (AXML), the format aapt compiles
+// AndroidManifest.xml and res/**/*.xml into inside an APK.
+
+export class AxmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AxmlError';
+  }
+}
+
+export const ChunkType = {
+  NULL: 0x0000,
+  STRING_POOL: 0x0001,
+  TABLE: 0x0002,
+  XML: 0x0003,
+  XML_START_NAMESPACE: 0x0100,
+  XML_END_NAMESPACE: 0x0101,
+  XML_START_ELEMENT: 0x0102,
+  XML_END_ELEMENT: 0x0103,
+  XML_CDATA: 0x0104,
+  XML_RESOURCE_MAP: 0x0180,
+  TABLE_PACKAGE: 0x0200,
+  TABLE_TYPE: 0x0201,
+  TABLE_TYPE_SPEC: 0x0202,
+  TABLE_LIBRARY: 0x0203,
+} as const;
+
+export const ValueType = {
+  NULL: 0x00,
+  REFERENCE: 0x01,
+  ATTRIBUTE: 0x02,
+  STRING: 0x03,
+  FLOAT: 0x04,
+  DIMENSION: 0x05,
+  FRACTION: 0x06,
+  INT_DEC: 0x10,
+  INT_HEX: 0x11,
+  INT_BOOLEAN: 0x12,
+  INT_COLOR_ARGB8: 0x1c,
+  INT_COLOR_RGB8: 0x1d,
+  INT_COLOR_ARGB4: 0x1e,
+  INT_COLOR_RGB4: 0x1f,
+} as const;
+
+const NO_INDEX = 0xffffffff;
+const UTF8_FLAG = 1 << 8;
+
+export const ANDROID_NS = 'http://schemas.android.com/apk/res/android';
+
+// Framework attribute ids for the common attributes, used when a build tool
+// stripped the attribute names from the string pool and when encoding
+// attributes that were not in the original document
+export const ANDROID_ATTRIBUTE_NAMES: Record<number, string> = {
+  0x01010000: 'theme',
+  0x01010001: 'label',
+  0x01010002: 'icon',
+  0x01010003: 'name',
+  0x01010006: 'permission',
+  0x01010007: 'readPermission',
+  0x01010008: 'writePermission',
+  0x01010009: 'protectionLevel',
+  0x0101000a: 'permissionGroup',
+  0x0101000b: 'sharedUserId',
+  0x0101000c: 'hasCode',
+  0x0101000d: 'persistent',
+  0x0101000e: 'enabled',
+  0x0101000f: 'debuggable',
+  0x01010010: 'exported',
+  0x01010011: 'process',
+  0x01010012: 'taskAffinity',
+  0x01010013: 'multiprocess',
+  0x01010017: 'excludeFromRecents',
+  0x01010018: 'authorities',
+  0x0101001b: 'grantUriPermissions',
+  0x0101001c: 'priority',
+  0x0101001d: 'launchMode',
+  0x0101001e: 'screenOrientation',
+  0x0101001f: 'configChanges',
+  0x01010020: 'description',
+  0x01010021: 'targetPackage',
+  0x01010024: 'value',
+  0x01010025: 'resource',
+  0x01010026: 'mimeType',
+  0x01010027: 'scheme',
+  0x01010028: 'host',
+  0x01010029: 'port',
+  0x0101002a: 'path',
+  0x0101002b: 'pathPrefix',
+  0x0101002c: 'pathPattern',
+  0x01010031: 'colorBackground',
+  0x01010036: 'textColorPrimary',
+  0x01010054: 'windowBackground',
+  0x01010056: 'windowNoTitle',
+  0x010100c4: 'orientation',
+  0x010100d0: 'id',
+  0x010100f4: 'layout_width',
+  0x010100f5: 'layout_height',
+  0x0101014f: 'text',
+  0x0101020c: 'minSdkVersion',
+  0x0101021b: 'versionCode',
+  0x0101021c: 'versionName',
+  0x0101022b: 'windowSoftInputMode',
+  0x01010270: 'targetSdkVersion',
+  0x01010271: 'maxSdkVersion',
+  0x01010280: 'allowBackup',
+  0x0101028e: 'required',
+  0x010102b7: 'installLocation',
+  0x010102cd: 'windowActionBar',
+  0x010102d3: 'hardwareAccelerated',
+  0x0101035a: 'largeHeap',
+  0x010103af: 'supportsRtl',
+  0x01010433: 'colorPrimary',
+  0x01010434: 'colorPrimaryDark',
+  0x01010435: 'colorAccent',
+  0x01010451: 'statusBarColor',
+  0x01010452: 'navigationBarColor',
+  0x010104ea: 'extractNativeLibs',
+  0x010104eb: 'fullBackupContent',
+  0x010104ec: 'usesCleartextTraffic',
+  0x010104f6: 'resizeableActivity',
+  0x01010527: 'networkSecurityConfig',
+  0x0101052c: 'roundIcon',
+  0x01010572: 'compileSdkVersion',
+  0x01010573: 'compileSdkVersionCodename',
+  0x0101057a: 'appComponentFactory',
+};
+
+// Integer values of a few enum attributes, printed the way they were written
+export const ENUM_VALUES: Record<string, Record<number, string>> = {
+  layout_width: { [-1]: 'match_parent', [-2]: 'wrap_content' },
+  layout_height: { [-1]: 'match_parent', [-2]: 'wrap_content' },
+  orientation: { 0: 'horizontal', 1: 'vertical' },
+  visibility: { 0: 'visible', 1: 'invisible', 2: 'gone' },
+};
+
+const DIMENSION_UNITS = ['px', 'dip', 'sp', 'pt', 'in', 'mm'];
+const FRACTION_UNITS = ['%', '%p'];
+const RADIX_MULTIPLIERS = [1 / (1 << 8), 1 / (1 << 15), 1 / (1 << 23), 1 / 2 ** 31];
+
+export interface StringPool {
+  strings: string[];
+  utf8: boolean;
+}
+
+export interface AxmlAttribute {
+  namespace: string | null;
+  name: string;
+  resourceId?: number;
+  rawValue: string | null;
+  type: number;
+  data: number;
+}
+
+export interface AxmlElement {
+  namespace: string | null;
+  name: string;
+  attributes: AxmlAttribute[];
+  children: AxmlNode[];
+}
+
+export type AxmlNode = AxmlElement | { text: string };
+
+export interface AxmlDocument {
+  // Namespace URI -> prefix, in declaration order
+  namespaces: Map<string, string>;
+  root: AxmlElement;
+}
+
+export interface AxmlFormatOptions {
+  // Turn a resource id into `@type/name`; unresolved ids print as `@0x7f...`
+  resolveReference?: (id: number) => string | undefined;
+}
+
+export function isBinaryXml(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.readUInt16LE(0) === ChunkType.XML && buffer.readUInt16LE(2) === 8;
+}
+
+// Throw unless `length` bytes at `offset` lie before `end`
+function checkRange(offset: number, length: number, end: number, what: string) {
+  if (offset < 0 || length < 0 || offset + length > end) {
+    throw new AxmlError(`Truncated ${what} at offset ${offset}`);
+  }
+}
+
+// Parse a ResStringPool chunk starting at `offset`
+export function readStringPool(buffer: Buffer, offset: number): StringPool {
+  checkRange(offset, 28, buffer.length, 'string pool');
+  const headerSize = buffer.readUInt16LE(offset + 2);
+  const size = buffer.readUInt32LE(offset + 4);
+  const stringCount = buffer.readUInt32LE(offset + 8);
+  const flags = buffer.readUInt32LE(offset + 16);
+  const stringsStart = buffer.readUInt32LE(offset + 20);
+  const end = offset + size;
+  checkRange(offset, size, buffer.length, 'string pool');
+  checkRange(offset + headerSize, stringCount * 4, end, 'string pool offsets');
+  checkRange(offset + stringsStart, 0, end, 'string pool data');
+  const utf8 = (flags & UTF8_FLAG) !== 0;
+  const strings: string[] = [];
+
+  for (let i = 0; i < stringCount; i++) {
+    const start = offset + stringsStart + buffer.readUInt32LE(offset + headerSize + i * 4);
+    strings.push(utf8 ? readUtf8String(buffer, start, end) : readUtf16String(buffer, start, end));
+  }
+
+  return { strings, utf8 };
+}
+
+function encodeLength8(length: number): Buffer {
+  return length > 0x7f ? Buffer.from([0x80 | (length >> 8), length & 0xff]) : Buffer.from([length]);
+}
+
+// Encode one string the way ResStringPool stores it
+export function encodePoolString(value: string, utf8: boolean): Buffer {
+  if (utf8) {
+    const bytes = Buffer.from(value, 'utf8');
+    if (value.length > 0x7fff || bytes.length > 0x7fff) {
+      throw new AxmlError('String is too long for a string pool');
+    }
+    return Buffer.concat([encodeLength8(value.length), encodeLength8(bytes.length), bytes, Buffer.from([0])]);
+  }
+
+  const units = Buffer.from(value, 'utf16le');
+  const length = value.length;
+  const header = length > 0x7fff ? Buffer.alloc(4) : Buffer.alloc(2);
+  if (length > 0x7fff) {
+    header.writeUInt16LE(0x8000 | (length >>> 16), 0);
+    header.writeUInt16LE(length & 0xffff, 2);
+  } else {
+    header.writeUInt16LE(length, 0);
+  }
+  return Buffer.concat([header, units, Buffer.alloc(2)]);
+}
+
+// A complete ResStringPool chunk holding `strings`, without styles
+export function writeStringPool(strings: string[], utf8: boolean): Buffer {
+  const offsets = Buffer.alloc(strings.length * 4);
+  const encoded: Buffer[] = [];
+  let position = 0;
+  strings.forEach((value, i) => {
+    const bytes = encodePoolString(value, utf8);
+    offsets.writeUInt32LE(position, i * 4);
+    encoded.push(bytes);
+    position += bytes.length;
+  });
+  const padding = Buffer.alloc((4 - (position % 4)) % 4);
+
+  const header = Buffer.alloc(28);
+  const stringsStart = header.length + offsets.length;
+  header.writeUInt16LE(ChunkType.STRING_POOL, 0);
+  header.writeUInt16LE(header.length, 2);
+  header.writeUInt32LE(stringsStart + position + padding.length, 4);
+  header.writeUInt32LE(strings.length, 8);
+  header.writeUInt32LE(0, 12);
+  header.writeUInt32LE(utf8 ? UTF8_FLAG : 0, 16);
+  header.writeUInt32LE(stringsStart, 20);
+  header.writeUInt32LE(0, 24);
+  return Buffer.concat([header, offsets, ...encoded, padding]);
+}
+
+// Strings end before `end`, the end of their pool
+function readUtf8String(buffer: Buffer, offset: number, end: number): string {
+  // UTF-16 length then UTF-8 byte length, each 1 or 2 bytes
+  checkRange(offset, 2, end, 'string');
+  let position = offset;
+  if (buffer[position] & 0x80) position += 2; else position += 1;
+  checkRange(position, 1, end, 'string');
+  let byteLength = buffer[position];
+  if (byteLength & 0x80) {
+    checkRange(position, 2, end, 'string');
+    byteLength = ((byteLength & 0x7f) << 8) | buffer[position + 1];
+    position += 2;
+  } else {
+    position += 1;
+  }
+  checkRange(position, byteLength, end, 'string');
+  return buffer.toString('utf8', position, position + byteLength);
+}
+
+function readUtf16String(buffer: Buffer, offset: number, end: number): string {
+  checkRange(offset, 2, end, 'string');
+  let length = buffer.readUInt16LE(offset);
+  let position = offset + 2;
+  if (length & 0x8000) {
+    checkRange(position, 2, end, 'string');
+    length = ((length & 0x7fff) << 16) | buffer.readUInt16LE(position);
+    position += 2;
+  }
+  checkRange(position, length * 2, end, 'string');
+  return buffer.toString('utf16le', position, position + length * 2);
+}
+
+// Parse a binary XML document into an element tree
+export function parseAxml(buffer: Buffer): AxmlDocument {
+  if (!isBinaryXml(buffer)) {
+    throw new AxmlError('Not a binary XML document');
+  }
+
+  const documentSize = Math.min(buffer.readUInt32LE(4), buffer.length);
+  let pool: StringPool = { strings: [], utf8: false };
+  let resourceIds: number[] = [];
+  const namespaces = new Map<string, string>();
+  const stack: AxmlElement[] = [];
+  let root: AxmlElement | undefined;
+
+  const str = (index: number): string | null =>
+    index === NO_INDEX ? null : pool.strings[index] ?? null;
+
+  let offset = 8;
+  while (offset + 8 <= documentSize) {
+    const type = buffer.readUInt16LE(offset);
+    const headerSize = buffer.readUInt16LE(offset + 2);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (size < 8 || offset + size > documentSize) {
+      throw new AxmlError(`Corrupt chunk at offset ${offset}`);
+    }
+    const end = offset + size;
+
+    switch (type) {
+      case ChunkType.STRING_POOL:
+        pool = readStringPool(buffer, offset);
+        break;
+
+      case ChunkType.XML_RESOURCE_MAP:
+        resourceIds = [];
+        for (let position = offset + headerSize; position + 4 <= offset + size; position += 4) {
+          resourceIds.push(buffer.readUInt32LE(position));
+        }
+        break;
+
+      case ChunkType.XML_START_NAMESPACE: {
+        checkRange(offset + 16, 8, end, 'namespace');
+        const prefix = str(buffer.readUInt32LE(offset + 16));
+        const uri = str(buffer.readUInt32LE(offset + 20));
+        if (uri && !namespaces.has(uri)) namespaces.set(uri, prefix ?? '');
+        break;
+      }
+
+      case ChunkType.XML_START_ELEMENT: {
+        const body = offset + 16;
+        checkRange(body, 20, end, 'element');
+        const attributeStart = buffer.readUInt16LE(body + 8);
+        const attributeSize = buffer.readUInt16LE(body + 10);
+        const attributeCount = buffer.readUInt16LE(body + 12);
+        const element: AxmlElement = {
+          namespace: str(buffer.readUInt32LE(body)),
+          name: str(buffer.readUInt32LE(body + 4)) ?? '',
+          attributes: [],
+          children: [],
+        };
+
+        for (let i = 0; i < attributeCount; i++) {
+          const position = body + attributeStart + i * attributeSize;
+          checkRange(position, 20, end, 'attribute');
+          const nameIndex = buffer.readUInt32LE(position + 4);
+          const resourceId = resourceIds[nameIndex];
+          let name = str(nameIndex) ?? '';
+          if (!name && resourceId !== undefined) {
+            name = ANDROID_ATTRIBUTE_NAMES[resourceId] ?? `attr_0x${resourceId.toString(16)}`;
+          }
+          element.attributes.push({
+            namespace: str(buffer.readUInt32LE(position)),
+            name,
+            resourceId,
+            rawValue: str(buffer.readUInt32LE(position + 8)),
+            type: buffer[position + 15],
+            data: buffer.readUInt32LE(position + 16),
+          });
+        }
+
+        if (stack.length > 0) {
+          stack[stack.length - 1].children.push(element);
+        } else if (!root) {
+          root = element;
+        }
+        stack.push(element);
+        break;
+      }
+
+      case ChunkType.XML_END_ELEMENT:
+        stack.pop();
+        break;
+
+      case ChunkType.XML_CDATA: {
+        checkRange(offset + 16, 4, end, 'text');
+        const text = str(buffer.readUInt32LE(offset + 16));
+        if (text !== null && stack.length > 0) {
+          stack[stack.length - 1].children.push({ text });
+        }
+        break;
+      }
+
+      default:
+        // End-namespace and unknown chunks carry nothing we need
+        break;
+    }
+
+    offset += size;
+  }
+
+  if (!root) {
+    throw new AxmlError('Binary XML document has no root element');
+  }
+  return { namespaces, root };
+}
+
+function formatFloat(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(Number(value.toPrecision(7)));
+}
+
+function complexToFloat(data: number): number {
+  const mantissa = (data & 0xffffff00) | 0;
+  return mantissa * RADIX_MULTIPLIERS[(data >> 4) & 0x3];
+}
+
+function hex(value: number, width = 8): string {
+  return value.toString(16).padStart(width, '0');
+}
+
+// Render a typed attribute value the way it would appear in source XML
+export function formatAttributeValue(attribute: AxmlAttribute, options: AxmlFormatOptions = {}): string {
+  const { type, data, name } = attribute;
+  const signed = data | 0;
+
+  switch (type) {
+    case ValueType.STRING:
+      return attribute.rawValue ?? '';
+    case ValueType.NULL:
+      return data === 1 ? '@empty' : '@null';
+    case ValueType.REFERENCE:
+      if (data === 0) return '@null';
+      return options.resolveReference?.(data) ?? `@0x${hex(data)}`;
+    case ValueType.ATTRIBUTE: {
+      const resolved = options.resolveReference?.(data);
+      return resolved ? `?${resolved.slice(1)}` : `?0x${hex(data)}`;
+    }
+    case ValueType.FLOAT:
+      return formatFloat(Buffer.from(Uint32Array.of(data).buffer).readFloatLE(0));
+    case ValueType.DIMENSION:
+      return formatFloat(complexToFloat(data)) + (DIMENSION_UNITS[data & 0xf] ?? '');
+    case ValueType.FRACTION:
+      return formatFloat(complexToFloat(data) * 100) + (FRACTION_UNITS[data & 0xf] ?? '');
+    case ValueType.INT_HEX:
+      return `0x${hex(data)}`;
+    case ValueType.INT_BOOLEAN:
+      return data !== 0 ? 'true' : 'false';
+    case ValueType.INT_COLOR_ARGB8:
+      return `#${hex(data)}`;
+    case ValueType.INT_COLOR_RGB8:
+      return `#${hex(data & 0xffffff, 6)}`;
+    case ValueType.INT_COLOR_ARGB4:
+      return `#${hex(((data >>> 28) << 12) | (((data >>> 20) & 0xf) << 8) | (((data >>> 12) & 0xf) << 4) | ((data >>> 4) & 0xf), 4)}`;
+    case ValueType.INT_COLOR_RGB4:
+      return `#${hex((((data >>> 20) & 0xf) << 8) | (((data >>> 12) & 0xf) << 4) | ((data >>> 4) & 0xf), 3)}`;
+    case ValueType.INT_DEC:
+      return ENUM_VALUES[name]?.[signed] ?? String(signed);
+    default:
+      // Keep whatever the build wrote if the typed value is unknown
+      return attribute.rawValue ?? `0x${hex(data)}`;
+  }
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function unescapeXml(value: string): string {
+  return value.replace(/&(lt|gt|quot|apos|amp|#x[0-9a-f]+|#\d+);/gi, (_match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'amp': return '&';
+    }
+    return entity[1] === 'x' || entity[1] === 'X'
+      ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+      : String.fromCodePoint(parseInt(entity.slice(1), 10));
+  });
+}
+
+// Render a parsed document as indented source XML
+export function formatAxml(document: AxmlDocument, options: AxmlFormatOptions = {}): string {
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>'];
+
+  const qualify = (namespace: string | null, name: string) => {
+    if (!namespace) return name;
+    const prefix = document.namespaces.get(namespace);
+    return prefix ? `${prefix}:${name}` : name;
+  };
+
+  const render = (element: AxmlElement, depth: number, isRoot: boolean) => {
+    const indent = '    '.repeat(depth);
+    const tag = qualify(element.namespace, element.name);
+    const attributes: string[] = [];
+
+    if (isRoot) {
+      document.namespaces.forEach((prefix, uri) => {
+        attributes.push(`xmlns${prefix ? `:${prefix}` : ''}="${escapeXml(uri)}"`);
+      });
+    }
+    for (const attribute of element.attributes) {
+      const value = formatAttributeValue(attribute, options);
+      attributes.push(`${qualify(attribute.namespace, attribute.name)}="${escapeXml(value)}"`);
+    }
+
+    const open = attributes.length <= 1
+      ? `${indent}<${tag}${attributes.map(attribute => ` ${attribute}`).join('')}`
+      : `${indent}<${tag}\n${attributes.map(attribute => `${indent}    ${attribute}`).join('\n')}`;
+
+    if (element.children.length === 0) {
+      lines.push(`${open} />`);
+      return;
+    }
+
+    const onlyText = element.children.every(child => 'text' in child);
+    if (onlyText) {
+      const text = element.children.map(child => escapeXml((child as { text: string }).text)).join('');
+      lines.push(`${open}>${text}</${tag}>`);
+      return;
+    }
+
+    lines.push(`${open}>`);
+    for (const child of element.children) {
+      if ('text' in child) {
+        if (child.text.trim()) lines.push(`${indent}    ${escapeXml(child.text.trim())}`);
+      } else {
+        render(child, depth + 1, false);
+      }
+    }
+    lines.push(`${indent}</${tag}>`);
+  };
+
+  render(document.root, 0, true);
+  return lines.join('\n') + '\n';
+}
+
+export function decodeAxml(buffer: Buffer, options: AxmlFormatOptions = {}): string {
+  return formatAxml(parseAxml(buffer), options);
+}
+
+// The handful of manifest fields the IDE shows about an app
+export function readManifestInfo(document: AxmlDocument): {
+  packageName?: string;
+  versionName?: string;
+  versionCode?: string;
+  minSdkVersion?: string;
+  targetSdkVersion?: string;
+} {
+  const attribute = (element: AxmlElement | undefined, name: string) => {
+    const found = element?.attributes.find(candidate => candidate.name === name);
+    return found ? formatAttributeValue(found) : undefined;
+  };
+  const usesSdk = document.root.children.find(
+    (child): child is AxmlElement => 'name' in child && child.name === 'uses-sdk',
+  );
+
+  return {
+    packageName: attribute(document.root, 'package'),
+    versionName: attribute(document.root, 'versionName'),
+    versionCode: attribute(document.root, 'versionCode'),
+    minSdkVersion: attribute(usesSdk, 'minSdkVersion'),
+    targetSdkVersion: attribute(usesSdk, 'targetSdkVersion'),
+  };
+}
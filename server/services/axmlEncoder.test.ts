@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { ANDROID_NS, AxmlError, decodeAxml, parseAxml, readManifestInfo, ValueType, type AxmlElement } from "./axml";
+import { encodeAxml } from "./axmlEncoder";
+import { MANIFEST_SOURCE } from "./testing/apkFixtures";
+
+const manifest = encodeAxml(MANIFEST_SOURCE);
+
+function findElement(root: AxmlElement, name: string): AxmlElement | undefined {
+  if (root.name === name) return root;
+  for (const child of root.children) {
+    const found = "name" in child ? findElement(child, name) : undefined;
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function element(root: AxmlElement, name: string): AxmlElement {
+  const found = findElement(root, name);
+  if (!found) throw new Error(`No <${name}>`);
+  return found;
+}
+
+function attribute(root: AxmlElement, elementName: string, name: string) {
+  return element(root, elementName).attributes.find(attribute => attribute.name === name);
+}
+
+function encodeError(source: string): AxmlError {
+  try {
+    encodeAxml(source);
+  } catch (error) {
+    if (error instanceof AxmlError) return error;
+    throw error;
+  }
+  throw new Error("encodeAxml accepted the source");
+}
+
+describe("encodeAxml", () => {
+  it("encodes attributes with framework ids and typed values", () => {
+    const { root, namespaces } = parseAxml(manifest);
+    expect(namespaces).toEqual(new Map([[ANDROID_NS, "android"]]));
+    expect(attribute(root, "manifest", "package")).toMatchObject({ namespace: null, rawValue: "com.example.app", type: ValueType.STRING });
+    expect(attribute(root, "manifest", "versionCode")).toMatchObject({ namespace: ANDROID_NS, resourceId: 0x0101021b, type: ValueType.INT_DEC, data: 3 });
+    expect(attribute(root, "manifest", "versionName")).toMatchObject({ resourceId: 0x0101021c, rawValue: "1.2", type: ValueType.STRING });
+    expect(attribute(root, "application", "label")).toMatchObject({ type: ValueType.REFERENCE, data: 0x7f010000 });
+    expect(attribute(root, "application", "allowBackup")).toMatchObject({ type: ValueType.INT_BOOLEAN, data: 0xffffffff });
+    // The framework looks attributes up by id, so they are sorted by it
+    const ids = element(root, "application").attributes.map(attribute => attribute.resourceId!);
+    expect(ids).toEqual([...ids].sort((a, b) => a - b));
+  });
+
+  // Only the source line numbers in the chunk headers differ
+  it("re-encodes its own decoded output to the same document", () => {
+    const decoded = decodeAxml(manifest);
+    const reencoded = encodeAxml(decoded, { original: parseAxml(manifest) });
+    expect(reencoded.length).toBe(manifest.length);
+    expect(parseAxml(reencoded)).toEqual(parseAxml(manifest));
+    expect(decodeAxml(reencoded)).toBe(decoded);
+  });
+
+  it("keeps edits and leaves the other attributes alone", () => {
+    const decoded = decodeAxml(manifest).replace('android:versionName="1.2"', 'android:versionName="2.0-beta"');
+    const edited = parseAxml(encodeAxml(decoded, { original: parseAxml(manifest) }));
+    expect(readManifestInfo(edited)).toMatchObject({ versionName: "2.0-beta", versionCode: "3", packageName: "com.example.app" });
+    expect(attribute(edited.root, "activity", "exported")).toEqual(attribute(parseAxml(manifest).root, "activity", "exported"));
+  });
+
+  it("resolves named references through the resource ids", () => {
+    const source = MANIFEST_SOURCE.replace('android:label="@0x7f010000"', 'android:label="@string/app_name"');
+    const { root } = parseAxml(encodeAxml(source, { resourceIds: new Map([["string/app_name", 0x7f010000]]) }));
+    expect(attribute(root, "application", "label")).toMatchObject({ type: ValueType.REFERENCE, data: 0x7f010000 });
+    expect(encodeError(source).message).toBe("Line 8: Unknown resource @string/app_name");
+  });
+
+  it.each([
+    ["an unknown android attribute", '<manifest xmlns:android="http://schemas.android.com/apk/res/android">\n<application android:nope="1" /></manifest>', /^Line 2: unknown attribute android:nope$/],
+    ["an undeclared prefix", '<manifest>\n<application tools:ignore="x" /></manifest>', /^Line 2: unknown namespace prefix "tools"$/],
+    ["a framework reference by name", '<manifest xmlns:android="http://schemas.android.com/apk/res/android" android:theme="@android:style/Theme" />', /cannot be resolved; use its numeric id/],
+    ["unclosed elements", "<manifest>\n<application>", /^Line 2: /],
+  ])("refuses %s", (_name, source, message) => {
+    expect(encodeError(source).message).toMatch(message);
+  });
+});
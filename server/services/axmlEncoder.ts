@@ -0,0 +1,454 @@
+import {
+  ANDROID_ATTRIBUTE_NAMES,
+  ANDROID_NS,
+  AxmlError,
+  ChunkType,
+  ENUM_VALUES,
+  ValueType,
+  formatAttributeValue,
+  unescapeXml,
+  writeStringPool,
+  type AxmlDocument,
+  type AxmlElement,
+  type AxmlFormatOptions,
+} from "./axml";
+import { parseColor, parseDimension, type ResValue } from "./arsc";
+
+// Encoder from source XML back to binary XML, used when a decoded manifest or
+// layout was edited. Attribute ids and value types are taken from the original
+// document where possible, so untouched attributes encode exactly as the
+// build tools wrote them.
+
+export interface AxmlEncodeOptions {
+  // The document the source was decoded from, and how it was formatted
+  original?: AxmlDocument;
+  format?: AxmlFormatOptions;
+  // `type/name` -> resource id, for `@type/name` references and app attributes
+  resourceIds?: Map<string, number>;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Array<{ name: string; value: string }>;
+  children: XmlNode[];
+  line: number;
+}
+
+type XmlNode = XmlElement | { text: string; line: number };
+
+interface EncodedAttribute {
+  namespace: string | null;
+  name: string;
+  resourceId?: number;
+  raw: string | null;
+  value: ResValue;
+}
+
+interface EncodedElement {
+  namespace: string | null;
+  name: string;
+  attributes: EncodedAttribute[];
+  children: Array<EncodedElement | { text: string; line: number }>;
+  line: number;
+}
+
+const NO_INDEX = 0xffffffff;
+
+// Attributes whose values are always strings, even when they look like numbers
+const STRING_ATTRIBUTES = new Set([
+  'package',
+  'name',
+  'versionName',
+  'authorities',
+  'process',
+  'taskAffinity',
+  'permission',
+  'readPermission',
+  'writePermission',
+  'sharedUserId',
+  'targetPackage',
+  'scheme',
+  'host',
+  'port',
+  'path',
+  'pathPrefix',
+  'pathPattern',
+  'mimeType',
+  'compileSdkVersionCodename',
+  'platformBuildVersionName',
+]);
+
+const ANDROID_ATTRIBUTE_IDS = new Map(
+  Object.entries(ANDROID_ATTRIBUTE_NAMES).map(([id, name]) => [name, Number(id)]),
+);
+
+// Sticky patterns, matched at an exact position of the source
+const STICKY_TAG = new RegExp('<([^\\s/>]+)', 'y');
+const STICKY_ATTRIBUTE = new RegExp('\\s*([^\\s=/>]+)\\s*=\\s*(?:"([^"]*)"|\'([^\']*)\')', 'y');
+const STICKY_TAG_END = new RegExp('\\s*(/?)>', 'y');
+
+// A small, forgiving XML parser: elements, attributes, text, comments and
+// CDATA. Good enough for manifests and layouts, which use nothing else.
+export function parseXmlText(source: string): XmlElement {
+  let position = 0;
+  let line = 1;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+
+  const fail = (message: string): never => {
+    throw new AxmlError(`Line ${line}: ${message}`);
+  };
+  const advance = (to: number) => {
+    for (let i = position; i < to; i++) {
+      if (source.charCodeAt(i) === 10) line++;
+    }
+    position = to;
+  };
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end < 0) fail(`unterminated ${what}`);
+    advance(end + terminator.length);
+  };
+
+  while (position < source.length) {
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position);
+      if (end < 0) fail('unterminated CDATA section');
+      if (stack.length === 0) fail('text outside the root element');
+      stack[stack.length - 1].children.push({ text: source.slice(position + 9, end), line });
+      advance(end + 3);
+    } else if (source.startsWith('<?', position)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', position)) {
+      skipPast('>', 'declaration');
+    } else if (source.startsWith('</', position)) {
+      const end = source.indexOf('>', position);
+      if (end < 0) fail('unterminated closing tag');
+      const name = source.slice(position + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected </${name}>`);
+      advance(end + 1);
+    } else if (source[position] === '<') {
+      STICKY_TAG.lastIndex = position;
+      const name = (STICKY_TAG.exec(source) ?? fail('malformed tag'))[1];
+      const element: XmlElement = { name, attributes: [], children: [], line };
+
+      let cursor = STICKY_TAG.lastIndex;
+      for (;;) {
+        STICKY_ATTRIBUTE.lastIndex = cursor;
+        const match = STICKY_ATTRIBUTE.exec(source);
+        if (!match) break;
+        element.attributes.push({ name: match[1], value: unescapeXml(match[2] ?? match[3]) });
+        cursor = STICKY_ATTRIBUTE.lastIndex;
+      }
+
+      STICKY_TAG_END.lastIndex = cursor;
+      const selfClosing = (STICKY_TAG_END.exec(source) ?? fail(`malformed tag <${name}>`))[1] === '/';
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('document has more than one root element');
+      } else {
+        root = element;
+      }
+      advance(STICKY_TAG_END.lastIndex);
+      if (!selfClosing) stack.push(element);
+    } else {
+      const next = source.indexOf('<', position);
+      const end = next < 0 ? source.length : next;
+      const text = unescapeXml(source.slice(position, end));
+      if (text.trim()) {
+        if (stack.length === 0) fail('text outside the root element');
+        stack[stack.length - 1].children.push({ text, line });
+      }
+      advance(end);
+    }
+  }
+
+  if (stack.length > 0) fail(`<${stack[stack.length - 1].name}> is never closed`);
+  return root ?? fail('document has no root element');
+}
+
+function float32Bits(value: number): number {
+  const buffer = Buffer.alloc(4);
+  buffer.writeFloatLE(value, 0);
+  return buffer.readUInt32LE(0);
+}
+
+// `@type/name`, `?attr/name`, `@0x7f…` and friends; undefined for plain text
+function encodeReference(text: string, resourceIds: Map<string, number>): ResValue | undefined {
+  if (text === '@null') return { type: ValueType.REFERENCE, data: 0 };
+  if (text === '@empty') return { type: ValueType.NULL, data: 1 };
+
+  const hex = /^([@?])0x([0-9a-f]{1,8})$/i.exec(text);
+  if (hex) {
+    return { type: hex[1] === '@' ? ValueType.REFERENCE : ValueType.ATTRIBUTE, data: parseInt(hex[2], 16) >>> 0 };
+  }
+
+  const named = /^([@?])\+?(?:([\w.]+):)?(?:([\w-]+)\/)?([\w.]+)$/.exec(text);
+  if (!named || (named[1] === '@' && !named[3])) return undefined;
+  const [, sigil, pkg, type, name] = named;
+  if (pkg === 'android') {
+    throw new AxmlError(`Framework resource ${text} cannot be resolved; use its numeric id (@0x01…)`);
+  }
+  const key = `${type ?? 'attr'}/${name}`;
+  const id = resourceIds.get(key);
+  if (id === undefined) {
+    throw new AxmlError(`Unknown resource ${text}`);
+  }
+  return { type: sigil === '@' ? ValueType.REFERENCE : ValueType.ATTRIBUTE, data: id };
+}
+
+// Guess the typed value for text that did not come from the original document
+function inferValue(name: string, text: string): ResValue | undefined {
+  if (text === 'true' || text === 'false') {
+    return { type: ValueType.INT_BOOLEAN, data: text === 'true' ? 0xffffffff : 0 };
+  }
+  const enumValues = ENUM_VALUES[name];
+  const enumValue = enumValues && Object.entries(enumValues).find(([, label]) => label === text);
+  if (enumValue) {
+    return { type: ValueType.INT_DEC, data: Number(enumValue[0]) >>> 0 };
+  }
+  if (/^-?\d+$/.test(text) && Math.abs(Number(text)) <= 0xffffffff) {
+    return { type: ValueType.INT_DEC, data: Number(text) >>> 0 };
+  }
+  if (/^0x[0-9a-f]{1,8}$/i.test(text)) {
+    return { type: ValueType.INT_HEX, data: parseInt(text, 16) >>> 0 };
+  }
+  if (/^-?\d*\.\d+$/.test(text)) {
+    return { type: ValueType.FLOAT, data: float32Bits(parseFloat(text)) };
+  }
+  return parseColor(text) ?? parseDimension(text);
+}
+
+function chunk(type: number, line: number, body: Buffer): Buffer {
+  const header = Buffer.alloc(16);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(16, 2);
+  header.writeUInt32LE(16 + body.length, 4);
+  header.writeUInt32LE(line, 8);
+  header.writeUInt32LE(NO_INDEX, 12);
+  return Buffer.concat([header, body]);
+}
+
+// Compile source XML into a binary XML document
+export function encodeAxml(source: string, options: AxmlEncodeOptions = {}): Buffer {
+  const root = parseXmlText(source);
+  const resourceIds = options.resourceIds ?? new Map<string, number>();
+
+  // Everything the original document can tell us about its attributes
+  const originalIds = new Map<string, number>();
+  const originalValues = new Map<string, { raw: string | null; value: ResValue }>();
+  const nonStringNames = new Set<string>();
+  const stringNames = new Set<string>();
+  const learn = (element: AxmlElement) => {
+    for (const attribute of element.attributes) {
+      const key = `${attribute.namespace ?? ''}|${attribute.name}`;
+      if (attribute.resourceId !== undefined) originalIds.set(key, attribute.resourceId);
+      const text = formatAttributeValue(attribute, options.format);
+      if (!originalValues.has(`${key}|${text}`)) {
+        originalValues.set(`${key}|${text}`, {
+          raw: attribute.rawValue,
+          value: { type: attribute.type, data: attribute.data },
+        });
+      }
+      (attribute.type === ValueType.STRING ? stringNames : nonStringNames).add(key);
+    }
+    element.children.forEach(child => 'name' in child && learn(child));
+  };
+  if (options.original) learn(options.original.root);
+
+  // xmlns declarations anywhere in the document apply to all of it
+  const namespaces = new Map<string, string>();
+  const collectNamespaces = (element: XmlElement) => {
+    for (const attribute of element.attributes) {
+      if (attribute.name === 'xmlns' || attribute.name.startsWith('xmlns:')) {
+        namespaces.set(attribute.name.slice(6), attribute.value);
+      }
+    }
+    element.children.forEach(child => 'name' in child && collectNamespaces(child));
+  };
+  collectNamespaces(root);
+
+  const qualify = (qualifiedName: string, line: number, isAttribute: boolean) => {
+    const colon = qualifiedName.indexOf(':');
+    if (colon < 0) {
+      // Unprefixed attributes have no namespace; unprefixed elements use the default one
+      return { namespace: isAttribute ? null : namespaces.get('') ?? null, name: qualifiedName };
+    }
+    const prefix = qualifiedName.slice(0, colon);
+    const namespace = namespaces.get(prefix);
+    if (namespace === undefined) {
+      throw new AxmlError(`Line ${line}: unknown namespace prefix "${prefix}"`);
+    }
+    return { namespace, name: qualifiedName.slice(colon + 1) };
+  };
+
+  const encodeAttribute = (name: string, text: string, line: number): EncodedAttribute => {
+    const qualified = qualify(name, line, true);
+    const key = `${qualified.namespace ?? ''}|${qualified.name}`;
+
+    const stripped = /^attr_0x([0-9a-f]+)$/i.exec(qualified.name);
+    let resourceId = stripped ? parseInt(stripped[1], 16) : originalIds.get(key);
+    if (resourceId === undefined && qualified.namespace === ANDROID_NS) {
+      resourceId = ANDROID_ATTRIBUTE_IDS.get(qualified.name);
+      if (resourceId === undefined) {
+        throw new AxmlError(`Line ${line}: unknown attribute android:${qualified.name}`);
+      }
+    } else if (resourceId === undefined && qualified.namespace) {
+      resourceId = resourceIds.get(`attr/${qualified.name}`);
+    }
+
+    const original = originalValues.get(`${key}|${text}`);
+    if (original) {
+      return { ...qualified, resourceId, raw: original.raw, value: { ...original.value } };
+    }
+
+    let value: ResValue | undefined;
+    try {
+      value = encodeReference(text.trim(), resourceIds);
+    } catch (error) {
+      throw new AxmlError(`Line ${line}: ${error instanceof Error ? error.message : error}`);
+    }
+    const alwaysString = STRING_ATTRIBUTES.has(qualified.name) || (stringNames.has(key) && !nonStringNames.has(key));
+    if (!value && !alwaysString) {
+      value = inferValue(qualified.name, text.trim());
+    }
+    return value
+      ? { ...qualified, resourceId, raw: null, value }
+      : { ...qualified, resourceId, raw: text, value: { type: ValueType.STRING, data: 0 } };
+  };
+
+  const encodeElement = (element: XmlElement): EncodedElement => {
+    const attributes = element.attributes
+      .filter(attribute => attribute.name !== 'xmlns' && !attribute.name.startsWith('xmlns:'))
+      .map(attribute => encodeAttribute(attribute.name, attribute.value, element.line));
+
+    // Attributes with ids first, sorted by id (the framework relies on it), then the rest
+    attributes.sort((a, b) => {
+      if (a.resourceId !== undefined && b.resourceId !== undefined) return a.resourceId - b.resourceId;
+      if (a.resourceId !== undefined) return -1;
+      if (b.resourceId !== undefined) return 1;
+      return (a.namespace ?? '').localeCompare(b.namespace ?? '') || a.name.localeCompare(b.name);
+    });
+
+    return {
+      ...qualify(element.name, element.line, false),
+      attributes,
+      children: element.children.map(child => ('name' in child ? encodeElement(child) : child)),
+      line: element.line,
+    };
+  };
+
+  const document = encodeElement(root);
+
+  // String pool: attribute names with resource ids come first, in the order
+  // of the resource map
+  const strings: string[] = [];
+  const resourceMap: number[] = [];
+  const idNameIndex = new Map<string, number>();
+  const plainIndex = new Map<string, number>();
+  const collectIds = (element: EncodedElement) => {
+    for (const attribute of element.attributes) {
+      if (attribute.resourceId === undefined) continue;
+      const key = `${attribute.resourceId}|${attribute.name}`;
+      if (idNameIndex.has(key)) continue;
+      idNameIndex.set(key, strings.length);
+      strings.push(attribute.name);
+      resourceMap.push(attribute.resourceId);
+    }
+    element.children.forEach(child => 'name' in child && collectIds(child));
+  };
+  collectIds(document);
+
+  const intern = (value: string | null): number => {
+    if (value === null) return NO_INDEX;
+    let index = plainIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      plainIndex.set(value, index);
+    }
+    return index;
+  };
+  const attributeName = (attribute: EncodedAttribute) =>
+    attribute.resourceId !== undefined ? idNameIndex.get(`${attribute.resourceId}|${attribute.name}`)! : intern(attribute.name);
+
+  const chunks: Buffer[] = [];
+  const namespaceEntries = Array.from(namespaces.entries()).filter(([prefix]) => prefix !== '');
+  const namespaceBody = (prefix: string, uri: string) => {
+    const body = Buffer.alloc(8);
+    body.writeUInt32LE(intern(prefix), 0);
+    body.writeUInt32LE(intern(uri), 4);
+    return body;
+  };
+  for (const [prefix, uri] of namespaceEntries) {
+    chunks.push(chunk(ChunkType.XML_START_NAMESPACE, root.line, namespaceBody(prefix, uri)));
+  }
+
+  const writeElement = (element: EncodedElement) => {
+    const namespace = element.namespace === null ? NO_INDEX : intern(element.namespace);
+    const name = intern(element.name);
+    const body = Buffer.alloc(20 + element.attributes.length * 20);
+    body.writeUInt32LE(namespace, 0);
+    body.writeUInt32LE(name, 4);
+    body.writeUInt16LE(20, 8);
+    body.writeUInt16LE(20, 10);
+    body.writeUInt16LE(element.attributes.length, 12);
+    const specialIndex = (special: string) =>
+      element.attributes.findIndex(attribute => attribute.namespace === null && attribute.name === special) + 1;
+    body.writeUInt16LE(specialIndex('id'), 14);
+    body.writeUInt16LE(specialIndex('class'), 16);
+    body.writeUInt16LE(specialIndex('style'), 18);
+
+    element.attributes.forEach((attribute, i) => {
+      const position = 20 + i * 20;
+      const raw = intern(attribute.raw);
+      body.writeUInt32LE(attribute.namespace === null ? NO_INDEX : intern(attribute.namespace), position);
+      body.writeUInt32LE(attributeName(attribute), position + 4);
+      body.writeUInt32LE(raw, position + 8);
+      body.writeUInt16LE(8, position + 12);
+      body[position + 15] = attribute.value.type;
+      body.writeUInt32LE(attribute.value.type === ValueType.STRING ? raw : attribute.value.data >>> 0, position + 16);
+    });
+    chunks.push(chunk(ChunkType.XML_START_ELEMENT, element.line, body));
+
+    for (const child of element.children) {
+      if ('name' in child) {
+        writeElement(child);
+      } else {
+        const text = Buffer.alloc(12);
+        text.writeUInt32LE(intern(child.text), 0);
+        text.writeUInt16LE(8, 4);
+        chunks.push(chunk(ChunkType.XML_CDATA, child.line, text));
+      }
+    }
+
+    const end = Buffer.alloc(8);
+    end.writeUInt32LE(namespace, 0);
+    end.writeUInt32LE(name, 4);
+    chunks.push(chunk(ChunkType.XML_END_ELEMENT, element.line, end));
+  };
+  writeElement(document);
+
+  for (const [prefix, uri] of namespaceEntries.reverse()) {
+    chunks.push(chunk(ChunkType.XML_END_NAMESPACE, root.line, namespaceBody(prefix, uri)));
+  }
+
+  const pool = writeStringPool(strings, false);
+  const map = Buffer.alloc(8 + resourceMap.length * 4);
+  map.writeUInt16LE(ChunkType.XML_RESOURCE_MAP, 0);
+  map.writeUInt16LE(8, 2);
+  map.writeUInt32LE(map.length, 4);
+  resourceMap.forEach((id, i) => map.writeUInt32LE(id, 8 + i * 4));
+
+  const header = Buffer.alloc(8);
+  const body = Buffer.concat([pool, map, ...chunks]);
+  header.writeUInt16LE(ChunkType.XML, 0);
+  header.writeUInt16LE(8, 2);
+  header.writeUInt32LE(8 + body.length, 4);
+  return Buffer.concat([header, body]);
+}
@@ -0,0 +1,167 @@
+// Just enough DER to build X.509 certificates and PKCS#7 signatures, and to
+// pull fields back out of them.
+
+export class DerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DerError';
+  }
+}
+
+export const Tag = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+export interface DerNode {
+  tag: number;
+  // The whole encoding, header included
+  raw: Buffer;
+  content: Buffer;
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+export function encode(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export function sequence(...items: Buffer[]): Buffer {
+  return encode(Tag.SEQUENCE, Buffer.concat(items));
+}
+
+export function set(...items: Buffer[]): Buffer {
+  return encode(Tag.SET, Buffer.concat(items));
+}
+
+// Context-specific constructed tag, e.g. [0] EXPLICIT or an IMPLICIT SET
+export function contextTag(number: number, content: Buffer): Buffer {
+  return encode(0xa0 | number, content);
+}
+
+export function integer(value: number | Buffer): Buffer {
+  let bytes: Buffer;
+  if (typeof value === 'number') {
+    const digits: number[] = [];
+    for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+      digits.unshift(remaining & 0xff);
+    }
+    bytes = Buffer.from(digits.length > 0 ? digits : [0]);
+  } else {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    bytes = value.subarray(start);
+  }
+  // Keep the value positive
+  if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  return encode(Tag.INTEGER, bytes);
+}
+
+export function nullValue(): Buffer {
+  return Buffer.from([Tag.NULL, 0]);
+}
+
+export function objectIdentifier(oid: string): Buffer {
+  const parts = oid.split('.').map(Number);
+  const bytes = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const encoded = [part & 0x7f];
+    for (let remaining = Math.floor(part / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      encoded.unshift(0x80 | (remaining & 0x7f));
+    }
+    bytes.push(...encoded);
+  }
+  return encode(Tag.OBJECT_IDENTIFIER, Buffer.from(bytes));
+}
+
+export function octetString(content: Buffer): Buffer {
+  return encode(Tag.OCTET_STRING, content);
+}
+
+export function bitString(content: Buffer): Buffer {
+  return encode(Tag.BIT_STRING, Buffer.concat([Buffer.from([0]), content]));
+}
+
+export function printableString(value: string): Buffer {
+  return encode(Tag.PRINTABLE_STRING, Buffer.from(value, 'latin1'));
+}
+
+export function utf8String(value: string): Buffer {
+  return encode(Tag.UTF8_STRING, Buffer.from(value, 'utf8'));
+}
+
+// X.509 wants UTCTime through 2049 and GeneralizedTime after
+export function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  return date.getUTCFullYear() < 2050
+    ? encode(Tag.UTC_TIME, Buffer.from(iso.slice(2), 'latin1'))
+    : encode(Tag.GENERALIZED_TIME, Buffer.from(iso, 'latin1'));
+}
+
+export function algorithmIdentifier(oid: string, withNullParameters = true): Buffer {
+  return withNullParameters ? sequence(objectIdentifier(oid), nullValue()) : sequence(objectIdentifier(oid));
+}
+
+// Decode the element at `offset`
+export function decode(buffer: Buffer, offset = 0): DerNode {
+  if (offset + 2 > buffer.length) throw new DerError('Truncated DER element');
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const byteCount = length & 0x7f;
+    if (byteCount === 0 || byteCount > 4) throw new DerError('Unsupported DER length');
+    length = 0;
+    for (let i = 0; i < byteCount; i++) {
+      length = length * 256 + buffer[offset + 2 + i];
+    }
+    headerLength += byteCount;
+  }
+  const end = offset + headerLength + length;
+  if (end > buffer.length) throw new DerError('Truncated DER element');
+  return { tag, raw: buffer.subarray(offset, end), content: buffer.subarray(offset + headerLength, end) };
+}
+
+// The elements inside a constructed value
+export function children(node: DerNode): DerNode[] {
+  const result: DerNode[] = [];
+  for (let offset = 0; offset < node.content.length;) {
+    const child = decode(node.content, offset);
+    result.push(child);
+    offset += child.raw.length;
+  }
+  return result;
+}
+
+export function readObjectIdentifier(node: DerNode): string {
+  if (node.tag !== Tag.OBJECT_IDENTIFIER || node.content.length === 0) {
+    throw new DerError('Expected an OBJECT IDENTIFIER');
+  }
+  const parts = [Math.floor(node.content[0] / 40), node.content[0] % 40];
+  let value = 0;
+  for (let i = 1; i < node.content.length; i++) {
+    const byte = node.content[i];
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
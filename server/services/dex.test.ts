@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { DexError, disassemble, parseDex, readCode, renderSmali } from "./dex";
+import { buildDex, corruptions } from "./testing/apkFixtures";
+
+const dex = buildDex();
+
+describe("parseDex", () => {
+  it("reads classes, fields and methods", () => {
+    const parsed = parseDex(dex);
+    expect(parsed.version).toBe("035");
+    expect(parsed.classes).toHaveLength(1);
+    const [activity] = parsed.classes;
+    expect(activity).toMatchObject({
+      descriptor: "Lcom/example/app/MainActivity;",
+      superclass: "Landroid/app/Activity;",
+      interfaces: [],
+      sourceFile: "MainActivity.java",
+      instanceFields: [],
+    });
+    expect(activity.staticFields).toEqual([{
+      field: { class: "Lcom/example/app/MainActivity;", type: "I", name: "VERSION" },
+      accessFlags: 0x19,
+      initialValue: "0x3",
+    }]);
+    expect([...activity.directMethods, ...activity.virtualMethods].map(method => method.method.name)).toEqual(["<init>", "greet"]);
+
+    const greet = readCode(parsed, activity.virtualMethods[0].codeOffset);
+    expect(greet).toMatchObject({ registers: 3, ins: 1, outs: 2, tries: [] });
+    expect(disassemble(greet).map(instruction => instruction.name)).toEqual(["const-string", "const-string", "invoke-static", "return-void"]);
+  });
+});
+
+describe("renderSmali", () => {
+  it("disassembles a class to smali", () => {
+    const parsed = parseDex(dex);
+    expect(renderSmali(parsed, parsed.classes[0])).toBe([
+      ".class public Lcom/example/app/MainActivity;",
+      ".super Landroid/app/Activity;",
+      '.source "MainActivity.java"',
+      "",
+      "",
+      "# static fields",
+      ".field public static final VERSION:I = 0x3",
+      "",
+      "",
+      "# direct methods",
+      ".method public constructor <init>()V",
+      "    .registers 1",
+      "",
+      "    invoke-direct {p0}, Landroid/app/Activity;-><init>()V",
+      "",
+      "    return-void",
+      ".end method",
+      "",
+      "",
+      "# virtual methods",
+      ".method public greet()V",
+      "    .registers 3",
+      "",
+      '    const-string v0, "MainActivity"',
+      "",
+      '    const-string v1, "Hola desde smali"',
+      "",
+      "    invoke-static {v0, v1}, Landroid/util/Log;->i(Ljava/lang/String;Ljava/lang/String;)I",
+      "",
+      "    return-void",
+      ".end method",
+      "",
+    ].join("\n"));
+  });
+});
+
+describe("corrupt DEX files", () => {
+  it.each([
+    ["a truncated header", dex.subarray(0, 0x40)],
+    ["a file cut short", dex.subarray(0, 0x100)],
+  ])("refuses %s", (_name, input) => {
+    expect(() => parseDex(input)).toThrow(DexError);
+  });
+
+  it("refuses code that starts past the end of the file", () => {
+    const parsed = parseDex(dex);
+    expect(() => readCode(parsed, dex.length - 4)).toThrow(new DexError(`Code at offset ${dex.length - 4} extends past the end of the file`));
+  });
+
+  it("throws only DexError for corrupt files", () => {
+    for (const input of corruptions(dex, 1000)) {
+      try {
+        const parsed = parseDex(input);
+        for (const cls of parsed.classes) {
+          renderSmali(parsed, cls);
+          for (const method of [...cls.directMethods, ...cls.virtualMethods]) {
+            if (method.codeOffset) disassemble(readCode(parsed, method.codeOffset));
+          }
+        }
+      } catch (error) {
+        expect(error).toBeInstanceOf(DexError);
+      }
+    }
+  });
+});
@@ -0,0 +1,965 @@
+// Parser and disassembler for Dalvik executables (classes*.dex). Only reads:
+// the tables are decoded up front, method bodies are disassembled on demand
+// into smali-like text for auditing.
+
+export class DexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DexError';
+  }
+}
+
+const HEADER_SIZE = 0x70;
+const ENDIAN_CONSTANT = 0x12345678;
+const NO_INDEX = 0xffffffff;
+
+const PACKED_SWITCH_PAYLOAD = 0x0100;
+const SPARSE_SWITCH_PAYLOAD = 0x0200;
+const FILL_ARRAY_DATA_PAYLOAD = 0x0300;
+
+export interface DexProto {
+  parameters: string[];
+  returnType: string;
+}
+
+export interface DexFieldRef {
+  class: string;
+  type: string;
+  name: string;
+}
+
+export interface DexMethodRef extends DexProto {
+  class: string;
+  name: string;
+}
+
+export interface DexField {
+  field: DexFieldRef;
+  accessFlags: number;
+  // Smali literal of the static initial value, when the class declares one
+  initialValue?: string;
+}
+
+export interface DexMethod {
+  method: DexMethodRef;
+  accessFlags: number;
+  // Offset of the code_item; 0 for abstract and native methods
+  codeOffset: number;
+}
+
+export interface DexClass {
+  descriptor: string;
+  accessFlags: number;
+  superclass: string | null;
+  interfaces: string[];
+  sourceFile: string | null;
+  staticFields: DexField[];
+  instanceFields: DexField[];
+  directMethods: DexMethod[];
+  virtualMethods: DexMethod[];
+}
+
+export interface DexFile {
+  buffer: Buffer;
+  // "035" to "041"
+  version: string;
+  strings: string[];
+  types: string[];
+  protos: DexProto[];
+  fields: DexFieldRef[];
+  methods: DexMethodRef[];
+  classes: DexClass[];
+}
+
+export interface DexTry {
+  start: number;
+  end: number;
+  // `type` is null for catch-all handlers
+  handlers: Array<{ type: string | null; address: number }>;
+}
+
+export interface DexCode {
+  registers: number;
+  ins: number;
+  outs: number;
+  // Instruction stream in 16-bit code units
+  insns: Uint16Array;
+  tries: DexTry[];
+}
+
+// Sequential reader for the variable-length parts of the file
+class Cursor {
+  constructor(private buffer: Buffer, public offset: number) {}
+
+  u8(): number {
+    if (this.offset >= this.buffer.length) throw new DexError(`Truncated data at offset ${this.offset}`);
+    return this.buffer[this.offset++];
+  }
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  uleb128(): number {
+    let result = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.u8();
+      result |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result >>> 0;
+    }
+    throw new DexError(`Invalid uleb128 at offset ${this.offset}`);
+  }
+
+  sleb128(): number {
+    let result = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.u8();
+      result |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        const bits = shift + 7;
+        return bits < 32 ? (result << (32 - bits)) >> (32 - bits) : result | 0;
+      }
+    }
+    throw new DexError(`Invalid sleb128 at offset ${this.offset}`);
+  }
+
+  // Little-endian integer of `size` bytes
+  bytes(size: number): bigint {
+    let value = BigInt(0);
+    for (let index = 0; index < size; index++) {
+      value |= BigInt(this.u8()) << BigInt(8 * index);
+    }
+    return value;
+  }
+}
+
+export function isDex(buffer: Buffer): boolean {
+  return buffer.length >= HEADER_SIZE && /^dex\n0\d\d\0$/.test(buffer.toString('latin1', 0, 8));
+}
+
+// Strings are stored as MUTF-8: surrogate pairs are encoded separately and
+// NUL as two bytes, which decodes naturally unit by unit
+function readMutf8(buffer: Buffer, offset: number): string {
+  const cursor = new Cursor(buffer, offset);
+  const length = cursor.uleb128();
+  // Every unit takes at least one byte
+  if (length > cursor.remaining) throw new DexError(`Truncated string at offset ${offset}`);
+  const units = new Array<number>(length);
+  for (let index = 0; index < length; index++) {
+    const a = cursor.u8();
+    if (a < 0x80) {
+      units[index] = a;
+    } else if ((a & 0xe0) === 0xc0) {
+      units[index] = ((a & 0x1f) << 6) | (cursor.u8() & 0x3f);
+    } else if ((a & 0xf0) === 0xe0) {
+      const b = cursor.u8();
+      units[index] = ((a & 0x0f) << 12) | ((b & 0x3f) << 6) | (cursor.u8() & 0x3f);
+    } else {
+      throw new DexError(`Invalid MUTF-8 string at offset ${offset}`);
+    }
+  }
+
+  let result = '';
+  for (let index = 0; index < units.length; index += 0x2000) {
+    result += String.fromCharCode(...units.slice(index, index + 0x2000));
+  }
+  return result;
+}
+
+// Throw unless `length` bytes at `offset` lie within the file
+function checkRange(buffer: Buffer, offset: number, length: number, what: string) {
+  if (offset < 0 || length < 0 || offset + length > buffer.length) {
+    throw new DexError(`${what} at offset ${offset} extends past the end of the file`);
+  }
+}
+
+function readTypeList(buffer: Buffer, offset: number, types: string[]): string[] {
+  if (offset === 0) return [];
+  checkRange(buffer, offset, 4, 'Type list');
+  const size = buffer.readUInt32LE(offset);
+  checkRange(buffer, offset + 4, size * 2, 'Type list');
+  const list: string[] = [];
+  for (let index = 0; index < size; index++) {
+    list.push(lookup(types, buffer.readUInt16LE(offset + 4 + index * 2), 'type'));
+  }
+  return list;
+}
+
+function lookup<T>(table: T[], index: number, kind: string): T {
+  const value = table[index];
+  if (value === undefined) throw new DexError(`${kind} index ${index} out of range`);
+  return value;
+}
+
+export function parseDex(buffer: Buffer): DexFile {
+  if (!isDex(buffer)) {
+    throw new DexError('Not a DEX file');
+  }
+  if (buffer.readUInt32LE(0x28) !== ENDIAN_CONSTANT) {
+    throw new DexError('Unsupported byte order');
+  }
+
+  return readTables(buffer);
+}
+
+function readTables(buffer: Buffer): DexFile {
+  const section = (headerOffset: number, itemSize: number) => {
+    const size = buffer.readUInt32LE(headerOffset);
+    const offset = buffer.readUInt32LE(headerOffset + 4);
+    if (size > 0) checkRange(buffer, offset, size * itemSize, 'Section');
+    return { size, offset };
+  };
+
+  const stringIds = section(0x38, 4);
+  const strings: string[] = [];
+  for (let index = 0; index < stringIds.size; index++) {
+    strings.push(readMutf8(buffer, buffer.readUInt32LE(stringIds.offset + index * 4)));
+  }
+
+  const typeIds = section(0x40, 4);
+  const types: string[] = [];
+  for (let index = 0; index < typeIds.size; index++) {
+    types.push(lookup(strings, buffer.readUInt32LE(typeIds.offset + index * 4), 'string'));
+  }
+
+  const protoIds = section(0x48, 12);
+  const protos: DexProto[] = [];
+  for (let index = 0; index < protoIds.size; index++) {
+    const item = protoIds.offset + index * 12;
+    protos.push({
+      returnType: lookup(types, buffer.readUInt32LE(item + 4), 'type'),
+      parameters: readTypeList(buffer, buffer.readUInt32LE(item + 8), types),
+    });
+  }
+
+  const fieldIds = section(0x50, 8);
+  const fields: DexFieldRef[] = [];
+  for (let index = 0; index < fieldIds.size; index++) {
+    const item = fieldIds.offset + index * 8;
+    fields.push({
+      class: lookup(types, buffer.readUInt16LE(item), 'type'),
+      type: lookup(types, buffer.readUInt16LE(item + 2), 'type'),
+      name: lookup(strings, buffer.readUInt32LE(item + 4), 'string'),
+    });
+  }
+
+  const methodIds = section(0x58, 8);
+  const methods: DexMethodRef[] = [];
+  for (let index = 0; index < methodIds.size; index++) {
+    const item = methodIds.offset + index * 8;
+    const proto = lookup(protos, buffer.readUInt16LE(item + 2), 'proto');
+    methods.push({
+      class: lookup(types, buffer.readUInt16LE(item), 'type'),
+      name: lookup(strings, buffer.readUInt32LE(item + 4), 'string'),
+      parameters: proto.parameters,
+      returnType: proto.returnType,
+    });
+  }
+
+  const dex: DexFile = {
+    buffer,
+    version: buffer.toString('latin1', 4, 7),
+    strings,
+    types,
+    protos,
+    fields,
+    methods,
+    classes: [],
+  };
+
+  const classDefs = section(0x60, 32);
+  for (let index = 0; index < classDefs.size; index++) {
+    dex.classes.push(readClassDef(dex, classDefs.offset + index * 32));
+  }
+  return dex;
+}
+
+function readClassDef(dex: DexFile, item: number): DexClass {
+  const { buffer } = dex;
+  const superclassIndex = buffer.readUInt32LE(item + 8);
+  const sourceFileIndex = buffer.readUInt32LE(item + 16);
+  const cls: DexClass = {
+    descriptor: lookup(dex.types, buffer.readUInt32LE(item), 'type'),
+    accessFlags: buffer.readUInt32LE(item + 4),
+    superclass: superclassIndex === NO_INDEX ? null : lookup(dex.types, superclassIndex, 'type'),
+    interfaces: readTypeList(buffer, buffer.readUInt32LE(item + 12), dex.types),
+    sourceFile: sourceFileIndex === NO_INDEX ? null : lookup(dex.strings, sourceFileIndex, 'string'),
+    staticFields: [],
+    instanceFields: [],
+    directMethods: [],
+    virtualMethods: [],
+  };
+
+  const classDataOffset = buffer.readUInt32LE(item + 24);
+  if (classDataOffset !== 0) {
+    const cursor = new Cursor(buffer, classDataOffset);
+    const staticCount = cursor.uleb128();
+    const instanceCount = cursor.uleb128();
+    const directCount = cursor.uleb128();
+    const virtualCount = cursor.uleb128();
+
+    // Member indices are delta-encoded within each list
+    const readFields = (count: number, target: DexField[]) => {
+      let fieldIndex = 0;
+      for (let index = 0; index < count; index++) {
+        fieldIndex += cursor.uleb128();
+        target.push({ field: lookup(dex.fields, fieldIndex, 'field'), accessFlags: cursor.uleb128() });
+      }
+    };
+    const readMethods = (count: number, target: DexMethod[]) => {
+      let methodIndex = 0;
+      for (let index = 0; index < count; index++) {
+        methodIndex += cursor.uleb128();
+        target.push({
+          method: lookup(dex.methods, methodIndex, 'method'),
+          accessFlags: cursor.uleb128(),
+          codeOffset: cursor.uleb128(),
+        });
+      }
+    };
+    readFields(staticCount, cls.staticFields);
+    readFields(instanceCount, cls.instanceFields);
+    readMethods(directCount, cls.directMethods);
+    readMethods(virtualCount, cls.virtualMethods);
+  }
+
+  // Initial values cover a prefix of the static fields, in declaration order
+  const staticValuesOffset = buffer.readUInt32LE(item + 28);
+  if (staticValuesOffset !== 0) {
+    const cursor = new Cursor(buffer, staticValuesOffset);
+    const count = cursor.uleb128();
+    for (let index = 0; index < count; index++) {
+      const value = readEncodedValue(dex, cursor);
+      if (index < cls.staticFields.length) cls.staticFields[index].initialValue = value;
+    }
+  }
+  return cls;
+}
+
+// encoded_value, rendered as a smali literal
+function readEncodedValue(dex: DexFile, cursor: Cursor): string {
+  const header = cursor.u8();
+  const type = header & 0x1f;
+  const arg = header >> 5;
+  const signed = (bits: number) => BigInt.asIntN(bits, cursor.bytes(arg + 1));
+  const index = () => Number(cursor.bytes(arg + 1));
+
+  switch (type) {
+    case 0x00: return `${formatHex(BigInt.asIntN(8, cursor.bytes(1)))}t`;
+    case 0x02: return `${formatHex(signed((arg + 1) * 8))}s`;
+    case 0x03: return formatChar(Number(cursor.bytes(arg + 1)));
+    case 0x04: return formatHex(signed((arg + 1) * 8));
+    case 0x06: return `${formatHex(signed((arg + 1) * 8))}L`;
+    case 0x10: {
+      // Floating point values keep their high-order bytes
+      const bits = Number(cursor.bytes(arg + 1) << BigInt(8 * (3 - arg)));
+      const raw = Buffer.alloc(4);
+      raw.writeUInt32LE(bits >>> 0);
+      return `${formatFloat(raw.readFloatLE(0))}f`;
+    }
+    case 0x11: {
+      const bits = cursor.bytes(arg + 1) << BigInt(8 * (7 - arg));
+      const raw = Buffer.alloc(8);
+      raw.writeBigUInt64LE(bits);
+      return formatFloat(raw.readDoubleLE(0));
+    }
+    case 0x15: return formatProto(lookup(dex.protos, index(), 'proto'));
+    case 0x16: return `method_handle@${index()}`;
+    case 0x17: return formatString(lookup(dex.strings, index(), 'string'));
+    case 0x18: return lookup(dex.types, index(), 'type');
+    case 0x19: return formatFieldRef(lookup(dex.fields, index(), 'field'));
+    case 0x1a: return formatMethodRef(lookup(dex.methods, index(), 'method'));
+    case 0x1b: return `.enum ${formatFieldRef(lookup(dex.fields, index(), 'field'))}`;
+    case 0x1c: {
+      const count = cursor.uleb128();
+      const values: string[] = [];
+      for (let item = 0; item < count; item++) values.push(readEncodedValue(dex, cursor));
+      return `{${values.join(', ')}}`;
+    }
+    case 0x1d: {
+      const annotationType = lookup(dex.types, cursor.uleb128(), 'type');
+      const count = cursor.uleb128();
+      const elements: string[] = [];
+      for (let item = 0; item < count; item++) {
+        const name = lookup(dex.strings, cursor.uleb128(), 'string');
+        elements.push(`${name} = ${readEncodedValue(dex, cursor)}`);
+      }
+      return `${annotationType}(${elements.join(', ')})`;
+    }
+    case 0x1e: return 'null';
+    case 0x1f: return arg ? 'true' : 'false';
+    default:
+      throw new DexError(`Unknown encoded value type 0x${type.toString(16)}`);
+  }
+}
+
+export function readCode(dex: DexFile, offset: number): DexCode {
+  const { buffer } = dex;
+  checkRange(buffer, offset, 16, 'Code');
+  const insnsSize = buffer.readUInt32LE(offset + 12);
+  const insnsStart = offset + 16;
+  checkRange(buffer, insnsStart, insnsSize * 2, 'Code');
+  const insns = new Uint16Array(insnsSize);
+  for (let index = 0; index < insnsSize; index++) {
+    insns[index] = buffer.readUInt16LE(insnsStart + index * 2);
+  }
+
+  const triesSize = buffer.readUInt16LE(offset + 6);
+  const tries: DexTry[] = [];
+  if (triesSize > 0) {
+    // try_items are 4-byte aligned after the instructions
+    const triesStart = insnsStart + insnsSize * 2 + (insnsSize % 2) * 2;
+    const handlersStart = triesStart + triesSize * 8;
+    checkRange(buffer, triesStart, triesSize * 8, 'Try block');
+    for (let index = 0; index < triesSize; index++) {
+      const item = triesStart + index * 8;
+      const start = buffer.readUInt32LE(item);
+      const cursor = new Cursor(buffer, handlersStart + buffer.readUInt16LE(item + 6));
+      const size = cursor.sleb128();
+      const handlers: DexTry['handlers'] = [];
+      for (let handler = 0; handler < Math.abs(size); handler++) {
+        const type = lookup(dex.types, cursor.uleb128(), 'type');
+        handlers.push({ type, address: cursor.uleb128() });
+      }
+      if (size <= 0) handlers.push({ type: null, address: cursor.uleb128() });
+      tries.push({ start, end: start + buffer.readUInt16LE(item + 4), handlers });
+    }
+  }
+
+  return {
+    registers: buffer.readUInt16LE(offset),
+    ins: buffer.readUInt16LE(offset + 2),
+    outs: buffer.readUInt16LE(offset + 4),
+    insns,
+    tries,
+  };
+}
+
+// Instruction formats, named as in the Dalvik bytecode reference
+type Format =
+  | '10x' | '12x' | '11n' | '11x' | '10t' | '20t' | '22x' | '21t' | '21s' | '21h' | '21c'
+  | '23x' | '22b' | '22t' | '22s' | '22c' | '30t' | '32x' | '31i' | '31t' | '31c'
+  | '35c' | '3rc' | '45cc' | '4rcc' | '51l';
+
+type IndexType = 'string' | 'type' | 'field' | 'method' | 'proto' | 'call_site' | 'method_handle';
+
+interface Opcode {
+  name: string;
+  format: Format;
+  index?: IndexType;
+}
+
+const FORMAT_UNITS: Record<Format, number> = {
+  '10x': 1, '12x': 1, '11n': 1, '11x': 1, '10t': 1,
+  '20t': 2, '22x': 2, '21t': 2, '21s': 2, '21h': 2, '21c': 2, '23x': 2, '22b': 2, '22t': 2, '22s': 2, '22c': 2,
+  '30t': 3, '32x': 3, '31i': 3, '31t': 3, '31c': 3, '35c': 3, '3rc': 3,
+  '45cc': 4, '4rcc': 4,
+  '51l': 5,
+};
+
+const OPCODES: Array<Opcode | undefined> = new Array(256);
+
+function define(first: number, format: Format, names: string[], index?: IndexType) {
+  names.forEach((name, offset) => {
+    OPCODES[first + offset] = { name, format, index };
+  });
+}
+
+const ARRAY_SUFFIXES = ['', '-wide', '-object', '-boolean', '-byte', '-char', '-short'];
+const BINARY_OPERATIONS = [
+  ...['add', 'sub', 'mul', 'div', 'rem', 'and', 'or', 'xor', 'shl', 'shr', 'ushr'].map(name => `${name}-int`),
+  ...['add', 'sub', 'mul', 'div', 'rem', 'and', 'or', 'xor', 'shl', 'shr', 'ushr'].map(name => `${name}-long`),
+  ...['add', 'sub', 'mul', 'div', 'rem'].map(name => `${name}-float`),
+  ...['add', 'sub', 'mul', 'div', 'rem'].map(name => `${name}-double`),
+];
+
+define(0x00, '10x', ['nop']);
+define(0x01, '12x', ['move']);
+define(0x02, '22x', ['move/from16']);
+define(0x03, '32x', ['move/16']);
+define(0x04, '12x', ['move-wide']);
+define(0x05, '22x', ['move-wide/from16']);
+define(0x06, '32x', ['move-wide/16']);
+define(0x07, '12x', ['move-object']);
+define(0x08, '22x', ['move-object/from16']);
+define(0x09, '32x', ['move-object/16']);
+define(0x0a, '11x', ['move-result', 'move-result-wide', 'move-result-object', 'move-exception']);
+define(0x0e, '10x', ['return-void']);
+define(0x0f, '11x', ['return', 'return-wide', 'return-object']);
+define(0x12, '11n', ['const/4']);
+define(0x13, '21s', ['const/16']);
+define(0x14, '31i', ['const']);
+define(0x15, '21h', ['const/high16']);
+define(0x16, '21s', ['const-wide/16']);
+define(0x17, '31i', ['const-wide/32']);
+define(0x18, '51l', ['const-wide']);
+define(0x19, '21h', ['const-wide/high16']);
+define(0x1a, '21c', ['const-string'], 'string');
+define(0x1b, '31c', ['const-string/jumbo'], 'string');
+define(0x1c, '21c', ['const-class'], 'type');
+define(0x1d, '11x', ['monitor-enter', 'monitor-exit']);
+define(0x1f, '21c', ['check-cast'], 'type');
+define(0x20, '22c', ['instance-of'], 'type');
+define(0x21, '12x', ['array-length']);
+define(0x22, '21c', ['new-instance'], 'type');
+define(0x23, '22c', ['new-array'], 'type');
+define(0x24, '35c', ['filled-new-array'], 'type');
+define(0x25, '3rc', ['filled-new-array/range'], 'type');
+define(0x26, '31t', ['fill-array-data']);
+define(0x27, '11x', ['throw']);
+define(0x28, '10t', ['goto']);
+define(0x29, '20t', ['goto/16']);
+define(0x2a, '30t', ['goto/32']);
+define(0x2b, '31t', ['packed-switch', 'sparse-switch']);
+define(0x2d, '23x', ['cmpl-float', 'cmpg-float', 'cmpl-double', 'cmpg-double', 'cmp-long']);
+define(0x32, '22t', ['if-eq', 'if-ne', 'if-lt', 'if-ge', 'if-gt', 'if-le']);
+define(0x38, '21t', ['if-eqz', 'if-nez', 'if-ltz', 'if-gez', 'if-gtz', 'if-lez']);
+define(0x44, '23x', [...ARRAY_SUFFIXES.map(suffix => `aget${suffix}`), ...ARRAY_SUFFIXES.map(suffix => `aput${suffix}`)]);
+define(0x52, '22c', [...ARRAY_SUFFIXES.map(suffix => `iget${suffix}`), ...ARRAY_SUFFIXES.map(suffix => `iput${suffix}`)], 'field');
+define(0x60, '21c', [...ARRAY_SUFFIXES.map(suffix => `sget${suffix}`), ...ARRAY_SUFFIXES.map(suffix => `sput${suffix}`)], 'field');
+define(0x6e, '35c', ['invoke-virtual', 'invoke-super', 'invoke-direct', 'invoke-static', 'invoke-interface'], 'method');
+define(0x74, '3rc', ['invoke-virtual/range', 'invoke-super/range', 'invoke-direct/range', 'invoke-static/range', 'invoke-interface/range'], 'method');
+define(0x7b, '12x', [
+  'neg-int', 'not-int', 'neg-long', 'not-long', 'neg-float', 'neg-double',
+  'int-to-long', 'int-to-float', 'int-to-double', 'long-to-int', 'long-to-float', 'long-to-double',
+  'float-to-int', 'float-to-long', 'float-to-double', 'double-to-int', 'double-to-long', 'double-to-float',
+  'int-to-byte', 'int-to-char', 'int-to-short',
+]);
+define(0x90, '23x', BINARY_OPERATIONS);
+define(0xb0, '12x', BINARY_OPERATIONS.map(name => `${name}/2addr`));
+define(0xd0, '22s', ['add-int/lit16', 'rsub-int', 'mul-int/lit16', 'div-int/lit16', 'rem-int/lit16', 'and-int/lit16', 'or-int/lit16', 'xor-int/lit16']);
+define(0xd8, '22b', [
+  'add-int/lit8', 'rsub-int/lit8', 'mul-int/lit8', 'div-int/lit8', 'rem-int/lit8', 'and-int/lit8',
+  'or-int/lit8', 'xor-int/lit8', 'shl-int/lit8', 'shr-int/lit8', 'ushr-int/lit8',
+]);
+define(0xfa, '45cc', ['invoke-polymorphic'], 'method');
+define(0xfb, '4rcc', ['invoke-polymorphic/range'], 'method');
+define(0xfc, '35c', ['invoke-custom'], 'call_site');
+define(0xfd, '3rc', ['invoke-custom/range'], 'call_site');
+define(0xfe, '21c', ['const-method-handle'], 'method_handle');
+define(0xff, '21c', ['const-method-type'], 'proto');
+
+type Operand =
+  | { kind: 'register'; register: number }
+  | { kind: 'list'; registers: number[] }
+  | { kind: 'range'; first: number; count: number }
+  | { kind: 'literal'; value: bigint; suffix: '' | 'L' }
+  | { kind: 'target'; address: number }
+  | { kind: 'index'; type: IndexType; index: number };
+
+type Payload =
+  | { kind: 'packed-switch'; firstKey: number; targets: number[] }
+  | { kind: 'sparse-switch'; keys: number[]; targets: number[] }
+  | { kind: 'array-data'; width: number; values: bigint[] };
+
+export interface DexInstruction {
+  address: number;
+  // Length in code units
+  size: number;
+  opcode: number;
+  name: string;
+  operands: Operand[];
+  // Set on the pseudo-instructions that hold switch tables and array data
+  payload?: Payload;
+}
+
+const s8 = (value: number) => (value << 24) >> 24;
+const s16 = (value: number) => (value << 16) >> 16;
+const s4 = (value: number) => (value << 28) >> 28;
+
+export function decodeInstruction(insns: Uint16Array, address: number): DexInstruction {
+  const unit = (offset: number) => {
+    if (address + offset >= insns.length) throw new DexError(`Truncated instruction at 0x${address.toString(16)}`);
+    return insns[address + offset];
+  };
+  const first = unit(0);
+  const opcode = first & 0xff;
+  const high = first >> 8;
+
+  if (opcode === 0x00 && high !== 0) {
+    const decoded = decodePayload(first, unit);
+    if (decoded) {
+      return { address, size: decoded.size, opcode, name: decoded.payload.kind, operands: [], payload: decoded.payload };
+    }
+  }
+
+  const definition = OPCODES[opcode];
+  if (!definition) {
+    return { address, size: 1, opcode, name: `unused-${opcode.toString(16).padStart(2, '0')}`, operands: [] };
+  }
+
+  const register = (value: number): Operand => ({ kind: 'register', register: value });
+  const literal = (value: number | bigint, suffix: '' | 'L' = ''): Operand => ({ kind: 'literal', value: BigInt(value), suffix });
+  const target = (offset: number): Operand => ({ kind: 'target', address: address + offset });
+  const index = (value: number): Operand => ({ kind: 'index', type: definition.index!, index: value });
+  const wide = definition.name.startsWith('const-wide');
+  const u32 = (offset: number) => (unit(offset) | (unit(offset + 1) << 16)) >>> 0;
+
+  let operands: Operand[];
+  switch (definition.format) {
+    case '10x': operands = []; break;
+    case '12x': operands = [register(high & 0xf), register(high >> 4)]; break;
+    case '11n': operands = [register(high & 0xf), literal(s4(high >> 4))]; break;
+    case '11x': operands = [register(high)]; break;
+    case '10t': operands = [target(s8(high))]; break;
+    case '20t': operands = [target(s16(unit(1)))]; break;
+    case '22x': operands = [register(high), register(unit(1))]; break;
+    case '21t': operands = [register(high), target(s16(unit(1)))]; break;
+    case '21s': operands = [register(high), literal(s16(unit(1)), wide ? 'L' : '')]; break;
+    case '21h':
+      operands = [register(high), wide
+        ? literal(BigInt.asIntN(64, BigInt(unit(1)) << BigInt(48)), 'L')
+        : literal((unit(1) << 16) | 0)];
+      break;
+    case '21c': operands = [register(high), index(unit(1))]; break;
+    case '23x': operands = [register(high), register(unit(1) & 0xff), register(unit(1) >> 8)]; break;
+    case '22b': operands = [register(high), register(unit(1) & 0xff), literal(s8(unit(1) >> 8))]; break;
+    case '22t': operands = [register(high & 0xf), register(high >> 4), target(s16(unit(1)))]; break;
+    case '22s': operands = [register(high & 0xf), register(high >> 4), literal(s16(unit(1)))]; break;
+    case '22c': operands = [register(high & 0xf), register(high >> 4), index(unit(1))]; break;
+    case '30t': operands = [target(u32(1) | 0)]; break;
+    case '32x': operands = [register(unit(1)), register(unit(2))]; break;
+    case '31i': operands = [register(high), literal(u32(1) | 0, wide ? 'L' : '')]; break;
+    case '31t': operands = [register(high), target(u32(1) | 0)]; break;
+    case '31c': operands = [register(high), index(u32(1))]; break;
+    case '35c':
+    case '45cc': {
+      const count = high >> 4;
+      const packed = unit(2);
+      const registers = [packed & 0xf, (packed >> 4) & 0xf, (packed >> 8) & 0xf, packed >> 12, high & 0xf].slice(0, count);
+      operands = [{ kind: 'list', registers }, index(unit(1))];
+      if (definition.format === '45cc') operands.push({ kind: 'index', type: 'proto', index: unit(3) });
+      break;
+    }
+    case '3rc':
+    case '4rcc':
+      operands = [{ kind: 'range', first: unit(2), count: high }, index(unit(1))];
+      if (definition.format === '4rcc') operands.push({ kind: 'index', type: 'proto', index: unit(3) });
+      break;
+    case '51l': {
+      let value = BigInt(0);
+      for (let offset = 0; offset < 4; offset++) value |= BigInt(unit(1 + offset)) << BigInt(16 * offset);
+      operands = [register(high), literal(BigInt.asIntN(64, value), 'L')];
+      break;
+    }
+  }
+
+  return { address, size: FORMAT_UNITS[definition.format], opcode, name: definition.name, operands };
+}
+
+function decodePayload(ident: number, unit: (offset: number) => number): { size: number; payload: Payload } | undefined {
+  const u32 = (offset: number) => (unit(offset) | (unit(offset + 1) << 16)) >>> 0;
+  switch (ident) {
+    case PACKED_SWITCH_PAYLOAD: {
+      const count = unit(1);
+      const targets: number[] = [];
+      for (let index = 0; index < count; index++) targets.push(u32(4 + index * 2) | 0);
+      return { size: 4 + count * 2, payload: { kind: 'packed-switch', firstKey: u32(2) | 0, targets } };
+    }
+    case SPARSE_SWITCH_PAYLOAD: {
+      const count = unit(1);
+      const keys: number[] = [];
+      const targets: number[] = [];
+      for (let index = 0; index < count; index++) {
+        keys.push(u32(2 + index * 2) | 0);
+        targets.push(u32(2 + count * 2 + index * 2) | 0);
+      }
+      return { size: 2 + count * 4, payload: { kind: 'sparse-switch', keys, targets } };
+    }
+    case FILL_ARRAY_DATA_PAYLOAD: {
+      const width = unit(1);
+      const count = u32(2);
+      const byteAt = (offset: number) => (unit(4 + (offset >> 1)) >> ((offset & 1) * 8)) & 0xff;
+      const values: bigint[] = [];
+      for (let index = 0; index < count; index++) {
+        let value = BigInt(0);
+        for (let byte = 0; byte < width; byte++) value |= BigInt(byteAt(index * width + byte)) << BigInt(8 * byte);
+        values.push(BigInt.asIntN(width * 8, value));
+      }
+      return { size: 4 + Math.ceil((count * width) / 2), payload: { kind: 'array-data', width, values } };
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function disassemble(code: DexCode): DexInstruction[] {
+  const instructions: DexInstruction[] = [];
+  for (let address = 0; address < code.insns.length;) {
+    const instruction = decodeInstruction(code.insns, address);
+    instructions.push(instruction);
+    address += instruction.size;
+  }
+  return instructions;
+}
+
+// Index of the string referenced by a const-string instruction
+export function constStringIndex(instruction: DexInstruction): number | undefined {
+  if (instruction.opcode !== 0x1a && instruction.opcode !== 0x1b) return undefined;
+  const operand = instruction.operands[1];
+  return operand?.kind === 'index' ? operand.index : undefined;
+}
+
+function formatHex(value: bigint): string {
+  return value < BigInt(0) ? `-0x${(-value).toString(16)}` : `0x${value.toString(16)}`;
+}
+
+function formatFloat(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? 'Infinity' : '-Infinity';
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+function formatChar(code: number): string {
+  return `'${escapeSmali(String.fromCharCode(code), "'")}'`;
+}
+
+export function formatString(value: string): string {
+  return `"${escapeSmali(value, '"')}"`;
+}
+
+function escapeSmali(value: string, quote: string): string {
+  let result = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === quote || char === '\\') result += `\\${char}`;
+    else if (char === '\n') result += '\\n';
+    else if (char === '\r') result += '\\r';
+    else if (char === '\t') result += '\\t';
+    else if (code < 0x20 || code > 0x7e) {
+      for (let index = 0; index < char.length; index++) {
+        result += `\\u${char.charCodeAt(index).toString(16).padStart(4, '0')}`;
+      }
+    } else result += char;
+  }
+  return result;
+}
+
+export function formatProto(proto: DexProto): string {
+  return `(${proto.parameters.join('')})${proto.returnType}`;
+}
+
+export function formatFieldRef(field: DexFieldRef): string {
+  return `${field.class}->${field.name}:${field.type}`;
+}
+
+export function formatMethodRef(method: DexMethodRef): string {
+  return `${method.class}->${method.name}${formatProto(method)}`;
+}
+
+// `Lcom/example/Foo$Bar;` -> `com.example.Foo$Bar`
+export function javaClassName(descriptor: string): string {
+  return descriptor.startsWith('L') && descriptor.endsWith(';')
+    ? descriptor.slice(1, -1).replace(/\//g, '.')
+    : descriptor;
+}
+
+export type AccessFlagTarget = 'class' | 'field' | 'method';
+
+// Flag bits whose meaning depends on what they qualify
+const ACCESS_FLAGS: Array<[number, string, AccessFlagTarget[]]> = [
+  [0x1, 'public', ['class', 'field', 'method']],
+  [0x2, 'private', ['class', 'field', 'method']],
+  [0x4, 'protected', ['class', 'field', 'method']],
+  [0x8, 'static', ['class', 'field', 'method']],
+  [0x10, 'final', ['class', 'field', 'method']],
+  [0x20, 'synchronized', ['method']],
+  [0x40, 'volatile', ['field']],
+  [0x40, 'bridge', ['method']],
+  [0x80, 'transient', ['field']],
+  [0x80, 'varargs', ['method']],
+  [0x100, 'native', ['method']],
+  [0x200, 'interface', ['class']],
+  [0x400, 'abstract', ['class', 'method']],
+  [0x800, 'strictfp', ['method']],
+  [0x1000, 'synthetic', ['class', 'field', 'method']],
+  [0x2000, 'annotation', ['class']],
+  [0x4000, 'enum', ['class', 'field']],
+  [0x10000, 'constructor', ['method']],
+  [0x20000, 'declared-synchronized', ['method']],
+];
+
+export function formatAccessFlags(flags: number, target: AccessFlagTarget): string {
+  return ACCESS_FLAGS
+    .filter(([bit, , targets]) => (flags & bit) !== 0 && targets.includes(target))
+    .map(([, name]) => name)
+    .join(' ');
+}
+
+function formatIndex(dex: DexFile, type: IndexType, index: number): string {
+  switch (type) {
+    case 'string': return formatString(lookup(dex.strings, index, 'string'));
+    case 'type': return lookup(dex.types, index, 'type');
+    case 'field': return formatFieldRef(lookup(dex.fields, index, 'field'));
+    case 'method': return formatMethodRef(lookup(dex.methods, index, 'method'));
+    case 'proto': return formatProto(lookup(dex.protos, index, 'proto'));
+    case 'call_site': return `call_site_${index}`;
+    case 'method_handle': return `method_handle_${index}`;
+  }
+}
+
+// Label prefix for a branch target, by the instruction that jumps there
+function targetPrefix(name: string): string {
+  if (name.startsWith('goto')) return 'goto';
+  if (name.startsWith('if-')) return 'cond';
+  if (name === 'packed-switch') return 'pswitch_data';
+  if (name === 'sparse-switch') return 'sswitch_data';
+  return 'array';
+}
+
+export function renderMethod(dex: DexFile, method: DexMethod): string {
+  const flags = formatAccessFlags(method.accessFlags, 'method');
+  const header = `.method ${flags ? `${flags} ` : ''}${method.method.name}${formatProto(method.method)}`;
+  if (method.codeOffset === 0) return `${header}\n.end method`;
+
+  const code = readCode(dex, method.codeOffset);
+  const instructions = disassemble(code);
+  const firstParameter = code.registers - code.ins;
+  const registerName = (register: number) =>
+    register >= firstParameter ? `p${register - firstParameter}` : `v${register}`;
+
+  // Labels per address, collected before rendering so forward jumps resolve
+  const labels = new Map<number, string[]>();
+  const label = (address: number, prefix: string) => {
+    const name = `:${prefix}_${address.toString(16)}`;
+    const list = labels.get(address) ?? [];
+    if (!list.includes(name)) list.push(name);
+    labels.set(address, list);
+    return name;
+  };
+  const byAddress = new Map(instructions.map(instruction => [instruction.address, instruction]));
+  // Switch targets are relative to the switch instruction, not the payload
+  const switchOrigins = new Map<number, number>();
+
+  for (const instruction of instructions) {
+    for (const operand of instruction.operands) {
+      if (operand.kind !== 'target') continue;
+      label(operand.address, targetPrefix(instruction.name));
+      if (instruction.name.endsWith('-switch')) switchOrigins.set(operand.address, instruction.address);
+    }
+  }
+  for (const instruction of instructions) {
+    const payload = instruction.payload;
+    if (payload?.kind !== 'packed-switch' && payload?.kind !== 'sparse-switch') continue;
+    const origin = switchOrigins.get(instruction.address) ?? instruction.address;
+    const prefix = payload.kind === 'packed-switch' ? 'pswitch' : 'sswitch';
+    for (const offset of payload.targets) label(origin + offset, prefix);
+  }
+  const catches: string[][] = [];
+  for (const entry of code.tries) {
+    const start = label(entry.start, 'try_start');
+    const end = label(entry.end, 'try_end');
+    catches.push(entry.handlers.map(handler =>
+      handler.type
+        ? `.catch ${handler.type} {${start} .. ${end}} ${label(handler.address, 'catch')}`
+        : `.catchall {${start} .. ${end}} ${label(handler.address, 'catchall')}`));
+  }
+
+  const lines = [header, `    .registers ${code.registers}`];
+  // Returns whether anything was written, so the next line can follow directly
+  const emitLabels = (address: number): boolean => {
+    const names = labels.get(address);
+    if (!names) return false;
+    lines.push('');
+    for (const name of names) lines.push(`    ${name}`);
+    code.tries.forEach((entry, index) => {
+      if (entry.end === address) lines.push(...catches[index].map(line => `    ${line}`));
+    });
+    return true;
+  };
+
+  instructions.forEach((instruction, position) => {
+    const labeled = emitLabels(instruction.address);
+    if (!labeled) lines.push('');
+    const payload = instruction.payload;
+    if (payload) {
+      lines.push(...renderPayload(payload, switchOrigins.get(instruction.address) ?? instruction.address));
+      return;
+    }
+    // Payloads are 4-byte aligned with a nop that is not part of the program
+    if (instruction.opcode === 0x00 && instructions[position + 1]?.payload && !labeled) {
+      lines.pop();
+      return;
+    }
+    const operands = instruction.operands.map(operand => {
+      switch (operand.kind) {
+        case 'register': return registerName(operand.register);
+        case 'list': return `{${operand.registers.map(registerName).join(', ')}}`;
+        case 'range':
+          return operand.count === 0 ? '{}' : `{${registerName(operand.first)} .. ${registerName(operand.first + operand.count - 1)}}`;
+        case 'literal': return `${formatHex(operand.value)}${operand.suffix}`;
+        case 'target': return labels.get(operand.address)!.find(name => name.startsWith(`:${targetPrefix(instruction.name)}_`))!;
+        case 'index': return formatIndex(dex, operand.type, operand.index);
+      }
+    });
+    lines.push(`    ${instruction.name}${operands.length > 0 ? ` ${operands.join(', ')}` : ''}`);
+  });
+  // Try blocks can end after the last instruction
+  emitLabels(code.insns.length);
+
+  lines.push('.end method');
+  return lines.join('\n');
+}
+
+function renderPayload(payload: Payload, origin: number): string[] {
+  const target = (prefix: string, offset: number) => `:${prefix}_${(origin + offset).toString(16)}`;
+  switch (payload.kind) {
+    case 'packed-switch':
+      return [
+        `    .packed-switch ${formatHex(BigInt(payload.firstKey))}`,
+        ...payload.targets.map(offset => `        ${target('pswitch', offset)}`),
+        '    .end packed-switch',
+      ];
+    case 'sparse-switch':
+      return [
+        '    .sparse-switch',
+        ...payload.keys.map((key, index) => `        ${formatHex(BigInt(key))} -> ${target('sswitch', payload.targets[index])}`),
+        '    .end sparse-switch',
+      ];
+    case 'array-data':
+      return [
+        `    .array-data ${payload.width}`,
+        ...payload.values.map(value => `        ${formatHex(value)}${payload.width === 8 ? 'L' : ''}`),
+        '    .end array-data',
+      ];
+  }
+}
+
+function renderField(field: DexField): string {
+  const flags = formatAccessFlags(field.accessFlags, 'field');
+  const value = field.initialValue !== undefined ? ` = ${field.initialValue}` : '';
+  return `.field ${flags ? `${flags} ` : ''}${field.field.name}:${field.field.type}${value}`;
+}
+
+// Smali-like text for one class, in the section order baksmali uses
+export function renderSmali(dex: DexFile, cls: DexClass): string {
+  const flags = formatAccessFlags(cls.accessFlags, 'class');
+  const lines = [`.class ${flags ? `${flags} ` : ''}${cls.descriptor}`];
+  if (cls.superclass) lines.push(`.super ${cls.superclass}`);
+  if (cls.sourceFile !== null) lines.push(`.source ${formatString(cls.sourceFile)}`);
+
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    lines.push('', '', `# ${title}`);
+    entries.forEach((entry, index) => {
+      if (index > 0) lines.push('');
+      lines.push(entry);
+    });
+  };
+
+  section('interfaces', cls.interfaces.map(type => `.implements ${type}`));
+  section('static fields', cls.staticFields.map(renderField));
+  section('instance fields', cls.instanceFields.map(renderField));
+  const method = (entry: DexMethod) => {
+    try {
+      return renderMethod(dex, entry);
+    } catch (error) {
+      // One corrupt body should not hide the rest of the class
+      if (!(error instanceof DexError)) throw error;
+      return `# ${entry.method.name}${formatProto(entry.method)}: ${error.message}`;
+    }
+  };
+  section('direct methods', cls.directMethods.map(method));
+  section('virtual methods', cls.virtualMethods.map(method));
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,244 @@
+import { createHash } from "crypto";
+import type { File } from "@shared/schema";
+import { smaliPathForClass, projectPathBasename } from "@shared/paths";
+import { storage } from "../storage";
+import { fileSystemService } from "./fileSystem";
+import { fileHistory } from "./fileHistory";
+import { ApkNotDecompiledError } from "./apkService";
+import {
+  constStringIndex,
+  disassemble,
+  formatAccessFlags,
+  formatProto,
+  javaClassName,
+  parseDex,
+  readCode,
+  renderSmali,
+  DexError,
+  type DexClass,
+  type DexFile,
+} from "./dex";
+
+const DEX_ENTRY = /^classes\d*\.dex$/;
+// Parsed tables of recently inspected projects
+const MAX_CACHED_PROJECTS = 4;
+const DEFAULT_SEARCH_LIMIT = 100;
+
+export interface DexClassSummary {
+  descriptor: string;
+  name: string;
+  dexFile: string;
+  accessFlags: string;
+  superclass: string | null;
+  fields: number;
+  methods: number;
+}
+
+export interface DexClassDetail extends DexClassSummary {
+  interfaces: string[];
+  sourceFile: string | null;
+  fieldList: Array<{ name: string; type: string; accessFlags: string; initialValue?: string }>;
+  methodList: Array<{ name: string; signature: string; accessFlags: string; registers?: number; codeUnits?: number }>;
+  smali: string;
+}
+
+export interface DexStringMatch {
+  dexFile: string;
+  index: number;
+  value: string;
+  // Methods that load the string with const-string
+  usages: Array<{ descriptor: string; method: string }>;
+}
+
+interface LoadedDex {
+  path: string;
+  dex: DexFile;
+  classes: Map<string, DexClass>;
+  // string index -> const-string usages, built on the first search
+  stringUsages?: Map<number, DexStringMatch['usages']>;
+}
+
+interface CacheEntry {
+  signature: string;
+  files: LoadedDex[];
+}
+
+export class DexInspector {
+  private cache = new Map<string, CacheEntry>();
+
+  async listClasses(projectId: string): Promise<DexClassSummary[]> {
+    const files = await this.load(projectId);
+    return files.flatMap(file => file.dex.classes.map(cls => summarize(file, cls)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getClass(projectId: string, descriptor: string): Promise<DexClassDetail | undefined> {
+    const found = this.findClass(await this.load(projectId), descriptor);
+    if (!found) return undefined;
+    const { file, cls } = found;
+
+    const methods = [...cls.directMethods, ...cls.virtualMethods];
+    return {
+      ...summarize(file, cls),
+      interfaces: cls.interfaces,
+      sourceFile: cls.sourceFile,
+      fieldList: [...cls.staticFields, ...cls.instanceFields].map(field => ({
+        name: field.field.name,
+        type: field.field.type,
+        accessFlags: formatAccessFlags(field.accessFlags, 'field'),
+        initialValue: field.initialValue,
+      })),
+      methodList: methods.map(method => {
+        const code = method.codeOffset ? readCode(file.dex, method.codeOffset) : undefined;
+        return {
+          name: method.method.name,
+          signature: formatProto(method.method),
+          accessFlags: formatAccessFlags(method.accessFlags, 'method'),
+          registers: code?.registers,
+          codeUnits: code?.insns.length,
+        };
+      }),
+      smali: renderSmali(file.dex, cls),
+    };
+  }
+
+  // Case-insensitive substring search over every string pool
+  async searchStrings(projectId: string, query: string, limit = DEFAULT_SEARCH_LIMIT): Promise<{ total: number; matches: DexStringMatch[] }> {
+    const needle = query.toLowerCase();
+    const matches: DexStringMatch[] = [];
+    let total = 0;
+    for (const file of await this.load(projectId)) {
+      file.dex.strings.forEach((value, index) => {
+        if (!value.toLowerCase().includes(needle)) return;
+        total++;
+        if (matches.length >= limit) return;
+        matches.push({ dexFile: file.path, index, value, usages: stringUsages(file).get(index) ?? [] });
+      });
+    }
+    return { total, matches };
+  }
+
+  // Write a class's smali into the project as a read-only file, refreshing it
+  // when the DEX changed since it was last opened
+  async openSmali(projectId: string, descriptor: string): Promise<File | undefined> {
+    const found = this.findClass(await this.load(projectId), descriptor);
+    if (!found) return undefined;
+    const smaliPath = smaliPathForClass(found.file.path, descriptor);
+    const content = renderSmali(found.file.dex, found.cls);
+
+    const existing = (await storage.getFilesByProject(projectId)).find(file => file.path === smaliPath);
+    await fileSystemService.createFile(projectId, smaliPath, content);
+    if (existing) {
+      if (existing.content === content) return existing;
+      const updated = await storage.updateFile(existing.id, { content, isModified: false });
+      if (updated) await fileHistory.recordChange(existing, updated, 'user', 'dex_inspector');
+      return updated;
+    }
+
+    const file = await storage.createFile({
+      projectId,
+      path: smaliPath,
+      name: projectPathBasename(smaliPath),
+      content,
+      type: 'smali',
+      isModified: false,
+    });
+    await fileHistory.recordCreated(file, 'user', 'dex_inspector');
+    return file;
+  }
+
+  private findClass(files: LoadedDex[], descriptor: string): { file: LoadedDex; cls: DexClass } | undefined {
+    for (const file of files) {
+      const cls = file.classes.get(descriptor);
+      if (cls) return { file, cls };
+    }
+    return undefined;
+  }
+
+  // The project's DEX files, reparsed only when their bytes change
+  private async load(projectId: string): Promise<LoadedDex[]> {
+    const names = (await fileSystemService.listFiles(projectId))
+      .filter(item => !item.isDirectory && DEX_ENTRY.test(item.name))
+      .map(item => item.name)
+      .sort((a, b) => dexOrder(a) - dexOrder(b));
+    if (names.length === 0) {
+      throw new ApkNotDecompiledError('Project has no classes.dex');
+    }
+
+    const buffers = await Promise.all(names.map(name => fileSystemService.readFileBuffer(projectId, `/${name}`)));
+    const hash = createHash('sha1');
+    names.forEach((name, index) => hash.update(name).update(buffers[index]));
+    const signature = hash.digest('hex');
+
+    const cached = this.cache.get(projectId);
+    if (cached?.signature === signature) return cached.files;
+
+    const files = names.map((name, index) => {
+      const path = `/${name}`;
+      let dex: DexFile;
+      try {
+        dex = parseDex(buffers[index]);
+      } catch (error) {
+        if (error instanceof DexError) throw new DexError(`${name}: ${error.message}`);
+        throw error;
+      }
+      return { path, dex, classes: new Map(dex.classes.map(cls => [cls.descriptor, cls])) };
+    });
+
+    this.cache.delete(projectId);
+    this.cache.set(projectId, { signature, files });
+    if (this.cache.size > MAX_CACHED_PROJECTS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return files;
+  }
+}
+
+// classes.dex first, then classes2.dex, classes3.dex, ...
+function dexOrder(name: string): number {
+  const number = name.match(/^classes(\d*)\.dex$/)?.[1];
+  return number ? Number(number) : 1;
+}
+
+function summarize(file: LoadedDex, cls: DexClass): DexClassSummary {
+  return {
+    descriptor: cls.descriptor,
+    name: javaClassName(cls.descriptor),
+    dexFile: file.path,
+    accessFlags: formatAccessFlags(cls.accessFlags, 'class'),
+    superclass: cls.superclass,
+    fields: cls.staticFields.length + cls.instanceFields.length,
+    methods: cls.directMethods.length + cls.virtualMethods.length,
+  };
+}
+
+function stringUsages(file: LoadedDex): Map<number, DexStringMatch['usages']> {
+  if (file.stringUsages) return file.stringUsages;
+  const usages = new Map<number, DexStringMatch['usages']>();
+  for (const cls of file.dex.classes) {
+    for (const method of [...cls.directMethods, ...cls.virtualMethods]) {
+      if (method.codeOffset === 0) continue;
+      let instructions;
+      try {
+        instructions = disassemble(readCode(file.dex, method.codeOffset));
+      } catch (error) {
+        if (error instanceof DexError) continue;
+        throw error;
+      }
+      const name = `${method.method.name}${formatProto(method.method)}`;
+      for (const instruction of instructions) {
+        const index = constStringIndex(instruction);
+        if (index === undefined) continue;
+        const list = usages.get(index) ?? [];
+        if (!list.some(usage => usage.descriptor === cls.descriptor && usage.method === name)) {
+          list.push({ descriptor: cls.descriptor, method: name });
+        }
+        usages.set(index, list);
+      }
+    }
+  }
+  file.stringUsages = usages;
+  return usages;
+}
+
+export const dexInspector = new DexInspector();
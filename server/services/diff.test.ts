@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "./diff";
+
+// Expected outputs are what `diff -u --label a --label b` prints
+describe("createUnifiedDiff", () => {
+  it("is empty for equal texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+    expect(createUnifiedDiff("", "")).toBe("");
+  });
+
+  it("renders changed lines with context", () => {
+    expect(createUnifiedDiff("1\n2\n3\n4\n5\n6\n7\n8\n9\n", "1\n2\n3\n4\nX\n6\n7\n8\n9\n")).toBe(
+      "--- a\n+++ b\n@@ -2,7 +2,7 @@\n 2\n 3\n 4\n-5\n+X\n 6\n 7\n 8\n",
+    );
+  });
+
+  it("marks a final newline that was removed", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb")).toBe(
+      "--- a\n+++ b\n@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n",
+    );
+  });
+
+  it("marks a final newline that was added", () => {
+    expect(createUnifiedDiff("a\nb", "a\nb\n")).toBe(
+      "--- a\n+++ b\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n",
+    );
+  });
+
+  it("marks context at the end of files without a final newline", () => {
+    expect(createUnifiedDiff("a\nb", "x\nb")).toBe(
+      "--- a\n+++ b\n@@ -1,2 +1,2 @@\n-a\n+x\n b\n\\ No newline at end of file\n",
+    );
+  });
+
+  it("diffs from and to empty texts", () => {
+    expect(createUnifiedDiff("", "a\n")).toBe("--- a\n+++ b\n@@ -0,0 +1 @@\n+a\n");
+    expect(createUnifiedDiff("a", "")).toBe("--- a\n+++ b\n@@ -1 +0,0 @@\n-a\n\\ No newline at end of file\n");
+  });
+});
@@ -0,0 +1,201 @@
+// `line` keeps its trailing newline; only the last line of a text may lack one
+export type DiffOp = { type: 'equal' | 'insert' | 'delete'; line: string };
+
+interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+// Lines keep their "\n", so a last line without one differs from the same
+// text with it, as in diff(1)
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// One line of a hunk; a line that ends its file without a newline is
+// followed by the marker `patch` expects
+function hunkLine(marker: ' ' | '-' | '+', line: string): string {
+  return line.endsWith('\n')
+    ? `${marker}${line.slice(0, -1)}`
+    : `${marker}${line}\n\\ No newline at end of file`;
+}
+
+// Beyond this many edits the middle section is reported as a block replace
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers O(ND) line diff; returns the edit script from `a` to `b`
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const v = new Map<number, number>([[1, 0]]);
+  const trace: Array<Map<number, number>> = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(new Map(v));
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && (v.get(k - 1) ?? -1) < (v.get(k + 1) ?? -1));
+      let x = down ? v.get(k + 1)! : v.get(k - 1)! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v.set(k, x);
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the path
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const down = k === -d || (k !== d && (vd.get(k - 1) ?? -1) < (vd.get(k + 1) ?? -1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = vd.get(prevK) ?? 0;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix never take part in the edit script
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const middle = myers(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((line): DiffOp => ({ type: 'delete', line })),
+    ...newMiddle.map((line): DiffOp => ({ type: 'insert', line })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map((line): DiffOp => ({ type: 'equal', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): DiffOp => ({ type: 'equal', line })),
+  ];
+}
+
+function buildHunks(ops: DiffOp[], context: number): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+  let trailingEqual = 0;
+
+  // Index of the next non-equal op at or after each position
+  const nextChange = new Array<number>(ops.length + 1).fill(Infinity);
+  for (let i = ops.length - 1; i >= 0; i--) {
+    nextChange[i] = ops[i].type === 'equal' ? nextChange[i + 1] : i;
+  }
+
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      if (current) {
+        // Keep the context open only while another change is close enough
+        const gap = nextChange[index] - index;
+        if (trailingEqual < context || gap <= context) {
+          current.lines.push(hunkLine(' ', op.line));
+          current.oldLines++;
+          current.newLines++;
+          trailingEqual++;
+        } else {
+          hunks.push(current);
+          current = null;
+        }
+      }
+      oldLine++;
+      newLine++;
+      return;
+    }
+
+    if (!current) {
+      // Open a hunk with up to `context` preceding equal lines
+      const leading: string[] = [];
+      for (let i = index - 1; i >= 0 && leading.length < context && ops[i].type === 'equal'; i--) {
+        leading.unshift(hunkLine(' ', ops[i].line));
+      }
+      current = {
+        oldStart: oldLine - leading.length,
+        oldLines: leading.length,
+        newStart: newLine - leading.length,
+        newLines: leading.length,
+        lines: leading,
+      };
+    }
+    trailingEqual = 0;
+
+    if (op.type === 'delete') {
+      current.lines.push(hunkLine('-', op.line));
+      current.oldLines++;
+      oldLine++;
+    } else {
+      current.lines.push(hunkLine('+', op.line));
+      current.newLines++;
+      newLine++;
+    }
+  });
+
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+// Render a unified diff (as produced by `diff -u`) between two texts
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {},
+): string {
+  const { fromLabel = 'a', toLabel = 'b', context = 3 } = options;
+  const hunks = buildHunks(diffLines(oldText, newText), context);
+  if (hunks.length === 0) return '';
+
+  const range = (start: number, count: number) =>
+    count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const hunk of hunks) {
+    output.push(`@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`);
+    output.push(...hunk.lines);
+  }
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,111 @@
+import type { File, FileRevision, RevisionAuthor } from "@shared/schema";
+import { storage } from "../storage";
+import { createUnifiedDiff } from "./diff";
+
+// Editor autosaves from the same user within this window are folded into a
+// single revision so typing does not produce one entry per keystroke
+const COALESCE_WINDOW_MS = 60 * 1000;
+
+export class FileHistoryService {
+  // Record the first version of a newly created file
+  async recordCreated(file: File, author: RevisionAuthor, source: string): Promise<FileRevision> {
+    return await storage.createFileRevision({
+      fileId: file.id,
+      projectId: file.projectId,
+      path: file.path,
+      content: file.content,
+      author,
+      source,
+    });
+  }
+
+  // Record a saved change; `previous` is the file as it was before the update
+  async recordChange(previous: File, updated: File, author: RevisionAuthor, source: string): Promise<FileRevision | undefined> {
+    if (previous.content === updated.content && previous.path === updated.path) {
+      return undefined;
+    }
+
+    const revisions = await storage.getFileRevisions(updated.id);
+
+    // Files that predate history tracking get their prior content as a baseline
+    if (revisions.length === 0) {
+      await storage.createFileRevision({
+        fileId: previous.id,
+        projectId: previous.projectId,
+        path: previous.path,
+        content: previous.content,
+        author: 'user',
+        source: 'initial',
+      });
+    }
+
+    const latest = revisions[0];
+    if (
+      latest &&
+      author === 'user' &&
+      source === 'editor' &&
+      latest.author === 'user' &&
+      latest.source === 'editor' &&
+      Date.now() - (latest.createdAt?.getTime() ?? 0) < COALESCE_WINDOW_MS
+    ) {
+      return await storage.updateFileRevision(latest.id, {
+        path: updated.path,
+        content: updated.content,
+      });
+    }
+
+    return await storage.createFileRevision({
+      fileId: updated.id,
+      projectId: updated.projectId,
+      path: updated.path,
+      content: updated.content,
+      author,
+      source,
+    });
+  }
+
+  async listRevisions(fileId: string): Promise<FileRevision[]> {
+    return await storage.getFileRevisions(fileId);
+  }
+
+  // Unified diff between two revisions of a file; "current" stands for the saved file
+  async diff(file: File, fromId: string, toId: string): Promise<string | undefined> {
+    const resolve = async (revisionId: string) => {
+      if (revisionId === 'current') {
+        return { label: `${file.path} (actual)`, content: file.content };
+      }
+      const revision = await storage.getFileRevision(revisionId);
+      if (!revision || revision.fileId !== file.id) return undefined;
+      return {
+        label: `${revision.path} (${revision.createdAt?.toISOString() ?? revision.id})`,
+        content: revision.content,
+      };
+    };
+
+    const from = await resolve(fromId);
+    const to = await resolve(toId);
+    if (!from || !to) return undefined;
+
+    return createUnifiedDiff(from.content, to.content, {
+      fromLabel: from.label,
+      toLabel: to.label,
+    });
+  }
+
+  // Bring a file back to the content of one of its revisions
+  async restore(file: File, revisionId: string): Promise<File | undefined> {
+    const revision = await storage.getFileRevision(revisionId);
+    if (!revision || revision.fileId !== file.id) return undefined;
+
+    const restored = await storage.updateFile(file.id, {
+      content: revision.content,
+      isModified: true,
+    });
+    if (!restored) return undefined;
+
+    await this.recordChange(file, restored, 'user', 'restore');
+    return restored;
+  }
+}
+
+export const fileHistory = new FileHistoryService();
@@ -0,0 +1,47 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { InvalidPathError } from "@shared/paths";
+
+// The service keeps projects under <cwd>/projects, so run it in a scratch directory
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "fs-service-"));
+process.chdir(scratch);
+const { FileSystemService } = await import("./fileSystem");
+const service = new FileSystemService();
+const projectsRoot = path.join(fs.realpathSync(scratch), "projects");
+
+afterAll(() => {
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+describe("FileSystemService.getFilePath", () => {
+  it("resolves project paths inside the project directory", () => {
+    const projectPath = path.join(projectsRoot, "p1");
+    expect(service.getFilePath("p1", "/src/app.js")).toBe(path.join(projectPath, "src", "app.js"));
+    expect(service.getFilePath("p1", "src\\app.js")).toBe(path.join(projectPath, "src", "app.js"));
+    expect(service.getFilePath("p1", "a/../b.txt")).toBe(path.join(projectPath, "b.txt"));
+  });
+
+  it.each([
+    "../../server/index.ts",
+    "a/../../x",
+    "../p2/secret.txt",
+    "C:\\x",
+    "//srv/x",
+    "a\0b",
+    "a\nb",
+    "con.txt",
+    "notes.",
+    "notes ",
+    "/",
+  ])("refuses %j", (filePath) => {
+    expect(() => service.getFilePath("p1", filePath)).toThrow(InvalidPathError);
+  });
+
+  it.each(["", "..", "../outside", "p1/../../x", "a/b"])("refuses the project id %j", (projectId) => {
+    expect(() => service.getFilePath(projectId, "/index.html")).toThrow(InvalidPathError);
+  });
+});
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
+import { InvalidPathError, normalizeProjectPath } from '@shared/paths';
 
 const readFile = promisify(fs.readFile);
 const writeFile = promisify(fs.writeFile);
@@ -10,6 +11,14 @@ const stat = promisify(fs.stat);
 const unlink = promisify(fs.unlink);
 const rmdir = promisify(fs.rmdir);
 
+// Larger disk files are never pulled into storage
+export const MAX_TEXT_FILE_BYTES = 1024 * 1024;
+
+// Project files are stored as text; anything with a NUL byte near the start is binary
+export function isBinaryBuffer(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
 export class FileSystemService {
   private basePath: string;
 
@@ -26,12 +35,23 @@ export class FileSystemService {
     }
   }
 
-  private getProjectPath(projectId: string): string {
-    return path.join(this.basePath, projectId);
+  getProjectPath(projectId: string): string {
+    const projectPath = path.resolve(this.basePath, projectId);
+    if (!projectId || path.dirname(projectPath) !== this.basePath) {
+      throw new InvalidPathError(projectId, 'traversal', `Invalid project id: ${projectId}`);
+    }
+    return projectPath;
   }
 
-  private getFilePath(projectId: string, filePath: string): string {
-    return path.join(this.getProjectPath(projectId), filePath);
+  // Resolve a virtual project path to its location on disk; the containment
+  // check is a second line of defence behind normalizeProjectPath
+  getFilePath(projectId: string, filePath: string): string {
+    const projectPath = this.getProjectPath(projectId);
+    const fullPath = path.resolve(projectPath, '.' + normalizeProjectPath(filePath));
+    if (!fullPath.startsWith(projectPath + path.sep)) {
+      throw new InvalidPathError(filePath, 'traversal', `Path escapes the project directory: ${filePath}`);
+    }
+    return fullPath;
   }
 
   async createProject(projectId: string): Promise<void> {
@@ -63,18 +83,95 @@ export class FileSystemService {
     return await readFile(fullPath, 'utf8');
   }
 
+  async readFileBuffer(projectId: string, filePath: string): Promise<Buffer> {
+    const fullPath = this.getFilePath(projectId, filePath);
+    return await readFile(fullPath);
+  }
+
   async updateFile(projectId: string, filePath: string, content: string): Promise<void> {
     const fullPath = this.getFilePath(projectId, filePath);
+    await mkdir(path.dirname(fullPath), { recursive: true });
     await writeFile(fullPath, content, 'utf8');
   }
 
+  // Deleting a file that is already gone is not an error
   async deleteFile(projectId: string, filePath: string): Promise<void> {
     const fullPath = this.getFilePath(projectId, filePath);
-    await unlink(fullPath);
+    try {
+      await unlink(fullPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  async createFolder(projectId: string, folderPath: string): Promise<void> {
+    await mkdir(this.getFilePath(projectId, folderPath), { recursive: true });
+  }
+
+  async deleteFolder(projectId: string, folderPath: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(projectId, folderPath), { recursive: true, force: true });
+  }
+
+  // What sits at a virtual path on disk, without following symlinks
+  async entryType(projectId: string, filePath: string): Promise<'file' | 'directory' | null> {
+    try {
+      const stats = await fs.promises.lstat(this.getFilePath(projectId, filePath));
+      return stats.isDirectory() ? 'directory' : 'file';
+    } catch (error) {
+      // ENOTDIR: a parent is a file, so nothing can sit below it
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') return null;
+      throw error;
+    }
+  }
+
+  // Rename a file or folder. A missing source is not an error, since folders
+  // derived from file paths may not exist on disk yet.
+  async movePath(projectId: string, fromPath: string, toPath: string): Promise<void> {
+    const from = this.getFilePath(projectId, fromPath);
+    const to = this.getFilePath(projectId, toPath);
+    await mkdir(path.dirname(to), { recursive: true });
+    try {
+      await fs.promises.rename(from, to);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Every regular file under the project directory as a virtual path, skipping
+  // `ignored` names at any depth (e.g. a Python virtualenv)
+  async listTree(projectId: string, ignored: ReadonlySet<string> = new Set()): Promise<Array<{ path: string; size: number }>> {
+    const projectPath = this.getProjectPath(projectId);
+    const result: Array<{ path: string; size: number }> = [];
+
+    const walk = async (dirPath: string, virtualDir: string) => {
+      let items: fs.Dirent[];
+      try {
+        items = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const item of items) {
+        if (ignored.has(item.name)) continue;
+        const virtualPath = `${virtualDir}/${item.name}`;
+        if (item.isDirectory()) {
+          await walk(path.join(dirPath, item.name), virtualPath);
+        } else if (item.isFile()) {
+          const stats = await stat(path.join(dirPath, item.name));
+          result.push({ path: virtualPath, size: stats.size });
+        }
+      }
+    };
+
+    await walk(projectPath, '');
+    return result;
   }
 
   async listFiles(projectId: string, dirPath: string = ''): Promise<Array<{name: string, isDirectory: boolean}>> {
-    const fullPath = path.join(this.getProjectPath(projectId), dirPath);
+    const fullPath = dirPath && dirPath !== '/'
+      ? this.getFilePath(projectId, dirPath)
+      : this.getProjectPath(projectId);
     
     try {
       const items = await readdir(fullPath);
@@ -95,74 +192,10 @@ export class FileSystemService {
     }
   }
 
-  async processAPK(projectId: string, apkBuffer: Buffer): Promise<void> {
-    // This is a simplified APK processing
-    // In a real implementation, you would use tools like aapt2, apktool, etc.
-    const projectPath = this.getProjectPath(projectId);
-    
-    // Create APK project structure
-    await mkdir(path.join(projectPath, 'res'), { recursive: true });
-    await mkdir(path.join(projectPath, 'src'), { recursive: true });
-    await mkdir(path.join(projectPath, 'smali'), { recursive: true });
-    
-    // Save the original APK
-    await writeFile(path.join(projectPath, 'original.apk'), apkBuffer);
-    
-    // Create sample decompiled files for demonstration
-    await this.createFile(projectId, 'AndroidManifest.xml', 
-      `<?xml version="1.0" encoding="utf-8"?>
-<manifest xmlns:android="http://schemas.android.com/apk/res/android"
-    package="com.example.app">
-    
-    <application
-        android:allowBackup="true"
-        android:icon="@mipmap/ic_launcher"
-        android:label="@string/app_name"
-        android:theme="@style/AppTheme">
-        
-        <activity android:name=".MainActivity"
-            android:exported="true">
-            <intent-filter>
-                <action android:name="android.intent.action.MAIN" />
-                <category android:name="android.intent.category.LAUNCHER" />
-            </intent-filter>
-        </activity>
-        
-    </application>
-    
-</manifest>`
-    );
-
-    await this.createFile(projectId, 'src/MainActivity.java',
-      `package com.example.app;
-
-import android.app.Activity;
-import android.os.Bundle;
-
-public class MainActivity extends Activity {
-    @Override
-    protected void onCreate(Bundle savedInstanceState) {
-        super.onCreate(savedInstanceState);
-        setContentView(R.layout.activity_main);
-    }
-}`
-    );
-
-    await this.createFile(projectId, 'res/layout/activity_main.xml',
-      `<?xml version="1.0" encoding="utf-8"?>
-<LinearLayout xmlns:android="http://schemas.android.com/apk/res/android"
-    android:layout_width="match_parent"
-    android:layout_height="match_parent"
-    android:orientation="vertical">
-
-    <TextView
-        android:layout_width="wrap_content"
-        android:layout_height="wrap_content"
-        android:text="Hello World!"
-        android:textSize="24sp" />
-
-</LinearLayout>`
-    );
+  async writeBinaryFile(projectId: string, filePath: string, data: Buffer): Promise<void> {
+    const fullPath = this.getFilePath(projectId, filePath);
+    await mkdir(path.dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, data);
   }
 }
 
@@ -0,0 +1,129 @@
+import { deflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng, PngError, readPngSize, resizeImage, type RgbaImage } from "./png";
+import { crc32 } from "./zip";
+import { corruptions, solidPng } from "./testing/apkFixtures";
+
+function image(width: number, height: number, pixel: (x: number, y: number) => number[]): RgbaImage {
+  const pixels = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) pixels.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { width, height, pixels };
+}
+
+function pixelAt({ width, pixels }: RgbaImage, x: number, y: number): number[] {
+  return Array.from(pixels.subarray((y * width + x) * 4, (y * width + x) * 4 + 4));
+}
+
+// A PNG written by hand, for formats encodePng doesn't produce
+function png(width: number, height: number, bitDepth: number, colorType: number, rows: number[][], extra: Array<[string, Buffer]> = []): Buffer {
+  const chunk = (type: string, body: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    const checksum = Buffer.alloc(4);
+    checksum.writeUInt32BE(crc32(Buffer.concat([Buffer.from(type, "latin1"), body])));
+    return Buffer.concat([length, Buffer.from(type, "latin1"), body, checksum]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    ...extra.map(([type, body]) => chunk(type, body)),
+    chunk("IDAT", deflateSync(Buffer.from(rows.flat()))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("encodePng", () => {
+  it("round-trips RGBA pixels", () => {
+    const original = image(13, 7, (x, y) => [x * 19, y * 36, (x * y) & 0xff, x % 3 === 0 ? 0 : 200]);
+    const encoded = encodePng(original);
+    expect(readPngSize(encoded)).toEqual({ width: 13, height: 7 });
+    expect(decodePng(encoded)).toEqual(original);
+  });
+});
+
+describe("decodePng", () => {
+  it("reads filtered RGB rows", () => {
+    // Row 1 uses the Sub filter, row 2 the Up filter
+    const decoded = decodePng(png(2, 2, 8, 2, [[1, 10, 20, 30, 5, 5, 5], [2, 1, 1, 1, 0, 0, 0]]));
+    expect([pixelAt(decoded, 0, 0), pixelAt(decoded, 1, 0), pixelAt(decoded, 0, 1), pixelAt(decoded, 1, 1)]).toEqual([
+      [10, 20, 30, 255], [15, 25, 35, 255], [11, 21, 31, 255], [15, 25, 35, 255],
+    ]);
+  });
+
+  it("reads 2-bit palette images with transparency", () => {
+    const palette = Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255]);
+    // Indexes 0, 1, 2, 1 packed into one byte
+    const decoded = decodePng(png(4, 1, 2, 3, [[0, 0b00011001]], [["PLTE", palette], ["tRNS", Buffer.from([0, 128])]]));
+    expect([0, 1, 2, 3].map(x => pixelAt(decoded, x, 0))).toEqual([
+      [255, 0, 0, 0], [0, 255, 0, 128], [0, 0, 255, 255], [0, 255, 0, 128],
+    ]);
+  });
+
+  it.each([
+    ["data that isn't a PNG", Buffer.from("GIF89a"), "Not a PNG image"],
+    ["a missing header", png(1, 1, 8, 6, [[0, 0, 0, 0, 0]]).subarray(0, 8), "Missing IHDR chunk"],
+    ["a short header", Buffer.concat([png(1, 1, 8, 6, []).subarray(0, 8), Buffer.from([0, 0, 0, 4, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 0])]), "Truncated IHDR chunk"],
+    ["unknown color types", png(1, 1, 8, 5, [[0, 0]]), "Unsupported color type 5 with bit depth 8"],
+    ["a short transparency chunk", png(1, 1, 8, 2, [[0, 1, 2, 3]], [["tRNS", Buffer.from([1])]]), "Truncated tRNS chunk"],
+    ["empty images", png(0, 1, 8, 6, [[0]]), "Unsupported image size 0x1"],
+    ["huge images", png(100_000, 100_000, 8, 6, [[0]]), "Unsupported image size 100000x100000"],
+    ["missing rows", png(1, 2, 8, 6, [[0, 1, 2, 3, 4]]), "Truncated image data"],
+    ["unknown filters", png(1, 1, 8, 6, [[9, 1, 2, 3, 4]]), "Unknown filter type 9"],
+  ])("refuses %s", (_name, input, message) => {
+    expect(() => decodePng(input)).toThrow(new PngError(message));
+  });
+
+  it("only ever throws PngError for corrupt images", () => {
+    const valid = encodePng(image(6, 5, (x, y) => [x * 40, y * 50, 90, 255]));
+    for (const input of corruptions(valid, 500)) {
+      try {
+        decodePng(input);
+      } catch (error) {
+        expect(error).toBeInstanceOf(PngError);
+      }
+    }
+  });
+});
+
+describe("resizeImage", () => {
+  it("scales to the exact size and keeps solid colors", () => {
+    const solid = decodePng(solidPng(72, [0x33, 0x66, 0xcc]));
+    for (const [width, height] of [[48, 48], [144, 144], [50, 31]]) {
+      const resized = resizeImage(solid, width, height);
+      expect(resized.pixels.length).toBe(width * height * 4);
+      for (let i = 0; i < width * height; i++) {
+        expect(pixelAt(resized, i % width, Math.floor(i / width))).toEqual([0x33, 0x66, 0xcc, 255]);
+      }
+    }
+  });
+
+  it("averages the pixels it shrinks", () => {
+    const checkerboard = image(8, 8, (x, y) => ((x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]));
+    const resized = resizeImage(checkerboard, 4, 4);
+    expect(pixelAt(resized, 1, 2)).toEqual([128, 128, 128, 255]);
+  });
+
+  it("keeps transparent pixels from bleeding into the edges", () => {
+    // Left half transparent red, right half opaque blue
+    const halves = image(8, 2, x => (x < 4 ? [255, 0, 0, 0] : [0, 0, 255, 255]));
+    for (const resized of [resizeImage(halves, 3, 1), resizeImage(halves, 20, 4)]) {
+      for (let x = 0; x < resized.width; x++) {
+        const [red, , blue, alpha] = pixelAt(resized, x, 0);
+        expect(red).toBe(0);
+        if (alpha > 0) expect(blue).toBe(255);
+      }
+    }
+  });
+
+  it("returns the image itself at its own size", () => {
+    const original = image(3, 3, () => [1, 2, 3, 4]);
+    expect(resizeImage(original, 3, 3)).toBe(original);
+  });
+});
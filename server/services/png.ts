@@ -0,0 +1,336 @@
+import { deflateSync, inflateSync } from "zlib";
+import { crc32 } from "./zip";
+
+// Just enough PNG to read any standard image into RGBA, scale it and write it
+// back out. Everything is converted to 8-bit RGBA on the way in.
+
+export class PngError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PngError';
+  }
+}
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // Four bytes per pixel, rows top to bottom, not premultiplied
+  pixels: Buffer;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_PIXELS = 16 * 1024 * 1024;
+
+const ColorType = {
+  GRAYSCALE: 0,
+  RGB: 2,
+  PALETTE: 3,
+  GRAYSCALE_ALPHA: 4,
+  RGBA: 6,
+} as const;
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+export function isPng(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.subarray(0, 8).equals(SIGNATURE);
+}
+
+// Dimensions from the IHDR chunk, without decoding the image
+export function readPngSize(buffer: Buffer): { width: number; height: number } | undefined {
+  if (!isPng(buffer) || buffer.length < 24 || buffer.toString('latin1', 12, 16) !== 'IHDR') return undefined;
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (!isPng(buffer)) throw new PngError('Not a PNG image');
+
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlace: number } | undefined;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const data: Buffer[] = [];
+
+  for (let offset = 8; offset + 12 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const body = buffer.subarray(offset + 8, offset + 8 + length);
+    if (body.length !== length) throw new PngError(`Truncated ${type} chunk`);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      if (length < 13) throw new PngError('Truncated IHDR chunk');
+      header = {
+        width: body.readUInt32BE(0),
+        height: body.readUInt32BE(4),
+        bitDepth: body[8],
+        colorType: body[9],
+        interlace: body[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      data.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header) throw new PngError('Missing IHDR chunk');
+  const { width, height, bitDepth, colorType, interlace } = header;
+  if (!(colorType in CHANNELS) || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new PngError(`Unsupported color type ${colorType} with bit depth ${bitDepth}`);
+  }
+  if (width === 0 || height === 0 || width * height > MAX_PIXELS) {
+    throw new PngError(`Unsupported image size ${width}x${height}`);
+  }
+  if (colorType === ColorType.PALETTE && !palette) throw new PngError('Missing palette');
+  // Grayscale and RGB images give the transparent color as one 16-bit sample per channel
+  if (transparency && (colorType === ColorType.GRAYSCALE || colorType === ColorType.RGB)
+    && transparency.length < CHANNELS[colorType] * 2) {
+    throw new PngError('Truncated tRNS chunk');
+  }
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(data));
+  } catch {
+    throw new PngError('Corrupt image data');
+  }
+
+  const bitsPerPixel = CHANNELS[colorType] * bitDepth;
+  const pixels = Buffer.alloc(width * height * 4);
+  const sample = sampleReader({ bitDepth, colorType, palette, transparency });
+
+  let position = 0;
+  const passes = interlace ? ADAM7 : [[0, 0, 1, 1]];
+  for (const [startX, startY, stepX, stepY] of passes) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const rows = unfilter(raw, position, stride, passHeight, Math.max(1, bitsPerPixel >> 3));
+    position += (stride + 1) * passHeight;
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = rows.subarray(y * stride, (y + 1) * stride);
+      for (let x = 0; x < passWidth; x++) {
+        const target = ((startY + y * stepY) * width + startX + x * stepX) * 4;
+        sample(row, x, pixels, target);
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+// Undo the per-row filters; returns the rows without their filter bytes
+function unfilter(raw: Buffer, start: number, stride: number, rows: number, bytesPerPixel: number): Buffer {
+  if (start + (stride + 1) * rows > raw.length) throw new PngError('Truncated image data');
+  const output = Buffer.alloc(stride * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = raw[start + y * (stride + 1)];
+    const source = start + y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? output[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new PngError(`Unknown filter type ${filter}`);
+      }
+      output[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+  return output;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Reads pixel `x` of an unfiltered row into RGBA at `target`
+function sampleReader(format: { bitDepth: number; colorType: number; palette?: Buffer; transparency?: Buffer }) {
+  const { bitDepth, colorType, palette, transparency } = format;
+  const channels = CHANNELS[colorType];
+  const maxValue = (1 << Math.min(bitDepth, 8)) - 1;
+
+  // Channel `channel` of pixel `x`, as a raw sample at the image's bit depth
+  const rawSample = (row: Buffer, x: number, channel: number): number => {
+    if (bitDepth === 16) return row.readUInt16BE((x * channels + channel) * 2);
+    if (bitDepth === 8) return row[x * channels + channel];
+    const bit = (x * channels + channel) * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+  const scale = (value: number) => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxValue));
+  const transparentSample = (channel: number) => transparency?.readUInt16BE(channel * 2);
+
+  return (row: Buffer, x: number, out: Buffer, target: number) => {
+    switch (colorType) {
+      case ColorType.GRAYSCALE: {
+        const value = rawSample(row, x, 0);
+        out.fill(scale(value), target, target + 3);
+        out[target + 3] = transparency && value === transparentSample(0) ? 0 : 255;
+        break;
+      }
+      case ColorType.RGB: {
+        const values = [0, 1, 2].map(channel => rawSample(row, x, channel));
+        values.forEach((value, channel) => { out[target + channel] = scale(value); });
+        const transparent = transparency && values.every((value, channel) => value === transparentSample(channel));
+        out[target + 3] = transparent ? 0 : 255;
+        break;
+      }
+      case ColorType.PALETTE: {
+        const index = rawSample(row, x, 0);
+        if ((index + 1) * 3 > palette!.length) throw new PngError('Palette index out of range');
+        palette!.copy(out, target, index * 3, index * 3 + 3);
+        out[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case ColorType.GRAYSCALE_ALPHA:
+        out.fill(scale(rawSample(row, x, 0)), target, target + 3);
+        out[target + 3] = scale(rawSample(row, x, 1));
+        break;
+      default:
+        for (let channel = 0; channel < 4; channel++) out[target + channel] = scale(rawSample(row, x, channel));
+    }
+  };
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'latin1');
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+  return Buffer.concat([header, body, checksum]);
+}
+
+// 8-bit RGBA, with the Paeth filter on every row (a good default for icons)
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, pixels } = image;
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const target = y * (stride + 1);
+    raw[target] = 4;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? pixels[row + x - 4] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= 4 ? pixels[row - stride + x - 4] : 0;
+      raw[target + 1 + x] = (pixels[row + x] - paeth(left, up, upLeft)) & 0xff;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = ColorType.RGBA;
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw, { level: 9 })),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// Source weights for each output pixel along one axis: box filter when
+// shrinking (every covered source pixel counts by its overlap), linear
+// interpolation when enlarging
+function axisWeights(sourceSize: number, targetSize: number): Array<Array<[number, number]>> {
+  const ratio = sourceSize / targetSize;
+  const weights: Array<Array<[number, number]>> = [];
+  for (let i = 0; i < targetSize; i++) {
+    const taps: Array<[number, number]> = [];
+    if (ratio >= 1) {
+      const start = i * ratio;
+      const end = start + ratio;
+      for (let source = Math.floor(start); source < Math.min(Math.ceil(end), sourceSize); source++) {
+        const overlap = Math.min(end, source + 1) - Math.max(start, source);
+        if (overlap > 0) taps.push([source, overlap / ratio]);
+      }
+    } else {
+      const center = Math.min(Math.max((i + 0.5) * ratio - 0.5, 0), sourceSize - 1);
+      const low = Math.floor(center);
+      const high = Math.min(low + 1, sourceSize - 1);
+      const fraction = center - low;
+      taps.push([low, 1 - fraction]);
+      if (high !== low && fraction > 0) taps.push([high, fraction]);
+    }
+    weights.push(taps);
+  }
+  return weights;
+}
+
+// Scale to exactly `width` x `height`. Works on premultiplied alpha so
+// transparent pixels don't bleed their color into the edges.
+export function resizeImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  if (image.width === width && image.height === height) return image;
+  const columns = axisWeights(image.width, width);
+  const rows = axisWeights(image.height, height);
+
+  const premultiplied = new Float64Array(image.width * image.height * 4);
+  for (let i = 0; i < image.width * image.height; i++) {
+    const alpha = image.pixels[i * 4 + 3] / 255;
+    premultiplied[i * 4] = image.pixels[i * 4] * alpha;
+    premultiplied[i * 4 + 1] = image.pixels[i * 4 + 1] * alpha;
+    premultiplied[i * 4 + 2] = image.pixels[i * 4 + 2] * alpha;
+    premultiplied[i * 4 + 3] = image.pixels[i * 4 + 3];
+  }
+
+  // Horizontal pass, then vertical
+  const horizontal = new Float64Array(width * image.height * 4);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      for (const [source, weight] of columns[x]) {
+        const from = (y * image.width + source) * 4;
+        for (let channel = 0; channel < 4; channel++) horizontal[target + channel] += premultiplied[from + channel] * weight;
+      }
+    }
+  }
+
+  const pixels = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sum = [0, 0, 0, 0];
+      for (const [source, weight] of rows[y]) {
+        const from = (source * width + x) * 4;
+        for (let channel = 0; channel < 4; channel++) sum[channel] += horizontal[from + channel] * weight;
+      }
+      const target = (y * width + x) * 4;
+      const alpha = sum[3];
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[target + channel] = alpha > 0 ? Math.round(Math.min(255, (sum[channel] * 255) / alpha)) : 0;
+      }
+      pixels[target + 3] = Math.round(Math.min(255, alpha));
+    }
+  }
+  return { width, height, pixels };
+}
@@ -0,0 +1,47 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Preview pages run sandboxed on an opaque origin, so the browser sends them
+// no session cookie. Instead each preview URL carries a signed token naming
+// the project and the user it was issued to; the route still checks that the
+// user can view the project on every request.
+
+export const PREVIEW_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+export interface PreviewGrant {
+  token: string;
+  expiresAt: number;
+}
+
+export class PreviewAccess {
+  private secret: string;
+
+  constructor(secret = process.env.SESSION_SECRET || randomBytes(32).toString("hex")) {
+    this.secret = secret;
+  }
+
+  issue(projectId: string, userId: string, now = Date.now()): PreviewGrant {
+    const expiresAt = now + PREVIEW_TOKEN_TTL_MS;
+    const payload = Buffer.from(`${userId}.${expiresAt}`).toString("base64url");
+    return { token: `${payload}.${this.sign(projectId, payload)}`, expiresAt };
+  }
+
+  // The user a token was issued to, or null when it is forged, expired or
+  // for another project
+  verify(projectId: string, token: string, now = Date.now()): string | null {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.sign(projectId, payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const [userId, expiresAt] = Buffer.from(payload, "base64url").toString().split(".");
+    return userId && Number(expiresAt) > now ? userId : null;
+  }
+
+  private sign(projectId: string, payload: string): string {
+    return createHmac("sha256", this.secret).update(`${projectId}.${payload}`).digest("base64url");
+  }
+}
+
+export const previewAccess = new PreviewAccess();
@@ -0,0 +1,134 @@
+import { PREVIEW_COMMAND_SOURCE, PREVIEW_CONSOLE_SOURCE, PREVIEW_RELOADING_SOURCE } from "@shared/preview";
+
+// Script injected into every HTML page of the web preview. It forwards
+// console calls, uncaught errors and unhandled rejections to the IDE window
+// with postMessage, translating script URLs back to project paths. The page
+// is sandboxed, so the IDE cannot reach into it: reloads, scroll restoring and
+// stylesheet swaps are commands the bridge carries out on its behalf.
+//
+// The script is collapsed onto a single line and inserted without line
+// breaks, so line numbers reported for the page match the file as edited.
+
+const BRIDGE_SOURCE = `
+(function () {
+  if (window.parent === window || window.__previewBridge) return;
+  window.__previewBridge = true;
+  var prefix = (location.pathname.match(/^\\/preview\\/[^/]+\\/[^/]+/) || [''])[0];
+  var frame = /((?:https?|file):\\/\\/[^\\s()]+?):(\\d+):(\\d+)/;
+  function projectPath(url) {
+    try {
+      var parsed = new URL(url, location.href);
+      if (parsed.origin === location.origin && parsed.pathname.indexOf(prefix + '/') === 0) {
+        return decodeURIComponent(parsed.pathname.slice(prefix.length));
+      }
+    } catch (error) {}
+    return url || undefined;
+  }
+  function format(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack && value.stack.indexOf(value.message) >= 0 ? value.stack : value.name + ': ' + value.message;
+    if (typeof value === 'function') return 'function ' + (value.name || '(anónima)');
+    if (typeof value === 'undefined' || typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+    if (typeof Element !== 'undefined' && value instanceof Element) return '<' + value.tagName.toLowerCase() + '>';
+    var seen = [];
+    try {
+      return JSON.stringify(value, function (key, item) {
+        if (typeof item === 'object' && item !== null) {
+          if (seen.indexOf(item) >= 0) return '[Circular]';
+          seen.push(item);
+        }
+        return typeof item === 'bigint' ? String(item) : item;
+      });
+    } catch (error) {
+      return String(value);
+    }
+  }
+  function locate(stack, skip) {
+    var lines = String(stack || '').split('\\n');
+    for (var i = 0; i < lines.length; i++) {
+      var match = lines[i].match(frame);
+      if (!match) continue;
+      if (skip-- > 0) continue;
+      return { file: projectPath(match[1]), line: Number(match[2]), column: Number(match[3]) };
+    }
+    return {};
+  }
+  function send(data) {
+    try {
+      window.parent.postMessage(data, location.origin);
+    } catch (error) {}
+  }
+  function post(level, args, where) {
+    var message = [];
+    for (var i = 0; i < args.length; i++) message.push(format(args[i]));
+    send({
+      source: '${PREVIEW_CONSOLE_SOURCE}',
+      level: level,
+      message: message.join(' '),
+      file: where.file,
+      line: where.line,
+      column: where.column
+    });
+  }
+  function reload() {
+    send({ source: '${PREVIEW_RELOADING_SOURCE}', x: window.scrollX, y: window.scrollY });
+    location.reload();
+  }
+  function swapStylesheet(path) {
+    var links = document.querySelectorAll('link[rel~="stylesheet"]');
+    var swapped = false;
+    Array.prototype.forEach.call(links, function (link) {
+      if (projectPath(link.href) !== path) return;
+      var fresh = link.cloneNode();
+      var href = new URL(link.href, document.baseURI);
+      href.searchParams.set('v', String(Date.now()));
+      fresh.href = href.toString();
+      fresh.addEventListener('load', function () { link.remove(); });
+      fresh.addEventListener('error', function () { fresh.remove(); });
+      link.parentNode.insertBefore(fresh, link.nextSibling);
+      swapped = true;
+    });
+    return swapped;
+  }
+  window.addEventListener('message', function (event) {
+    var command = event.data;
+    if (event.source !== window.parent || !command || command.source !== '${PREVIEW_COMMAND_SOURCE}') return;
+    if (command.type === 'reload') reload();
+    if (command.type === 'scroll') window.scrollTo(command.x, command.y);
+    if (command.type === 'stylesheet' && !swapStylesheet(command.path)) reload();
+  });
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      post(level, arguments, locate(new Error().stack, 1));
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    var target = event.target;
+    if (target && target !== window && (target.src || target.href)) {
+      post('error', ['No se pudo cargar ' + (projectPath(target.src || target.href) || '')], {});
+      return;
+    }
+    post('error', [event.message || event.error], {
+      file: projectPath(event.filename),
+      line: event.lineno || undefined,
+      column: event.colno || undefined
+    });
+  }, true);
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    post('error', ['Promesa rechazada sin capturar:', reason], reason && reason.stack ? locate(reason.stack, 0) : {});
+  });
+})();
+`;
+
+const BRIDGE_TAG = `<script>${BRIDGE_SOURCE.trim().replace(/\n\s*/g, ' ')}</script>`;
+
+// Put the bridge first in <head>, ahead of the page's own scripts
+export function injectPreviewBridge(html: string): string {
+  const anchor = html.match(/<head(\s[^>]*)?>/i) ?? html.match(/<html(\s[^>]*)?>/i) ?? html.match(/^\s*<!doctype[^>]*>/i);
+  if (!anchor || anchor.index === undefined) return BRIDGE_TAG + html;
+  const end = anchor.index + anchor[0].length;
+  return html.slice(0, end) + BRIDGE_TAG + html.slice(end);
+}
@@ -0,0 +1,143 @@
+import type { ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { normalizeProjectPath } from '@shared/paths';
+import type { ProjectRunInfo, ProjectRunResult, RunOutputStream } from '@shared/run';
+import { fileSystemService } from './fileSystem';
+import { pythonEnvironments } from './pythonEnvironments';
+import { readArtifacts } from './pythonArtifacts';
+import { spawnSandboxed, watchSandboxed, type PythonSandboxLimits, type SandboxResult } from './pythonSandbox';
+
+// Runs of a project's entry file inside its disk directory, so scripts can
+// import sibling modules and open data files by relative path. One run per
+// project at a time; its output goes to everyone in the project room.
+
+export type RunStream = Exclude<RunOutputStream, 'stdin'>;
+
+export interface ProjectRunHandlers {
+  onOutput: (stream: RunStream, data: string) => void;
+  onExit: (result: ProjectRunResult) => void;
+}
+
+export class ProjectRunBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectRunBusyError';
+  }
+}
+
+export class RunEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunEntryError';
+  }
+}
+
+export class RunEntryNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunEntryNotFoundError';
+  }
+}
+
+// Interactive runs spend most of their time waiting on input(), so the
+// wall-clock limit is far looser than for one-off snippets; the CPU limit stays the same
+const runTimeoutMs = Number(process.env.PYTHON_RUN_TIMEOUT_MS);
+export const RUN_LIMITS: Partial<PythonSandboxLimits> = {
+  timeoutMs: Number.isFinite(runTimeoutMs) && runTimeoutMs > 0 ? runTimeoutMs : 10 * 60 * 1000,
+};
+
+interface ActiveRun {
+  info: ProjectRunInfo;
+  child: ChildProcess;
+  stopped: boolean;
+}
+
+export class ProjectRunner {
+  private runs = new Map<string, ActiveRun>();
+
+  current(projectId: string): ProjectRunInfo | null {
+    return this.runs.get(projectId)?.info ?? null;
+  }
+
+  async start(projectId: string, entryPath: string, startedBy: string, handlers: ProjectRunHandlers): Promise<ProjectRunInfo> {
+    if (this.runs.has(projectId)) {
+      throw new ProjectRunBusyError('A run is already in progress for this project');
+    }
+    if (pythonEnvironments.isInstalling(projectId)) {
+      throw new ProjectRunBusyError('Python dependencies are being installed for this project');
+    }
+    const entry = normalizeProjectPath(entryPath);
+    if (!entry.toLowerCase().endsWith('.py')) {
+      throw new RunEntryError(`Only Python files can be run: ${entry}`);
+    }
+    const scriptPath = fileSystemService.getFilePath(projectId, entry);
+    const stats = await fs.promises.stat(scriptPath).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new RunEntryNotFoundError(`Entry file not found: ${entry}`);
+    }
+    const python = await pythonEnvironments.interpreterFor(projectId);
+    // Outside the project, so figures never end up among its files
+    const artifactsDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'python-artifacts-'));
+    // Checked again: another start may have won while the file was looked up
+    if (this.runs.has(projectId)) {
+      await fs.promises.rm(artifactsDir, { recursive: true, force: true });
+      throw new ProjectRunBusyError('A run is already in progress for this project');
+    }
+
+    const child = spawnSandboxed(scriptPath, {
+      python: python ?? undefined,
+      cwd: fileSystemService.getProjectPath(projectId),
+      limits: RUN_LIMITS,
+      // Keep caches and temporary files out of the project directory
+      env: { HOME: os.tmpdir(), TMPDIR: os.tmpdir() },
+      artifactsDir,
+    });
+    const run: ActiveRun = {
+      info: { runId: randomUUID(), projectId, entry, startedBy, startedAt: new Date().toISOString() },
+      child,
+      stopped: false,
+    };
+    this.runs.set(projectId, run);
+
+    watchSandboxed(child, RUN_LIMITS, {
+      onStdout: (chunk) => handlers.onOutput('stdout', chunk),
+      onStderr: (chunk) => handlers.onOutput('stderr', chunk),
+    }).then(async (result: SandboxResult) => {
+      const artifacts = await readArtifacts(artifactsDir).catch(() => []);
+      await fs.promises.rm(artifactsDir, { recursive: true, force: true });
+      if (this.runs.get(projectId) === run) this.runs.delete(projectId);
+      handlers.onExit({
+        ...run.info,
+        exitCode: result.exitCode,
+        timedOut: result.timedOut,
+        truncated: result.truncated,
+        stopped: run.stopped,
+        durationMs: result.durationMs,
+        artifacts,
+      });
+    });
+
+    return run.info;
+  }
+
+  // Pass a line typed in the terminal to the running script's stdin
+  write(projectId: string, data: string): boolean {
+    const run = this.runs.get(projectId);
+    if (!run?.child.stdin?.writable) return false;
+    run.child.stdin.write(data);
+    return true;
+  }
+
+  stop(projectId: string): boolean {
+    const run = this.runs.get(projectId);
+    if (!run) return false;
+    run.stopped = true;
+    run.child.kill('SIGKILL');
+    return true;
+  }
+}
+
+export const projectRunner = new ProjectRunner();
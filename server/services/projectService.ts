@@ -0,0 +1,199 @@
+import type { Writable } from "stream";
+import type { InsertProject, Project, ProjectTemplate, RevisionAuthor } from "@shared/schema";
+import { InvalidPathError, inferFileType, isValidProjectPath, normalizeProjectPath, projectPathBasename } from "@shared/paths";
+import { storage } from "../storage";
+import { fileSystemService, isBinaryBuffer, MAX_TEXT_FILE_BYTES } from "./fileSystem";
+import { fileHistory } from "./fileHistory";
+import { getTemplateFiles } from "./projectTemplates";
+import { IGNORED_NAMES } from "./projectSync";
+import { ORIGINAL_APK_PATH } from "./apkService";
+import { readZip, ZipWriter, type ZipEntry } from "./zip";
+
+// Archive clutter that never belongs in a project
+const IGNORED_ARCHIVE_ENTRIES = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db)(\/|$)/;
+
+export interface ProjectImportResult {
+  project: Project;
+  // Text files plus binary files, which go to the project directory only
+  imported: number;
+  // Entries left out: unsafe paths and archive clutter
+  skipped: string[];
+}
+
+// Archives made by "compress folder" wrap everything in one top-level directory
+function commonRoot(entries: ZipEntry[]): string {
+  const names = entries.filter(entry => !entry.isDirectory).map(entry => entry.name);
+  const first = names[0]?.split('/')[0];
+  if (!first || names.some(name => !name.startsWith(first + '/'))) return '';
+  return first + '/';
+}
+
+function inferProjectType(paths: string[]): InsertProject['type'] {
+  if (paths.some(filePath => projectPathBasename(filePath) === 'AndroidManifest.xml')) return 'apk';
+  if (!paths.some(filePath => inferFileType(filePath) === 'html') && paths.some(filePath => inferFileType(filePath) === 'py')) {
+    return 'python';
+  }
+  return 'web';
+}
+
+export class ProjectService {
+  // Create a project owned by `ownerId`, seeded with a template's files
+  async createProject(data: InsertProject, ownerId: string, template: ProjectTemplate = 'blank'): Promise<Project> {
+    const project = await storage.createProject({ ...data, ownerId });
+    await fileSystemService.createProject(project.id);
+
+    for (const templateFile of getTemplateFiles(template)) {
+      await this.addFile(project.id, templateFile, 'user', 'template');
+    }
+
+    return project;
+  }
+
+  // Copy a project and all of its files into a new project owned by `ownerId`
+  async duplicateProject(source: Project, ownerId: string, name?: string): Promise<Project> {
+    const project = await storage.createProject({
+      name: name || `${source.name} (copia)`,
+      type: source.type as InsertProject['type'],
+      description: source.description,
+      files: source.files,
+      ownerId,
+    });
+    await fileSystemService.createProject(project.id);
+
+    const sourceFiles = await storage.getFilesByProject(source.id);
+    for (const sourceFile of sourceFiles) {
+      await this.addFile(project.id, sourceFile, 'user', 'duplicate');
+    }
+    for (const folder of await storage.getFoldersByProject(source.id)) {
+      await storage.createFolder({ projectId: project.id, path: folder.path });
+      await fileSystemService.createFolder(project.id, folder.path);
+    }
+
+    // Binaries (images, resources.arsc, classes.dex) only exist on disk. The
+    // uploaded APK comes along so the copy can still be rebuilt; its signing
+    // key and build output do not.
+    const stored = new Set(sourceFiles.map(file => file.path));
+    const diskOnly = (await fileSystemService.listTree(source.id, IGNORED_NAMES))
+      .map(entry => entry.path)
+      .filter(entryPath => !stored.has(entryPath) && isValidProjectPath(entryPath));
+    for (const entryPath of [...diskOnly, ORIGINAL_APK_PATH]) {
+      const data = await fileSystemService.readFileBuffer(source.id, entryPath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      });
+      if (data) await fileSystemService.writeBinaryFile(project.id, entryPath, data);
+    }
+
+    return project;
+  }
+
+  // Write a project's files and explicit folders to `output` as a ZIP archive.
+  // Binary and oversized files (images, fonts, APK resources) only exist in
+  // the project directory, so they are read from disk.
+  async exportProject(project: Project, output: Writable): Promise<void> {
+    const writer = new ZipWriter(output);
+    for (const folder of await storage.getFoldersByProject(project.id)) {
+      await writer.addDirectory(folder.path.slice(1));
+    }
+    const files = await storage.getFilesByProject(project.id);
+    for (const file of files) {
+      await writer.addFile(file.path.slice(1), file.content, file.updatedAt ?? new Date());
+    }
+
+    const stored = new Set(files.map(file => file.path));
+    for (const entry of await fileSystemService.listTree(project.id, IGNORED_NAMES)) {
+      if (stored.has(entry.path) || !isValidProjectPath(entry.path)) continue;
+      const data = await fileSystemService.readFileBuffer(project.id, entry.path);
+      if (entry.size > MAX_TEXT_FILE_BYTES || isBinaryBuffer(data)) {
+        await writer.addFile(entry.path.slice(1), data);
+      }
+    }
+    await writer.finish();
+  }
+
+  // Create a project from an uploaded ZIP archive
+  async importProject(
+    archive: Buffer,
+    options: { name: string; type?: InsertProject['type'] },
+    ownerId: string,
+  ): Promise<ProjectImportResult> {
+    const entries = readZip(archive);
+    const root = commonRoot(entries);
+    const skipped: string[] = [];
+    const files: Array<{ path: string; content: string }> = [];
+    const binaryFiles: Array<{ path: string; data: Buffer }> = [];
+    const folderPaths = new Set<string>();
+
+    for (const entry of entries) {
+      if (IGNORED_ARCHIVE_ENTRIES.test(entry.name)) continue;
+      const relativeName = entry.name.startsWith(root) ? entry.name.slice(root.length) : entry.name;
+      if (!relativeName || relativeName === '/') continue;
+
+      let entryPath: string;
+      try {
+        entryPath = normalizeProjectPath(relativeName);
+      } catch (error) {
+        if (!(error instanceof InvalidPathError)) throw error;
+        skipped.push(entry.name);
+        continue;
+      }
+
+      if (entry.isDirectory) {
+        folderPaths.add(entryPath);
+      } else if (isBinaryBuffer(entry.data)) {
+        binaryFiles.push({ path: entryPath, data: entry.data });
+      } else {
+        files.push({ path: entryPath, content: entry.data.toString('utf8') });
+      }
+    }
+
+    const project = await storage.createProject({
+      name: options.name,
+      type: options.type ?? inferProjectType([...files, ...binaryFiles].map(file => file.path)),
+      description: 'Proyecto importado desde un archivo ZIP',
+      files: {},
+      ownerId,
+    });
+    await fileSystemService.createProject(project.id);
+
+    for (const folderPath of Array.from(folderPaths)) {
+      await storage.createFolder({ projectId: project.id, path: folderPath });
+      await fileSystemService.createFolder(project.id, folderPath);
+    }
+    for (const file of files) {
+      await this.addFile(project.id, {
+        path: file.path,
+        name: projectPathBasename(file.path),
+        content: file.content,
+        type: inferFileType(file.path),
+      }, 'user', 'import');
+    }
+
+    for (const file of binaryFiles) {
+      await fileSystemService.writeBinaryFile(project.id, file.path, file.data);
+    }
+
+    return { project, imported: files.length + binaryFiles.length, skipped };
+  }
+
+  private async addFile(
+    projectId: string,
+    data: { path: string; name: string; content: string; type: string },
+    author: RevisionAuthor,
+    source: string,
+  ) {
+    const file = await storage.createFile({
+      projectId,
+      path: data.path,
+      name: data.name,
+      content: data.content,
+      type: data.type,
+      isModified: false,
+    });
+    await fileSystemService.createFile(projectId, file.path, file.content);
+    await fileHistory.recordCreated(file, author, source);
+    return file;
+  }
+}
+
+export const projectService = new ProjectService();
@@ -0,0 +1,217 @@
+import type { File } from "@shared/schema";
+import { inferFileType, isValidProjectPath, projectPathBasename } from "@shared/paths";
+import { storage } from "../storage";
+import { fileSystemService, isBinaryBuffer, MAX_TEXT_FILE_BYTES } from "./fileSystem";
+import { fileHistory } from "./fileHistory";
+
+// Disk entries owned by tooling rather than by the project's files
+export const IGNORED_NAMES: ReadonlySet<string> = new Set([
+  'original.apk',
+  '.venv',
+  'node_modules',
+  '__pycache__',
+  '.git',
+  // APK signature files are regenerated on every rebuild
+  'META-INF',
+  // APK signing key and build output
+  '.keystore',
+  '.build',
+]);
+
+export interface ProjectDrift {
+  projectId: string;
+  // In storage but not on disk
+  missingOnDisk: string[];
+  // On disk but not in storage
+  missingInStorage: string[];
+  // Present in both with different contents
+  contentMismatch: string[];
+  // Disk files left out of the comparison (binary, oversized or unrepresentable paths)
+  skipped: string[];
+  inSync: boolean;
+}
+
+export interface DiskRebuildResult {
+  written: string[];
+  removed: string[];
+}
+
+export interface StorageImportResult {
+  created: File[];
+  updated: File[];
+  deleted: File[];
+}
+
+interface DiskFile {
+  path: string;
+  content: string;
+}
+
+export class ProjectSyncService {
+  // Syncs for the same project run one after another
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  private enqueue<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(projectId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(projectId, next);
+    next.finally(() => {
+      if (this.queues.get(projectId) === next) this.queues.delete(projectId);
+    }).catch(() => undefined);
+    return next;
+  }
+
+  // Text files on disk, keyed by virtual path; the rest are reported as skipped
+  private async readDisk(projectId: string): Promise<{ files: Map<string, DiskFile>; skipped: string[] }> {
+    const files = new Map<string, DiskFile>();
+    const skipped: string[] = [];
+
+    for (const entry of await fileSystemService.listTree(projectId, IGNORED_NAMES)) {
+      if (entry.size > MAX_TEXT_FILE_BYTES || !isValidProjectPath(entry.path)) {
+        skipped.push(entry.path);
+        continue;
+      }
+      const buffer = await fileSystemService.readFileBuffer(projectId, entry.path);
+      if (isBinaryBuffer(buffer)) {
+        skipped.push(entry.path);
+        continue;
+      }
+      files.set(entry.path, { path: entry.path, content: buffer.toString('utf8') });
+    }
+
+    return { files, skipped };
+  }
+
+  private async compare(projectId: string) {
+    const stored = await storage.getFilesByProject(projectId);
+    const disk = await this.readDisk(projectId);
+    const storedByPath = new Map(stored.map(file => [file.path, file]));
+
+    const drift: ProjectDrift = {
+      projectId,
+      missingOnDisk: [],
+      missingInStorage: [],
+      contentMismatch: [],
+      skipped: disk.skipped,
+      inSync: true,
+    };
+
+    for (const file of stored) {
+      const onDisk = disk.files.get(file.path);
+      if (!onDisk) {
+        // A binary stand-in on disk (e.g. a decoded resource) is not drift
+        if (!disk.skipped.includes(file.path)) drift.missingOnDisk.push(file.path);
+      } else if (onDisk.content !== file.content) {
+        drift.contentMismatch.push(file.path);
+      }
+    }
+    for (const diskPath of Array.from(disk.files.keys())) {
+      if (!storedByPath.has(diskPath)) drift.missingInStorage.push(diskPath);
+    }
+
+    drift.inSync =
+      drift.missingOnDisk.length === 0 &&
+      drift.missingInStorage.length === 0 &&
+      drift.contentMismatch.length === 0;
+
+    return { drift, stored, storedByPath, disk };
+  }
+
+  // Report how a project's disk tree differs from storage without changing either
+  async checkProject(projectId: string): Promise<ProjectDrift> {
+    return this.enqueue(projectId, async () => (await this.compare(projectId)).drift);
+  }
+
+  // Make disk match storage. Extra text files on disk are only removed with `prune`.
+  async rebuildDisk(projectId: string, options: { prune?: boolean } = {}): Promise<DiskRebuildResult> {
+    return this.enqueue(projectId, async () => {
+      await fileSystemService.createProject(projectId);
+      const { drift, storedByPath } = await this.compare(projectId);
+      const result: DiskRebuildResult = { written: [], removed: [] };
+
+      for (const filePath of [...drift.missingOnDisk, ...drift.contentMismatch]) {
+        await fileSystemService.updateFile(projectId, filePath, storedByPath.get(filePath)!.content);
+        result.written.push(filePath);
+      }
+      // Empty folders only exist as folder records
+      for (const folder of await storage.getFoldersByProject(projectId)) {
+        await fileSystemService.createFolder(projectId, folder.path);
+      }
+
+      if (options.prune) {
+        for (const filePath of drift.missingInStorage) {
+          await fileSystemService.deleteFile(projectId, filePath);
+          result.removed.push(filePath);
+        }
+      }
+
+      return result;
+    });
+  }
+
+  // Make storage match disk: new disk files are added and changed ones updated
+  // with a revision. Files missing from disk are only deleted with `prune`.
+  async importFromDisk(projectId: string, options: { prune?: boolean } = {}): Promise<StorageImportResult> {
+    return this.enqueue(projectId, async () => {
+      const { drift, storedByPath, disk } = await this.compare(projectId);
+      const result: StorageImportResult = { created: [], updated: [], deleted: [] };
+
+      for (const filePath of drift.missingInStorage) {
+        const file = await storage.createFile({
+          projectId,
+          path: filePath,
+          name: projectPathBasename(filePath),
+          content: disk.files.get(filePath)!.content,
+          type: inferFileType(filePath),
+          isModified: false,
+        });
+        await fileHistory.recordCreated(file, 'user', 'disk_import');
+        result.created.push(file);
+      }
+
+      for (const filePath of drift.contentMismatch) {
+        const previous = storedByPath.get(filePath)!;
+        const updated = await storage.updateFile(previous.id, {
+          content: disk.files.get(filePath)!.content,
+          isModified: true,
+        });
+        if (!updated) continue;
+        await fileHistory.recordChange(previous, updated, 'user', 'disk_import');
+        result.updated.push(updated);
+      }
+
+      if (options.prune) {
+        for (const filePath of drift.missingOnDisk) {
+          const file = storedByPath.get(filePath)!;
+          if (await storage.deleteFile(file.id)) {
+            result.deleted.push(file);
+          }
+        }
+      }
+
+      return result;
+    });
+  }
+
+  // Startup pass: storage is the source of truth, so write out anything the
+  // disk is missing and log what else has drifted
+  async syncAll(): Promise<void> {
+    const projects = await storage.getProjects();
+    for (const project of projects) {
+      try {
+        const { written } = await this.rebuildDisk(project.id);
+        const drift = await this.checkProject(project.id);
+        if (written.length > 0) {
+          console.log(`Project ${project.id}: restored ${written.length} files on disk`);
+        }
+        if (drift.missingInStorage.length > 0) {
+          console.warn(`Project ${project.id}: ${drift.missingInStorage.length} files on disk are not in storage`);
+        }
+      } catch (error) {
+        console.error(`Failed to sync project ${project.id}:`, error);
+      }
+    }
+  }
+}
+
+export const projectSync = new ProjectSyncService();
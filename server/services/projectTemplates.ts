@@ -0,0 +1,215 @@
+import type { ProjectTemplate } from "@shared/schema";
+
+export interface TemplateFile {
+  path: string;
+  name: string;
+  content: string;
+  type: string;
+}
+
+const basicWebsite: TemplateFile[] = [
+  {
+    path: "/index.html",
+    name: "index.html",
+    type: "html",
+    content: `<!DOCTYPE html>
+<html lang="es">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Mi Sitio Web</title>
+    <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+    <main class="container">
+        <h1>¡Bienvenido!</h1>
+        <p>Empieza a editar <code>index.html</code> para construir tu sitio.</p>
+        <button id="saludo">Hacer clic</button>
+    </main>
+    <script src="script.js"></script>
+</body>
+</html>`,
+  },
+  {
+    path: "/styles.css",
+    name: "styles.css",
+    type: "css",
+    content: `.container {
+    max-width: 800px;
+    margin: 0 auto;
+    padding: 40px 20px;
+    font-family: system-ui, sans-serif;
+}
+
+button {
+    background-color: #007bff;
+    color: white;
+    border: none;
+    padding: 10px 20px;
+    border-radius: 5px;
+    cursor: pointer;
+}`,
+  },
+  {
+    path: "/script.js",
+    name: "script.js",
+    type: "js",
+    content: `document.getElementById('saludo').addEventListener('click', () => {
+    alert('¡Hola desde JavaScript!');
+});`,
+  },
+];
+
+const reactApp: TemplateFile[] = [
+  {
+    path: "/index.html",
+    name: "index.html",
+    type: "html",
+    content: `<!DOCTYPE html>
+<html lang="es">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Mi App React</title>
+    <link rel="stylesheet" href="styles.css">
+    <script crossorigin src="https://unpkg.com/react@18/umd/react.development.js"></script>
+    <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
+    <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
+</head>
+<body>
+    <div id="root"></div>
+    <script type="text/babel" src="app.js"></script>
+</body>
+</html>`,
+  },
+  {
+    path: "/app.js",
+    name: "app.js",
+    type: "js",
+    content: `function App() {
+  const [count, setCount] = React.useState(0);
+
+  return (
+    <div className="app">
+      <h1>Hola React</h1>
+      <button onClick={() => setCount(count + 1)}>Clics: {count}</button>
+    </div>
+  );
+}
+
+ReactDOM.createRoot(document.getElementById('root')).render(<App />);`,
+  },
+  {
+    path: "/styles.css",
+    name: "styles.css",
+    type: "css",
+    content: `.app {
+    font-family: system-ui, sans-serif;
+    text-align: center;
+    padding: 40px;
+}`,
+  },
+];
+
+const androidApp: TemplateFile[] = [
+  {
+    path: "/AndroidManifest.xml",
+    name: "AndroidManifest.xml",
+    type: "xml",
+    content: `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android"
+    package="com.example.app">
+
+    <application
+        android:allowBackup="true"
+        android:icon="@mipmap/ic_launcher"
+        android:label="@string/app_name"
+        android:theme="@style/AppTheme">
+
+        <activity android:name=".MainActivity"
+            android:exported="true">
+            <intent-filter>
+                <action android:name="android.intent.action.MAIN" />
+                <category android:name="android.intent.category.LAUNCHER" />
+            </intent-filter>
+        </activity>
+
+    </application>
+
+</manifest>`,
+  },
+  {
+    path: "/src/MainActivity.java",
+    name: "MainActivity.java",
+    type: "java",
+    content: `package com.example.app;
+
+import android.app.Activity;
+import android.os.Bundle;
+
+public class MainActivity extends Activity {
+    @Override
+    protected void onCreate(Bundle savedInstanceState) {
+        super.onCreate(savedInstanceState);
+        setContentView(R.layout.activity_main);
+    }
+}`,
+  },
+  {
+    path: "/res/layout/activity_main.xml",
+    name: "activity_main.xml",
+    type: "xml",
+    content: `<?xml version="1.0" encoding="utf-8"?>
+<LinearLayout xmlns:android="http://schemas.android.com/apk/res/android"
+    android:layout_width="match_parent"
+    android:layout_height="match_parent"
+    android:orientation="vertical"
+    android:padding="16dp">
+
+    <TextView
+        android:layout_width="wrap_content"
+        android:layout_height="wrap_content"
+        android:text="@string/hello"
+        android:textSize="24sp" />
+
+</LinearLayout>`,
+  },
+  {
+    path: "/res/values/strings.xml",
+    name: "strings.xml",
+    type: "xml",
+    content: `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <string name="app_name">Mi App</string>
+    <string name="hello">¡Hola Mundo!</string>
+</resources>`,
+  },
+];
+
+const pythonScript: TemplateFile[] = [
+  {
+    path: "/main.py",
+    name: "main.py",
+    type: "py",
+    content: `# Punto de entrada del proyecto
+def main():
+    print("¡Hola desde Python!")
+
+
+if __name__ == "__main__":
+    main()`,
+  },
+];
+
+const TEMPLATES: Record<ProjectTemplate, TemplateFile[]> = {
+  blank: [],
+  basic_website: basicWebsite,
+  react_app: reactApp,
+  android_app: androidApp,
+  python_script: pythonScript,
+};
+
+// Files a new project starts with
+export function getTemplateFiles(template: ProjectTemplate): TemplateFile[] {
+  return TEMPLATES[template].map(file => ({ ...file }));
+}
@@ -0,0 +1,209 @@
+import type { File, Folder, RevisionAuthor } from "@shared/schema";
+import { normalizeProjectPath, projectPathBasename, projectPathDirname } from "@shared/paths";
+import { storage } from "../storage";
+import { fileSystemService } from "./fileSystem";
+import { fileHistory } from "./fileHistory";
+
+export class TreeConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TreeConflictError';
+  }
+}
+
+export class TreeNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TreeNotFoundError';
+  }
+}
+
+function isWithin(candidate: string, folderPath: string): boolean {
+  return candidate.startsWith(folderPath + '/');
+}
+
+function rebase(candidate: string, fromPath: string, toPath: string): string {
+  return toPath + candidate.slice(fromPath.length);
+}
+
+function ancestorsOf(normalizedPath: string): string[] {
+  const ancestors: string[] = [];
+  for (let dir = projectPathDirname(normalizedPath); dir !== '/'; dir = projectPathDirname(dir)) {
+    ancestors.push(dir);
+  }
+  return ancestors;
+}
+
+// Folder and move operations over a project's files. Storage and disk are
+// updated together; if the storage half fails the disk change is rolled back.
+export class ProjectTreeService {
+  // Every folder in the project: explicit ones plus those implied by file paths
+  async listFolders(projectId: string): Promise<string[]> {
+    const [projectFiles, projectFolders] = await Promise.all([
+      storage.getFilesByProject(projectId),
+      storage.getFoldersByProject(projectId),
+    ]);
+
+    const paths = new Set<string>();
+    for (const folder of projectFolders) {
+      paths.add(folder.path);
+      ancestorsOf(folder.path).forEach(ancestor => paths.add(ancestor));
+    }
+    for (const file of projectFiles) {
+      ancestorsOf(file.path).forEach(ancestor => paths.add(ancestor));
+    }
+
+    return Array.from(paths).sort();
+  }
+
+  async createFolder(projectId: string, rawPath: string): Promise<Folder> {
+    const folderPath = normalizeProjectPath(rawPath);
+    const projectFiles = await storage.getFilesByProject(projectId);
+    const blocking = projectFiles.find(file => file.path === folderPath || ancestorsOf(folderPath).includes(file.path));
+    if (blocking) {
+      throw new TreeConflictError(`A file already exists at ${blocking.path}`);
+    }
+
+    const existing = (await storage.getFoldersByProject(projectId)).find(folder => folder.path === folderPath);
+    const folder = existing ?? await storage.createFolder({ projectId, path: folderPath });
+    await fileSystemService.createFolder(projectId, folderPath);
+    return folder;
+  }
+
+  // Move or rename a single file
+  async moveFile(file: File, rawPath: string, author: RevisionAuthor = 'user', source: string = 'move'): Promise<File> {
+    const targetPath = normalizeProjectPath(rawPath);
+    if (targetPath === file.path) return file;
+
+    await this.assertFree(file.projectId, targetPath);
+    await fileSystemService.movePath(file.projectId, file.path, targetPath);
+
+    try {
+      const moved = await storage.updateFile(file.id, {
+        path: targetPath,
+        name: projectPathBasename(targetPath),
+      });
+      if (!moved) {
+        throw new TreeNotFoundError(`File not found: ${file.path}`);
+      }
+      await fileHistory.recordChange(file, moved, author, source);
+      return moved;
+    } catch (error) {
+      await fileSystemService.movePath(file.projectId, targetPath, file.path).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Move or rename a folder together with everything inside it
+  async moveFolder(projectId: string, rawFrom: string, rawTo: string): Promise<{ files: File[]; path: string }> {
+    const fromPath = normalizeProjectPath(rawFrom);
+    const toPath = normalizeProjectPath(rawTo);
+    if (fromPath === toPath) {
+      return { files: [], path: toPath };
+    }
+    if (isWithin(toPath, fromPath)) {
+      throw new TreeConflictError(`Cannot move ${fromPath} into itself`);
+    }
+
+    const [projectFiles, projectFolders] = await Promise.all([
+      storage.getFilesByProject(projectId),
+      storage.getFoldersByProject(projectId),
+    ]);
+    const movingFiles = projectFiles.filter(file => isWithin(file.path, fromPath));
+    const movingFolders = projectFolders.filter(folder => folder.path === fromPath || isWithin(folder.path, fromPath));
+    if (movingFiles.length === 0 && movingFolders.length === 0) {
+      throw new TreeNotFoundError(`Folder not found: ${fromPath}`);
+    }
+
+    await this.assertFree(projectId, toPath);
+    await fileSystemService.movePath(projectId, fromPath, toPath);
+
+    const movedFiles: Array<{ before: File; after: File }> = [];
+    const movedFolders: Folder[] = [];
+    try {
+      for (const file of movingFiles) {
+        const targetPath = rebase(file.path, fromPath, toPath);
+        const moved = await storage.updateFile(file.id, { path: targetPath });
+        if (!moved) continue;
+        movedFiles.push({ before: file, after: moved });
+      }
+      for (const folder of movingFolders) {
+        await storage.updateFolder(folder.id, { path: rebase(folder.path, fromPath, toPath) });
+        movedFolders.push(folder);
+      }
+    } catch (error) {
+      for (const { before } of movedFiles) {
+        await storage.updateFile(before.id, { path: before.path }).catch(() => undefined);
+      }
+      for (const folder of movedFolders) {
+        await storage.updateFolder(folder.id, { path: folder.path }).catch(() => undefined);
+      }
+      await fileSystemService.movePath(projectId, toPath, fromPath).catch(() => undefined);
+      throw error;
+    }
+
+    for (const { before, after } of movedFiles) {
+      await fileHistory.recordChange(before, after, 'user', 'move');
+    }
+
+    return { files: movedFiles.map(({ after }) => after), path: toPath };
+  }
+
+  // Delete a folder and everything inside it
+  async deleteFolder(projectId: string, rawPath: string): Promise<{ deletedFiles: File[] }> {
+    const folderPath = normalizeProjectPath(rawPath);
+    const [projectFiles, projectFolders] = await Promise.all([
+      storage.getFilesByProject(projectId),
+      storage.getFoldersByProject(projectId),
+    ]);
+    const doomedFiles = projectFiles.filter(file => isWithin(file.path, folderPath));
+    const doomedFolders = projectFolders.filter(folder => folder.path === folderPath || isWithin(folder.path, folderPath));
+    if (doomedFiles.length === 0 && doomedFolders.length === 0) {
+      throw new TreeNotFoundError(`Folder not found: ${folderPath}`);
+    }
+
+    for (const file of doomedFiles) {
+      await storage.deleteFile(file.id);
+    }
+    for (const folder of doomedFolders) {
+      await storage.deleteFolder(folder.id);
+    }
+    await fileSystemService.deleteFolder(projectId, folderPath);
+
+    return { deletedFiles: doomedFiles };
+  }
+
+  // Nothing may exist at `targetPath`, and no file may sit where one of its
+  // parent folders needs to be. Disk counts too: binaries such as images or
+  // classes.dex live only there, and a rename would silently replace them.
+  private async assertFree(projectId: string, targetPath: string): Promise<void> {
+    const [projectFiles, projectFolders] = await Promise.all([
+      storage.getFilesByProject(projectId),
+      storage.getFoldersByProject(projectId),
+    ]);
+    const ancestors = ancestorsOf(targetPath);
+
+    for (const file of projectFiles) {
+      if (file.path === targetPath || isWithin(file.path, targetPath)) {
+        throw new TreeConflictError(`${targetPath} already exists`);
+      }
+      if (ancestors.includes(file.path)) {
+        throw new TreeConflictError(`A file already exists at ${file.path}`);
+      }
+    }
+    if (projectFolders.some(folder => folder.path === targetPath)) {
+      throw new TreeConflictError(`${targetPath} already exists`);
+    }
+
+    if (await fileSystemService.entryType(projectId, targetPath)) {
+      throw new TreeConflictError(`${targetPath} already exists`);
+    }
+    for (const ancestor of ancestors) {
+      if (await fileSystemService.entryType(projectId, ancestor) === 'file') {
+        throw new TreeConflictError(`A file already exists at ${ancestor}`);
+      }
+    }
+  }
+}
+
+export const projectTree = new ProjectTreeService();
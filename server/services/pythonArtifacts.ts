@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PythonArtifact, PythonArtifactType } from '@shared/artifacts';
+
+// Rich outputs of sandboxed runs. The sandbox bootstrap writes each figure or
+// display() call to a numbered file in the run's artifacts directory, using
+// the two modules below; the server reads them back once the run is over.
+
+export const MATPLOTLIB_BACKEND = '_ide_matplotlib_backend';
+
+// Figures are saved as PNG unless the server is configured for SVG
+export const FIGURE_FORMAT: 'png' | 'svg' = process.env.PYTHON_FIGURE_FORMAT === 'svg' ? 'svg' : 'png';
+
+// Runs keep at most this many artifacts; larger files are dropped
+export const MAX_ARTIFACTS = 20;
+export const MAX_ARTIFACT_BYTES = 5 * 1024 * 1024;
+
+// `import display` in user code; _save_artifact and _save_figure are
+// provided by the bootstrap
+const DISPLAY_MODULE = `
+"""Rich output for the IDE: figures, HTML and JSON are shown below the run's text output."""
+import json as _json
+
+__all__ = ['display', 'html', 'json', 'figure']
+
+
+def html(markup):
+    """Show an HTML fragment, such as a table."""
+    _save_artifact('html', lambda handle: handle.write(str(markup)))
+
+
+def json(data):
+    """Show data as formatted JSON."""
+    _save_artifact('json', lambda handle: _json.dump(data, handle, ensure_ascii=False, indent=2, default=str))
+
+
+def figure(fig=None, format=None):
+    """Show a matplotlib figure (the current one by default) as 'png' or 'svg', then close it."""
+    import matplotlib.pyplot as plt
+    fig = plt.gcf() if fig is None else fig
+    _save_figure(fig, format)
+    plt.close(fig)
+
+
+def display(*objects):
+    """Show each object the richest way it supports."""
+    for obj in objects:
+        if hasattr(obj, 'savefig'):
+            figure(obj)
+        elif hasattr(obj, '_repr_html_'):
+            html(obj._repr_html_())
+        elif isinstance(obj, (dict, list)):
+            json(obj)
+        else:
+            print(obj)
+`;
+
+// Agg rendering, but plt.show() saves every open figure instead of opening a window
+const BACKEND_MODULE = `
+from matplotlib.backends.backend_agg import *
+from matplotlib.backends.backend_agg import FigureCanvasAgg as FigureCanvas
+from matplotlib._pylab_helpers import Gcf
+
+
+def show(*args, **kwargs):
+    for manager in Gcf.get_all_fig_managers():
+        _save_figure(manager.canvas.figure)
+    Gcf.destroy_all()
+`;
+
+export const RUNTIME_MODULES: Record<string, string> = {
+  display: DISPLAY_MODULE,
+  [MATPLOTLIB_BACKEND]: BACKEND_MODULE,
+};
+
+// Python shared by the sandbox bootstrap and the notebook kernel. Expects
+// `config` (with RUNTIME_MODULES as config['modules']), `save_artifact` and
+// `save_figure` to be defined, and sys, traceback, importlib.abc and
+// importlib.util to be imported.
+export const RUNTIME_LOADER = `
+# Figures still open when the code ends are shown as if plt.show() was called
+def flush_figures():
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    try:
+        for number in pyplot.get_fignums():
+            save_figure(pyplot.figure(number))
+        pyplot.close('all')
+    except Exception:
+        traceback.print_exc()
+
+# The display helper and the matplotlib backend, importable by name. Appended
+# last, so a project module with the same name still wins.
+class RuntimeModules(importlib.abc.MetaPathFinder, importlib.abc.Loader):
+    def find_spec(self, name, path=None, target=None):
+        if name in config['modules']:
+            return importlib.util.spec_from_loader(name, self)
+        return None
+
+    def create_module(self, spec):
+        return None
+
+    def exec_module(self, module):
+        module.__dict__.update(_save_artifact=save_artifact, _save_figure=save_figure)
+        exec(compile(config['modules'][module.__name__], '<' + module.__name__ + '>', 'exec'), module.__dict__)
+
+runtime_modules = RuntimeModules()
+sys.meta_path.append(runtime_modules)
+`;
+
+const ARTIFACT_TYPES: Record<string, PythonArtifactType> = {
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.html': 'text/html',
+  '.json': 'application/json',
+};
+
+// The artifacts a run left in its directory, oldest first
+export async function readArtifacts(directory: string): Promise<PythonArtifact[]> {
+  const names = await fs.promises.readdir(directory).catch(() => [] as string[]);
+  const artifacts: PythonArtifact[] = [];
+  for (const name of names.filter(name => ARTIFACT_TYPES[path.extname(name)]).sort()) {
+    if (artifacts.length >= MAX_ARTIFACTS) break;
+    const file = path.join(directory, name);
+    const stats = await fs.promises.stat(file);
+    if (!stats.isFile() || stats.size > MAX_ARTIFACT_BYTES) continue;
+    const mimeType = ARTIFACT_TYPES[path.extname(name)];
+    const content = await fs.promises.readFile(file);
+    artifacts.push({
+      name,
+      mimeType,
+      data: mimeType === 'image/png' ? content.toString('base64') : content.toString('utf8'),
+    });
+  }
+  return artifacts;
+}
@@ -0,0 +1,189 @@
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileSystemService } from './fileSystem';
+
+// A virtual environment per project, kept in .venv inside its disk directory
+// (ignored by the storage sync) and created the first time dependencies are
+// installed. Runs and REPL sessions use it once it exists.
+
+export type InstallStream = 'stdout' | 'stderr';
+
+export interface PythonEnvironmentStatus {
+  exists: boolean;
+  // The project has a requirements.txt
+  hasRequirements: boolean;
+  // requirements.txt is unchanged since the last successful install
+  upToDate: boolean;
+  installing: boolean;
+}
+
+export class PythonEnvironmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PythonEnvironmentError';
+  }
+}
+
+export class PythonEnvironmentBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PythonEnvironmentBusyError';
+  }
+}
+
+const VENV_DIRECTORY = '.venv';
+const REQUIREMENTS_PATH = '/requirements.txt';
+// Hash of the requirements.txt last installed, inside the venv
+const STAMP_FILE = '.requirements.sha256';
+
+const installTimeout = Number(process.env.PYTHON_INSTALL_TIMEOUT_MS);
+const INSTALL_TIMEOUT_MS = Number.isFinite(installTimeout) && installTimeout > 0 ? installTimeout : 10 * 60 * 1000;
+
+// Where packages come from. With only a wheel cache, installs work offline
+// (--no-index); an index URL replaces PyPI, e.g. with a local mirror.
+function packageSourceArgs(): string[] {
+  const wheelCache = process.env.PYTHON_WHEEL_CACHE;
+  const indexUrl = process.env.PYTHON_INDEX_URL;
+  const args: string[] = [];
+  if (wheelCache) args.push('--find-links', wheelCache);
+  if (indexUrl) args.push('--index-url', indexUrl);
+  else if (wheelCache) args.push('--no-index');
+  // Building sdists runs arbitrary setup.py code outside the sandbox
+  if (process.env.PYTHON_ALLOW_SOURCE_BUILDS !== 'true') args.push('--only-binary', ':all:');
+  return args;
+}
+
+// pip runs outside the sandbox, so it gets the same scrubbed environment
+// plus whatever proxy settings the server was started with
+function installEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {
+    PATH: '/usr/local/bin:/usr/bin:/bin',
+    HOME: os.tmpdir(),
+    TMPDIR: os.tmpdir(),
+    LANG: 'C.UTF-8',
+    LC_ALL: 'C.UTF-8',
+    PIP_DISABLE_PIP_VERSION_CHECK: '1',
+    PIP_NO_INPUT: '1',
+  };
+  for (const name of ['HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'http_proxy', 'https_proxy', 'no_proxy']) {
+    if (process.env[name]) env[name] = process.env[name];
+  }
+  return env;
+}
+
+export class PythonEnvironmentManager {
+  private installing = new Set<string>();
+
+  private venvPath(projectId: string): string {
+    return path.join(fileSystemService.getProjectPath(projectId), VENV_DIRECTORY);
+  }
+
+  private venvPython(projectId: string): string {
+    return path.join(this.venvPath(projectId), 'bin', 'python');
+  }
+
+  private async readRequirements(projectId: string): Promise<Buffer | null> {
+    try {
+      return await fileSystemService.readFileBuffer(projectId, REQUIREMENTS_PATH);
+    } catch {
+      return null;
+    }
+  }
+
+  isInstalling(projectId: string): boolean {
+    return this.installing.has(projectId);
+  }
+
+  // The project's venv interpreter, or null to use the system python3
+  async interpreterFor(projectId: string): Promise<string | null> {
+    if (this.installing.has(projectId)) return null;
+    const python = this.venvPython(projectId);
+    try {
+      await fs.promises.access(python, fs.constants.X_OK);
+      return python;
+    } catch {
+      return null;
+    }
+  }
+
+  async status(projectId: string): Promise<PythonEnvironmentStatus> {
+    const exists = (await this.interpreterFor(projectId)) !== null;
+    const requirements = await this.readRequirements(projectId);
+    const stamp = await fs.promises.readFile(path.join(this.venvPath(projectId), STAMP_FILE), 'utf8').catch(() => null);
+    return {
+      exists,
+      hasRequirements: requirements !== null,
+      upToDate: exists && (requirements === null || stamp === createHash('sha256').update(requirements).digest('hex')),
+      installing: this.installing.has(projectId),
+    };
+  }
+
+  // Create the venv if needed and install requirements.txt into it, passing
+  // pip's output along as it is printed
+  async install(projectId: string, onLog: (stream: InstallStream, data: string) => void): Promise<PythonEnvironmentStatus> {
+    if (this.installing.has(projectId)) {
+      throw new PythonEnvironmentBusyError('Dependencies are already being installed for this project');
+    }
+    this.installing.add(projectId);
+    try {
+      const venv = this.venvPath(projectId);
+      const cwd = fileSystemService.getProjectPath(projectId);
+      const stampPath = path.join(venv, STAMP_FILE);
+      const requirements = await this.readRequirements(projectId);
+
+      try {
+        await fs.promises.access(path.join(venv, 'bin', 'python'), fs.constants.X_OK);
+      } catch {
+        onLog('stdout', `Creando entorno virtual en ${VENV_DIRECTORY}...\n`);
+        // System packages stay visible, so nothing that worked with the
+        // system python3 breaks once the project has its own environment
+        await this.runCommand('python3', ['-m', 'venv', '--system-site-packages', venv], cwd, onLog);
+      }
+
+      if (requirements) {
+        await this.runCommand(this.venvPython(projectId), [
+          '-m', 'pip', 'install', '--requirement', REQUIREMENTS_PATH.slice(1), ...packageSourceArgs(),
+        ], cwd, onLog);
+        await fs.promises.writeFile(stampPath, createHash('sha256').update(requirements).digest('hex'));
+      } else {
+        onLog('stdout', 'No hay requirements.txt; el entorno no tiene paquetes adicionales.\n');
+        await fs.promises.rm(stampPath, { force: true });
+      }
+    } finally {
+      this.installing.delete(projectId);
+    }
+    return this.status(projectId);
+  }
+
+  private runCommand(command: string, args: string[], cwd: string, onLog: (stream: InstallStream, data: string) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { cwd, env: installEnv(), stdio: ['ignore', 'pipe', 'pipe'] });
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, INSTALL_TIMEOUT_MS);
+      child.stdout.on('data', (data: Buffer) => onLog('stdout', data.toString()));
+      child.stderr.on('data', (data: Buffer) => onLog('stderr', data.toString()));
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new PythonEnvironmentError(error.message));
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new PythonEnvironmentError(`${path.basename(command)} took longer than ${Math.round(INSTALL_TIMEOUT_MS / 1000)} s`));
+        } else if (code !== 0) {
+          reject(new PythonEnvironmentError(`${path.basename(command)} ${args.slice(0, 3).join(' ')} exited with code ${code}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+export const pythonEnvironments = new PythonEnvironmentManager();
@@ -1,102 +1,65 @@
-import { spawn, ChildProcess } from 'child_process';
-import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PythonArtifact } from '@shared/artifacts';
+import { runSandboxed, withScratchDirectory, DEFAULT_SANDBOX_LIMITS, type PythonSandboxLimits, type SandboxResult } from './pythonSandbox';
+import { readArtifacts } from './pythonArtifacts';
 
 export interface ExecutionResult {
   success: boolean;
   output: string;
   error?: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Output went over the limit and the run was stopped
+  truncated: boolean;
+  // Figures and display() outputs, in order
+  artifacts: PythonArtifact[];
 }
 
-export class PythonExecutor extends EventEmitter {
-  private process: ChildProcess | null = null;
-  private isRunning = false;
-
-  async executeCode(code: string): Promise<ExecutionResult> {
-    return new Promise((resolve) => {
-      const pythonProcess = spawn('python3', ['-c', code], {
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
-
-      let output = '';
-      let error = '';
-
-      pythonProcess.stdout?.on('data', (data) => {
-        const chunk = data.toString();
-        output += chunk;
-        this.emit('output', chunk);
-      });
-
-      pythonProcess.stderr?.on('data', (data) => {
-        const chunk = data.toString();
-        error += chunk;
-        this.emit('error', chunk);
-      });
-
-      pythonProcess.on('close', (code) => {
-        resolve({
-          success: code === 0,
-          output,
-          error: code !== 0 ? error : undefined,
-        });
-      });
-
-      pythonProcess.on('error', (err) => {
-        resolve({
-          success: false,
-          output: '',
-          error: err.message,
-        });
-      });
-    });
+// Shape a sandbox result for the API: the limit that stopped a run is
+// reported after whatever it printed
+export function toExecutionResult(
+  result: SandboxResult,
+  artifacts: PythonArtifact[],
+  limits: Partial<PythonSandboxLimits> = {},
+): ExecutionResult {
+  const { maxOutputBytes } = { ...DEFAULT_SANDBOX_LIMITS, ...limits };
+  const notices: string[] = [];
+  if (result.timedOut) {
+    notices.push('La ejecución superó el límite de tiempo y se detuvo.');
   }
-
-  startInteractiveSession(): void {
-    if (this.isRunning) {
-      this.stopInteractiveSession();
-    }
-
-    this.process = spawn('python3', ['-i'], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    this.isRunning = true;
-
-    this.process.stdout?.on('data', (data) => {
-      this.emit('output', data.toString());
-    });
-
-    this.process.stderr?.on('data', (data) => {
-      this.emit('error', data.toString());
-    });
-
-    this.process.on('close', () => {
-      this.isRunning = false;
-      this.process = null;
-    });
-
-    this.process.on('error', (err) => {
-      this.emit('error', err.message);
-      this.isRunning = false;
-      this.process = null;
-    });
-  }
-
-  sendCommand(command: string): void {
-    if (this.process && this.isRunning) {
-      this.process.stdin?.write(command + '\n');
-    }
-  }
-
-  stopInteractiveSession(): void {
-    if (this.process && this.isRunning) {
-      this.process.kill();
-      this.isRunning = false;
-      this.process = null;
-    }
+  if (result.truncated) {
+    notices.push(`La salida superó ${Math.round(maxOutputBytes / 1024)} KB y se detuvo la ejecución.`);
   }
+  const success = result.exitCode === 0 && !result.timedOut && !result.truncated;
+  const error = [result.stderr, ...notices].filter(Boolean).join('\n');
+  return {
+    success,
+    output: result.stdout,
+    error: success ? undefined : error || `El proceso terminó con código ${result.exitCode}`,
+    exitCode: result.exitCode,
+    timedOut: result.timedOut,
+    durationMs: result.durationMs,
+    truncated: result.truncated,
+    artifacts,
+  };
+}
 
-  isSessionRunning(): boolean {
-    return this.isRunning;
+// One-off runs of a code string, each in its own scratch directory under the
+// sandbox limits; the interactive REPL lives in pythonSessions
+export class PythonExecutor {
+  // `python` is a project's venv interpreter, for code that needs its packages
+  async executeCode(code: string, options: { python?: string; limits?: Partial<PythonSandboxLimits> } = {}): Promise<ExecutionResult> {
+    const { python, limits = {} } = options;
+    return withScratchDirectory(async (directory) => {
+      const script = path.join(directory, 'main.py');
+      const artifactsDir = path.join(directory, '.artifacts');
+      await fs.promises.writeFile(script, code, 'utf8');
+      await fs.promises.mkdir(artifactsDir);
+      const result = await runSandboxed(script, { python, cwd: directory, limits, artifactsDir });
+      return toExecutionResult(result, await readArtifacts(artifactsDir), limits);
+    });
   }
 }
 
@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import type { NotebookOutput } from "@shared/notebook";
+
+// Kernels run in <cwd>/projects/<id>, so run them in a scratch directory
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "python-kernels-"));
+process.chdir(scratch);
+fs.mkdirSync(path.join(scratch, "projects", "p1"), { recursive: true });
+const { DEFAULT_KERNEL_OPTIONS, PythonKernelManager } = await import("./pythonKernels");
+const { PythonUserQuota } = await import("./pythonSessions");
+
+const kernels = new PythonKernelManager(
+  { ...DEFAULT_KERNEL_OPTIONS, cellTimeoutMs: 2000, interruptGraceMs: 1000 },
+  new PythonUserQuota(10),
+);
+
+async function run(code: string) {
+  const outputs: NotebookOutput[] = [];
+  const result = await kernels.execute("ana", "p1", code, { onOutput: output => outputs.push(output) });
+  const text = outputs.map(output => (output.output_type === "stream" ? output.text : "")).join("");
+  const error = outputs.find(output => output.output_type === "error");
+  return { ...result, text, error: error?.output_type === "error" ? error : undefined };
+}
+
+afterEach(() => kernels.stopProject("p1"));
+
+afterAll(() => {
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+describe("notebook kernels", () => {
+  it("keeps variables between cells", async () => {
+    expect(await run("x = 20")).toMatchObject({ status: "ok" });
+    expect(await run("print(x + 22)")).toMatchObject({ status: "ok", text: "42\n" });
+  });
+
+  it("runs under the sandbox limits", async () => {
+    const result = await run([
+      "import resource",
+      "for name in ('RLIMIT_CPU', 'RLIMIT_FSIZE', 'RLIMIT_AS'):",
+      "    print(name, resource.getrlimit(getattr(resource, name))[0] != resource.RLIM_INFINITY)",
+    ].join("\n"));
+    expect(result.text).toBe("RLIMIT_CPU True\nRLIMIT_FSIZE True\nRLIMIT_AS True\n");
+  });
+
+  it.each([
+    ["subprocess", "import subprocess; subprocess.run(['id'])"],
+    ["os.fork", "import os; os.fork()"],
+    ["the server's environment", "import os; open('/proc/%d/environ' % os.getppid()).read()"],
+  ])("refuses %s", async (_name, code) => {
+    const result = await run(`${code}\nprint('escaped')`);
+    expect(result.status).toBe("error");
+    expect(result.text).not.toContain("escaped");
+    expect(result.error).toMatchObject({ ename: "PermissionError" });
+    expect(result.error?.evalue).toMatch(/not allowed in the sandbox/);
+  });
+
+  it("interrupts a cell that runs past the time limit and keeps the kernel", async () => {
+    await run("y = 1");
+    const result = await run("while True: pass");
+    expect(result.status).toBe("error");
+    expect(result.text).toContain("superó el límite de 2 s");
+    expect(result.error).toMatchObject({ ename: "KeyboardInterrupt" });
+    expect(await run("print(y)")).toMatchObject({ status: "ok", text: "1\n" });
+  });
+
+  it("kills the kernel when the cell ignores the interrupt", async () => {
+    await run("y = 1");
+    const result = await run("import signal\nsignal.signal(signal.SIGINT, signal.SIG_IGN)\nwhile True: pass");
+    expect(result.status).toBe("error");
+    expect(result.error).toMatchObject({ ename: "KernelDied" });
+    expect(result.error?.evalue).toMatch(/no respondió a la interrupción/);
+    expect(await run("print('y' in globals())")).toMatchObject({ status: "ok", text: "False\n" });
+  });
+});
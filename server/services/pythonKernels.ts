@@ -0,0 +1,500 @@
+import type { ChildProcess } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as os from 'os';
+import type { Readable } from 'stream';
+import type { MimeBundle, NotebookCellStatus, NotebookOutput } from '@shared/notebook';
+import { fileSystemService } from './fileSystem';
+import { pythonEnvironments } from './pythonEnvironments';
+import { DEFAULT_SANDBOX_LIMITS, spawnSandboxedKernel } from './pythonSandbox';
+import {
+  DEFAULT_SESSION_OPTIONS,
+  PythonSessionLimitError,
+  PythonUserQuota,
+  pythonUserQuota,
+  readPositiveInt,
+  SESSION_LIMITS,
+  type PythonSessionOptions,
+} from './pythonSessions';
+
+// Kernels for notebook cells: a Python process per user and project that
+// keeps its variables between cells, like a Jupyter kernel. Unlike terminal
+// REPLs they outlive the socket, so reloading the page keeps the session;
+// they end after sitting idle, on restart, or when the project is deleted.
+
+export interface KernelExecutionHandlers {
+  onOutput: (output: NotebookOutput) => void;
+}
+
+export interface KernelExecutionResult {
+  status: NotebookCellStatus;
+  // null when the cell never ran
+  executionCount: number | null;
+}
+
+// Cell filenames in tracebacks, e.g. "<celda 3>"
+const CELL_FILENAME_PREFIX = '<celda ';
+
+// Runs after the sandbox setup (limits, audit hook, runtime modules), which
+// it extends: figures and display() outputs are sent back instead of being
+// written to files. Requests arrive on stdin as JSON lines; every message
+// back (output and the end of each cell) goes over fd 3, so nothing user
+// code prints can be mistaken for one.
+const KERNEL = `
+import ast, base64, builtins, io, linecache
+
+channel = os.fdopen(3, 'w', encoding='utf-8')
+requests = sys.stdin
+sys.stdin = io.StringIO()
+current = None
+
+def emit(message):
+    message['id'] = current
+    channel.write(json.dumps(message) + '\\n')
+    channel.flush()
+
+class Stream(io.TextIOBase):
+    encoding = 'utf-8'
+
+    def __init__(self, name):
+        self.stream_name = name
+
+    def writable(self):
+        return True
+
+    def write(self, text):
+        if text:
+            emit({'type': 'stream', 'name': self.stream_name, 'text': str(text)})
+        return len(text)
+
+MIME_TYPES = {'png': 'image/png', 'svg': 'image/svg+xml', 'html': 'text/html', 'json': 'application/json'}
+
+def save_artifact(extension, write, text=None):
+    handle = io.BytesIO() if extension == 'png' else io.StringIO()
+    write(handle)
+    value = handle.getvalue()
+    if extension == 'png':
+        value = base64.b64encode(value).decode('ascii')
+    elif extension == 'json':
+        value = json.loads(value)
+    data = {MIME_TYPES[extension]: value}
+    if text is not None:
+        data['text/plain'] = text
+    emit({'type': 'display_data', 'data': data})
+
+def save_figure(figure, format=None):
+    format = format or config['figureFormat']
+    save_artifact(format, lambda handle: figure.savefig(handle, format=format, bbox_inches='tight'), repr(figure))
+
+os.environ['MPLBACKEND'] = 'module://' + config['matplotlibBackend']
+
+def no_input(prompt=''):
+    raise EOFError('input() no está disponible en los cuadernos; ejecuta el archivo desde el terminal')
+
+builtins.input = no_input
+
+# display() is available without an import, as in Jupyter
+display_module = importlib.util.module_from_spec(importlib.util.spec_from_loader('display', runtime_modules))
+runtime_modules.exec_module(display_module)
+namespace = {'__name__': '__main__', '__builtins__': builtins, 'display': display_module.display}
+sys.path.insert(0, os.getcwd())
+sys.stdout = Stream('stdout')
+sys.stderr = Stream('stderr')
+execution_count = 0
+
+def show_result(value):
+    if value is None:
+        return
+    builtins._ = value
+    data = {'text/plain': repr(value)}
+    if hasattr(value, '_repr_html_'):
+        try:
+            markup = value._repr_html_()
+        except Exception:
+            markup = None
+        if markup:
+            data['text/html'] = markup
+    emit({'type': 'execute_result', 'execution_count': execution_count, 'data': data})
+
+# The value of a trailing expression is shown unless the line ends with ';'
+def run_cell(code, filename):
+    tree = ast.parse(code, filename)
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr) and not code.rstrip().endswith(';'):
+        last = ast.Expression(tree.body.pop().value)
+    exec(compile(tree, filename, 'exec'), namespace)
+    if last is not None:
+        show_result(eval(compile(last, filename, 'eval'), namespace))
+
+def report(error):
+    # Drop the kernel's own frames from the traceback
+    tb = error.__traceback__
+    while tb is not None and not tb.tb_frame.f_code.co_filename.startswith(config['cellPrefix']):
+        tb = tb.tb_next
+    # ...including the input() stub at the end
+    last = tb
+    while last is not None and last.tb_next is not None:
+        if last.tb_next.tb_frame.f_code.co_filename == '<string>':
+            last.tb_next = None
+        else:
+            last = last.tb_next
+    emit({
+        'type': 'error',
+        'ename': type(error).__name__,
+        'evalue': str(error),
+        'traceback': traceback.format_exception(type(error), error, tb),
+    })
+
+while True:
+    try:
+        line = requests.readline()
+        if not line:
+            break
+        request = json.loads(line)
+        current = request['id']
+        execution_count += 1
+        filename = config['cellPrefix'] + str(execution_count) + '>'
+        code = request['code']
+        # Tracebacks show the cell's source lines
+        linecache.cache[filename] = (len(code), None, code.splitlines(True), filename)
+        status = 'ok'
+        try:
+            try:
+                run_cell(code, filename)
+            finally:
+                flush_figures()
+        except BaseException as error:
+            status = 'error'
+            report(error)
+        emit({'type': 'done', 'status': status, 'execution_count': execution_count})
+        current = None
+    except KeyboardInterrupt:
+        # An interrupt that landed outside the cell's own code
+        if current is not None:
+            emit({'type': 'done', 'status': 'error', 'execution_count': execution_count})
+            current = None
+`;
+
+// Messages on fd 3, tagged with the request they belong to (null between
+// cells). User code can write to fd 3 too, so fields are still checked.
+type KernelMessage = { id: string | null } & (
+  | { type: 'stream'; name: 'stdout' | 'stderr'; text: string }
+  | { type: 'display_data'; data: MimeBundle }
+  | { type: 'execute_result'; execution_count: number | null; data: MimeBundle }
+  | { type: 'error'; ename: string; evalue: string; traceback: string[] }
+  | { type: 'done'; status: 'ok' | 'error'; execution_count: number | null }
+);
+
+export interface PythonKernelOptions extends PythonSessionOptions {
+  // Wall-clock time a cell may run before it is interrupted
+  cellTimeoutMs: number;
+  // How long an interrupted cell has to stop before the kernel is killed
+  interruptGraceMs: number;
+}
+
+export const DEFAULT_KERNEL_OPTIONS: PythonKernelOptions = {
+  ...DEFAULT_SESSION_OPTIONS,
+  cellTimeoutMs: readPositiveInt(process.env.PYTHON_CELL_TIMEOUT_MS, 2 * 60 * 1000),
+  interruptGraceMs: 5000,
+};
+
+interface KernelExecution {
+  id: string;
+  code: string;
+  handlers: KernelExecutionHandlers;
+  resolve: (result: KernelExecutionResult) => void;
+  outputBytes: number;
+  truncated: boolean;
+}
+
+// Printing in a loop sends many small writes; they are merged for this long
+const STREAM_FLUSH_MS = 50;
+
+class PythonKernel {
+  private process: ChildProcess;
+  private queue: KernelExecution[] = [];
+  private running: KernelExecution | null = null;
+  private received = '';
+  private pendingStream: { name: 'stdout' | 'stderr'; text: string } | null = null;
+  private streamTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private cellTimer: ReturnType<typeof setTimeout> | null = null;
+  private ended = false;
+
+  constructor(
+    readonly key: string,
+    readonly projectId: string,
+    readonly python: string,
+    private options: PythonKernelOptions,
+    private onClosed: (kernel: PythonKernel) => void,
+  ) {
+    // Caches go to the temp directory, not the project
+    this.process = spawnSandboxedKernel(KERNEL, {
+      python,
+      cwd: fileSystemService.getProjectPath(projectId),
+      env: { HOME: os.tmpdir(), TMPDIR: os.tmpdir() },
+      limits: SESSION_LIMITS,
+    }, { cellPrefix: CELL_FILENAME_PREFIX });
+    const channel = this.process.stdio[3] as Readable;
+    channel.setEncoding('utf8');
+    channel.on('data', (chunk: string) => this.receive(chunk));
+    // Anything printed below sys.stdout (C extensions, interpreter crashes)
+    this.process.stdout?.on('data', (data: Buffer) => this.stream('stdout', data.toString()));
+    this.process.stderr?.on('data', (data: Buffer) => this.stream('stderr', data.toString()));
+    this.process.stdin?.on('error', () => {
+      // Writes racing the process exit; 'close' reports the end
+    });
+    this.process.on('error', () => this.end(true));
+    this.process.on('close', () => this.end(true));
+    this.touch();
+  }
+
+  get idle(): boolean {
+    return this.running === null && this.queue.length === 0;
+  }
+
+  // Cells run one at a time, in the order they were sent
+  execute(code: string, handlers: KernelExecutionHandlers): Promise<KernelExecutionResult> {
+    return new Promise((resolve) => {
+      if (this.ended) {
+        resolve({ status: 'aborted', executionCount: null });
+        return;
+      }
+      this.queue.push({ id: randomUUID(), code, handlers, resolve, outputBytes: 0, truncated: false });
+      this.next();
+    });
+  }
+
+  // KeyboardInterrupt in the running cell; cells queued behind it are dropped
+  interrupt(): boolean {
+    this.abortQueued();
+    if (!this.running) return false;
+    this.process.kill('SIGINT');
+    return true;
+  }
+
+  stop() {
+    this.end(false);
+  }
+
+  private next() {
+    if (this.running || this.ended) return;
+    const execution = this.queue.shift();
+    if (!execution) return;
+    this.running = execution;
+    this.touch();
+    this.limitCell(execution);
+    this.process.stdin?.write(JSON.stringify({ id: execution.id, code: execution.code }) + '\n');
+  }
+
+  // Refreshing the idle timer never stops a busy cell, so each one gets a
+  // wall-clock limit: past it the cell is interrupted, and a cell that
+  // ignores the interrupt takes the kernel down with it
+  private limitCell(execution: KernelExecution) {
+    const seconds = Math.round(this.options.cellTimeoutMs / 1000);
+    this.cellTimer = setTimeout(() => {
+      if (this.running !== execution) return;
+      this.stream('stderr', `\n[La celda superó el límite de ${seconds} s y se interrumpió]\n`);
+      this.process.kill('SIGINT');
+      this.cellTimer = setTimeout(() => {
+        if (this.running !== execution) return;
+        this.end(true, `La celda superó el límite de ${seconds} s y no respondió a la interrupción; el kernel se reiniciará con la próxima celda`);
+      }, this.options.interruptGraceMs);
+    }, this.options.cellTimeoutMs);
+  }
+
+  private clearCellTimer() {
+    if (this.cellTimer) clearTimeout(this.cellTimer);
+    this.cellTimer = null;
+  }
+
+  private receive(chunk: string) {
+    this.received += chunk;
+    let newline: number;
+    while ((newline = this.received.indexOf('\n')) !== -1) {
+      const line = this.received.slice(0, newline);
+      this.received = this.received.slice(newline + 1);
+      try {
+        this.handle(JSON.parse(line));
+      } catch {
+        // Not a kernel message; fd 3 is only written by the kernel itself
+      }
+    }
+  }
+
+  private handle(message: KernelMessage) {
+    const execution = this.running;
+    if (!execution || message.id !== execution.id) return;
+    switch (message.type) {
+      case 'stream':
+        this.stream(message.name === 'stderr' ? 'stderr' : 'stdout', String(message.text));
+        break;
+      case 'display_data':
+        this.output({ output_type: 'display_data', data: message.data ?? {}, metadata: {} });
+        break;
+      case 'execute_result':
+        this.output({ output_type: 'execute_result', execution_count: message.execution_count ?? null, data: message.data ?? {}, metadata: {} });
+        break;
+      case 'error':
+        this.output({
+          output_type: 'error',
+          ename: String(message.ename),
+          evalue: String(message.evalue),
+          traceback: Array.isArray(message.traceback) ? message.traceback.map(String) : [],
+        });
+        break;
+      case 'done':
+        this.clearCellTimer();
+        this.flushStream();
+        this.running = null;
+        execution.resolve({ status: message.status === 'ok' ? 'ok' : 'error', executionCount: message.execution_count ?? null });
+        this.touch();
+        this.next();
+        break;
+    }
+  }
+
+  private stream(name: 'stdout' | 'stderr', text: string) {
+    if (!this.running) return;
+    if (this.pendingStream && this.pendingStream.name !== name) this.flushStream();
+    if (this.pendingStream) {
+      this.pendingStream.text += text;
+    } else {
+      this.pendingStream = { name, text };
+      this.streamTimer = setTimeout(() => this.flushStream(), STREAM_FLUSH_MS);
+    }
+  }
+
+  private flushStream() {
+    if (this.streamTimer) clearTimeout(this.streamTimer);
+    this.streamTimer = null;
+    const pending = this.pendingStream;
+    this.pendingStream = null;
+    if (pending) this.output({ output_type: 'stream', name: pending.name, text: pending.text });
+  }
+
+  // Outputs end up stored in the notebook file, so each cell gets the same
+  // output allowance as a sandboxed run
+  private output(output: NotebookOutput) {
+    const execution = this.running;
+    if (!execution || execution.truncated) return;
+    if (output.output_type !== 'stream') this.flushStream();
+    execution.outputBytes += JSON.stringify(output).length;
+    if (execution.outputBytes > DEFAULT_SANDBOX_LIMITS.maxOutputBytes) {
+      execution.truncated = true;
+      execution.handlers.onOutput({ output_type: 'stream', name: 'stderr', text: '\n[Salida truncada: la celda superó el límite de salida]\n' });
+      return;
+    }
+    execution.handlers.onOutput(output);
+  }
+
+  private abortQueued() {
+    const queued = this.queue;
+    this.queue = [];
+    for (const execution of queued) execution.resolve({ status: 'aborted', executionCount: null });
+  }
+
+  private touch() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      if (this.idle) this.end(false);
+      else this.touch();
+    }, this.options.idleTimeoutMs);
+  }
+
+  // `crashed`: the process went away by itself, or was killed, while a cell
+  // may be running; `reason` is what the running cell reports
+  private end(crashed: boolean, reason = 'El kernel de Python se detuvo; se reiniciará con la próxima celda') {
+    if (this.ended) return;
+    this.ended = true;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.clearCellTimer();
+    this.flushStream();
+    const running = this.running;
+    this.running = null;
+    if (running) {
+      if (crashed) {
+        running.handlers.onOutput({
+          output_type: 'error',
+          ename: 'KernelDied',
+          evalue: reason,
+          traceback: [],
+        });
+      }
+      running.resolve({ status: crashed ? 'error' : 'aborted', executionCount: null });
+    }
+    this.abortQueued();
+    this.process.stdout?.removeAllListeners('data');
+    this.process.stderr?.removeAllListeners('data');
+    if (this.process.exitCode === null && this.process.signalCode === null) this.process.kill('SIGKILL');
+    this.onClosed(this);
+  }
+}
+
+export class PythonKernelManager {
+  private kernels = new Map<string, PythonKernel>();
+
+  constructor(
+    private options: PythonKernelOptions = DEFAULT_KERNEL_OPTIONS,
+    private quota: PythonUserQuota = pythonUserQuota,
+  ) {}
+
+  private key(userId: string, projectId: string): string {
+    return `${userId}:${projectId}`;
+  }
+
+  // Run a cell in the user's kernel for the project, starting one if needed
+  async execute(userId: string, projectId: string, code: string, handlers: KernelExecutionHandlers): Promise<KernelExecutionResult> {
+    const key = this.key(userId, projectId);
+    const venvPython = await pythonEnvironments.interpreterFor(projectId);
+    let kernel = this.kernels.get(key);
+    // A venv installed since the kernel started is picked up between cells
+    if (kernel && venvPython && kernel.python !== venvPython && kernel.idle) {
+      kernel.stop();
+      kernel = undefined;
+    }
+    if (!kernel) {
+      if (this.kernels.size >= this.options.maxSessions) {
+        throw new PythonSessionLimitError(`Too many notebook kernels running (limit ${this.options.maxSessions})`);
+      }
+      const release = this.quota.acquire(userId);
+      try {
+        kernel = new PythonKernel(key, projectId, venvPython ?? 'python3', this.options, (closed) => {
+          release();
+          if (this.kernels.get(closed.key) === closed) this.kernels.delete(closed.key);
+        });
+      } catch (error) {
+        release();
+        throw error;
+      }
+      this.kernels.set(key, kernel);
+    }
+    return kernel.execute(code, handlers);
+  }
+
+  // Returns false when no cell was running
+  interrupt(userId: string, projectId: string): boolean {
+    return this.kernels.get(this.key(userId, projectId))?.interrupt() ?? false;
+  }
+
+  // The next cell starts a fresh kernel
+  restart(userId: string, projectId: string): void {
+    this.kernels.get(this.key(userId, projectId))?.stop();
+  }
+
+  // One user's kernel for a project, e.g. when they can no longer edit it
+  stop(userId: string, projectId: string): void {
+    this.kernels.get(this.key(userId, projectId))?.stop();
+  }
+
+  // Every user's kernel for a project, e.g. when it is deleted
+  stopProject(projectId: string): void {
+    const kernels = Array.from(this.kernels.values()).filter(kernel => kernel.projectId === projectId);
+    for (const kernel of kernels) kernel.stop();
+  }
+
+  get size(): number {
+    return this.kernels.size;
+  }
+}
+
+export const pythonKernels = new PythonKernelManager();
@@ -0,0 +1,92 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { pythonExecutor } from "./pythonExecutor";
+
+// The server's directory, which sandboxed code may not read
+const serverRoot = process.cwd();
+
+async function run(code: string) {
+  return pythonExecutor.executeCode(code, { limits: { timeoutMs: 20_000 } });
+}
+
+describe("sandboxed Python", () => {
+  it("runs ordinary code that uses files, temporary directories and subprocess imports", async () => {
+    const result = await run([
+      "import json, os, shutil, subprocess, tempfile",
+      "os.makedirs('out/sub')",
+      "with open('out/sub/data.json', 'w') as handle: json.dump({'n': 1}, handle)",
+      "print(json.load(open('out/sub/data.json'))['n'], sorted(os.listdir('.')))",
+      "shutil.rmtree('out')",
+      "with tempfile.TemporaryDirectory() as directory: open(os.path.join(directory, 'x'), 'w').close()",
+      "print(open('/proc/self/status').readline().split()[0])",
+    ].join("\n"));
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe("1 ['.artifacts', 'main.py', 'out']\nName:\n");
+  });
+
+  it.each([
+    ["the server's environment", "open('/proc/%d/environ' % os.getppid()).read()"],
+    ["its own environment", "open('/proc/self/environ').read()"],
+    ["the server's /proc entries", "open('/proc/%d/cmdline' % os.getppid()).read()"],
+    ["the server's working directory through /proc", "os.listdir('/proc/%d/cwd/' % os.getppid())"],
+    ["/proc through a directory descriptor", "os.open('%d/environ' % os.getppid(), os.O_RDONLY, dir_fd=os.open('/proc', os.O_RDONLY))"],
+    ["the root through a directory descriptor", "os.open('proc/1/environ', os.O_RDONLY, dir_fd=os.open('/', os.O_RDONLY))"],
+    ["a relative path out of a directory descriptor", "os.open('../../etc/passwd', os.O_RDONLY, dir_fd=os.open('.', os.O_RDONLY))"],
+    ["a symlink to the server's environment", "os.symlink('/proc/%d/environ' % os.getppid(), 'leak'); open('leak').read()"],
+    ["the server directory", `open(${JSON.stringify(path.join(serverRoot, "package.json"))}).read()`],
+    ["a symlink into the server directory", `os.symlink(${JSON.stringify(serverRoot)}, 'server'); os.listdir('server')`],
+  ])("refuses reading %s", async (_name, code) => {
+    const result = await run(`import os\n${code}\nprint('leaked')`);
+    expect(result.success).toBe(false);
+    expect(result.output).not.toContain("leaked");
+    expect(result.error).toMatch(/PermissionError: Access to .* is not allowed in the sandbox/);
+  });
+
+  it.each([
+    ["subprocess", "import subprocess; subprocess.run(['id'])"],
+    ["os.system", "import os; os.system('id')"],
+    ["os.fork", "import os; os.fork()"],
+    ["os.execv", "import os; os.execv('/bin/sh', ['sh', '-c', 'id'])"],
+    ["os.posix_spawn", "import os; os.posix_spawn('/bin/sh', ['sh', '-c', 'id'], {})"],
+    ["os.spawnv", "import os; os.spawnv(os.P_WAIT, '/bin/sh', ['sh', '-c', 'id'])"],
+    ["_posixsubprocess.fork_exec", "import _posixsubprocess; _posixsubprocess.fork_exec()"],
+    ["a reloaded _posixsubprocess", "import importlib, _posixsubprocess; importlib.reload(_posixsubprocess).fork_exec()"],
+    ["libc through ctypes", "import ctypes; ctypes.CDLL(None).system(b'id')"],
+    ["ctypes.pythonapi", "import ctypes; ctypes.pythonapi.system"],
+    ["loading a library through ctypes", "import ctypes; ctypes.CDLL('libc.so.6')"],
+    ["writing a native module", "open('evil.so', 'wb').write(b'')"],
+    ["renaming a file to a native module", "import os; open('evil.txt', 'wb').close(); os.rename('evil.txt', 'evil.so')"],
+  ])("refuses starting processes through %s", async (_name, code) => {
+    const result = await run(`${code}\nprint('escaped')`);
+    expect(result.success).toBe(false);
+    expect(result.output).not.toContain("escaped");
+    expect(result.error).toMatch(/PermissionError: .* not allowed in the sandbox/);
+  });
+
+  // Native code gets past the audit hook; the kernel still refuses to fork
+  it("refuses forking from a fresh copy of _posixsubprocess", async () => {
+    const result = await run([
+      "import importlib.util, os",
+      "fresh = importlib.util.module_from_spec(importlib.util.find_spec('_posixsubprocess'))",
+      "read, write = os.pipe()",
+      "fresh.fork_exec([b'/bin/echo', b'escaped'], [b'/bin/echo'], True, (write,), None, None,",
+      "                -1, -1, -1, -1, -1, -1, read, write, False, False, -1, -1, None, -1, -1, None, True)",
+    ].join("\n"));
+    expect(result.success).toBe(false);
+    expect(result.output).not.toContain("escaped");
+    expect(result.error).toMatch(/PermissionError: \[Errno 1\] Operation not permitted/);
+  });
+
+  it("still starts threads", async () => {
+    const result = await run([
+      "import threading",
+      "results = []",
+      "threads = [threading.Thread(target=results.append, args=(n,)) for n in range(4)]",
+      "for thread in threads: thread.start()",
+      "for thread in threads: thread.join()",
+      "print(sorted(results))",
+    ].join("\n"));
+    expect(result.error).toBeUndefined();
+    expect(result.output).toBe("[0, 1, 2, 3]\n");
+  });
+});
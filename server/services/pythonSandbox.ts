@@ -0,0 +1,440 @@
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FIGURE_FORMAT, MATPLOTLIB_BACKEND, RUNTIME_LOADER, RUNTIME_MODULES } from './pythonArtifacts';
+
+// Limits applied to every sandboxed Python run. The bootstrap below sets them
+// as rlimits from inside the interpreter, before any user code is loaded.
+export interface PythonSandboxLimits {
+  // Wall-clock time before the run is killed
+  timeoutMs: number;
+  // CPU time (RLIMIT_CPU)
+  cpuSeconds: number;
+  // Address space (RLIMIT_AS); large enough for numpy/matplotlib by default
+  memoryBytes: number;
+  // Largest file the run may write (RLIMIT_FSIZE)
+  fileSizeBytes: number;
+  // stdout and stderr kept per run; the run is stopped once it prints more
+  maxOutputBytes: number;
+  // Off by default: sockets and DNS lookups raise PermissionError
+  allowNetwork: boolean;
+}
+
+export interface SandboxOptions {
+  // Interpreter to run; python3 from PATH unless a venv provides one
+  python?: string;
+  // Working directory; the script's directory also goes first on sys.path
+  cwd: string;
+  args?: string[];
+  limits?: Partial<PythonSandboxLimits>;
+  // Extra environment on top of the scrubbed one
+  env?: Record<string, string>;
+  // Where figures and display() outputs are written; see readArtifacts
+  artifactsDir?: string;
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: PythonSandboxLimits = {
+  timeoutMs: readPositiveNumber(process.env.PYTHON_TIMEOUT_MS, 30_000),
+  cpuSeconds: readPositiveNumber(process.env.PYTHON_CPU_SECONDS, 20),
+  memoryBytes: readPositiveNumber(process.env.PYTHON_MEMORY_MB, 1024) * 1024 * 1024,
+  fileSizeBytes: readPositiveNumber(process.env.PYTHON_MAX_FILE_MB, 50) * 1024 * 1024,
+  maxOutputBytes: readPositiveNumber(process.env.PYTHON_MAX_OUTPUT_KB, 1024) * 1024,
+  allowNetwork: process.env.PYTHON_ALLOW_NETWORK === 'true',
+};
+
+// Audit events refused inside the sandbox. Python-level hooks are a
+// denylist, not an OS boundary: they keep ordinary code (requests, urllib,
+// subprocess) from reaching the network or other programs. Starting
+// processes is also refused by the kernel, through the seccomp filter below.
+const NETWORK_EVENTS = ['socket.connect', 'socket.bind', 'socket.getaddrinfo', 'socket.gethostbyname', 'socket.gethostbyaddr', 'socket.sendto', 'socket.sendmsg'];
+const PROCESS_EVENTS = ['subprocess.Popen', 'os.system', 'os.exec', 'os.posix_spawn', 'os.spawn', 'os.fork', 'os.forkpty', 'pty.spawn'];
+
+// Limits, rich output and the audit hook, shared by scripts, the REPL and
+// notebook kernels. argv: [-c, config JSON, ...]
+const SETUP = `
+import _posixsubprocess, importlib.abc, importlib.machinery, importlib.util, json, os, resource, runpy, sys, traceback
+
+config = json.loads(sys.argv[1])
+
+def limit(kind, value, hard=None):
+    try:
+        resource.setrlimit(kind, (value, value if hard is None else hard))
+    except (ValueError, OSError):
+        pass
+
+# SIGXCPU at the soft limit, SIGKILL a second later
+limit(resource.RLIMIT_CPU, config['cpuSeconds'], config['cpuSeconds'] + 1)
+limit(resource.RLIMIT_AS, config['memoryBytes'])
+limit(resource.RLIMIT_FSIZE, config['fileSizeBytes'])
+limit(resource.RLIMIT_CORE, 0)
+
+artifact_count = 0
+
+def save_artifact(extension, write):
+    global artifact_count
+    if not config['artifactsDir']:
+        return
+    artifact_count += 1
+    name = os.path.join(config['artifactsDir'], '%03d.%s' % (artifact_count, extension))
+    if extension == 'png':
+        with open(name, 'wb') as handle:
+            write(handle)
+    else:
+        with open(name, 'w', encoding='utf-8') as handle:
+            write(handle)
+
+def save_figure(figure, format=None):
+    format = format or config['figureFormat']
+    save_artifact(format, lambda handle: figure.savefig(handle, format=format, bbox_inches='tight'))
+
+${RUNTIME_LOADER}
+os.environ['MPLBACKEND'] = 'module://' + config['matplotlibBackend'] if config['artifactsDir'] else 'Agg'
+
+blocked = set(config['blockedEvents'])
+
+# subprocess raises its audit event and then forks through this function,
+# which user code could call directly. A fresh copy of the module still has
+# the original; the seccomp filter below stops that one.
+def refuse_fork_exec(*args, **kwargs):
+    raise PermissionError('Starting processes is not allowed in the sandbox (_posixsubprocess.fork_exec)')
+
+_posixsubprocess.fork_exec = refuse_fork_exec
+
+# The backstop for native code the hook cannot see: a seccomp filter makes
+# fork, vfork, exec and clone (other than for threads) fail with EPERM in
+# this process for good. Skipped where the kernel or architecture lacks it.
+def deny_new_processes():
+    import ctypes
+    syscalls = {
+        'x86_64': (0xc000003e, {'clone': 56, 'fork': 57, 'vfork': 58, 'execve': 59, 'execveat': 322, 'clone3': 435}),
+        'aarch64': (0xc00000b7, {'clone': 220, 'execve': 221, 'execveat': 281, 'clone3': 435}),
+    }
+    if os.uname().machine not in syscalls:
+        return
+    arch, numbers = syscalls[os.uname().machine]
+    LD, JEQ, JGE, JSET, RET = 0x20, 0x15, 0x35, 0x45, 0x06
+    ALLOW, EPERM, ENOSYS, CLONE_THREAD, X32 = 0x7fff0000, 0x50001, 0x50026, 0x10000, 0x40000000
+    # (code, jump if true, jump if false, k) over seccomp_data: nr at 0, arch at 4, args[0] at 16
+    program = [(LD, 0, 0, 4), (JEQ, 1, 0, arch), (RET, 0, 0, EPERM), (LD, 0, 0, 0), (JGE, 0, 1, X32), (RET, 0, 0, EPERM)]
+    for name in ('fork', 'vfork', 'execve', 'execveat'):
+        if name in numbers:
+            program += [(JEQ, 0, 1, numbers[name]), (RET, 0, 0, EPERM)]
+    # glibc falls back to clone when clone3 is missing
+    program += [(JEQ, 0, 1, numbers['clone3']), (RET, 0, 0, ENOSYS)]
+    program += [(JEQ, 0, 3, numbers['clone']), (LD, 0, 0, 16), (JSET, 1, 0, CLONE_THREAD), (RET, 0, 0, EPERM)]
+    program += [(RET, 0, 0, ALLOW)]
+
+    class Filter(ctypes.Structure):
+        _fields_ = [('code', ctypes.c_ushort), ('jt', ctypes.c_ubyte), ('jf', ctypes.c_ubyte), ('k', ctypes.c_uint)]
+
+    class Program(ctypes.Structure):
+        _fields_ = [('len', ctypes.c_ushort), ('filter', ctypes.POINTER(Filter))]
+
+    filters = (Filter * len(program))(*program)
+    libc = ctypes.CDLL(None)
+    arg = ctypes.c_ulong
+    # PR_SET_NO_NEW_PRIVS, then PR_SET_SECCOMP with SECCOMP_MODE_FILTER
+    if libc.prctl(arg(38), arg(1), arg(0), arg(0), arg(0)) == 0:
+        libc.prctl(arg(22), arg(2), ctypes.byref(Program(len(program), filters)), arg(0), arg(0))
+
+try:
+    deny_new_processes()
+except (ImportError, OSError, AttributeError):
+    pass
+
+def within(candidate, root):
+    return candidate == root or candidate.startswith(root.rstrip(os.sep) + os.sep)
+
+# The server's directory (its .env, sessions and every other project) is off
+# limits except for the run's own directories inside it, such as the project
+# and its virtualenv
+protected_root = config['protectedRoot']
+own_roots = [os.path.realpath(root) for root in [os.getcwd(), sys.prefix, sys.exec_prefix] + config['ownRoots'] if root]
+inner_roots = [root for root in own_roots if protected_root is None or within(root, protected_root)]
+# Directories are only opened inside the run's own ones, since a directory
+# descriptor (dir_fd) lets later relative paths go around the checks below
+anchor_roots = [os.path.realpath(root) for root in [os.getcwd()] + config['ownRoots'] if root]
+own_proc = '/proc/%d' % os.getpid()
+extension_suffixes = tuple(importlib.machinery.EXTENSION_SUFFIXES)
+
+def refused_path(target, opening=False):
+    if target is None or isinstance(target, int):
+        return None
+    try:
+        name = os.fsdecode(target)
+        resolved = os.path.realpath(name)
+    except (TypeError, ValueError):
+        return None
+    if not os.path.isabs(name) and '..' in name.split(os.sep):
+        return 'relative paths may not climb out of their directory'
+    parts = resolved.split(os.sep)
+    if within(resolved, '/proc') and len(parts) > 2 and parts[2].isdigit():
+        if not within(resolved, own_proc) or parts[-1] == 'environ':
+            return 'process environments and other processes are private'
+    if protected_root and within(resolved, protected_root) and not any(within(resolved, root) for root in inner_roots):
+        return 'the server directory is private'
+    if opening and os.path.isdir(resolved) and not any(within(resolved, root) for root in anchor_roots):
+        return 'directories outside the project cannot be opened'
+    return None
+
+# A native module written by user code could fork and exec from C
+def is_extension(target):
+    return isinstance(target, (str, bytes)) and os.fsdecode(target).endswith(extension_suffixes)
+
+def is_write(mode, flags):
+    if isinstance(mode, str):
+        return any(flag in mode for flag in 'wax+')
+    return bool(flags & (os.O_WRONLY | os.O_RDWR | os.O_CREAT))
+
+# Events whose first one or two arguments are paths
+PATH_EVENTS = {
+    'os.listdir': 1, 'os.scandir': 1, 'os.chdir': 1, 'os.mkdir': 1, 'os.rmdir': 1, 'os.remove': 1,
+    'os.truncate': 1, 'os.chmod': 1, 'os.chown': 1, 'os.utime': 1, 'os.rename': 2, 'os.link': 2,
+}
+
+def check_paths(event, args):
+    if event == 'open':
+        reason = refused_path(args[0], opening=True)
+        if reason is None and is_extension(args[0]) and is_write(args[1], args[2]):
+            reason = 'native modules cannot be written'
+    elif event == 'os.symlink':
+        # Relative link targets are relative to the link's own directory
+        target = os.path.join(os.path.dirname(os.fsdecode(args[1])), os.fsdecode(args[0]))
+        reason = refused_path(target) or refused_path(args[1])
+        if reason is None and is_extension(args[1]):
+            reason = 'native modules cannot be written'
+    elif event in PATH_EVENTS:
+        paths = args[:PATH_EVENTS[event]]
+        reason = next((found for found in map(refused_path, paths) if found), None)
+        if reason is None and event in ('os.rename', 'os.link') and is_extension(args[1]):
+            reason = 'native modules cannot be written'
+    else:
+        return
+    if reason:
+        raise PermissionError('Access to %s is not allowed in the sandbox: %s' % (os.fsdecode(args[0]) if not isinstance(args[0], int) else args[0], reason))
+
+def audit(event, args):
+    if event in blocked:
+        kind = 'Network access' if event.startswith('socket.') else 'Starting processes'
+        raise PermissionError(kind + ' is not allowed in the sandbox (' + event + ')')
+    if event == 'import' and args[0] == '_posixsubprocess':
+        raise PermissionError('Starting processes is not allowed in the sandbox (_posixsubprocess)')
+    # Looking up C functions (libc's fork, execve, system) or loading other
+    # libraries through ctypes
+    if event == 'ctypes.dlsym' or (event == 'ctypes.dlopen' and args[0] is not None):
+        raise PermissionError('Native code is not allowed in the sandbox (' + event + ')')
+    check_paths(event, args)
+
+sys.addaudithook(audit)
+`;
+
+// argv: [-c, config JSON, script, ...script args]
+const BOOTSTRAP = `${SETUP}
+script = os.path.abspath(sys.argv[2])
+sys.argv = [script] + sys.argv[3:]
+sys.path.insert(0, os.path.dirname(script))
+
+try:
+    try:
+        runpy.run_path(script, run_name='__main__')
+    finally:
+        flush_figures()
+except SystemExit:
+    raise
+except BaseException as error:
+    # Drop the bootstrap and runpy frames from the traceback
+    tb = error.__traceback__
+    while tb is not None and tb.tb_frame.f_code.co_filename != script:
+        tb = tb.tb_next
+    traceback.print_exception(type(error), error, tb or error.__traceback__)
+    sys.exit(1)
+`;
+
+// argv: [-c, config JSON]. An interactive console in a clean namespace that
+// behaves like `python -i`: prompts and tracebacks on stderr
+const REPL_BOOTSTRAP = `${SETUP}
+import code
+
+class Console(code.InteractiveConsole):
+    def raw_input(self, prompt=''):
+        sys.stderr.write(prompt)
+        sys.stderr.flush()
+        line = sys.stdin.readline()
+        if not line:
+            raise EOFError
+        return line.rstrip('\\n')
+
+sys.argv = ['']
+sys.path.insert(0, os.getcwd())
+Console({'__name__': '__main__', '__doc__': None}).interact(banner='', exitmsg='')
+`;
+
+// Only what Python needs; nothing of the server's own environment (API
+// keys, database URLs, session secrets) reaches user code
+export function sandboxEnv(cwd: string, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return {
+    PATH: '/usr/local/bin:/usr/bin:/bin',
+    HOME: cwd,
+    TMPDIR: cwd,
+    LANG: 'C.UTF-8',
+    LC_ALL: 'C.UTF-8',
+    ...extra,
+  };
+}
+
+// The server's working directory, which holds the projects; none when the
+// server runs from the filesystem root
+function protectedRoot(): string | null {
+  const root = process.cwd();
+  return path.parse(root).root === root ? null : root;
+}
+
+// `extraConfig` is merged into the bootstrap's config; `extraPipes` opens that
+// many more pipes after stdin, stdout and stderr (fd 3 onwards)
+function spawnWithBootstrap(
+  bootstrap: string,
+  args: string[],
+  options: SandboxOptions,
+  extraConfig: Record<string, unknown> = {},
+  extraPipes = 0,
+): ChildProcess {
+  const limits = { ...DEFAULT_SANDBOX_LIMITS, ...options.limits };
+  const env = sandboxEnv(options.cwd, options.env);
+  const config = {
+    cpuSeconds: Math.ceil(limits.cpuSeconds),
+    memoryBytes: Math.floor(limits.memoryBytes),
+    fileSizeBytes: Math.floor(limits.fileSizeBytes),
+    blockedEvents: [...(limits.allowNetwork ? [] : NETWORK_EVENTS), ...PROCESS_EVENTS],
+    artifactsDir: options.artifactsDir ?? null,
+    figureFormat: FIGURE_FORMAT,
+    matplotlibBackend: MATPLOTLIB_BACKEND,
+    modules: RUNTIME_MODULES,
+    protectedRoot: protectedRoot(),
+    // Besides the working directory: scratch space and the artifacts
+    ownRoots: [options.artifactsDir, env.HOME, env.TMPDIR].filter(Boolean),
+    ...extraConfig,
+  };
+  // -I: ignore PYTHON* variables and user site-packages; -B: no .pyc files
+  // in the project; -u: unbuffered so output streams as it is printed
+  return spawn(options.python ?? 'python3', [
+    '-I', '-B', '-u', '-X', 'utf8', '-c', bootstrap, JSON.stringify(config), ...args,
+  ], {
+    cwd: options.cwd,
+    env,
+    stdio: Array<'pipe'>(3 + extraPipes).fill('pipe'),
+  });
+}
+
+// Start a script under the sandbox. The caller owns the process; limits on
+// wall-clock time and output are enforced by runSandboxed/watchSandboxed.
+export function spawnSandboxed(scriptPath: string, options: SandboxOptions): ChildProcess {
+  return spawnWithBootstrap(BOOTSTRAP, [scriptPath, ...(options.args ?? [])], options);
+}
+
+// An interactive Python console under the same limits, reading commands from
+// stdin. Wall-clock and output limits are the caller's, as for scripts.
+export function spawnSandboxedRepl(options: Omit<SandboxOptions, 'args' | 'artifactsDir'>): ChildProcess {
+  return spawnWithBootstrap(REPL_BOOTSTRAP, [], options);
+}
+
+// A notebook kernel: `kernel` is Python run after the shared setup, with
+// `config` extended by `kernelConfig` and fd 3 as a pipe for its messages.
+// Cell time limits and output are the caller's.
+export function spawnSandboxedKernel(
+  kernel: string,
+  options: Omit<SandboxOptions, 'args' | 'artifactsDir'>,
+  kernelConfig: Record<string, unknown> = {},
+): ChildProcess {
+  return spawnWithBootstrap(`${SETUP}\n${kernel}`, [], options, kernelConfig, 1);
+}
+
+export interface SandboxWatchHandlers {
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+}
+
+// Enforce the wall-clock and output limits on a sandboxed process and collect
+// what it prints; resolves once it has exited
+export function watchSandboxed(
+  child: ChildProcess,
+  limits: Partial<PythonSandboxLimits> = {},
+  handlers: SandboxWatchHandlers = {},
+): Promise<SandboxResult> {
+  const { timeoutMs, maxOutputBytes } = { ...DEFAULT_SANDBOX_LIMITS, ...limits };
+  const started = Date.now();
+  let stdout = '';
+  let stderr = '';
+  let outputBytes = 0;
+  let timedOut = false;
+  let truncated = false;
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    const collect = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+      if (truncated) return;
+      let chunk = data.toString();
+      if (outputBytes + data.length > maxOutputBytes) {
+        chunk = data.subarray(0, Math.max(0, maxOutputBytes - outputBytes)).toString();
+        truncated = true;
+        child.kill('SIGKILL');
+      }
+      outputBytes += data.length;
+      if (stream === 'stdout') {
+        stdout += chunk;
+        handlers.onStdout?.(chunk);
+      } else {
+        stderr += chunk;
+        handlers.onStderr?.(chunk);
+      }
+    };
+    child.stdout?.on('data', collect('stdout'));
+    child.stderr?.on('data', collect('stderr'));
+    child.stdin?.on('error', () => {
+      // The process exited before reading its input
+    });
+
+    const finish = (exitCode: number | null, signal: NodeJS.Signals | null, error?: Error) => {
+      clearTimeout(timer);
+      if (signal === 'SIGXCPU') timedOut = true;
+      if (error) stderr += error.message;
+      resolve({ exitCode, stdout, stderr, timedOut, truncated, durationMs: Date.now() - started });
+    };
+    child.on('error', (error) => finish(null, null, error));
+    child.on('close', (code, signal) => finish(code, signal));
+  });
+}
+
+export function runSandboxed(scriptPath: string, options: SandboxOptions): Promise<SandboxResult> {
+  const child = spawnSandboxed(scriptPath, options);
+  child.stdin?.end();
+  return watchSandboxed(child, options.limits);
+}
+
+// A fresh directory for one run, removed afterwards whatever happens
+export async function withScratchDirectory<T>(run: (directory: string) => Promise<T>): Promise<T> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'python-run-'));
+  try {
+    return await run(directory);
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+// Project sessions run in <cwd>/projects/<id>, so run them in a scratch directory
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "python-sessions-"));
+process.chdir(scratch);
+const { DEFAULT_SESSION_OPTIONS, PythonSessionLimitError, PythonSessionManager, PythonUserQuota } = await import("./pythonSessions");
+const { DEFAULT_KERNEL_OPTIONS, PythonKernelManager } = await import("./pythonKernels");
+
+const handlers = () => ({ onOutput: vi.fn(), onEnd: vi.fn() });
+
+afterAll(() => {
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+describe("PythonSessionManager", () => {
+  const quota = new PythonUserQuota(2);
+  const sessions = new PythonSessionManager(DEFAULT_SESSION_OPTIONS, quota);
+  const kernels = new PythonKernelManager(DEFAULT_KERNEL_OPTIONS, quota);
+
+  afterEach(() => {
+    for (const socketId of ["s1", "s2", "s3"]) sessions.stopAll(socketId);
+    kernels.stopProject("p1");
+  });
+
+  it("counts a user's sessions and notebook kernels against one limit", async () => {
+    fs.mkdirSync(path.join(scratch, "projects", "p1"), { recursive: true });
+    sessions.start("s1", "ana", null, handlers());
+    await kernels.execute("ana", "p1", "1 + 1", { onOutput: vi.fn() });
+    expect(quota.countFor("ana")).toBe(2);
+
+    expect(() => sessions.start("s2", "ana", null, handlers())).toThrow(
+      expect.objectContaining({ name: "PythonSessionLimitError", scope: "user" }),
+    );
+    await expect(kernels.execute("ana", "p2", "1", { onOutput: vi.fn() })).rejects.toBeInstanceOf(PythonSessionLimitError);
+    expect(() => sessions.start("s3", "luis", null, handlers())).not.toThrow();
+  });
+
+  it("frees the slot when a session ends or is replaced", () => {
+    sessions.start("s1", "ana", null, handlers());
+    sessions.start("s1", "ana", null, handlers());
+    sessions.start("s2", "ana", null, handlers());
+    expect(quota.countFor("ana")).toBe(2);
+
+    sessions.stop("s1", null);
+    expect(quota.countFor("ana")).toBe(1);
+    expect(() => sessions.start("s3", "ana", null, handlers())).not.toThrow();
+  });
+
+  it("stops every socket's sessions for a project and no others", () => {
+    const first = handlers();
+    const second = handlers();
+    const other = handlers();
+    sessions.start("s1", "ana", "p1", first);
+    sessions.start("s2", "luis", "p1", second);
+    sessions.start("s3", "luis", null, other);
+
+    sessions.stopProject("p1");
+    expect(first.onEnd).toHaveBeenCalledWith("stopped");
+    expect(second.onEnd).toHaveBeenCalledWith("stopped");
+    expect(other.onEnd).not.toHaveBeenCalled();
+    expect(sessions.size).toBe(1);
+    expect(quota.countFor("ana")).toBe(0);
+  });
+});
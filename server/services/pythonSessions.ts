@@ -0,0 +1,232 @@
+import type { ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileSystemService } from './fileSystem';
+import { DEFAULT_SANDBOX_LIMITS, spawnSandboxedRepl, type PythonSandboxLimits } from './pythonSandbox';
+
+// Interactive Python REPLs for the terminal. Every socket gets its own
+// process per project, so users never share or kill each other's sessions;
+// sessions end when their socket disconnects or after sitting idle. They run
+// under the sandbox, in the project directory or, without a project, in a
+// scratch directory removed with the session.
+
+export type PythonOutputType = 'output' | 'error';
+
+export interface PythonSessionHandlers {
+  onOutput: (type: PythonOutputType, data: string) => void;
+  // The process is gone: exited, killed, or closed for inactivity
+  onEnd: (reason: PythonSessionEndReason) => void;
+}
+
+// truncated: a command printed more than the sandbox's output limit
+export type PythonSessionEndReason = 'exited' | 'idle' | 'stopped' | 'truncated';
+
+export interface PythonSessionOptions {
+  maxSessions: number;
+  idleTimeoutMs: number;
+}
+
+// scope: whether the server as a whole or this user ran out of sessions
+export class PythonSessionLimitError extends Error {
+  constructor(message: string, readonly scope: 'server' | 'user' = 'server') {
+    super(message);
+    this.name = 'PythonSessionLimitError';
+  }
+}
+
+export function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const DEFAULT_SESSION_OPTIONS: PythonSessionOptions = {
+  maxSessions: readPositiveInt(process.env.PYTHON_MAX_SESSIONS, 20),
+  idleTimeoutMs: readPositiveInt(process.env.PYTHON_SESSION_IDLE_MS, 15 * 60 * 1000),
+};
+
+// Terminal sessions and notebook kernels both count against a user's share,
+// so one account cannot take every process the server allows
+export class PythonUserQuota {
+  private counts = new Map<string, number>();
+
+  constructor(readonly maxPerUser = readPositiveInt(process.env.PYTHON_MAX_SESSIONS_PER_USER, 4)) {}
+
+  // Takes a slot for the user; call the returned function once the process ends
+  acquire(userId: string): () => void {
+    const count = this.counts.get(userId) ?? 0;
+    if (count >= this.maxPerUser) {
+      throw new PythonSessionLimitError(`Too many Python sessions for this user (limit ${this.maxPerUser})`, 'user');
+    }
+    this.counts.set(userId, count + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.counts.get(userId) ?? 1) - 1;
+      if (remaining > 0) this.counts.set(userId, remaining);
+      else this.counts.delete(userId);
+    };
+  }
+
+  countFor(userId: string): number {
+    return this.counts.get(userId) ?? 0;
+  }
+}
+
+export const pythonUserQuota = new PythonUserQuota();
+
+// CPU time adds up over every command of a session (or cell of a notebook
+// kernel), so it gets more than a single run; memory, file size and network
+// follow the sandbox defaults
+export const SESSION_LIMITS: Partial<PythonSandboxLimits> = {
+  cpuSeconds: readPositiveInt(process.env.PYTHON_SESSION_CPU_SECONDS, 5 * 60),
+};
+
+class PythonSession {
+  private process: ChildProcess;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private ended = false;
+  // Output since the last command, capped like a sandboxed run
+  private outputBytes = 0;
+  private scratchDirectory: string | null = null;
+
+  constructor(
+    readonly key: string,
+    readonly projectId: string | null,
+    private handlers: PythonSessionHandlers,
+    private idleTimeoutMs: number,
+    private onClosed: (session: PythonSession) => void,
+    python: string,
+  ) {
+    let cwd: string;
+    let env: Record<string, string> | undefined;
+    if (projectId) {
+      cwd = fileSystemService.getProjectPath(projectId);
+      fs.mkdirSync(cwd, { recursive: true });
+      // Caches go to the temp directory, not the project
+      env = { HOME: os.tmpdir(), TMPDIR: os.tmpdir() };
+    } else {
+      cwd = this.scratchDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'python-session-'));
+    }
+    this.process = spawnSandboxedRepl({ python, cwd, env, limits: SESSION_LIMITS });
+    this.process.stdout?.on('data', (data: Buffer) => this.receive('output', data));
+    this.process.stderr?.on('data', (data: Buffer) => this.receive('error', data));
+    this.process.stdin?.on('error', () => {
+      // Writes racing the process exit; 'close' reports the end
+    });
+    this.process.on('error', (error) => {
+      this.handlers.onOutput('error', error.message);
+      this.end('exited');
+    });
+    this.process.on('close', () => this.end('exited'));
+    this.touch();
+  }
+
+  private receive(type: PythonOutputType, data: Buffer) {
+    if (this.ended) return;
+    const { maxOutputBytes } = DEFAULT_SANDBOX_LIMITS;
+    if (this.outputBytes + data.length > maxOutputBytes) {
+      this.handlers.onOutput(type, data.subarray(0, Math.max(0, maxOutputBytes - this.outputBytes)).toString());
+      this.end('truncated');
+      return;
+    }
+    this.outputBytes += data.length;
+    this.handlers.onOutput(type, data.toString());
+  }
+
+  send(command: string) {
+    this.touch();
+    this.outputBytes = 0;
+    this.process.stdin?.write(command + '\n');
+  }
+
+  stop(reason: PythonSessionEndReason = 'stopped') {
+    this.end(reason);
+  }
+
+  private touch() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.end('idle'), this.idleTimeoutMs);
+  }
+
+  private end(reason: PythonSessionEndReason) {
+    if (this.ended) return;
+    this.ended = true;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.process.stdout?.removeAllListeners('data');
+    this.process.stderr?.removeAllListeners('data');
+    if (this.process.exitCode === null && this.process.signalCode === null) this.process.kill('SIGKILL');
+    if (this.scratchDirectory) {
+      fs.promises.rm(this.scratchDirectory, { recursive: true, force: true }).catch(() => {});
+    }
+    this.onClosed(this);
+    this.handlers.onEnd(reason);
+  }
+}
+
+export class PythonSessionManager {
+  private sessions = new Map<string, PythonSession>();
+
+  constructor(
+    private options: PythonSessionOptions = DEFAULT_SESSION_OPTIONS,
+    private quota: PythonUserQuota = pythonUserQuota,
+  ) {}
+
+  private key(socketId: string, projectId: string | null): string {
+    return `${socketId}:${projectId ?? ''}`;
+  }
+
+  // Start a fresh REPL for the socket and project, replacing the one it had.
+  // `python` is the project's venv interpreter when it has one. Callers
+  // check the user may run code in the project.
+  start(socketId: string, userId: string, projectId: string | null, handlers: PythonSessionHandlers, python = 'python3'): void {
+    const key = this.key(socketId, projectId);
+    this.sessions.get(key)?.stop();
+    if (this.sessions.size >= this.options.maxSessions) {
+      throw new PythonSessionLimitError(`Too many Python sessions running (limit ${this.options.maxSessions})`);
+    }
+    const release = this.quota.acquire(userId);
+    let session: PythonSession;
+    try {
+      session = new PythonSession(key, projectId, handlers, this.options.idleTimeoutMs, (closed) => {
+        release();
+        if (this.sessions.get(closed.key) === closed) this.sessions.delete(closed.key);
+      }, python);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    this.sessions.set(key, session);
+  }
+
+  // Returns false when the socket has no session for the project
+  send(socketId: string, projectId: string | null, command: string): boolean {
+    const session = this.sessions.get(this.key(socketId, projectId));
+    if (!session) return false;
+    session.send(command);
+    return true;
+  }
+
+  stop(socketId: string, projectId: string | null): void {
+    this.sessions.get(this.key(socketId, projectId))?.stop();
+  }
+
+  // Every session of a socket, e.g. when it disconnects
+  stopAll(socketId: string): void {
+    const sessions = Array.from(this.sessions.values()).filter(session => session.key.startsWith(`${socketId}:`));
+    for (const session of sessions) session.stop();
+  }
+
+  // Every socket's session for a project, e.g. when it is deleted
+  stopProject(projectId: string): void {
+    const sessions = Array.from(this.sessions.values()).filter(session => session.projectId === projectId);
+    for (const session of sessions) session.stop();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+}
+
+export const pythonSessions = new PythonSessionManager();
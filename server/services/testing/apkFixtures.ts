@@ -0,0 +1,574 @@
+import { createHash } from "crypto";
+import { Writable } from "stream";
+import { ChunkType, ValueType, writeStringPool } from "../axml";
+import { encodeAxml } from "../axmlEncoder";
+import type { ResValue } from "../arsc";
+import { encodePng } from "../png";
+import { ZipWriter } from "../zip";
+
+// Builders for small but well-formed APK parts, for tests of the parsers,
+// editors and signer. Only tests import this module.
+
+// --- resources.arsc -------------------------------------------------------
+
+export type FixtureValue =
+  | string
+  | ResValue
+  | { parent?: number; items: Array<[number, string | ResValue]> };
+
+export interface FixtureType {
+  name: string;
+  // Entry names, in id order: entry i gets id 0x7fTT0000 + i
+  keys: string[];
+  configs: Array<{
+    // Two-letter language, e.g. "es"
+    language?: string;
+    density?: number;
+    values: Record<string, FixtureValue>;
+  }>;
+}
+
+const CONFIG_SIZE = 64;
+
+function chunkHeader(type: number, headerSize: number, size: number): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt16LE(type, 0);
+  header.writeUInt16LE(headerSize, 2);
+  header.writeUInt32LE(size, 4);
+  return header;
+}
+
+function resValue(value: ResValue): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeUInt16LE(8, 0);
+  buffer[3] = value.type;
+  buffer.writeUInt32LE(value.data >>> 0, 4);
+  return buffer;
+}
+
+// A resource table with one package, `com.example.app` (id 0x7f), and a
+// UTF-8 global string pool holding every string value
+export function buildResourceTable(types: FixtureType[], packageName = "com.example.app"): Buffer {
+  const strings: string[] = [];
+  const intern = (value: string) => {
+    const index = strings.indexOf(value);
+    return index >= 0 ? index : strings.push(value) - 1;
+  };
+  const encodeValue = (value: string | ResValue): Buffer =>
+    resValue(typeof value === "string" ? { type: ValueType.STRING, data: intern(value) } : value);
+
+  const keys = types.flatMap(type => type.keys).filter((key, index, all) => all.indexOf(key) === index);
+  const typeChunks = types.flatMap((type, typeIndex) => {
+    const spec = Buffer.concat([
+      chunkHeader(ChunkType.TABLE_TYPE_SPEC, 16, 16 + type.keys.length * 4),
+      Buffer.from([typeIndex + 1, 0, 0, 0]),
+      Buffer.from(Uint32Array.of(type.keys.length).buffer),
+      Buffer.alloc(type.keys.length * 4),
+    ]);
+
+    const configs = type.configs.map(config => {
+      const offsets = Buffer.alloc(type.keys.length * 4, 0xff);
+      const entries: Buffer[] = [];
+      let position = 0;
+      type.keys.forEach((key, index) => {
+        const value = config.values[key];
+        if (value === undefined) return;
+        offsets.writeUInt32LE(position, index * 4);
+        let entry: Buffer;
+        if (typeof value === "object" && "items" in value) {
+          const header = Buffer.alloc(16);
+          header.writeUInt16LE(16, 0);
+          header.writeUInt16LE(0x0001, 2);
+          header.writeUInt32LE(keys.indexOf(key), 4);
+          header.writeUInt32LE(value.parent ?? 0, 8);
+          header.writeUInt32LE(value.items.length, 12);
+          const items = value.items.map(([name, item]) => Buffer.concat([Buffer.from(Uint32Array.of(name).buffer), encodeValue(item)]));
+          entry = Buffer.concat([header, ...items]);
+        } else {
+          const header = Buffer.alloc(8);
+          header.writeUInt16LE(8, 0);
+          header.writeUInt32LE(keys.indexOf(key), 4);
+          entry = Buffer.concat([header, encodeValue(value)]);
+        }
+        entries.push(entry);
+        position += entry.length;
+      });
+
+      const qualifiers = Buffer.alloc(CONFIG_SIZE);
+      qualifiers.writeUInt32LE(CONFIG_SIZE, 0);
+      if (config.language) qualifiers.write(config.language, 8, "latin1");
+      if (config.density) qualifiers.writeUInt16LE(config.density, 14);
+      const headerSize = 20 + CONFIG_SIZE;
+      const body = Buffer.concat([offsets, ...entries]);
+      const header = Buffer.alloc(12);
+      header[0] = typeIndex + 1;
+      header.writeUInt32LE(type.keys.length, 4);
+      header.writeUInt32LE(headerSize + offsets.length, 8);
+      return Buffer.concat([chunkHeader(ChunkType.TABLE_TYPE, headerSize, headerSize + body.length), header, qualifiers, body]);
+    });
+    return [spec, ...configs];
+  });
+
+  const typeStrings = writeStringPool(types.map(type => type.name), false);
+  const keyStrings = writeStringPool(keys, true);
+  const packageHeader = Buffer.alloc(288);
+  packageHeader.writeUInt16LE(ChunkType.TABLE_PACKAGE, 0);
+  packageHeader.writeUInt16LE(288, 2);
+  packageHeader.writeUInt32LE(0x7f, 8);
+  packageHeader.write(packageName, 12, "utf16le");
+  packageHeader.writeUInt32LE(288, 268);
+  packageHeader.writeUInt32LE(types.length, 272);
+  packageHeader.writeUInt32LE(288 + typeStrings.length, 276);
+  packageHeader.writeUInt32LE(keys.length, 280);
+  const packageChunk = Buffer.concat([packageHeader, typeStrings, keyStrings, ...typeChunks]);
+  packageChunk.writeUInt32LE(packageChunk.length, 4);
+
+  const globalStrings = writeStringPool(strings, true);
+  const table = Buffer.concat([chunkHeader(ChunkType.TABLE, 12, 0), Buffer.alloc(4), globalStrings, packageChunk]);
+  table.writeUInt32LE(table.length, 4);
+  table.writeUInt32LE(1, 8);
+  return table;
+}
+
+// --- classes.dex ----------------------------------------------------------
+
+export type FixtureEncodedValue = { int: number } | { string: string };
+
+export interface FixtureMethod {
+  name: string;
+  parameters: string[];
+  returnType: string;
+  accessFlags: number;
+  // Omitted for abstract and native methods
+  code?: {
+    registers: number;
+    ins: number;
+    outs: number;
+    insns: number[];
+    tries?: Array<{ start: number; count: number; handlers: Array<{ type: string; address: number }>; catchAll?: number }>;
+  };
+}
+
+export interface FixtureClass {
+  descriptor: string;
+  accessFlags: number;
+  superclass?: string;
+  interfaces?: string[];
+  sourceFile?: string;
+  staticFields?: Array<{ name: string; type: string; accessFlags: number; value?: FixtureEncodedValue }>;
+  instanceFields?: Array<{ name: string; type: string; accessFlags: number }>;
+  directMethods?: FixtureMethod[];
+  virtualMethods?: FixtureMethod[];
+}
+
+function uleb128(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value !== 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value !== 0);
+  return bytes;
+}
+
+function sleb128(value: number): number[] {
+  const bytes: number[] = [];
+  for (;;) {
+    const byte = value & 0x7f;
+    value >>= 7;
+    if ((value === 0 && !(byte & 0x40)) || (value === -1 && byte & 0x40)) {
+      bytes.push(byte);
+      return bytes;
+    }
+    bytes.push(byte | 0x80);
+  }
+}
+
+function mutf8(value: string): number[] {
+  const bytes = uleb128(value.length);
+  for (let index = 0; index < value.length; index++) {
+    const unit = value.charCodeAt(index);
+    if (unit !== 0 && unit < 0x80) bytes.push(unit);
+    else if (unit < 0x800) bytes.push(0xc0 | (unit >> 6), 0x80 | (unit & 0x3f));
+    else bytes.push(0xe0 | (unit >> 12), 0x80 | ((unit >> 6) & 0x3f), 0x80 | (unit & 0x3f));
+  }
+  bytes.push(0);
+  return bytes;
+}
+
+function adler32(buffer: Buffer): number {
+  let a = 1;
+  let b = 0;
+  for (let index = 0; index < buffer.length; index++) {
+    a = (a + buffer[index]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+const SHORTY: Record<string, string> = { V: "V", Z: "Z", B: "B", S: "S", C: "C", I: "I", J: "J", F: "F", D: "D" };
+
+// Indices into the id tables, in the order items are first used. Tests
+// write instructions against them, e.g. `dex.string("Hola")`.
+export class DexFixture {
+  private strings: string[] = [];
+  private types: number[] = [];
+  private protos: Array<{ shorty: number; returnType: number; parameters: number[] }> = [];
+  private fields: Array<{ class: number; type: number; name: number }> = [];
+  private methods: Array<{ class: number; proto: number; name: number }> = [];
+  private classes: FixtureClass[] = [];
+
+  string(value: string): number {
+    const index = this.strings.indexOf(value);
+    return index >= 0 ? index : this.strings.push(value) - 1;
+  }
+
+  type(descriptor: string): number {
+    const name = this.string(descriptor);
+    const index = this.types.indexOf(name);
+    return index >= 0 ? index : this.types.push(name) - 1;
+  }
+
+  proto(parameters: string[], returnType: string): number {
+    const shorty = this.string([returnType, ...parameters].map(type => SHORTY[type] ?? "L").join(""));
+    const item = { shorty, returnType: this.type(returnType), parameters: parameters.map(type => this.type(type)) };
+    const index = this.protos.findIndex(proto =>
+      proto.returnType === item.returnType && proto.parameters.join() === item.parameters.join());
+    return index >= 0 ? index : this.protos.push(item) - 1;
+  }
+
+  field(owner: string, name: string, type: string): number {
+    const item = { class: this.type(owner), type: this.type(type), name: this.string(name) };
+    const index = this.fields.findIndex(field => field.class === item.class && field.type === item.type && field.name === item.name);
+    return index >= 0 ? index : this.fields.push(item) - 1;
+  }
+
+  method(owner: string, name: string, parameters: string[], returnType: string): number {
+    const item = { class: this.type(owner), proto: this.proto(parameters, returnType), name: this.string(name) };
+    const index = this.methods.findIndex(method => method.class === item.class && method.proto === item.proto && method.name === item.name);
+    return index >= 0 ? index : this.methods.push(item) - 1;
+  }
+
+  addClass(cls: FixtureClass): this {
+    // Intern everything now, so the id tables are complete before layout
+    this.type(cls.descriptor);
+    if (cls.superclass) this.type(cls.superclass);
+    cls.interfaces?.forEach(type => this.type(type));
+    if (cls.sourceFile) this.string(cls.sourceFile);
+    for (const field of [...cls.staticFields ?? [], ...cls.instanceFields ?? []]) this.field(cls.descriptor, field.name, field.type);
+    for (const field of cls.staticFields ?? []) {
+      if (field.value && "string" in field.value) this.string(field.value.string);
+    }
+    for (const method of [...cls.directMethods ?? [], ...cls.virtualMethods ?? []]) {
+      this.method(cls.descriptor, method.name, method.parameters, method.returnType);
+      method.code?.tries?.forEach(entry => entry.handlers.forEach(handler => this.type(handler.type)));
+    }
+    this.classes.push(cls);
+    return this;
+  }
+
+  build(): Buffer {
+    const HEADER_SIZE = 0x70;
+    const idsSize = this.strings.length * 4 + this.types.length * 4 + this.protos.length * 12
+      + this.fields.length * 8 + this.methods.length * 8 + this.classes.length * 32;
+    const dataStart = HEADER_SIZE + idsSize;
+    const data: number[] = [];
+    const place = (bytes: number[], alignment = 1) => {
+      while ((dataStart + data.length) % alignment) data.push(0);
+      const offset = dataStart + data.length;
+      data.push(...bytes);
+      return offset;
+    };
+    const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+    const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+    const stringOffsets = this.strings.map(value => place(mutf8(value)));
+    const typeList = (types: number[]) => (types.length === 0 ? 0 : place([...u32(types.length), ...types.flatMap(u16)], 4));
+    const protoParameters = this.protos.map(proto => typeList(proto.parameters));
+
+    const encodeCode = (code: NonNullable<FixtureMethod["code"]>) => {
+      const tries = code.tries ?? [];
+      const bytes = [
+        ...u16(code.registers), ...u16(code.ins), ...u16(code.outs), ...u16(tries.length),
+        ...u32(0), ...u32(code.insns.length), ...code.insns.flatMap(u16),
+      ];
+      if (tries.length > 0) {
+        if (code.insns.length % 2) bytes.push(0, 0);
+        const handlers: number[] = uleb128(tries.length);
+        const items = tries.map(entry => {
+          const offset = handlers.length;
+          handlers.push(...sleb128(entry.catchAll === undefined ? entry.handlers.length : -entry.handlers.length));
+          for (const handler of entry.handlers) handlers.push(...uleb128(this.type(handler.type)), ...uleb128(handler.address));
+          if (entry.catchAll !== undefined) handlers.push(...uleb128(entry.catchAll));
+          return [...u32(entry.start), ...u16(entry.count), ...u16(offset)];
+        });
+        bytes.push(...items.flat(), ...handlers);
+      }
+      return place(bytes, 4);
+    };
+
+    const encodeValue = (value: FixtureEncodedValue): number[] => {
+      if ("string" in value) {
+        const index = this.string(value.string);
+        return [0x17 | (3 << 5), ...u32(index)];
+      }
+      return [0x04 | (3 << 5), ...u32(value.int)];
+    };
+
+    const classDefs = this.classes.map(cls => {
+      const fieldList = (fields: Array<{ name: string; type: string; accessFlags: number }>) =>
+        fields
+          .map(field => ({ index: this.field(cls.descriptor, field.name, field.type), flags: field.accessFlags }))
+          .sort((a, b) => a.index - b.index);
+      const methodList = (methods: FixtureMethod[]) =>
+        methods
+          .map(method => ({
+            index: this.method(cls.descriptor, method.name, method.parameters, method.returnType),
+            flags: method.accessFlags,
+            code: method.code ? encodeCode(method.code) : 0,
+          }))
+          .sort((a, b) => a.index - b.index);
+      const deltas = <T extends { index: number }>(items: T[], encode: (item: T) => number[]) => {
+        let previous = 0;
+        return items.flatMap(item => {
+          const bytes = [...uleb128(item.index - previous), ...encode(item)];
+          previous = item.index;
+          return bytes;
+        });
+      };
+
+      const staticFields = fieldList(cls.staticFields ?? []);
+      const instanceFields = fieldList(cls.instanceFields ?? []);
+      const directMethods = methodList(cls.directMethods ?? []);
+      const virtualMethods = methodList(cls.virtualMethods ?? []);
+      const classData = place([
+        ...uleb128(staticFields.length), ...uleb128(instanceFields.length),
+        ...uleb128(directMethods.length), ...uleb128(virtualMethods.length),
+        ...deltas(staticFields, field => uleb128(field.flags)),
+        ...deltas(instanceFields, field => uleb128(field.flags)),
+        ...deltas(directMethods, method => [...uleb128(method.flags), ...uleb128(method.code)]),
+        ...deltas(virtualMethods, method => [...uleb128(method.flags), ...uleb128(method.code)]),
+      ]);
+
+      // Initial values in field index order, as the format requires
+      const values = (cls.staticFields ?? [])
+        .map(field => ({ index: this.field(cls.descriptor, field.name, field.type), value: field.value }))
+        .sort((a, b) => a.index - b.index);
+      const lastValue = values.map(item => item.value !== undefined).lastIndexOf(true);
+      const staticValues = lastValue < 0 ? 0 : place([
+        ...uleb128(lastValue + 1),
+        ...values.slice(0, lastValue + 1).flatMap(item => encodeValue(item.value ?? { int: 0 })),
+      ]);
+
+      return [
+        ...u32(this.type(cls.descriptor)),
+        ...u32(cls.accessFlags),
+        ...u32(cls.superclass ? this.type(cls.superclass) : 0xffffffff),
+        ...u32(typeList((cls.interfaces ?? []).map(type => this.type(type)))),
+        ...u32(cls.sourceFile ? this.string(cls.sourceFile) : 0xffffffff),
+        ...u32(0),
+        ...u32(classData),
+        ...u32(staticValues),
+      ];
+    });
+
+    const ids = [
+      ...stringOffsets.flatMap(u32),
+      ...this.types.flatMap(u32),
+      ...this.protos.flatMap((proto, index) => [...u32(proto.shorty), ...u32(proto.returnType), ...u32(protoParameters[index])]),
+      ...this.fields.flatMap(field => [...u16(field.class), ...u16(field.type), ...u32(field.name)]),
+      ...this.methods.flatMap(method => [...u16(method.class), ...u16(method.proto), ...u32(method.name)]),
+      ...classDefs.flat(),
+    ];
+
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.write("dex\n035\0", 0, "latin1");
+    const file = Buffer.concat([header, Buffer.from(ids), Buffer.from(data)]);
+    file.writeUInt32LE(file.length, 0x20);
+    file.writeUInt32LE(HEADER_SIZE, 0x24);
+    file.writeUInt32LE(0x12345678, 0x28);
+    let offset = HEADER_SIZE;
+    for (const [headerOffset, count, size] of [
+      [0x38, this.strings.length, 4],
+      [0x40, this.types.length, 4],
+      [0x48, this.protos.length, 12],
+      [0x50, this.fields.length, 8],
+      [0x58, this.methods.length, 8],
+      [0x60, this.classes.length, 32],
+    ]) {
+      file.writeUInt32LE(count, headerOffset);
+      file.writeUInt32LE(count > 0 ? offset : 0, headerOffset + 4);
+      offset += count * size;
+    }
+    file.writeUInt32LE(data.length, 0x68);
+    file.writeUInt32LE(dataStart, 0x6c);
+    createHash("sha1").update(file.subarray(32)).digest().copy(file, 12);
+    file.writeUInt32LE(adler32(file.subarray(12)), 8);
+    return file;
+  }
+}
+
+// --- A small app ----------------------------------------------------------
+
+export const MANIFEST_SOURCE = `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android"
+    package="com.example.app"
+    android:versionCode="3"
+    android:versionName="1.2">
+    <uses-sdk android:minSdkVersion="21" android:targetSdkVersion="34" />
+    <uses-permission android:name="android.permission.INTERNET" />
+    <application
+        android:label="@0x7f010000"
+        android:icon="@0x7f040000"
+        android:allowBackup="true">
+        <activity
+            android:name=".MainActivity"
+            android:exported="true">
+            <intent-filter>
+                <action android:name="android.intent.action.MAIN" />
+                <category android:name="android.intent.category.LAUNCHER" />
+            </intent-filter>
+        </activity>
+    </application>
+</manifest>
+`;
+
+// string/app_name (0x7f010000) and string/greeting in two languages,
+// color/accent (0x7f020000), a style with one item and mipmap/ic_launcher
+// (0x7f040000) at two densities
+export const RESOURCE_TYPES: FixtureType[] = [
+  {
+    name: "string",
+    keys: ["app_name", "greeting"],
+    configs: [
+      { values: { app_name: "Ejemplo", greeting: "Hello" } },
+      { language: "es", values: { greeting: "Hola" } },
+    ],
+  },
+  {
+    name: "color",
+    keys: ["accent"],
+    configs: [{ values: { accent: { type: ValueType.INT_COLOR_ARGB8, data: 0xff3366cc } } }],
+  },
+  {
+    name: "style",
+    keys: ["AppTheme"],
+    configs: [{ values: { AppTheme: { parent: 0x01030237, items: [[0x01010433, { type: ValueType.REFERENCE, data: 0x7f020000 }]] } } }],
+  },
+  {
+    name: "mipmap",
+    keys: ["ic_launcher"],
+    configs: [
+      { density: 240, values: { ic_launcher: "res/mipmap-hdpi-v4/ic_launcher.png" } },
+      { density: 480, values: { ic_launcher: "res/mipmap-xxhdpi-v4/ic_launcher.png" } },
+    ],
+  },
+];
+
+// A square of one opaque color
+export function solidPng(size: number, rgb: [number, number, number]): Buffer {
+  const pixels = Buffer.alloc(size * size * 4);
+  for (let i = 0; i < size * size; i++) pixels.set([...rgb, 255], i * 4);
+  return encodePng({ width: size, height: size, pixels });
+}
+
+// `com.example.app.MainActivity`: a constructor and a method that logs a greeting
+export function buildDex(): Buffer {
+  const dex = new DexFixture();
+  const activity = "Lcom/example/app/MainActivity;";
+  const superInit = dex.method("Landroid/app/Activity;", "<init>", [], "V");
+  const log = dex.method("Landroid/util/Log;", "i", ["Ljava/lang/String;", "Ljava/lang/String;"], "I");
+  const tag = dex.string("MainActivity");
+  const greeting = dex.string("Hola desde smali");
+  return dex.addClass({
+    descriptor: activity,
+    accessFlags: 0x1,
+    superclass: "Landroid/app/Activity;",
+    sourceFile: "MainActivity.java",
+    staticFields: [{ name: "VERSION", type: "I", accessFlags: 0x19, value: { int: 3 } }],
+    directMethods: [{
+      name: "<init>",
+      parameters: [],
+      returnType: "V",
+      accessFlags: 0x10001,
+      code: { registers: 1, ins: 1, outs: 1, insns: [0x1070, superInit, 0x0000, 0x000e] },
+    }],
+    virtualMethods: [{
+      name: "greet",
+      parameters: [],
+      returnType: "V",
+      accessFlags: 0x1,
+      code: {
+        registers: 3,
+        ins: 1,
+        outs: 2,
+        // const-string v0, tag; const-string v1, greeting; invoke-static {v0, v1}, Log.i; return-void
+        insns: [0x001a, tag, 0x011a, greeting, 0x2071, log, 0x0010, 0x000e],
+      },
+    }],
+  }).build();
+}
+
+// The entries of the app's APK, before signing
+export function appEntries(): Record<string, Buffer> {
+  return {
+    "AndroidManifest.xml": encodeAxml(MANIFEST_SOURCE),
+    "resources.arsc": buildResourceTable(RESOURCE_TYPES),
+    "classes.dex": buildDex(),
+    "res/mipmap-hdpi-v4/ic_launcher.png": solidPng(72, [0x33, 0x66, 0xcc]),
+    "res/mipmap-xxhdpi-v4/ic_launcher.png": solidPng(144, [0x33, 0x66, 0xcc]),
+    "assets/notas.txt": Buffer.from("hola\n"),
+  };
+}
+
+export async function buildApk(entries: Record<string, Buffer> = appEntries()): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+  const writer = new ZipWriter(output);
+  for (const [name, data] of Object.entries(entries)) {
+    await writer.addFile(name, data, new Date(2024, 0, 1), { compress: name !== "resources.arsc" });
+  }
+  await writer.finish();
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+// --- Corrupt inputs -------------------------------------------------------
+
+// Seeded, so a failure names an input that can be reproduced
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+// `count` damaged copies of `input`: truncated, with random bytes
+// overwritten, or with a length or offset word replaced by an extreme value
+export function* corruptions(input: Buffer, count: number, seed = 1): Generator<Buffer> {
+  const next = random(seed);
+  const below = (limit: number) => Math.floor(next() * limit);
+  for (let index = 0; index < count; index++) {
+    const kind = next();
+    if (kind < 0.2) {
+      yield input.subarray(0, below(input.length));
+      continue;
+    }
+    const output = Buffer.from(input);
+    if (kind < 0.6) {
+      for (let bytes = 1 + below(8); bytes > 0; bytes--) output[below(output.length)] = below(256);
+    } else {
+      const words = [0xffffffff, 0x7fffffff, 0x80000000, below(2 ** 32)];
+      output.writeUInt32LE(words[below(words.length)], below(output.length - 3));
+    }
+    yield output;
+  }
+}
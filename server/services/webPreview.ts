@@ -0,0 +1,69 @@
+import path from "path";
+import { storage } from "../storage";
+import { fileSystemService } from "./fileSystem";
+import { IGNORED_NAMES } from "./projectSync";
+import { normalizeProjectPath } from "@shared/paths";
+import { injectPreviewBridge } from "./previewBridge";
+
+// Disk entries no page may load: tooling output (the uploaded APK, its
+// signing key, virtualenvs, build output) and dotfiles, which static hosts
+// refuse too
+function isHiddenOnDisk(normalizedPath: string): boolean {
+  return normalizedPath.split('/').some(segment => IGNORED_NAMES.has(segment) || segment.startsWith('.'));
+}
+
+export type PreviewResult =
+  | { path: string; content: string | Buffer }
+  // A folder requested without its trailing slash, so relative URLs in its
+  // index.html would resolve against the parent
+  | { redirect: string };
+
+// Serves a web project the way a static host would: text files come from
+// storage (the latest saved content), anything else — images, fonts — from
+// the project directory on disk
+export class WebPreview {
+  // The file a preview URL points to, or null when there is none. Directory
+  // URLs (ending in "/") serve their index.html; a project root without one
+  // redirects to the project's entry page
+  async resolve(projectId: string, requestPath: string): Promise<PreviewResult | null> {
+    const isDirectory = requestPath === '' || requestPath.endsWith('/');
+    const normalized = requestPath.replace(/\/+$/, '') === '' ? '/' : normalizeProjectPath(requestPath);
+    const files = await storage.getFilesByProject(projectId);
+    const byPath = new Map(files.map(file => [file.path, file]));
+
+    if (isDirectory) {
+      const index = byPath.get(normalized === '/' ? '/index.html' : `${normalized}/index.html`);
+      if (index) return this.page(index.path, index.content);
+      const entry = normalized === '/' ? this.findEntry(files.map(file => file.path)) : undefined;
+      return entry ? { redirect: entry.slice(1) } : null;
+    }
+
+    const file = byPath.get(normalized);
+    if (file) return this.page(file.path, file.content);
+    if (byPath.has(`${normalized}/index.html`)) return { redirect: `${path.posix.basename(normalized)}/` };
+    if (isHiddenOnDisk(normalized)) return null;
+
+    try {
+      return { path: normalized, content: await fileSystemService.readFileBuffer(projectId, normalized) };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'EISDIR' || code === 'ENOTDIR') return null;
+      throw error;
+    }
+  }
+
+  // HTML pages get the console bridge the IDE listens to
+  private page(filePath: string, content: string): PreviewResult {
+    return { path: filePath, content: /\.html?$/i.test(filePath) ? injectPreviewBridge(content) : content };
+  }
+
+  // The page a project opens on: the shallowest index.html (templates keep
+  // theirs in /src or /public), otherwise the first HTML file
+  findEntry(paths: string[]): string | undefined {
+    const html = paths.filter(filePath => /\.html?$/i.test(filePath))
+      .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+    return html.find(filePath => path.posix.basename(filePath) === 'index.html') ?? html[0];
+  }
+}
+
+export const webPreview = new WebPreview();
@@ -0,0 +1,139 @@
+import { randomBytes } from "crypto";
+import { Writable } from "stream";
+import { describe, expect, it } from "vitest";
+import { readZip, ZipError, ZipWriter } from "./zip";
+
+// A slow consumer: each chunk is acknowledged on a later tick
+function slowOutput(highWaterMark: number) {
+  const chunks: Buffer[] = [];
+  // writableLength seen by every write() call, i.e. how backed up the output was
+  const backlog: number[] = [];
+  const output = new Writable({
+    highWaterMark,
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      setImmediate(callback);
+    },
+  });
+  const write = output.write.bind(output);
+  output.write = ((chunk: Buffer) => {
+    backlog.push(output.writableLength);
+    return write(chunk);
+  }) as typeof output.write;
+  const finished = new Promise(resolve => output.on("finish", resolve));
+  return { output, backlog, archive: async () => (output.end(), await finished, Buffer.concat(chunks)) };
+}
+
+async function zip(files: Array<[string, Buffer | string]>): Promise<Buffer> {
+  const { output, archive } = slowOutput(1024);
+  const writer = new ZipWriter(output);
+  for (const [name, content] of files) await writer.addFile(name, content, new Date(2024, 0, 1));
+  await writer.finish();
+  return archive();
+}
+
+function readError(archive: Buffer): ZipError {
+  try {
+    readZip(archive);
+  } catch (error) {
+    if (error instanceof ZipError) return error;
+    throw error;
+  }
+  throw new Error("readZip accepted the archive");
+}
+
+const CENTRAL_HEADER = Buffer.from([0x50, 0x4b, 0x01, 0x02]);
+const text = Array.from({ length: 400 }, (_, i) => `línea ${i} ${i * 7919 % 1000}`).join("\n");
+
+describe("ZipWriter", () => {
+  it("round-trips text, binary and directory entries", async () => {
+    const binary = randomBytes(5000);
+    const { output, archive } = slowOutput(1024);
+    const writer = new ZipWriter(output);
+    await writer.addDirectory("src");
+    await writer.addFile("src/notas.txt", text);
+    await writer.addFile("img/logo.png", binary);
+    await writer.addFile("vacío.txt", "");
+    await writer.finish();
+
+    const entries = readZip(await archive());
+    expect(entries.map(({ name, isDirectory, compressed }) => ({ name, isDirectory, compressed }))).toEqual([
+      { name: "src/", isDirectory: true, compressed: false },
+      { name: "src/notas.txt", isDirectory: false, compressed: true },
+      { name: "img/logo.png", isDirectory: false, compressed: false },
+      { name: "vacío.txt", isDirectory: false, compressed: false },
+    ]);
+    expect(entries[1].data.toString()).toBe(text);
+    expect(entries[2].data).toEqual(binary);
+  });
+
+  it("waits for the output to drain instead of buffering the archive", async () => {
+    const { output, backlog, archive } = slowOutput(1024);
+    const writer = new ZipWriter(output);
+    for (let i = 0; i < 20; i++) await writer.addFile(`f${i}.bin`, randomBytes(4000));
+    await writer.finish();
+    await archive();
+    expect(backlog.length).toBeGreaterThan(20);
+    expect(Math.max(...backlog)).toBeLessThan(1024);
+  });
+
+  it("rejects when the output closes before draining", async () => {
+    const output = new Writable({ highWaterMark: 16, write() {} });
+    const writer = new ZipWriter(output);
+    const pending = writer.addFile("a.bin", randomBytes(1000));
+    output.destroy();
+    await expect(pending).rejects.toThrow(/closed/);
+  });
+
+  it("aligns stored entries", async () => {
+    const { output, archive } = slowOutput(1024);
+    const writer = new ZipWriter(output);
+    await writer.addFile("a.txt", "x");
+    await writer.addFile("lib/x86/libapp.so", randomBytes(100), new Date(), { compress: false, alignment: 4096 });
+    await writer.finish();
+    const buffer = await archive();
+    const local = buffer.indexOf("lib/x86/libapp.so") - 30;
+    const dataStart = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+    expect(dataStart % 4096).toBe(0);
+    expect(readZip(buffer)[1].data.length).toBe(100);
+  });
+});
+
+describe("readZip", () => {
+  it("calls corrupt deflate data corrupt, not too large", async () => {
+    const archive = await zip([["notas.txt", text]]);
+    const dataStart = 30 + archive.readUInt16LE(26) + archive.readUInt16LE(28);
+    archive.fill(0xff, dataStart, dataStart + 8);
+    const error = readError(archive);
+    expect(error.message).toBe("Could not inflate notas.txt");
+    expect(error.tooLarge).toBe(false);
+  });
+
+  it("calls entries that inflate past their declared size too large", async () => {
+    const archive = await zip([["notas.txt", text]]);
+    const central = archive.indexOf(CENTRAL_HEADER);
+    archive.writeUInt32LE(archive.readUInt32LE(central + 24) / 2, central + 24);
+    const error = readError(archive);
+    expect(error.message).toBe("notas.txt inflates past its declared size");
+    expect(error.tooLarge).toBe(true);
+  });
+
+  it("reports checksum mismatches", async () => {
+    const archive = await zip([["a.bin", randomBytes(64)]]);
+    archive[40] ^= 0xff;
+    expect(readError(archive).message).toBe("Checksum mismatch for a.bin");
+  });
+
+  it.each([
+    ["an empty buffer", Buffer.alloc(0)],
+    ["random bytes", randomBytes(100)],
+  ])("refuses %s", (_name, archive) => {
+    expect(readError(archive)).toMatchObject({ message: "Not a ZIP archive", tooLarge: false });
+  });
+
+  it("enforces the entry limit", async () => {
+    const archive = await zip([["a.txt", "a"], ["b.txt", "b"]]);
+    expect(() => readZip(archive, { maxEntries: 1, maxEntryBytes: 10, maxTotalBytes: 10, maxCompressionRatio: 10 }))
+      .toThrow(expect.objectContaining({ tooLarge: true }));
+  });
+});
@@ -0,0 +1,295 @@
+import type { Writable } from "stream";
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+// Minimal ZIP support (no zip64, no encryption): enough to export projects
+// and import archives produced by common tools.
+
+export class ZipError extends Error {
+  constructor(message: string, public readonly tooLarge: boolean = false) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+  // Uncompressed/compressed ratio above which an entry is treated as a bomb
+  maxCompressionRatio: number;
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 2000,
+  maxEntryBytes: 5 * 1024 * 1024,
+  maxTotalBytes: 50 * 1024 * 1024,
+  maxCompressionRatio: 200,
+};
+
+export interface ZipEntry {
+  name: string;
+  isDirectory: boolean;
+  data: Buffer;
+  // Whether the archive stored the entry deflated
+  compressed: boolean;
+}
+
+export interface ZipFileOptions {
+  // Defaults to deflating whenever that makes the entry smaller
+  compress?: boolean;
+  // Start the data of a stored entry at a multiple of this many bytes
+  alignment?: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// Extra field zipalign-style tools use to pad local headers
+const ALIGNMENT_EXTRA_ID = 0xd935;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Read every entry of an archive, enforcing `limits` before and while inflating
+export function readZip(archive: Buffer, limits: ZipLimits = DEFAULT_ZIP_LIMITS): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new ZipError('Not a ZIP archive');
+  }
+
+  const entryCount = archive.readUInt16LE(eocd + 10);
+  const directorySize = archive.readUInt32LE(eocd + 12);
+  const directoryOffset = archive.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+  if (entryCount > limits.maxEntries) {
+    throw new ZipError(`Archive has ${entryCount} entries; the limit is ${limits.maxEntries}`, true);
+  }
+  if (directoryOffset + directorySize > eocd) {
+    throw new ZipError('Corrupt ZIP central directory');
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new ZipError('Corrupt ZIP central directory');
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const expectedCrc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipError(`Encrypted entries are not supported: ${name}`);
+    }
+
+    const isDirectory = name.endsWith('/');
+    if (isDirectory) {
+      entries.push({ name, isDirectory, data: Buffer.alloc(0), compressed: false });
+      continue;
+    }
+
+    // Declared sizes are checked up front; inflation is capped separately in
+    // case they lie
+    if (size > limits.maxEntryBytes) {
+      throw new ZipError(`${name} is larger than ${limits.maxEntryBytes} bytes`, true);
+    }
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new ZipError(`Archive expands to more than ${limits.maxTotalBytes} bytes`, true);
+    }
+    if (compressedSize > 0 && size / compressedSize > limits.maxCompressionRatio) {
+      throw new ZipError(`${name} has a suspicious compression ratio`, true);
+    }
+
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new ZipError(`Corrupt local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+    if (compressed.length !== compressedSize) {
+      throw new ZipError(`Truncated data for ${name}`);
+    }
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } catch (error) {
+        // Only output past the declared size is a bomb; anything else is corrupt data
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ZipError(`${name} inflates past its declared size`, true);
+        }
+        throw new ZipError(`Could not inflate ${name}`);
+      }
+    } else {
+      throw new ZipError(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== size || crc32(data) !== expectedCrc) {
+      throw new ZipError(`Checksum mismatch for ${name}`);
+    }
+    entries.push({ name, isDirectory, data, compressed: method === METHOD_DEFLATE });
+  }
+
+  return entries;
+}
+
+// Writes an archive entry by entry, so large projects never sit in memory as
+// one buffer. Every call waits while the output is backed up.
+export class ZipWriter {
+  private offset = 0;
+  private centralDirectory: Buffer[] = [];
+  private entryCount = 0;
+
+  constructor(private output: Writable) {}
+
+  private async write(chunk: Buffer) {
+    this.offset += chunk.length;
+    if (this.output.write(chunk)) return;
+    await new Promise<void>((resolve, reject) => {
+      const settle = (error?: Error) => {
+        this.output.off('drain', onDrain);
+        this.output.off('close', onClose);
+        this.output.off('error', settle);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onDrain = () => settle();
+      // A client that disconnects mid-download never drains
+      const onClose = () => settle(new Error('ZIP output closed before the archive was written'));
+      this.output.on('drain', onDrain);
+      this.output.on('close', onClose);
+      this.output.on('error', settle);
+    });
+  }
+
+  async addDirectory(name: string, modified: Date = new Date()): Promise<void> {
+    await this.addEntry(name.endsWith('/') ? name : `${name}/`, Buffer.alloc(0), modified, true, {});
+  }
+
+  async addFile(name: string, content: Buffer | string, modified: Date = new Date(), options: ZipFileOptions = {}): Promise<void> {
+    await this.addEntry(name, Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8'), modified, false, options);
+  }
+
+  private async addEntry(name: string, data: Buffer, modified: Date, isDirectory: boolean, options: ZipFileOptions) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const deflated = data.length > 0 && options.compress !== false ? deflateRawSync(data) : data;
+    const useDeflate = deflated.length < data.length;
+    const body = useDeflate ? deflated : data;
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORED;
+    const checksum = crc32(data);
+    const { time, date } = dosDateTime(modified);
+    const localOffset = this.offset;
+
+    let extra = Buffer.alloc(0);
+    if (!useDeflate && options.alignment) {
+      const unpadded = localOffset + 30 + nameBytes.length + 6;
+      const padding = (options.alignment - (unpadded % options.alignment)) % options.alignment;
+      extra = Buffer.alloc(6 + padding);
+      extra.writeUInt16LE(ALIGNMENT_EXTRA_ID, 0);
+      extra.writeUInt16LE(2 + padding, 2);
+      extra.writeUInt16LE(options.alignment, 4);
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(extra.length, 28);
+    await this.write(local);
+    await this.write(nameBytes);
+    await this.write(extra);
+    await this.write(body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(isDirectory ? 0x10 : 0, 38);
+    central.writeUInt32LE(localOffset, 42);
+    this.centralDirectory.push(central, nameBytes);
+    this.entryCount++;
+  }
+
+  // Write the central directory; the caller ends the output stream
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const chunk of this.centralDirectory) {
+      await this.write(chunk);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+    end.writeUInt16LE(this.entryCount, 8);
+    end.writeUInt16LE(this.entryCount, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+  }
+}
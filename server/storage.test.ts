@@ -0,0 +1,274 @@
+import path from "path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// The same contract for both storages: DbStorage runs against an in-process
+// Postgres (PGlite) with the real migrations applied.
+function storageContract(name: string, createStorage: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let owner: schema.User;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+      owner = await storage.createUser({ username: `owner-${Math.random()}`, password: "hash" });
+    });
+
+    async function createProject(ownerId = owner.id) {
+      return storage.createProject({ name: "demo", type: "web", ownerId });
+    }
+
+    describe("users", () => {
+      it("finds users by id and username", async () => {
+        expect(await storage.getUser(owner.id)).toMatchObject({ username: owner.username });
+        expect(await storage.getUserByUsername(owner.username)).toMatchObject({ id: owner.id });
+        expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+      });
+
+      it("updates a user without changing its id", async () => {
+        const project = await createProject();
+        const updated = await storage.updateUser(owner.id, { id: "other", lastProjectId: project.id });
+        expect(updated).toMatchObject({ id: owner.id, lastProjectId: project.id });
+        expect(await storage.updateUser("missing", { lastProjectId: null })).toBeUndefined();
+      });
+    });
+
+    describe("projects", () => {
+      it("creates projects with defaults", async () => {
+        const project = await createProject();
+        expect(project).toMatchObject({ name: "demo", type: "web", ownerId: owner.id, description: null });
+        expect(project.createdAt).toBeInstanceOf(Date);
+        expect(await storage.getProject(project.id)).toMatchObject({ id: project.id });
+      });
+
+      it("lists owned and shared projects for a user", async () => {
+        const other = await storage.createUser({ username: "other", password: "hash" });
+        const owned = await createProject();
+        const shared = await createProject(other.id);
+        const hidden = await createProject(other.id);
+        await storage.addProjectMember({ projectId: shared.id, userId: owner.id, role: "viewer" });
+
+        const ids = (await storage.getProjectsForUser(owner.id)).map(project => project.id);
+        expect(ids).toEqual(expect.arrayContaining([owned.id, shared.id]));
+        expect(ids).not.toContain(hidden.id);
+      });
+
+      it("updates a project and bumps updatedAt", async () => {
+        const project = await createProject();
+        const updated = await storage.updateProject(project.id, { name: "renamed" });
+        expect(updated).toMatchObject({ id: project.id, name: "renamed" });
+        expect(updated!.updatedAt!.getTime()).toBeGreaterThanOrEqual(project.updatedAt!.getTime());
+        expect(await storage.updateProject("missing", { name: "x" })).toBeUndefined();
+      });
+
+      it("deletes a project with its files, folders, revisions, members, conversations and nothing else", async () => {
+        const member = await storage.createUser({ username: "member", password: "hash" });
+        const project = await createProject();
+        const kept = await createProject();
+        const file = await storage.createFile({ projectId: project.id, path: "/a.txt", name: "a.txt", content: "a", type: "txt" });
+        const keptFile = await storage.createFile({ projectId: kept.id, path: "/a.txt", name: "a.txt", content: "a", type: "txt" });
+        await storage.createFolder({ projectId: project.id, path: "/docs" });
+        await storage.createFolder({ projectId: kept.id, path: "/docs" });
+        const revision = await storage.createFileRevision({
+          fileId: file.id, projectId: project.id, path: file.path, content: "a", author: "user",
+        });
+        const keptRevision = await storage.createFileRevision({
+          fileId: keptFile.id, projectId: kept.id, path: keptFile.path, content: "a", author: "user",
+        });
+        await storage.addProjectMember({ projectId: project.id, userId: member.id, role: "editor" });
+        await storage.addProjectMember({ projectId: kept.id, userId: member.id, role: "editor" });
+        const conversation = await storage.createConversation({ projectId: project.id, messages: [] });
+        const keptConversation = await storage.createConversation({ projectId: kept.id, messages: [] });
+
+        expect(await storage.deleteProject(project.id)).toBe(true);
+
+        expect(await storage.getProject(project.id)).toBeUndefined();
+        expect(await storage.getFilesByProject(project.id)).toEqual([]);
+        expect(await storage.getFoldersByProject(project.id)).toEqual([]);
+        expect(await storage.getFileRevision(revision.id)).toBeUndefined();
+        expect(await storage.getProjectMembers(project.id)).toEqual([]);
+        expect(await storage.getProjectsForUser(member.id)).toEqual([expect.objectContaining({ id: kept.id })]);
+        expect(await storage.getConversation(conversation.id)).toBeUndefined();
+        expect(await storage.getConversation(keptConversation.id)).toBeDefined();
+
+        expect(await storage.getFilesByProject(kept.id)).toHaveLength(1);
+        expect(await storage.getFoldersByProject(kept.id)).toHaveLength(1);
+        expect(await storage.getFileRevision(keptRevision.id)).toBeDefined();
+        expect(await storage.getProjectMembers(kept.id)).toHaveLength(1);
+        expect(await storage.getUser(member.id)).toBeDefined();
+
+        expect(await storage.deleteProject(project.id)).toBe(false);
+      });
+    });
+
+    describe("members", () => {
+      it("adds, changes and removes members", async () => {
+        const user = await storage.createUser({ username: "guest", password: "hash" });
+        const project = await createProject();
+
+        const member = await storage.addProjectMember({ projectId: project.id, userId: user.id, role: "viewer" });
+        expect(member).toMatchObject({ projectId: project.id, userId: user.id, role: "viewer" });
+        expect(await storage.getProjectMember(project.id, user.id)).toMatchObject({ id: member.id });
+
+        expect(await storage.updateProjectMember(project.id, user.id, "editor")).toMatchObject({ role: "editor" });
+        expect(await storage.getProjectMembers(project.id)).toEqual([expect.objectContaining({ role: "editor" })]);
+
+        expect(await storage.removeProjectMember(project.id, user.id)).toBe(true);
+        expect(await storage.getProjectMember(project.id, user.id)).toBeUndefined();
+        expect(await storage.removeProjectMember(project.id, user.id)).toBe(false);
+        expect(await storage.updateProjectMember(project.id, user.id, "viewer")).toBeUndefined();
+      });
+    });
+
+    describe("files", () => {
+      it("stores paths in canonical form", async () => {
+        const project = await createProject();
+        const file = await storage.createFile({ projectId: project.id, path: "src\\./app.js", name: "app.js", content: "", type: "js" });
+        expect(file.path).toBe("/src/app.js");
+        expect(file.isModified).toBe(false);
+
+        const moved = await storage.updateFile(file.id, { path: "lib//app.js" });
+        expect(moved).toMatchObject({ id: file.id, path: "/lib/app.js" });
+      });
+
+      it("lists files of one project only", async () => {
+        const project = await createProject();
+        const other = await createProject();
+        const file = await storage.createFile({ projectId: project.id, path: "/a.js", name: "a.js", content: "", type: "js" });
+        await storage.createFile({ projectId: other.id, path: "/b.js", name: "b.js", content: "", type: "js" });
+
+        expect((await storage.getFilesByProject(project.id)).map(found => found.id)).toEqual([file.id]);
+        expect(await storage.getFile(file.id)).toMatchObject({ path: "/a.js" });
+      });
+
+      it("deletes a file with its revisions only", async () => {
+        const project = await createProject();
+        const file = await storage.createFile({ projectId: project.id, path: "/a.js", name: "a.js", content: "1", type: "js" });
+        const sibling = await storage.createFile({ projectId: project.id, path: "/b.js", name: "b.js", content: "1", type: "js" });
+        await storage.createFileRevision({ fileId: file.id, projectId: project.id, path: file.path, content: "1", author: "user" });
+        await storage.createFileRevision({ fileId: file.id, projectId: project.id, path: file.path, content: "2", author: "ai" });
+        await storage.createFileRevision({ fileId: sibling.id, projectId: project.id, path: sibling.path, content: "1", author: "user" });
+
+        expect(await storage.deleteFile(file.id)).toBe(true);
+
+        expect(await storage.getFile(file.id)).toBeUndefined();
+        expect(await storage.getFileRevisions(file.id)).toEqual([]);
+        expect(await storage.getFileRevisions(sibling.id)).toHaveLength(1);
+        expect(await storage.deleteFile(file.id)).toBe(false);
+      });
+    });
+
+    describe("folders", () => {
+      it("creates, moves and deletes folders", async () => {
+        const project = await createProject();
+        const folder = await storage.createFolder({ projectId: project.id, path: "docs/" });
+        expect(folder.path).toBe("/docs");
+
+        expect(await storage.updateFolder(folder.id, { path: "/notes" })).toMatchObject({ path: "/notes" });
+        expect(await storage.getFoldersByProject(project.id)).toEqual([expect.objectContaining({ path: "/notes" })]);
+
+        expect(await storage.deleteFolder(folder.id)).toBe(true);
+        expect(await storage.getFoldersByProject(project.id)).toEqual([]);
+        expect(await storage.deleteFolder(folder.id)).toBe(false);
+      });
+    });
+
+    describe("revisions", () => {
+      it("lists revisions newest first and updates them", async () => {
+        const project = await createProject();
+        const file = await storage.createFile({ projectId: project.id, path: "/a.js", name: "a.js", content: "", type: "js" });
+        const first = await storage.createFileRevision({ fileId: file.id, projectId: project.id, path: file.path, content: "1", author: "user" });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const second = await storage.createFileRevision({
+          fileId: file.id, projectId: project.id, path: file.path, content: "2", author: "ai", source: "ai_generate",
+        });
+
+        expect(first.source).toBeNull();
+        expect((await storage.getFileRevisions(file.id)).map(revision => revision.id)).toEqual([second.id, first.id]);
+
+        expect(await storage.updateFileRevision(first.id, { source: "restore" })).toMatchObject({ id: first.id, source: "restore" });
+        expect(await storage.getFileRevision(first.id)).toMatchObject({ source: "restore" });
+      });
+    });
+
+    describe("conversations", () => {
+      it("stores conversations per project", async () => {
+        const project = await createProject();
+        const conversation = await storage.createConversation({ projectId: project.id, messages: [] });
+        expect(conversation).toMatchObject({ projectId: project.id, messages: [] });
+
+        const messages = [{ role: "user" as const, content: "hola" }];
+        expect(await storage.updateConversation(conversation.id, { messages })).toMatchObject({ messages });
+        expect(await storage.getConversationsByProject(project.id)).toEqual([expect.objectContaining({ id: conversation.id })]);
+        expect(await storage.getConversation("missing")).toBeUndefined();
+      });
+    });
+  });
+}
+
+storageContract("MemStorage", async () => new MemStorage());
+
+let client: PGlite;
+
+beforeAll(async () => {
+  client = new PGlite();
+  await migrate(drizzle({ client, schema }), {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+storageContract("DbStorage", async () => {
+  await client.exec("TRUNCATE file_revisions, project_members, files, folders, ai_conversations, projects, users");
+  // Same query builder API as the neon driver the server uses
+  return new DbStorage(drizzle({ client, schema }) as unknown as Database);
+});
+
+describe("DbStorage deletes", () => {
+  let storage: DbStorage;
+
+  beforeEach(async () => {
+    await client.exec("TRUNCATE file_revisions, project_members, files, folders, ai_conversations, projects, users");
+    storage = new DbStorage(drizzle({ client, schema }) as unknown as Database);
+    // Fails the last statement of deleteProject / deleteFile
+    await client.exec(`
+      CREATE FUNCTION refuse_delete() RETURNS trigger AS $$ BEGIN RAISE EXCEPTION 'refused'; END; $$ LANGUAGE plpgsql;
+      CREATE TRIGGER refuse_project_delete BEFORE DELETE ON projects FOR EACH ROW EXECUTE FUNCTION refuse_delete();
+      CREATE TRIGGER refuse_file_delete BEFORE DELETE ON files FOR EACH ROW EXECUTE FUNCTION refuse_delete();
+    `);
+  });
+
+  afterEach(async () => {
+    await client.exec(`
+      DROP TRIGGER refuse_project_delete ON projects;
+      DROP TRIGGER refuse_file_delete ON files;
+      DROP FUNCTION refuse_delete();
+    `);
+  });
+
+  it("rolls back every table when a statement fails", async () => {
+    const owner = await storage.createUser({ username: "owner", password: "hash" });
+    const member = await storage.createUser({ username: "member", password: "hash" });
+    const project = await storage.createProject({ name: "demo", type: "web", ownerId: owner.id });
+    const file = await storage.createFile({ projectId: project.id, path: "/a.txt", name: "a.txt", content: "a", type: "txt" });
+    const revision = await storage.createFileRevision({ fileId: file.id, projectId: project.id, path: file.path, content: "a", author: "user" });
+    await storage.createFolder({ projectId: project.id, path: "/docs" });
+    await storage.addProjectMember({ projectId: project.id, userId: member.id, role: "viewer" });
+
+    await expect(storage.deleteFile(file.id)).rejects.toThrow();
+    expect(await storage.getFileRevision(revision.id)).toBeDefined();
+
+    await expect(storage.deleteProject(project.id)).rejects.toThrow();
+    expect(await storage.getProjectMembers(project.id)).toHaveLength(1);
+    expect(await storage.getFoldersByProject(project.id)).toHaveLength(1);
+    expect(await storage.getFileRevisions(file.id)).toHaveLength(1);
+  });
+});
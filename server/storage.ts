@@ -1,19 +1,36 @@
-import { type User, type InsertUser, type Project, type InsertProject, type File, type InsertFile, type AIConversation, type InsertAIConversation } from "@shared/schema";
+import { type User, type InsertUser, type Project, type InsertProject, type File, type InsertFile, type AIConversation, type InsertAIConversation, type FileRevision, type InsertFileRevision, type ProjectMember, type InsertProjectMember, type ProjectRole, type Folder, type InsertFolder, users, projects, projectMembers, files, folders, fileRevisions, aiConversations } from "@shared/schema";
+import { normalizeProjectPath } from "@shared/paths";
 import { randomUUID } from "crypto";
+import { and, desc, eq, inArray, or } from "drizzle-orm";
+import { db, type Database } from "./db";
+
+// File paths are stored in canonical form so lookups and the on-disk layout agree
+function withNormalizedPath<T extends { path?: string }>(file: T): T {
+  return file.path === undefined ? file : { ...file, path: normalizeProjectPath(file.path) };
+}
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<User>): Promise<User | undefined>;
   
   // Project methods
   getProject(id: string): Promise<Project | undefined>;
   getProjects(): Promise<Project[]>;
+  getProjectsForUser(userId: string): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: string, project: Partial<Project>): Promise<Project | undefined>;
   deleteProject(id: string): Promise<boolean>;
   
+  // Project member methods
+  getProjectMembers(projectId: string): Promise<ProjectMember[]>;
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined>;
+  addProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
+  updateProjectMember(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined>;
+  removeProjectMember(projectId: string, userId: string): Promise<boolean>;
+  
   // File methods
   getFile(id: string): Promise<File | undefined>;
   getFilesByProject(projectId: string): Promise<File[]>;
@@ -21,6 +38,18 @@ export interface IStorage {
   updateFile(id: string, file: Partial<File>): Promise<File | undefined>;
   deleteFile(id: string): Promise<boolean>;
   
+  // Folder methods
+  getFoldersByProject(projectId: string): Promise<Folder[]>;
+  createFolder(folder: InsertFolder): Promise<Folder>;
+  updateFolder(id: string, folder: Partial<Folder>): Promise<Folder | undefined>;
+  deleteFolder(id: string): Promise<boolean>;
+  
+  // File revision methods
+  getFileRevision(id: string): Promise<FileRevision | undefined>;
+  getFileRevisions(fileId: string): Promise<FileRevision[]>;
+  createFileRevision(revision: InsertFileRevision): Promise<FileRevision>;
+  updateFileRevision(id: string, revision: Partial<FileRevision>): Promise<FileRevision | undefined>;
+  
   // AI Conversation methods
   getConversation(id: string): Promise<AIConversation | undefined>;
   getConversationsByProject(projectId: string): Promise<AIConversation[]>;
@@ -31,13 +60,19 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private projects: Map<string, Project>;
+  private members: Map<string, ProjectMember>;
   private files: Map<string, File>;
+  private folders: Map<string, Folder>;
+  private revisions: Map<string, FileRevision>;
   private conversations: Map<string, AIConversation>;
 
   constructor() {
     this.users = new Map();
     this.projects = new Map();
+    this.members = new Map();
     this.files = new Map();
+    this.folders = new Map();
+    this.revisions = new Map();
     this.conversations = new Map();
     
     // Initialize with a sample project
@@ -50,6 +85,7 @@ export class MemStorage implements IStorage {
       name: "mi-proyecto-web",
       type: "web",
       description: "Proyecto web de ejemplo",
+      ownerId: null,
       files: {},
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -175,11 +211,26 @@ if __name__ == "__main__":
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, lastProjectId: null };
     this.users.set(id, user);
+
+    // Hand the unowned demo project to the first account so it stays reachable
+    const sampleProject = this.projects.get("sample-web-project");
+    if (sampleProject && !sampleProject.ownerId) {
+      this.projects.set(sampleProject.id, { ...sampleProject, ownerId: id });
+    }
     return user;
   }
 
+  async updateUser(id: string, userUpdate: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...userUpdate, id };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Project methods
   async getProject(id: string): Promise<Project | undefined> {
     return this.projects.get(id);
@@ -189,11 +240,25 @@ if __name__ == "__main__":
     return Array.from(this.projects.values());
   }
 
+  async getProjectsForUser(userId: string): Promise<Project[]> {
+    const memberProjectIds = new Set(
+      Array.from(this.members.values())
+        .filter(member => member.userId === userId)
+        .map(member => member.projectId),
+    );
+    return Array.from(this.projects.values()).filter(
+      project => project.ownerId === userId || memberProjectIds.has(project.id),
+    );
+  }
+
   async createProject(insertProject: InsertProject): Promise<Project> {
     const id = randomUUID();
     const project: Project = {
       ...insertProject,
       id,
+      description: insertProject.description ?? null,
+      ownerId: insertProject.ownerId ?? null,
+      files: insertProject.files ?? {},
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -216,9 +281,57 @@ if __name__ == "__main__":
     Array.from(this.files.entries())
       .filter(([_, file]) => file.projectId === id)
       .forEach(([fileId, _]) => this.files.delete(fileId));
+    Array.from(this.folders.entries())
+      .filter(([_, folder]) => folder.projectId === id)
+      .forEach(([folderId, _]) => this.folders.delete(folderId));
+    Array.from(this.revisions.entries())
+      .filter(([_, revision]) => revision.projectId === id)
+      .forEach(([revisionId, _]) => this.revisions.delete(revisionId));
+    Array.from(this.members.entries())
+      .filter(([_, member]) => member.projectId === id)
+      .forEach(([memberId, _]) => this.members.delete(memberId));
+    Array.from(this.conversations.entries())
+      .filter(([_, conversation]) => conversation.projectId === id)
+      .forEach(([conversationId, _]) => this.conversations.delete(conversationId));
     return deleted;
   }
 
+  // Project member methods
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return Array.from(this.members.values()).filter(member => member.projectId === projectId);
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    return Array.from(this.members.values()).find(
+      member => member.projectId === projectId && member.userId === userId,
+    );
+  }
+
+  async addProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
+    const id = randomUUID();
+    const member: ProjectMember = {
+      ...insertMember,
+      id,
+      createdAt: new Date(),
+    };
+    this.members.set(id, member);
+    return member;
+  }
+
+  async updateProjectMember(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined> {
+    const member = await this.getProjectMember(projectId, userId);
+    if (!member) return undefined;
+
+    const updatedMember = { ...member, role };
+    this.members.set(member.id, updatedMember);
+    return updatedMember;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const member = await this.getProjectMember(projectId, userId);
+    return member ? this.members.delete(member.id) : false;
+  }
+
   // File methods
   async getFile(id: string): Promise<File | undefined> {
     return this.files.get(id);
@@ -231,8 +344,9 @@ if __name__ == "__main__":
   async createFile(insertFile: InsertFile): Promise<File> {
     const id = randomUUID();
     const file: File = {
-      ...insertFile,
+      ...withNormalizedPath(insertFile),
       id,
+      isModified: insertFile.isModified ?? false,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -244,15 +358,80 @@ if __name__ == "__main__":
     const file = this.files.get(id);
     if (!file) return undefined;
     
-    const updatedFile = { ...file, ...fileUpdate, updatedAt: new Date() };
+    const updatedFile = { ...file, ...withNormalizedPath(fileUpdate), updatedAt: new Date() };
     this.files.set(id, updatedFile);
     return updatedFile;
   }
 
   async deleteFile(id: string): Promise<boolean> {
+    Array.from(this.revisions.entries())
+      .filter(([_, revision]) => revision.fileId === id)
+      .forEach(([revisionId, _]) => this.revisions.delete(revisionId));
     return this.files.delete(id);
   }
 
+  // Folder methods
+  async getFoldersByProject(projectId: string): Promise<Folder[]> {
+    return Array.from(this.folders.values()).filter(folder => folder.projectId === projectId);
+  }
+
+  async createFolder(insertFolder: InsertFolder): Promise<Folder> {
+    const id = randomUUID();
+    const folder: Folder = {
+      ...withNormalizedPath(insertFolder),
+      id,
+      createdAt: new Date(),
+    };
+    this.folders.set(id, folder);
+    return folder;
+  }
+
+  async updateFolder(id: string, folderUpdate: Partial<Folder>): Promise<Folder | undefined> {
+    const folder = this.folders.get(id);
+    if (!folder) return undefined;
+
+    const updatedFolder = { ...folder, ...withNormalizedPath(folderUpdate) };
+    this.folders.set(id, updatedFolder);
+    return updatedFolder;
+  }
+
+  async deleteFolder(id: string): Promise<boolean> {
+    return this.folders.delete(id);
+  }
+
+  // File revision methods
+  async getFileRevision(id: string): Promise<FileRevision | undefined> {
+    return this.revisions.get(id);
+  }
+
+  async getFileRevisions(fileId: string): Promise<FileRevision[]> {
+    // Newest first
+    return Array.from(this.revisions.values())
+      .filter(revision => revision.fileId === fileId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createFileRevision(insertRevision: InsertFileRevision): Promise<FileRevision> {
+    const id = randomUUID();
+    const revision: FileRevision = {
+      ...insertRevision,
+      id,
+      source: insertRevision.source ?? null,
+      createdAt: new Date(),
+    };
+    this.revisions.set(id, revision);
+    return revision;
+  }
+
+  async updateFileRevision(id: string, revisionUpdate: Partial<FileRevision>): Promise<FileRevision | undefined> {
+    const revision = this.revisions.get(id);
+    if (!revision) return undefined;
+
+    const updatedRevision = { ...revision, ...revisionUpdate };
+    this.revisions.set(id, updatedRevision);
+    return updatedRevision;
+  }
+
   // AI Conversation methods
   async getConversation(id: string): Promise<AIConversation | undefined> {
     return this.conversations.get(id);
@@ -265,8 +444,9 @@ if __name__ == "__main__":
   async createConversation(insertConversation: InsertAIConversation): Promise<AIConversation> {
     const id = randomUUID();
     const conversation: AIConversation = {
-      ...insertConversation,
       id,
+      projectId: insertConversation.projectId ?? null,
+      messages: (insertConversation.messages ?? []) as AIConversation["messages"],
       createdAt: new Date(),
     };
     this.conversations.set(id, conversation);
@@ -283,4 +463,245 @@ if __name__ == "__main__":
   }
 }
 
-export const storage = new MemStorage();
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, userUpdate: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = userUpdate;
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Project methods
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjects(): Promise<Project[]> {
+    return await this.db.select().from(projects).orderBy(projects.createdAt);
+  }
+
+  async getProjectsForUser(userId: string): Promise<Project[]> {
+    const memberProjectIds = this.db
+      .select({ projectId: projectMembers.projectId })
+      .from(projectMembers)
+      .where(eq(projectMembers.userId, userId));
+
+    return await this.db
+      .select()
+      .from(projects)
+      .where(or(eq(projects.ownerId, userId), inArray(projects.id, memberProjectIds)))
+      .orderBy(projects.createdAt);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(insertProject).returning();
+    return project;
+  }
+
+  async updateProject(id: string, projectUpdate: Partial<Project>): Promise<Project | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = projectUpdate;
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    // Children first: members, revisions, files, folders and conversations
+    // reference the project. One transaction, so a failure leaves no orphans.
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(projectMembers).where(eq(projectMembers.projectId, id));
+      await tx.delete(fileRevisions).where(eq(fileRevisions.projectId, id));
+      await tx.delete(files).where(eq(files.projectId, id));
+      await tx.delete(folders).where(eq(folders.projectId, id));
+      await tx.delete(aiConversations).where(eq(aiConversations.projectId, id));
+      const deleted = await tx.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Project member methods
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return await this.db
+      .select()
+      .from(projectMembers)
+      .where(eq(projectMembers.projectId, projectId))
+      .orderBy(projectMembers.createdAt);
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return member;
+  }
+
+  async addProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
+    const [member] = await this.db.insert(projectMembers).values(insertMember).returning();
+    return member;
+  }
+
+  async updateProjectMember(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined> {
+    const [member] = await this.db
+      .update(projectMembers)
+      .set({ role })
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning({ id: projectMembers.id });
+    return deleted.length > 0;
+  }
+
+  // File methods
+  async getFile(id: string): Promise<File | undefined> {
+    const [file] = await this.db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  async getFilesByProject(projectId: string): Promise<File[]> {
+    return await this.db.select().from(files).where(eq(files.projectId, projectId)).orderBy(files.createdAt);
+  }
+
+  async createFile(insertFile: InsertFile): Promise<File> {
+    const [file] = await this.db.insert(files).values(withNormalizedPath(insertFile)).returning();
+    return file;
+  }
+
+  async updateFile(id: string, fileUpdate: Partial<File>): Promise<File | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = withNormalizedPath(fileUpdate);
+    const [file] = await this.db
+      .update(files)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async deleteFile(id: string): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(fileRevisions).where(eq(fileRevisions.fileId, id));
+      const deleted = await tx.delete(files).where(eq(files.id, id)).returning({ id: files.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Folder methods
+  async getFoldersByProject(projectId: string): Promise<Folder[]> {
+    return await this.db.select().from(folders).where(eq(folders.projectId, projectId));
+  }
+
+  async createFolder(insertFolder: InsertFolder): Promise<Folder> {
+    const [folder] = await this.db.insert(folders).values(withNormalizedPath(insertFolder)).returning();
+    return folder;
+  }
+
+  async updateFolder(id: string, folderUpdate: Partial<Folder>): Promise<Folder | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = withNormalizedPath(folderUpdate);
+    const [folder] = await this.db
+      .update(folders)
+      .set(changes)
+      .where(eq(folders.id, id))
+      .returning();
+    return folder;
+  }
+
+  async deleteFolder(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(folders).where(eq(folders.id, id)).returning({ id: folders.id });
+    return deleted.length > 0;
+  }
+
+  // File revision methods
+  async getFileRevision(id: string): Promise<FileRevision | undefined> {
+    const [revision] = await this.db.select().from(fileRevisions).where(eq(fileRevisions.id, id));
+    return revision;
+  }
+
+  async getFileRevisions(fileId: string): Promise<FileRevision[]> {
+    return await this.db
+      .select()
+      .from(fileRevisions)
+      .where(eq(fileRevisions.fileId, fileId))
+      .orderBy(desc(fileRevisions.createdAt));
+  }
+
+  async createFileRevision(insertRevision: InsertFileRevision): Promise<FileRevision> {
+    const [revision] = await this.db.insert(fileRevisions).values(insertRevision).returning();
+    return revision;
+  }
+
+  async updateFileRevision(id: string, revisionUpdate: Partial<FileRevision>): Promise<FileRevision | undefined> {
+    const { id: _id, ...changes } = revisionUpdate;
+    const [revision] = await this.db
+      .update(fileRevisions)
+      .set(changes)
+      .where(eq(fileRevisions.id, id))
+      .returning();
+    return revision;
+  }
+
+  // AI Conversation methods
+  async getConversation(id: string): Promise<AIConversation | undefined> {
+    const [conversation] = await this.db.select().from(aiConversations).where(eq(aiConversations.id, id));
+    return conversation;
+  }
+
+  async getConversationsByProject(projectId: string): Promise<AIConversation[]> {
+    return await this.db
+      .select()
+      .from(aiConversations)
+      .where(eq(aiConversations.projectId, projectId))
+      .orderBy(aiConversations.createdAt);
+  }
+
+  async createConversation(insertConversation: InsertAIConversation): Promise<AIConversation> {
+    const [conversation] = await this.db
+      .insert(aiConversations)
+      .values({
+        ...insertConversation,
+        messages: insertConversation.messages as AIConversation["messages"],
+      })
+      .returning();
+    return conversation;
+  }
+
+  async updateConversation(id: string, conversationUpdate: Partial<AIConversation>): Promise<AIConversation | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = conversationUpdate;
+    const [conversation] = await this.db
+      .update(aiConversations)
+      .set(changes)
+      .where(eq(aiConversations.id, id))
+      .returning();
+    return conversation;
+  }
+}
+
+// Persist to Postgres when a database is provisioned, otherwise keep
+// everything in memory (data is lost on restart).
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
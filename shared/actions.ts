@@ -27,7 +27,7 @@ export const AddFileAction = z.object({
   name: z.string().min(1, 'File name is required'),
   content: z.string(),
   path: z.string(),
-  fileType: z.enum(['html', 'css', 'js', 'py', 'xml', 'java', 'kt', 'smali']),
+  fileType: z.enum(['html', 'css', 'js', 'py', 'ipynb', 'xml', 'java', 'kt', 'smali']),
 });
 
 export const UpdateFileAction = z.object({
@@ -59,10 +59,42 @@ export const ModifyApkAction = z.object({
   parameters: z.record(z.any()),
 });
 
+// Parameters for each modify_apk operation
+export const ChangeIconParameters = z.object({
+  image: z.string().optional(), // PNG as base64 or a data: URL
+  imagePath: z.string().optional(), // PNG already in the project
+}).refine(parameters => parameters.image || parameters.imagePath, 'image or imagePath is required');
+
+export const ModifyStringsParameters = z.object({
+  locale: z.string().optional(), // Applies to `strings`; the default values when omitted
+  strings: z.record(z.string()).optional(), // name -> new text
+  locales: z.record(z.record(z.string())).optional(), // locale -> name -> new text
+}).refine(parameters => parameters.strings || parameters.locales, 'strings or locales is required');
+
+export const ChangeThemeParameters = z.object({
+  colorPrimary: z.string().optional(),
+  colorPrimaryDark: z.string().optional(),
+  colorAccent: z.string().optional(),
+  parent: z.string().optional(), // e.g. "Theme.AppCompat.Light.NoActionBar"
+});
+
+export const AddFeatureParameters = z.object({
+  permissions: z.array(z.string()).optional(), // "CAMERA" or "android.permission.CAMERA"
+  activities: z.array(z.union([
+    z.string(),
+    z.object({
+      name: z.string(),
+      exported: z.boolean().optional(),
+      label: z.string().optional(),
+    }),
+  ])).optional(),
+});
+
 export const RunPythonAction = z.object({
   type: z.literal('run_python'),
   code: z.string().min(1, 'Python code is required'),
   description: z.string().optional(),
+  projectId: z.string().optional(), // Runs with that project's virtual environment
 });
 
 export const GenerateCodeSnippetAction = z.object({
@@ -0,0 +1,11 @@
+// Rich outputs of a Python run: matplotlib figures and whatever the script
+// passed to the `display` helper, in the order they were produced
+
+export type PythonArtifactType = 'image/png' | 'image/svg+xml' | 'text/html' | 'application/json';
+
+export interface PythonArtifact {
+  name: string;
+  mimeType: PythonArtifactType;
+  // Base64 for PNG, the text itself for everything else
+  data: string;
+}
@@ -0,0 +1,280 @@
+// Jupyter notebooks (.ipynb). The file content is the notebook in nbformat v4
+// JSON, so a notebook downloaded from the IDE opens in Jupyter and the other
+// way round. In memory, multiline strings (cell sources, stream text, text
+// MIME data) are kept joined; they are split into lines again on save, as
+// Jupyter writes them.
+
+export type NotebookCellType = 'code' | 'markdown' | 'raw';
+
+// MIME type -> data: base64 for images, parsed JSON for application/json,
+// the text itself for everything else
+export type MimeBundle = Record<string, unknown>;
+
+export type NotebookOutput =
+  | { output_type: 'stream'; name: 'stdout' | 'stderr'; text: string }
+  | { output_type: 'display_data'; data: MimeBundle; metadata: Record<string, unknown> }
+  | { output_type: 'execute_result'; execution_count: number | null; data: MimeBundle; metadata: Record<string, unknown> }
+  | { output_type: 'error'; ename: string; evalue: string; traceback: string[] };
+
+export interface NotebookCell {
+  id: string;
+  cell_type: NotebookCellType;
+  source: string;
+  metadata: Record<string, unknown>;
+  // Code cells only
+  execution_count?: number | null;
+  outputs?: NotebookOutput[];
+  // Images pasted into markdown cells, kept as they were
+  attachments?: Record<string, MimeBundle>;
+}
+
+export interface Notebook {
+  nbformat: 4;
+  nbformat_minor: number;
+  metadata: Record<string, unknown>;
+  cells: NotebookCell[];
+}
+
+export class NotebookFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotebookFormatError';
+  }
+}
+
+// Cell ids arrived in nbformat 4.5; every cell written here has one
+const NBFORMAT_MINOR = 5;
+const CELL_ID = /^[a-zA-Z0-9_-]{1,64}$/;
+const CELL_TYPES: NotebookCellType[] = ['code', 'markdown', 'raw'];
+
+export function newCellId(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
+}
+
+export function createCell(cellType: NotebookCellType, source = ''): NotebookCell {
+  const cell: NotebookCell = { id: newCellId(), cell_type: cellType, source, metadata: {} };
+  if (cellType === 'code') {
+    cell.execution_count = null;
+    cell.outputs = [];
+  }
+  return cell;
+}
+
+export function createNotebook(): Notebook {
+  return {
+    nbformat: 4,
+    nbformat_minor: NBFORMAT_MINOR,
+    metadata: {
+      kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' },
+      language_info: { name: 'python' },
+    },
+    cells: [createCell('code')],
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinMultiline(value: unknown): string {
+  if (Array.isArray(value)) return value.map(String).join('');
+  return typeof value === 'string' ? value : '';
+}
+
+// "a\nb\n" -> ["a\n", "b\n"], the way nbformat stores multiline strings
+function splitLines(text: string): string[] {
+  const lines: string[] = [];
+  let start = 0;
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', start)) {
+    lines.push(text.slice(start, index + 1));
+    start = index + 1;
+  }
+  if (start < text.length) lines.push(text.slice(start));
+  return lines;
+}
+
+function isJsonMimeType(mimeType: string): boolean {
+  return mimeType === 'application/json' || mimeType.endsWith('+json');
+}
+
+function readMimeBundle(value: unknown): MimeBundle {
+  if (!isObject(value)) return {};
+  const bundle: MimeBundle = {};
+  for (const [mimeType, data] of Object.entries(value)) {
+    bundle[mimeType] = isJsonMimeType(mimeType) ? data : joinMultiline(data);
+  }
+  return bundle;
+}
+
+function writeMimeBundle(bundle: MimeBundle): MimeBundle {
+  const written: MimeBundle = {};
+  for (const [mimeType, data] of Object.entries(bundle)) {
+    // Base64 images stay a single string, like Jupyter writes them
+    const multiline = typeof data === 'string' && (mimeType.startsWith('text/') || mimeType === 'image/svg+xml');
+    written[mimeType] = multiline ? splitLines(data as string) : data;
+  }
+  return written;
+}
+
+function readOutput(value: unknown): NotebookOutput | null {
+  if (!isObject(value)) return null;
+  switch (value.output_type) {
+    case 'stream':
+      return { output_type: 'stream', name: value.name === 'stderr' ? 'stderr' : 'stdout', text: joinMultiline(value.text) };
+    case 'display_data':
+      return { output_type: 'display_data', data: readMimeBundle(value.data), metadata: isObject(value.metadata) ? value.metadata : {} };
+    case 'execute_result':
+      return {
+        output_type: 'execute_result',
+        execution_count: typeof value.execution_count === 'number' ? value.execution_count : null,
+        data: readMimeBundle(value.data),
+        metadata: isObject(value.metadata) ? value.metadata : {},
+      };
+    case 'error':
+      return {
+        output_type: 'error',
+        ename: String(value.ename ?? ''),
+        evalue: String(value.evalue ?? ''),
+        traceback: Array.isArray(value.traceback) ? value.traceback.map(String) : [],
+      };
+    default:
+      return null;
+  }
+}
+
+function writeOutput(output: NotebookOutput): Record<string, unknown> {
+  switch (output.output_type) {
+    case 'stream':
+      return { ...output, text: splitLines(output.text) };
+    case 'display_data':
+    case 'execute_result':
+      return { ...output, data: writeMimeBundle(output.data) };
+    default:
+      return { ...output };
+  }
+}
+
+function readCell(value: unknown, index: number, usedIds: Set<string>): NotebookCell {
+  if (!isObject(value) || !CELL_TYPES.includes(value.cell_type as NotebookCellType)) {
+    throw new NotebookFormatError(`La celda ${index + 1} no es válida`);
+  }
+  let id = typeof value.id === 'string' && CELL_ID.test(value.id) && !usedIds.has(value.id) ? value.id : newCellId();
+  while (usedIds.has(id)) id = newCellId();
+  usedIds.add(id);
+
+  const cell: NotebookCell = {
+    id,
+    cell_type: value.cell_type as NotebookCellType,
+    source: joinMultiline(value.source),
+    metadata: isObject(value.metadata) ? value.metadata : {},
+  };
+  if (cell.cell_type === 'code') {
+    cell.execution_count = typeof value.execution_count === 'number' ? value.execution_count : null;
+    cell.outputs = Array.isArray(value.outputs)
+      ? value.outputs.map(readOutput).filter((output): output is NotebookOutput => output !== null)
+      : [];
+  } else if (isObject(value.attachments)) {
+    cell.attachments = {};
+    for (const [name, bundle] of Object.entries(value.attachments)) {
+      cell.attachments[name] = readMimeBundle(bundle);
+    }
+  }
+  return cell;
+}
+
+// Read a notebook file. Empty content is a new notebook; anything that is not
+// nbformat v4 throws NotebookFormatError.
+export function parseNotebook(content: string): Notebook {
+  if (content.trim() === '') return createNotebook();
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    throw new NotebookFormatError('El cuaderno no es un JSON válido');
+  }
+  if (!isObject(value)) {
+    throw new NotebookFormatError('El cuaderno no es un JSON válido');
+  }
+  if (value.nbformat !== 4) {
+    throw new NotebookFormatError(`Solo se admiten cuadernos nbformat 4 (este es nbformat ${String(value.nbformat ?? 'desconocido')})`);
+  }
+  if (!Array.isArray(value.cells)) {
+    throw new NotebookFormatError('El cuaderno no tiene lista de celdas');
+  }
+  const usedIds = new Set<string>();
+  return {
+    nbformat: 4,
+    nbformat_minor: Math.max(typeof value.nbformat_minor === 'number' ? value.nbformat_minor : 0, NBFORMAT_MINOR),
+    metadata: isObject(value.metadata) ? value.metadata : {},
+    cells: value.cells.map((cell, index) => readCell(cell, index, usedIds)),
+  };
+}
+
+// Keys sorted at every level, as Jupyter writes them, so saving a notebook
+// from either side gives small diffs
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isObject(value)) return value;
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (value[key] !== undefined) sorted[key] = sortKeys(value[key]);
+  }
+  return sorted;
+}
+
+export function serializeNotebook(notebook: Notebook): string {
+  const cells = notebook.cells.map((cell) => {
+    const written: Record<string, unknown> = {
+      id: cell.id,
+      cell_type: cell.cell_type,
+      metadata: cell.metadata,
+      source: splitLines(cell.source),
+    };
+    if (cell.cell_type === 'code') {
+      written.execution_count = cell.execution_count ?? null;
+      written.outputs = (cell.outputs ?? []).map(writeOutput);
+    } else if (cell.attachments) {
+      written.attachments = Object.fromEntries(
+        Object.entries(cell.attachments).map(([name, bundle]) => [name, writeMimeBundle(bundle)]),
+      );
+    }
+    return written;
+  });
+  return JSON.stringify(sortKeys({ ...notebook, cells }), null, 1) + '\n';
+}
+
+// Consecutive stream output of the same kind is shown (and stored) as one
+// block, as Jupyter does
+export function appendOutput(outputs: NotebookOutput[], output: NotebookOutput): NotebookOutput[] {
+  const last = outputs[outputs.length - 1];
+  if (output.output_type === 'stream' && last?.output_type === 'stream' && last.name === output.name) {
+    return [...outputs.slice(0, -1), { ...last, text: last.text + output.text }];
+  }
+  return [...outputs, output];
+}
+
+// Cell execution over Socket.IO; the server answers only the socket that asked
+
+export type NotebookCellStatus = 'ok' | 'error' | 'aborted';
+
+export interface NotebookExecuteRequest {
+  projectId: string;
+  fileId: string;
+  cellId: string;
+  code: string;
+}
+
+export interface NotebookCellOutput {
+  projectId: string;
+  fileId: string;
+  cellId: string;
+  output: NotebookOutput;
+}
+
+export interface NotebookCellFinished {
+  projectId: string;
+  fileId: string;
+  cellId: string;
+  status: NotebookCellStatus;
+  executionCount: number | null;
+}
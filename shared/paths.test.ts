@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { InvalidPathError, MAX_PATH_LENGTH, MAX_SEGMENT_LENGTH, joinProjectPath, normalizeProjectPath, type InvalidPathReason } from "./paths";
+
+function reasonFor(run: () => unknown): InvalidPathReason | undefined {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof InvalidPathError) return error.reason;
+    throw error;
+  }
+  return undefined;
+}
+
+describe("normalizeProjectPath", () => {
+  it.each([
+    ["/src/app.js", "/src/app.js"],
+    ["src/app.js", "/src/app.js"],
+    ["src\\lib\\app.js", "/src/lib/app.js"],
+    ["/src//./app.js", "/src/app.js"],
+    ["a/b/../c.txt", "/a/c.txt"],
+    ["/docs/", "/docs"],
+    [".env", "/.env"],
+    ["console.txt", "/console.txt"],
+    ["a..b", "/a..b"],
+  ])("canonicalizes %j to %j", (input, expected) => {
+    expect(normalizeProjectPath(input)).toBe(expected);
+  });
+
+  it.each<[string, InvalidPathReason]>([
+    ["", "empty"],
+    ["   ", "empty"],
+    ["/", "empty"],
+    ["./.", "empty"],
+    ["a/..", "empty"],
+    ["../../server/index.ts", "traversal"],
+    ["a/../../x", "traversal"],
+    ["/..", "traversal"],
+    ["..\\..\\server\\index.ts", "traversal"],
+    ["C:\\x", "absolute"],
+    ["c:/x", "absolute"],
+    ["/src/C:/x", "absolute"],
+    ["//srv/x", "absolute"],
+    ["\\\\srv\\x", "absolute"],
+    ["a\0b", "nul_byte"],
+    ["src/app.js\0.txt", "nul_byte"],
+    ["a\nb", "control_character"],
+    ["a\tb", "control_character"],
+    ["a\x1b[31mb", "control_character"],
+    ["a\x7fb", "control_character"],
+    ["con.txt", "reserved_name"],
+    ["CON", "reserved_name"],
+    ["src/nul", "reserved_name"],
+    ["lpt1.log", "reserved_name"],
+    ["com9", "reserved_name"],
+    ["notes.", "reserved_name"],
+    ["notes ", "reserved_name"],
+    ["src./app.js", "reserved_name"],
+    ["x".repeat(MAX_SEGMENT_LENGTH + 1), "too_long"],
+    [Array(MAX_PATH_LENGTH / 8).fill("abcdefgh").join("/"), "too_long"],
+  ])("rejects %j as %s", (input, reason) => {
+    expect(reasonFor(() => normalizeProjectPath(input))).toBe(reason);
+  });
+
+  it("keeps the rejected input on the error", () => {
+    expect(() => normalizeProjectPath("../x")).toThrow(expect.objectContaining({ path: "../x", name: "InvalidPathError" }));
+  });
+});
+
+describe("joinProjectPath", () => {
+  it("joins parts relative to each other", () => {
+    expect(joinProjectPath("/src", "app.js")).toBe("/src/app.js");
+    expect(joinProjectPath("pages", "home", "index.html")).toBe("/pages/home/index.html");
+    expect(joinProjectPath("/src", "../README.md")).toBe("/README.md");
+    expect(joinProjectPath("/", "app.js")).toBe("/app.js");
+  });
+
+  it.each<[string[], InvalidPathReason]>([
+    [["/src", "../../server/index.ts"], "traversal"],
+    [["/src", "a/../../../x"], "traversal"],
+    [["/src", "C:\\x"], "absolute"],
+    [["C:\\x", "app.js"], "absolute"],
+    [["/src", "//srv/x"], "absolute"],
+    [["/src", "\\\\srv\\x"], "absolute"],
+    [["/src", "a\0b"], "nul_byte"],
+    [["/src", "a\rb"], "control_character"],
+    [["/src", "con.txt"], "reserved_name"],
+    [["/src", "notes."], "reserved_name"],
+    [["/src", "notes "], "reserved_name"],
+  ])("rejects %j as %s", (parts, reason) => {
+    expect(reasonFor(() => joinProjectPath(...parts))).toBe(reason);
+  });
+});
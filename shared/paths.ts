@@ -0,0 +1,153 @@
+// Project file paths are virtual POSIX paths rooted at the project directory,
+// stored in canonical form ("/src/app.js"). Everything that touches a file
+// path — storage, the file system and AI actions — goes through this module.
+
+export type InvalidPathReason =
+  | 'empty'
+  | 'nul_byte'
+  | 'control_character'
+  | 'absolute'
+  | 'traversal'
+  | 'reserved_name'
+  | 'too_long';
+
+export class InvalidPathError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly reason: InvalidPathReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'InvalidPathError';
+  }
+}
+
+export const MAX_PATH_LENGTH = 1024;
+export const MAX_SEGMENT_LENGTH = 255;
+
+// Device names Windows refuses to create, with or without an extension
+const RESERVED_NAME = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+const DRIVE_LETTER = /^[a-zA-Z]:/;
+
+// Canonicalize a project-relative path. A single leading "/" means the project
+// root; backslashes are treated as separators and "." / ".." segments are
+// resolved, but a path may never climb above the root.
+export function normalizeProjectPath(input: string): string {
+  if (typeof input !== 'string' || input.trim() === '') {
+    throw new InvalidPathError(String(input), 'empty', 'Path must not be empty');
+  }
+  if (input.includes('\0')) {
+    throw new InvalidPathError(input, 'nul_byte', 'Path must not contain NUL bytes');
+  }
+  if (/[\x01-\x1f\x7f]/.test(input)) {
+    throw new InvalidPathError(input, 'control_character', 'Path must not contain control characters');
+  }
+
+  const slashed = input.replace(/\\/g, '/');
+  if (DRIVE_LETTER.test(slashed) || slashed.startsWith('//')) {
+    throw new InvalidPathError(input, 'absolute', `Absolute paths are not allowed: ${input}`);
+  }
+
+  const segments: string[] = [];
+  for (const segment of slashed.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (DRIVE_LETTER.test(segment)) {
+      throw new InvalidPathError(input, 'absolute', `Absolute paths are not allowed: ${input}`);
+    }
+    if (segment === '..') {
+      if (segments.length === 0) {
+        throw new InvalidPathError(input, 'traversal', `Path escapes the project directory: ${input}`);
+      }
+      segments.pop();
+      continue;
+    }
+    if (RESERVED_NAME.test(segment) || /[. ]$/.test(segment)) {
+      throw new InvalidPathError(input, 'reserved_name', `Reserved file name: ${segment}`);
+    }
+    if (segment.length > MAX_SEGMENT_LENGTH) {
+      throw new InvalidPathError(input, 'too_long', `Path segment is too long: ${segment.slice(0, 32)}...`);
+    }
+    segments.push(segment);
+  }
+
+  if (segments.length === 0) {
+    throw new InvalidPathError(input, 'empty', 'Path must name a file inside the project');
+  }
+
+  const normalized = '/' + segments.join('/');
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw new InvalidPathError(input, 'too_long', 'Path is too long');
+  }
+  return normalized;
+}
+
+export function isValidProjectPath(input: string): boolean {
+  try {
+    normalizeProjectPath(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Every part is relative to the one before it, so a part that is an absolute
+// path of its own (a drive letter or a UNC share) is refused rather than joined
+export function joinProjectPath(...parts: string[]): string {
+  const trimmed = parts.map(part => part.replace(/[\\/]+$/, ''));
+  for (const part of trimmed.slice(1)) {
+    if (part.replace(/\\/g, '/').startsWith('//')) {
+      throw new InvalidPathError(part, 'absolute', `Absolute paths are not allowed: ${part}`);
+    }
+  }
+  return normalizeProjectPath(trimmed.join('/'));
+}
+
+export function projectPathBasename(normalizedPath: string): string {
+  return normalizedPath.slice(normalizedPath.lastIndexOf('/') + 1);
+}
+
+export function projectPathDirname(normalizedPath: string): string {
+  const index = normalizedPath.lastIndexOf('/');
+  return index <= 0 ? '/' : normalizedPath.slice(0, index);
+}
+
+const FILE_TYPES_BY_EXTENSION: Record<string, string> = {
+  htm: 'html',
+  html: 'html',
+  css: 'css',
+  js: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  jsx: 'js',
+  py: 'py',
+  ipynb: 'ipynb',
+  xml: 'xml',
+  java: 'java',
+  kt: 'kt',
+  smali: 'smali',
+};
+
+// The file `type` used by the editor, inferred from the extension; unknown
+// extensions are kept as-is so they still get a sensible label
+export function inferFileType(normalizedPath: string): string {
+  const name = projectPathBasename(normalizedPath);
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) return 'txt';
+  const extension = name.slice(dot + 1).toLowerCase();
+  return FILE_TYPES_BY_EXTENSION[extension] ?? extension;
+}
+
+// Smali disassembled from an APK's classes*.dex, laid out as apktool does
+// (`/smali/` for classes.dex, `/smali_classes2/` for classes2.dex, ...).
+// These files are generated and read-only.
+const SMALI_ROOT = /^\/smali(_classes\d+)?\//;
+
+export function isGeneratedSmaliPath(normalizedPath: string): boolean {
+  return SMALI_ROOT.test(normalizedPath);
+}
+
+export function smaliPathForClass(dexPath: string, descriptor: string): string {
+  const dexName = projectPathBasename(dexPath).replace(/\.dex$/, '');
+  const root = dexName === 'classes' ? '/smali' : `/smali_${dexName}`;
+  return normalizeProjectPath(`${root}/${descriptor.slice(1, -1)}.smali`);
+}
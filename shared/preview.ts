@@ -0,0 +1,54 @@
+// Messages the web preview's console bridge posts to the IDE window
+
+export const PREVIEW_CONSOLE_SOURCE = 'preview-console';
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface PreviewConsoleMessage {
+  source: typeof PREVIEW_CONSOLE_SOURCE;
+  level: PreviewConsoleLevel;
+  message: string;
+  // Project path of the script, or the URL when it is not a project file
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export function isPreviewConsoleMessage(data: unknown): data is PreviewConsoleMessage {
+  return typeof data === 'object' && data !== null
+    && (data as PreviewConsoleMessage).source === PREVIEW_CONSOLE_SOURCE
+    && typeof (data as PreviewConsoleMessage).message === 'string';
+}
+
+// Sandbox flags for preview pages, used for both the iframe's sandbox
+// attribute and the CSP header. Never allow-same-origin: the pages are served
+// from the IDE's own host.
+export const PREVIEW_SANDBOX = 'allow-scripts allow-forms allow-modals allow-popups';
+
+// Commands the IDE window posts to the preview page's bridge. The page's
+// origin is opaque, so they are sent to any origin and carry nothing private.
+export const PREVIEW_COMMAND_SOURCE = 'preview-command';
+
+export type PreviewCommandBody =
+  | { type: 'reload' }
+  | { type: 'scroll'; x: number; y: number }
+  // Swap the page's <link> to a project stylesheet; reloads when there is none
+  | { type: 'stylesheet'; path: string };
+
+export type PreviewCommand = PreviewCommandBody & { source: typeof PREVIEW_COMMAND_SOURCE };
+
+// Posted by the bridge right before the page reloads, with its scroll position
+export const PREVIEW_RELOADING_SOURCE = 'preview-reloading';
+
+export interface PreviewReloadingMessage {
+  source: typeof PREVIEW_RELOADING_SOURCE;
+  x: number;
+  y: number;
+}
+
+export function isPreviewReloadingMessage(data: unknown): data is PreviewReloadingMessage {
+  return typeof data === 'object' && data !== null
+    && (data as PreviewReloadingMessage).source === PREVIEW_RELOADING_SOURCE
+    && typeof (data as PreviewReloadingMessage).x === 'number'
+    && typeof (data as PreviewReloadingMessage).y === 'number';
+}
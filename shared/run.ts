@@ -0,0 +1,42 @@
+import type { PythonArtifact } from "./artifacts";
+
+// Runs of a project's entry file, as sent to the project room over Socket.IO
+
+export interface ProjectRunInfo {
+  runId: string;
+  projectId: string;
+  // Project path of the file being run
+  entry: string;
+  // Username of whoever started it
+  startedBy: string;
+  startedAt: string;
+}
+
+export interface ProjectRunResult extends ProjectRunInfo {
+  exitCode: number | null;
+  timedOut: boolean;
+  truncated: boolean;
+  // Ended by a stop request rather than on its own
+  stopped: boolean;
+  durationMs: number;
+  // Figures and display() outputs, in order
+  artifacts: PythonArtifact[];
+}
+
+// 'stdin' echoes terminal input so everyone watching sees what was typed
+export type RunOutputStream = 'stdout' | 'stderr' | 'stdin';
+
+export interface RunOutput {
+  projectId: string;
+  stream: RunOutputStream;
+  data: string;
+}
+
+// The entry the "Ejecutar" button runs: the open Python file, otherwise
+// /main.py, otherwise the first Python file of the project
+export function defaultRunEntry(paths: string[], selectedPath?: string | null): string | null {
+  const python = paths.filter(path => path.toLowerCase().endsWith('.py'));
+  if (selectedPath && python.includes(selectedPath)) return selectedPath;
+  if (python.includes('/main.py')) return '/main.py';
+  return python.sort()[0] ?? null;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,7 @@ export const projects = pgTable("projects", {
   name: text("name").notNull(),
   type: text("type").notNull(), // 'web', 'apk', 'python'
   description: text("description"),
+  ownerId: varchar("owner_id").references(() => users.id),
   files: json("files").$type<Record<string, string>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -19,12 +20,47 @@ export const files = pgTable("files", {
   path: text("path").notNull(),
   name: text("name").notNull(),
   content: text("content").notNull(),
-  type: text("type").notNull(), // 'html', 'css', 'js', 'py', 'xml', 'java', 'kt', 'smali'
+  type: text("type").notNull(), // 'html', 'css', 'js', 'py', 'ipynb', 'xml', 'java', 'kt', 'smali'
   isModified: boolean("is_modified").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Folders that contain files are derived from file paths; this table only
+// has to remember folders the user created explicitly (possibly empty)
+export const folders = pgTable("folders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id).notNull(),
+  path: text("path").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("folders_project_path_unique").on(table.projectId, table.path),
+]);
+
+export const projectRoles = ['owner', 'editor', 'viewer'] as const;
+export type ProjectRole = typeof projectRoles[number];
+
+export const projectMembers = pgTable("project_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  role: text("role").$type<ProjectRole>().notNull(), // 'editor', 'viewer' (owners live in projects.owner_id)
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("project_members_project_user_unique").on(table.projectId, table.userId),
+]);
+
+export const fileRevisions = pgTable("file_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileId: varchar("file_id").references(() => files.id).notNull(),
+  projectId: varchar("project_id").references(() => projects.id).notNull(),
+  path: text("path").notNull(),
+  content: text("content").notNull(),
+  author: text("author").notNull(), // 'user', 'ai'
+  source: text("source"), // 'editor', 'restore', 'ai_generate', 'update_file', ...
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const aiConversations = pgTable("ai_conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").references(() => projects.id),
@@ -32,10 +68,16 @@ export const aiConversations = pgTable("ai_conversations", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const projectTypes = ['web', 'apk', 'python'] as const;
+export const projectTemplates = ['blank', 'basic_website', 'react_app', 'android_app', 'python_script'] as const;
+export type ProjectTemplate = typeof projectTemplates[number];
+
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  type: z.enum(projectTypes),
 });
 
 export const insertFileSchema = createInsertSchema(files).omit({
@@ -44,6 +86,23 @@ export const insertFileSchema = createInsertSchema(files).omit({
   updatedAt: true,
 });
 
+export const insertFolderSchema = createInsertSchema(folders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProjectMemberSchema = createInsertSchema(projectMembers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  role: z.enum(projectRoles),
+});
+
+export const insertFileRevisionSchema = createInsertSchema(fileRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAIConversationSchema = createInsertSchema(aiConversations).omit({
   id: true,
   createdAt: true,
@@ -51,8 +110,16 @@ export const insertAIConversationSchema = createInsertSchema(aiConversations).om
 
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
+export type ProjectWithRole = Project & { role: ProjectRole };
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type ProjectMember = typeof projectMembers.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type InsertFolder = z.infer<typeof insertFolderSchema>;
+export type Folder = typeof folders.$inferSelect;
+export type InsertFileRevision = z.infer<typeof insertFileRevisionSchema>;
+export type FileRevision = typeof fileRevisions.$inferSelect;
+export type RevisionAuthor = 'user' | 'ai';
 export type InsertAIConversation = z.infer<typeof insertAIConversationSchema>;
 export type AIConversation = typeof aiConversations.$inferSelect;
 
@@ -61,6 +128,7 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  lastProjectId: varchar("last_project_id"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({